@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."player_sessions" ADD COLUMN     "duration" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."rooms" ADD COLUMN     "isDefault" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "mapName" TEXT NOT NULL DEFAULT 'main_map',
+ADD COLUMN     "seed" INTEGER NOT NULL DEFAULT 12345;
+
+-- CreateIndex
+CREATE INDEX "player_sessions_playerId_joinedAt_idx" ON "public"."player_sessions"("playerId", "joinedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."player_sessions" ADD CONSTRAINT "player_sessions_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "public"."chunk_deltas" (
+    "id" TEXT NOT NULL,
+    "chunkX" INTEGER NOT NULL,
+    "chunkZ" INTEGER NOT NULL,
+    "blocks" JSONB NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chunk_deltas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chunk_deltas_chunkX_chunkZ_key" ON "public"."chunk_deltas"("chunkX", "chunkZ");
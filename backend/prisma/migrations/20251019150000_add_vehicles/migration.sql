@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."vehicles" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "position" JSONB NOT NULL,
+    "rotation" JSONB NOT NULL,
+    "health" INTEGER NOT NULL DEFAULT 100,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vehicles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vehicles_ownerId_idx" ON "public"."vehicles"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."vehicles" ADD CONSTRAINT "vehicles_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "public"."players"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."rooms" DROP COLUMN "seed";
@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "public"."chunk_deltas_chunkX_chunkZ_key";
+
+-- AlterTable
+ALTER TABLE "public"."chunk_deltas" ADD COLUMN     "seed" INTEGER NOT NULL DEFAULT 12345;
+
+-- AlterTable
+ALTER TABLE "public"."rooms" ADD COLUMN     "seed" INTEGER NOT NULL DEFAULT 12345;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chunk_deltas_seed_chunkX_chunkZ_key" ON "public"."chunk_deltas"("seed", "chunkX", "chunkZ");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."players" ADD COLUMN     "isAdmin" BOOLEAN NOT NULL DEFAULT false;
@@ -2,12 +2,22 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { AuthController } from './auth/auth.controller';
+import { AuthService } from './auth/auth.service';
 import { GameGateway } from './events/game.gateway';
 import { GameController } from './game/game.controller';
+import { GameLoopService } from './game/game-loop.service';
+import { WorldClockService } from './game/world-clock.service';
+import { WeatherService } from './game/weather.service';
 import { BlocksController } from './blocks/blocks.controller';
 import { PlayerService } from './players/player.service';
 import { PlayerDatabaseService } from './players/player-database.service';
+import { MovementValidatorService } from './players/movement-validator.service';
 import { RoomService } from './rooms/room.service';
+import { RoomDatabaseService } from './rooms/room-database.service';
+import { VehicleService } from './vehicles/vehicle.service';
+import { VehicleDatabaseService } from './vehicles/vehicle-database.service';
+import { TrafficService } from './traffic/traffic.service';
 import { MapModule } from './map/map.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { BlocksModule } from './blocks/blocks.module';
@@ -21,7 +31,27 @@ import { BlocksModule } from './blocks/blocks.module';
     MapModule,
     BlocksModule,
   ],
-  controllers: [AppController, GameController, BlocksController],
-  providers: [AppService, GameGateway, PlayerService, PlayerDatabaseService, RoomService],
+  controllers: [
+    AppController,
+    AuthController,
+    GameController,
+    BlocksController,
+  ],
+  providers: [
+    AppService,
+    AuthService,
+    GameGateway,
+    PlayerService,
+    PlayerDatabaseService,
+    MovementValidatorService,
+    RoomService,
+    RoomDatabaseService,
+    GameLoopService,
+    WorldClockService,
+    WeatherService,
+    VehicleService,
+    VehicleDatabaseService,
+    TrafficService,
+  ],
 })
 export class AppModule {}
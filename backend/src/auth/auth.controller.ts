@@ -0,0 +1,59 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  Post,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { CredentialsDto, RefreshTokenDto } from './dto';
+
+@Controller('api/auth')
+@UsePipes(new ValidationPipe({ whitelist: true }))
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Post('register')
+  register(@Body() credentials: CredentialsDto) {
+    return this.authService.register(credentials.name, credentials.password);
+  }
+
+  @Post('login')
+  @HttpCode(200)
+  login(@Body() credentials: CredentialsDto) {
+    return this.authService.login(credentials.name, credentials.password);
+  }
+
+  @Post('refresh')
+  @HttpCode(200)
+  refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.refresh(refreshTokenDto.refreshToken);
+  }
+
+  // Rattacher un personnage sans mot de passe à un compte (administrateurs uniquement)
+  @Post('claim')
+  @HttpCode(200)
+  async claim(
+    @Headers('authorization') authorization: string | undefined,
+    @Body() credentials: CredentialsDto,
+  ) {
+    await this.authService.verifyAdminToken(
+      authorization?.replace(/^Bearer\s+/i, ''),
+    );
+    return this.authService.claimLegacyAccount(
+      credentials.name,
+      credentials.password,
+    );
+  }
+
+  @Get('me')
+  me(@Headers('authorization') authorization?: string) {
+    const payload = this.authService.verifyAccessToken(
+      authorization?.replace(/^Bearer\s+/i, ''),
+    );
+    return { id: payload.sub, name: payload.name, expiresAt: payload.exp };
+  }
+}
@@ -0,0 +1,192 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PlayerAccount,
+  PlayerDatabaseService,
+} from '../players/player-database.service';
+import { AUTH_ERRORS, AuthService } from './auth.service';
+
+describe('AuthService', () => {
+  let accounts: Map<string, PlayerAccount>;
+  let service: AuthService;
+
+  // Comptes en mémoire, recherchés par nom sans tenir compte de la casse comme en base
+  const playerDb = {
+    getAccountByName: (name: string) =>
+      Promise.resolve(accounts.get(name.toLowerCase()) ?? null),
+    getAccountById: (playerId: string) =>
+      Promise.resolve(
+        [...accounts.values()].find(({ id }) => id === playerId) ?? null,
+      ),
+    createAccount: (name: string, passwordHash: string) => {
+      const account = {
+        id: `player-${accounts.size + 1}`,
+        name,
+        passwordHash,
+        isAdmin: false,
+      };
+      accounts.set(name.toLowerCase(), account);
+      return Promise.resolve(account);
+    },
+    grantAdmin: (names: string[]) => {
+      for (const name of names) {
+        const account = accounts.get(name.toLowerCase());
+        if (account) account.isAdmin = true;
+      }
+      return Promise.resolve(names.length);
+    },
+    setPasswordHash: (playerId: string, passwordHash: string) => {
+      for (const account of accounts.values()) {
+        if (account.id === playerId) account.passwordHash = passwordHash;
+      }
+      return Promise.resolve();
+    },
+  };
+
+  beforeEach(() => {
+    accounts = new Map();
+    service = new AuthService(
+      new ConfigService({
+        AUTH_TOKEN_SECRET: 'test-secret',
+        AUTH_ACCESS_TOKEN_TTL: '60',
+        AUTH_REFRESH_TOKEN_TTL: '3600',
+        ADMIN_PLAYER_NAMES: 'admin',
+      }),
+      playerDb as unknown as PlayerDatabaseService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('issues an access token that identifies the player', async () => {
+    const result = await service.register(' alice ', 'secret-password');
+
+    expect(result.player).toEqual({ id: 'player-1', name: 'alice' });
+    expect(result.expiresIn).toBe(60);
+    expect(service.verifyAccessToken(result.accessToken)).toMatchObject({
+      sub: 'player-1',
+      name: 'alice',
+      type: 'access',
+    });
+  });
+
+  it('rejects tampered, expired and refresh tokens as access tokens', async () => {
+    const { accessToken, refreshToken } = await service.register(
+      'alice',
+      'secret-password',
+    );
+    const [header, , signature] = accessToken.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ sub: 'player-1', name: 'admin', type: 'access' }),
+    ).toString('base64url');
+
+    expect(() =>
+      service.verifyAccessToken(`${header}.${forged}.${signature}`),
+    ).toThrow(AUTH_ERRORS.invalid);
+    expect(() => service.verifyAccessToken(refreshToken)).toThrow(
+      AUTH_ERRORS.invalid,
+    );
+    expect(() => service.verifyAccessToken(undefined)).toThrow(
+      AUTH_ERRORS.required,
+    );
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000);
+    expect(() => service.verifyAccessToken(accessToken)).toThrow(
+      AUTH_ERRORS.expired,
+    );
+  });
+
+  it('refreshes tokens until the refresh token expires', async () => {
+    const { refreshToken } = await service.register('alice', 'secret-password');
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 120 * 1000);
+    const refreshed = await service.refresh(refreshToken);
+    expect(service.verifyAccessToken(refreshed.accessToken).name).toBe('alice');
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 3601 * 1000);
+    await expect(service.refresh(refreshToken)).rejects.toThrow(
+      AUTH_ERRORS.expired,
+    );
+  });
+
+  it('rejects a wrong password', async () => {
+    await service.register('alice', 'secret-password');
+
+    await expect(service.login('alice', 'wrong-password')).rejects.toThrow(
+      UnauthorizedException,
+    );
+    await expect(service.login('bob', 'secret-password')).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect((await service.login('alice', 'secret-password')).player.name).toBe(
+      'alice',
+    );
+  });
+
+  it('refuses to register a name that is already taken', async () => {
+    await service.register('alice', 'secret-password');
+
+    await expect(service.register('alice', 'other-password')).rejects.toThrow(
+      ConflictException,
+    );
+    await expect(service.register('ALICE', 'other-password')).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('grants admin rights from the account, not from the name', async () => {
+    await expect(service.register('Admin', 'secret-password')).rejects.toThrow(
+      ConflictException,
+    );
+    const { accessToken } = await service.register('bob', 'secret-password');
+    await expect(service.verifyAdminToken(accessToken)).rejects.toThrow(
+      ForbiddenException,
+    );
+
+    // Compte créé par l'opérateur, promu au démarrage par ADMIN_PLAYER_NAMES
+    accounts.set('admin', {
+      id: 'player-0',
+      name: 'admin',
+      passwordHash: null,
+      isAdmin: false,
+    });
+    await service.onModuleInit();
+    await service.claimLegacyAccount('admin', 'admin-password');
+    const admin = await service.login('ADMIN', 'admin-password');
+    await expect(service.verifyAdminToken(admin.accessToken)).resolves.toEqual(
+      expect.objectContaining({ sub: 'player-0', name: 'admin' }),
+    );
+  });
+
+  it('leaves characters without a password to the administrators', async () => {
+    accounts.set('legacy', {
+      id: 'player-0',
+      name: 'legacy',
+      passwordHash: null,
+      isAdmin: false,
+    });
+
+    await expect(service.register('legacy', 'my-password')).rejects.toThrow(
+      ConflictException,
+    );
+    await expect(service.login('legacy', 'my-password')).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    await service.claimLegacyAccount('legacy', 'my-password');
+    expect((await service.login('legacy', 'my-password')).player.id).toBe(
+      'player-0',
+    );
+    await expect(
+      service.claimLegacyAccount('legacy', 'other-password'),
+    ).rejects.toThrow(ConflictException);
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  ScryptOptions,
+} from 'crypto';
+import {
+  PlayerAccount,
+  PlayerDatabaseService,
+} from '../players/player-database.service';
+
+export type AuthTokenType = 'access' | 'refresh';
+
+export interface AuthTokenPayload {
+  sub: string; // Identifiant du joueur
+  name: string;
+  type: AuthTokenType;
+  iat: number; // secondes
+  exp: number; // secondes
+}
+
+export interface AuthResult {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // secondes
+  refreshExpiresIn: number; // secondes
+  player: { id: string; name: string };
+}
+
+// Erreurs renvoyées au client lors du handshake Socket.IO
+export const AUTH_ERRORS = {
+  required: 'AUTH_REQUIRED',
+  expired: 'TOKEN_EXPIRED',
+  invalid: 'TOKEN_INVALID',
+} as const;
+
+const scryptAsync = (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: ScryptOptions,
+): Promise<Buffer> =>
+  new Promise((resolve, reject) =>
+    scrypt(password, salt, keyLength, options, (error, key) =>
+      error ? reject(error) : resolve(key),
+    ),
+  );
+
+@Injectable()
+export class AuthService implements OnModuleInit {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly secret: string;
+  private readonly accessTokenTtl: number;
+  private readonly refreshTokenTtl: number;
+  private readonly adminNames: Set<string>;
+
+  // Paramètres scrypt (coût ~50 ms par vérification)
+  private readonly SCRYPT_KEY_LENGTH = 64;
+  private readonly SCRYPT_OPTIONS: ScryptOptions = { N: 16384, r: 8, p: 1 };
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly playerDb: PlayerDatabaseService,
+  ) {
+    const secret = this.configService.get<string>('AUTH_TOKEN_SECRET');
+    if (!secret) {
+      this.logger.warn(
+        '⚠️ AUTH_TOKEN_SECRET non défini : secret temporaire, les tokens seront invalidés au redémarrage',
+      );
+    }
+    this.secret = secret || randomBytes(32).toString('hex');
+    this.accessTokenTtl = Number(
+      this.configService.get('AUTH_ACCESS_TOKEN_TTL', 3600),
+    );
+    this.refreshTokenTtl = Number(
+      this.configService.get('AUTH_REFRESH_TOKEN_TTL', 7 * 24 * 3600),
+    );
+    // Comptes promus administrateurs au démarrage, séparés par des virgules
+    this.adminNames = new Set(
+      this.configService
+        .get<string>('ADMIN_PLAYER_NAMES', '')
+        .split(',')
+        .map((name) => name.trim().toLowerCase())
+        .filter((name) => name.length > 0),
+    );
+  }
+
+  // Les droits sont stockés sur le compte : la liste ne sert qu'à les accorder
+  async onModuleInit(): Promise<void> {
+    await this.playerDb.grantAdmin(Array.from(this.adminNames));
+  }
+
+  async register(name: string, password: string): Promise<AuthResult> {
+    const trimmedName = name.trim();
+    // Un nom d'administrateur ne peut pas être pris par un nouveau compte
+    if (this.adminNames.has(trimmedName.toLowerCase())) {
+      throw new ConflictException(`Le nom "${trimmedName}" est réservé`);
+    }
+    // Un personnage sans mot de passe (créé avant les comptes) n'est rattaché que par un administrateur
+    if (await this.playerDb.getAccountByName(trimmedName)) {
+      throw new ConflictException(`Le nom "${trimmedName}" est déjà utilisé`);
+    }
+
+    const account = await this.playerDb.createAccount(
+      trimmedName,
+      await this.hashPassword(password),
+    );
+    return this.issueTokens(account);
+  }
+
+  // Attribuer un mot de passe à un personnage créé avant les comptes
+  async claimLegacyAccount(
+    name: string,
+    password: string,
+  ): Promise<{ id: string; name: string }> {
+    const account = await this.playerDb.getAccountByName(name.trim());
+    if (!account) {
+      throw new NotFoundException(`Joueur ${name.trim()} introuvable`);
+    }
+    if (account.passwordHash) {
+      throw new ConflictException(
+        `Le joueur "${account.name}" a déjà un mot de passe`,
+      );
+    }
+
+    await this.playerDb.setPasswordHash(
+      account.id,
+      await this.hashPassword(password),
+    );
+    this.logger.log(`🔑 Personnage existant rattaché: ${account.name}`);
+    return { id: account.id, name: account.name };
+  }
+
+  async login(name: string, password: string): Promise<AuthResult> {
+    const account = await this.playerDb.getAccountByName(name.trim());
+    if (
+      !account?.passwordHash ||
+      !(await this.verifyPassword(password, account.passwordHash))
+    ) {
+      throw new UnauthorizedException('Nom ou mot de passe incorrect');
+    }
+
+    this.logger.log(`🔑 Connexion de ${account.name}`);
+    return this.issueTokens(account);
+  }
+
+  async refresh(refreshToken: string): Promise<AuthResult> {
+    const payload = this.verifyToken(refreshToken, 'refresh');
+    const account = await this.playerDb.getAccountByName(payload.name);
+    if (!account || account.id !== payload.sub) {
+      throw new UnauthorizedException(AUTH_ERRORS.invalid);
+    }
+    return this.issueTokens(account);
+  }
+
+  verifyAccessToken(token: string | undefined): AuthTokenPayload {
+    if (!token) {
+      throw new UnauthorizedException(AUTH_ERRORS.required);
+    }
+    return this.verifyToken(token, 'access');
+  }
+
+  async verifyAdminToken(token: string | undefined): Promise<AuthTokenPayload> {
+    const payload = this.verifyAccessToken(token);
+    const account = await this.playerDb.getAccountById(payload.sub);
+    if (!account?.isAdmin) {
+      throw new ForbiddenException('Droits administrateur requis');
+    }
+    return payload;
+  }
+
+  private issueTokens(account: PlayerAccount): AuthResult {
+    return {
+      accessToken: this.signToken(account, 'access', this.accessTokenTtl),
+      refreshToken: this.signToken(account, 'refresh', this.refreshTokenTtl),
+      expiresIn: this.accessTokenTtl,
+      refreshExpiresIn: this.refreshTokenTtl,
+      player: { id: account.id, name: account.name },
+    };
+  }
+
+  // Token signé au format JWT (HS256)
+  private signToken(
+    account: PlayerAccount,
+    type: AuthTokenType,
+    ttl: number,
+  ): string {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: AuthTokenPayload = {
+      sub: account.id,
+      name: account.name,
+      type,
+      iat: now,
+      exp: now + ttl,
+    };
+
+    const header = this.encode({ alg: 'HS256', typ: 'JWT' });
+    const body = this.encode(payload);
+    return `${header}.${body}.${this.sign(`${header}.${body}`)}`;
+  }
+
+  private verifyToken(token: string, type: AuthTokenType): AuthTokenPayload {
+    const [header, body, signature] = token.split('.');
+    if (!header || !body || !signature) {
+      throw new UnauthorizedException(AUTH_ERRORS.invalid);
+    }
+
+    const expected = Buffer.from(this.sign(`${header}.${body}`));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new UnauthorizedException(AUTH_ERRORS.invalid);
+    }
+
+    let payload: AuthTokenPayload;
+    try {
+      payload = JSON.parse(
+        Buffer.from(body, 'base64url').toString('utf8'),
+      ) as AuthTokenPayload;
+    } catch {
+      throw new UnauthorizedException(AUTH_ERRORS.invalid);
+    }
+
+    if (payload.type !== type) {
+      throw new UnauthorizedException(AUTH_ERRORS.invalid);
+    }
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      throw new UnauthorizedException(AUTH_ERRORS.expired);
+    }
+    return payload;
+  }
+
+  private sign(data: string): string {
+    return createHmac('sha256', this.secret).update(data).digest('base64url');
+  }
+
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+
+  // Format stocké : scrypt$<sel hex>$<hash hex>
+  private async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(
+      password,
+      salt,
+      this.SCRYPT_KEY_LENGTH,
+      this.SCRYPT_OPTIONS,
+    );
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+  }
+
+  private async verifyPassword(
+    password: string,
+    stored: string,
+  ): Promise<boolean> {
+    const [algorithm, saltHex, hashHex] = stored.split('$');
+    if (algorithm !== 'scrypt' || !saltHex || !hashHex) {
+      return false;
+    }
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const hash = await scryptAsync(
+      password,
+      Buffer.from(saltHex, 'hex'),
+      expected.length,
+      this.SCRYPT_OPTIONS,
+    );
+    return timingSafeEqual(expected, hash);
+  }
+}
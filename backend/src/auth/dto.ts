@@ -0,0 +1,17 @@
+import { IsString, IsNotEmpty, Length } from 'class-validator';
+
+export class CredentialsDto {
+  @IsString()
+  @Length(2, 20)
+  name: string;
+
+  @IsString()
+  @Length(6, 100)
+  password: string;
+}
+
+export class RefreshTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
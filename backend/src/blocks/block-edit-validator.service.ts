@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common';
+import { BlocksService, BlockType } from './blocks.service';
+import { PlayerData } from '../game/interfaces';
+import { collidesAt, isSolidBlockType } from '../shared/movement';
+
+export type BlockEditViolation =
+  | 'invalid'
+  | 'reach'
+  | 'protected'
+  | 'occupied'
+  | 'unsupported'
+  | 'cooldown';
+
+export interface BlockEditValidationResult {
+  valid: boolean;
+  reason?: BlockEditViolation;
+}
+
+// Blocs que les joueurs ne peuvent ni casser ni poser
+const PROTECTED_BLOCK_TYPES: BlockType[] = [BlockType.BEDROCK];
+const NON_PLACEABLE_BLOCK_TYPES: BlockType[] = [
+  BlockType.AIR,
+  BlockType.BEDROCK,
+];
+
+@Injectable()
+export class BlockEditValidatorService {
+  // Distance maximale entre les yeux du joueur et le centre du bloc
+  private readonly MAX_REACH = 6;
+  private readonly EYE_HEIGHT = 1.6;
+  // Zone protégée autour du spawn (rayon horizontal en blocs)
+  private readonly SPAWN_PROTECTION_RADIUS = 8;
+  private readonly EDIT_COOLDOWN_MS = 100;
+  private lastEdits: Map<string, number> = new Map();
+
+  constructor(private readonly blocksService: BlocksService) {}
+
+  // seed : monde de la room du joueur
+  validateBreak(
+    player: PlayerData,
+    x: number,
+    y: number,
+    z: number,
+    seed: number,
+  ): BlockEditValidationResult {
+    const common = this.validateCommon(player, x, y, z);
+    if (!common.valid) return common;
+
+    const block = this.blocksService.getBlock(x, y, z, seed);
+    if (!block || !isSolidBlockType(block.type)) {
+      return { valid: false, reason: 'invalid' };
+    }
+    if (PROTECTED_BLOCK_TYPES.includes(block.type)) {
+      return { valid: false, reason: 'protected' };
+    }
+
+    return this.accept(player);
+  }
+
+  validatePlace(
+    player: PlayerData,
+    x: number,
+    y: number,
+    z: number,
+    type: BlockType,
+    playersInRoom: PlayerData[],
+    seed: number,
+  ): BlockEditValidationResult {
+    if (
+      !Object.values(BlockType).includes(type) ||
+      NON_PLACEABLE_BLOCK_TYPES.includes(type)
+    ) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    const common = this.validateCommon(player, x, y, z);
+    if (!common.valid) return common;
+
+    // On ne pose que dans l'air ou l'eau, contre un bloc solide existant
+    const target = this.blocksService.getBlock(x, y, z, seed);
+    if (!target || isSolidBlockType(target.type)) {
+      return { valid: false, reason: 'occupied' };
+    }
+    if (!this.hasSolidNeighbour(x, y, z, seed)) {
+      return { valid: false, reason: 'unsupported' };
+    }
+
+    // Le bloc ne doit pas enfermer un joueur
+    if (
+      isSolidBlockType(type) &&
+      playersInRoom.some((other) => this.intersectsPlayer(other, x, y, z))
+    ) {
+      return { valid: false, reason: 'occupied' };
+    }
+
+    return this.accept(player);
+  }
+
+  resetPlayer(playerId: string): void {
+    this.lastEdits.delete(playerId);
+  }
+
+  private validateCommon(
+    player: PlayerData,
+    x: number,
+    y: number,
+    z: number,
+  ): BlockEditValidationResult {
+    if (
+      ![x, y, z].every(Number.isInteger) ||
+      y <= 0 ||
+      y >= this.blocksService.getWorldHeight()
+    ) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    const now = Date.now();
+    const lastEdit = this.lastEdits.get(player.id);
+    if (lastEdit !== undefined && now - lastEdit < this.EDIT_COOLDOWN_MS) {
+      return { valid: false, reason: 'cooldown' };
+    }
+
+    if (Math.hypot(x + 0.5, z + 0.5) <= this.SPAWN_PROTECTION_RADIUS) {
+      return { valid: false, reason: 'protected' };
+    }
+
+    const { position } = player;
+    const distance = Math.hypot(
+      x + 0.5 - position.x,
+      y + 0.5 - (position.y + this.EYE_HEIGHT),
+      z + 0.5 - position.z,
+    );
+    if (distance > this.MAX_REACH) {
+      return { valid: false, reason: 'reach' };
+    }
+
+    return { valid: true };
+  }
+
+  private accept(player: PlayerData): BlockEditValidationResult {
+    this.lastEdits.set(player.id, Date.now());
+    return { valid: true };
+  }
+
+  private hasSolidNeighbour(
+    x: number,
+    y: number,
+    z: number,
+    seed: number,
+  ): boolean {
+    const neighbours = [
+      [1, 0, 0],
+      [-1, 0, 0],
+      [0, 1, 0],
+      [0, -1, 0],
+      [0, 0, 1],
+      [0, 0, -1],
+    ];
+    return neighbours.some(([dx, dy, dz]) =>
+      isSolidBlockType(
+        this.blocksService.getBlock(x + dx, y + dy, z + dz, seed)?.type,
+      ),
+    );
+  }
+
+  // Même boîte de collision que la simulation de mouvement partagée
+  private intersectsPlayer(
+    player: PlayerData,
+    x: number,
+    y: number,
+    z: number,
+  ): boolean {
+    return collidesAt(
+      player.position,
+      (bx, by, bz) => bx === x && by === y && bz === z,
+    );
+  }
+}
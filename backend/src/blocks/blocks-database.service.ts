@@ -0,0 +1,70 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { BlockType } from './blocks.service';
+
+// Blocs modifiés d'un chunk du monde d'une seed, indexés par position locale
+export interface StoredChunkDelta {
+  seed: number;
+  chunkX: number;
+  chunkZ: number;
+  blocks: Record<string, BlockType>;
+}
+
+@Injectable()
+export class BlocksDatabaseService {
+  private readonly logger = new Logger(BlocksDatabaseService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async loadChunkDeltas(): Promise<StoredChunkDelta[]> {
+    const deltas = await this.prisma.chunkDelta.findMany();
+
+    return deltas.map((delta) => ({
+      seed: delta.seed,
+      chunkX: delta.chunkX,
+      chunkZ: delta.chunkZ,
+      blocks: delta.blocks as Record<string, BlockType>,
+    }));
+  }
+
+  async saveChunkDelta(
+    seed: number,
+    chunkX: number,
+    chunkZ: number,
+    blocks: Record<string, BlockType>,
+  ): Promise<void> {
+    try {
+      // Un chunk revenu à son état généré n'a plus besoin d'être stocké
+      if (Object.keys(blocks).length === 0) {
+        await this.prisma.chunkDelta.deleteMany({
+          where: { seed, chunkX, chunkZ },
+        });
+        return;
+      }
+
+      await this.prisma.chunkDelta.upsert({
+        where: { seed_chunkX_chunkZ: { seed, chunkX, chunkZ } },
+        create: { seed, chunkX, chunkZ, blocks },
+        update: { blocks },
+      });
+    } catch (error) {
+      this.logger.error(
+        `❌ Erreur lors de la sauvegarde du chunk (${chunkX}, ${chunkZ}) du monde ${seed}:`,
+        error,
+      );
+    }
+  }
+
+  // Oublier toutes les modifications des joueurs d'un monde (régénéré)
+  async clearChunkDeltas(seed: number): Promise<void> {
+    try {
+      await this.prisma.chunkDelta.deleteMany({ where: { seed } });
+    } catch (error) {
+      this.logger.error(
+        `❌ Erreur lors de la suppression des modifications du monde ${seed}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { ConfigService } from '@nestjs/config';
+import type { FastifyReply } from 'fastify';
+import { BlocksController } from './blocks.controller';
+import { BlocksDatabaseService } from './blocks-database.service';
+import { BlocksService } from './blocks.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CHUNK_BINARY_CONTENT_TYPE, decodeChunk } from '../shared/chunk-codec';
+
+function createReply() {
+  const headers: Record<string, string> = {};
+  const reply = {
+    header: (name: string, value: string) => {
+      headers[name.toLowerCase()] = value;
+      return reply;
+    },
+  };
+  return { reply: reply as unknown as FastifyReply, headers };
+}
+
+describe('BlocksController chunk encodings', () => {
+  let blocksService: BlocksService;
+  let controller: BlocksController;
+
+  beforeEach(() => {
+    blocksService = new BlocksService(
+      {} as PrismaService,
+      {} as BlocksDatabaseService,
+      new ConfigService(),
+    );
+    controller = new BlocksController(blocksService);
+  });
+
+  it('serves the binary encoding by default', () => {
+    const { reply, headers } = createReply();
+
+    const body = controller.getChunk('-2', '3', reply, '*/*');
+
+    expect(headers['content-type']).toBe(CHUNK_BINARY_CONTENT_TYPE);
+    expect(Buffer.isBuffer(body)).toBe(true);
+  });
+
+  it('round-trips a generated chunk through the binary encoding', () => {
+    const chunk = blocksService.getChunk(-2, 3);
+    const { reply } = createReply();
+
+    const body = controller.getChunk('-2', '3', reply) as Buffer;
+    const decoded = decodeChunk(new Uint8Array(body));
+
+    expect(decoded.x).toBe(chunk.x);
+    expect(decoded.z).toBe(chunk.z);
+    expect(decoded.lastUpdated).toBe(chunk.lastUpdated.toISOString());
+    expect(decoded.blocks).toEqual(chunk.blocks);
+  });
+
+  it('round-trips a generated chunk through the JSON encoding', () => {
+    const chunk = blocksService.getChunk(4, -1);
+    const { reply, headers } = createReply();
+
+    const body = controller.getChunk('4', '-1', reply, 'application/json');
+    const decoded = JSON.parse(JSON.stringify(body)) as typeof chunk;
+
+    expect(headers['content-type']).toBeUndefined();
+    expect(decoded.x).toBe(chunk.x);
+    expect(decoded.z).toBe(chunk.z);
+    expect(decoded.lastUpdated).toBe(chunk.lastUpdated.toISOString());
+    expect(decoded.blocks).toEqual(chunk.blocks);
+  });
+
+  it('prefers the binary encoding when the client accepts it', () => {
+    const { reply, headers } = createReply();
+
+    controller.getChunk(
+      '0',
+      '0',
+      reply,
+      `${CHUNK_BINARY_CONTENT_TYPE}, application/json;q=0.5`,
+    );
+
+    expect(headers['content-type']).toBe(CHUNK_BINARY_CONTENT_TYPE);
+  });
+
+  it('lets the format query parameter override the Accept header', () => {
+    const json = createReply();
+    const binary = createReply();
+
+    controller.getChunk('0', '0', json.reply, '*/*', 'json');
+    controller.getChunk('0', '0', binary.reply, 'application/json', 'binary');
+
+    expect(json.headers['content-type']).toBeUndefined();
+    expect(binary.headers['content-type']).toBe(CHUNK_BINARY_CONTENT_TYPE);
+  });
+});
@@ -1,5 +1,15 @@
-import { Controller, Get, Post, Param, Query } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Headers,
+  Res,
+} from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
 import { BlocksService, BlockType } from './blocks.service';
+import { CHUNK_BINARY_CONTENT_TYPE, encodeChunk } from '../shared/chunk-codec';
 
 @Controller('api/blocks')
 export class BlocksController {
@@ -10,19 +20,60 @@ export class BlocksController {
     return this.blocksService.getWorldData();
   }
 
+  // Format binaire par défaut ; JSON sur demande (Accept ou ?format=json) pour le débogage
+  // ?seed= choisit le monde de la room (celui de la room principale sinon)
   @Get('chunk/:x/:z')
-  getChunk(@Param('x') x: string, @Param('z') z: string) {
+  getChunk(
+    @Param('x') x: string,
+    @Param('z') z: string,
+    @Res({ passthrough: true }) reply: FastifyReply,
+    @Headers('accept') accept?: string,
+    @Query('format') format?: string,
+    @Query('seed') seed?: string,
+  ) {
     const chunkX = parseInt(x);
     const chunkZ = parseInt(z);
-    return this.blocksService.getChunk(chunkX, chunkZ);
+    const chunk = this.blocksService.getChunk(
+      chunkX,
+      chunkZ,
+      this.parseSeed(seed),
+    );
+
+    reply.header('Vary', 'Accept');
+    const wantsJson =
+      accept?.includes('application/json') &&
+      !accept.includes(CHUNK_BINARY_CONTENT_TYPE);
+    if (format === 'json' || (format !== 'binary' && wantsJson)) {
+      return chunk;
+    }
+
+    reply.header('Content-Type', CHUNK_BINARY_CONTENT_TYPE);
+    const bytes = encodeChunk(chunk, this.blocksService.getChunkDimensions());
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  // Statistiques du cache de chunks (hits, misses, temps de génération)
+  @Get('metrics')
+  getMetrics() {
+    return this.blocksService.getChunkCacheMetrics();
   }
 
   @Get('block/:x/:y/:z')
-  getBlock(@Param('x') x: string, @Param('y') y: string, @Param('z') z: string) {
+  getBlock(
+    @Param('x') x: string,
+    @Param('y') y: string,
+    @Param('z') z: string,
+    @Query('seed') seed?: string,
+  ) {
     const blockX = parseInt(x);
     const blockY = parseInt(y);
     const blockZ = parseInt(z);
-    return this.blocksService.getBlock(blockX, blockY, blockZ);
+    return this.blocksService.getBlock(
+      blockX,
+      blockY,
+      blockZ,
+      this.parseSeed(seed),
+    );
   }
 
   @Get('spawn-position')
@@ -54,13 +105,21 @@ export class BlocksController {
   }
 
   @Post('regenerate')
-  async regenerateWorld() {
+  async regenerateWorld(@Query('seed') seed?: string) {
     try {
-      const result = await this.blocksService.regenerateWorld();
+      const result = await this.blocksService.regenerateWorld(
+        this.parseSeed(seed),
+      );
       return result;
     } catch (error) {
       console.error('Erreur lors de la régénération:', error);
       return { error: 'Error regenerating world' };
     }
   }
+
+  // Seed absente ou invalide : monde de la room principale
+  private parseSeed(seed?: string): number | undefined {
+    const value = Number(seed);
+    return seed && Number.isInteger(value) ? value : undefined;
+  }
 }
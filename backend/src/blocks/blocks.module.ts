@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { BlocksService } from './blocks.service';
+import { BlocksDatabaseService } from './blocks-database.service';
+import { BlockEditValidatorService } from './block-edit-validator.service';
 
 @Module({
-  providers: [BlocksService],
-  exports: [BlocksService],
+  providers: [BlocksService, BlocksDatabaseService, BlockEditValidatorService],
+  exports: [BlocksService, BlockEditValidatorService],
 })
 export class BlocksModule {}
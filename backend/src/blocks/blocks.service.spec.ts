@@ -0,0 +1,66 @@
+import { ConfigService } from '@nestjs/config';
+import { BlocksDatabaseService } from './blocks-database.service';
+import { BlocksService, BlockType } from './blocks.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('BlocksService', () => {
+  let blocksDb: { saveChunkDelta: jest.Mock; clearChunkDeltas: jest.Mock };
+  let service: BlocksService;
+
+  beforeEach(() => {
+    blocksDb = {
+      saveChunkDelta: jest.fn().mockResolvedValue(undefined),
+      clearChunkDeltas: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new BlocksService(
+      {} as PrismaService,
+      blocksDb as unknown as BlocksDatabaseService,
+      new ConfigService(),
+    );
+  });
+
+  it('forgets player edits when the world is regenerated', async () => {
+    const generated = service.getBlock(40, 11, 40)?.type;
+    service.setBlock(40, 11, 40, BlockType.DIAMOND);
+    expect(service.getBlock(40, 11, 40)?.type).toBe(BlockType.DIAMOND);
+
+    await service.regenerateWorld();
+
+    expect(service.getBlock(40, 11, 40)?.type).toBe(generated);
+    expect(blocksDb.clearChunkDeltas).toHaveBeenCalledWith(12345);
+    // La sauvegarde en cours a été écrite avant l'effacement
+    expect(blocksDb.saveChunkDelta).toHaveBeenCalledTimes(1);
+    expect(
+      blocksDb.clearChunkDeltas.mock.invocationCallOrder[0],
+    ).toBeGreaterThan(blocksDb.saveChunkDelta.mock.invocationCallOrder[0]);
+  });
+
+  it('keeps the edits of each world apart', async () => {
+    service.setBlock(40, 11, 40, BlockType.DIAMOND, 1);
+    service.setBlock(40, 11, 40, BlockType.GOLD, 2);
+
+    expect(service.getBlock(40, 11, 40, 1)?.type).toBe(BlockType.DIAMOND);
+    expect(service.getChunk(2, 2, 2).blocks).toContainEqual({
+      x: 40,
+      y: 11,
+      z: 40,
+      type: BlockType.GOLD,
+    });
+
+    await service.regenerateWorld(1);
+
+    expect(service.getBlock(40, 11, 40, 1)?.type).not.toBe(BlockType.DIAMOND);
+    expect(service.getBlock(40, 11, 40, 2)?.type).toBe(BlockType.GOLD);
+    expect(blocksDb.saveChunkDelta).toHaveBeenCalledWith(2, 2, 2, {
+      [11 * 256 + 8 * 16 + 8]: BlockType.GOLD,
+    });
+    expect(blocksDb.clearChunkDeltas).toHaveBeenCalledWith(1);
+  });
+
+  it('generates the city of each world from its seed', () => {
+    const main = service.getChunk(2, 2);
+
+    expect(service.getChunk(2, 2, 12345)).toBe(main);
+    expect(service.getChunk(2, 2, 777).blocks).not.toEqual(main.blocks);
+  });
+});
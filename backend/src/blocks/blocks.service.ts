@@ -1,5 +1,10 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
+import { BlocksDatabaseService } from './blocks-database.service';
+import { ChunkCache, ChunkCacheMetrics } from './chunk-cache';
+import { ChunkDimensions } from '../shared/chunk-codec';
+import { DEFAULT_WORLD_SEED } from '../shared/world';
 
 // Types de blocs disponibles
 export enum BlockType {
@@ -26,7 +31,8 @@ export enum BlockType {
   BUILDING_ROOF = 'building_roof',
   GLASS = 'glass',
   DOOR = 'door',
-  WINDOW = 'window'
+  WINDOW = 'window',
+  LAMP = 'lamp'
 }
 
 // Types de biomes
@@ -83,10 +89,18 @@ export interface WorldData {
 }
 
 @Injectable()
-export class BlocksService {
+export class BlocksService implements OnModuleInit {
   private readonly logger = new Logger(BlocksService.name);
   private worldData: WorldData | null = null;
-  private mapSeed = 12345;
+  // Blocs modifiés par les joueurs, par monde (seed) et chunk puis par index local
+  private chunkDeltas: Map<string, Map<number, BlockType>> = new Map();
+  // Sauvegardes en cours par chunk (exécutées dans l'ordre)
+  private pendingSaves: Map<string, Promise<void>> = new Map();
+  // Chunks déjà générés (modifications des joueurs incluses)
+  private readonly chunkCache: ChunkCache;
+  private readonly DEFAULT_CHUNK_CACHE_SIZE = 256;
+  // Monde de la room principale (chaque room peut avoir le sien)
+  private readonly mapSeed = DEFAULT_WORLD_SEED;
   private readonly CHUNK_SIZE = 16;
   private readonly WORLD_HEIGHT = 32;
   private readonly SEA_LEVEL = 16;
@@ -97,12 +111,45 @@ export class BlocksService {
   private readonly hillScale = 0.02;
   private readonly detailScale = 0.1;
 
-  constructor(private readonly prisma: PrismaService) {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly blocksDb: BlocksDatabaseService,
+    private readonly configService: ConfigService,
+  ) {
+    const configured = Number(this.configService.get('CHUNK_CACHE_SIZE'));
+    this.chunkCache = new ChunkCache(
+      Number.isInteger(configured) && configured >= 0
+        ? configured
+        : this.DEFAULT_CHUNK_CACHE_SIZE,
+    );
+
     this.initializeWorld().catch((error) => {
       this.logger.error("❌ Erreur critique lors de l'initialisation du monde:", error);
     });
   }
 
+  async onModuleInit(): Promise<void> {
+    try {
+      const deltas = await this.blocksDb.loadChunkDeltas();
+      for (const delta of deltas) {
+        const blocks = new Map<number, BlockType>();
+        for (const [index, type] of Object.entries(delta.blocks)) {
+          blocks.set(Number(index), type);
+        }
+        this.chunkDeltas.set(
+          this.getChunkKey(delta.seed, delta.chunkX, delta.chunkZ),
+          blocks,
+        );
+      }
+      this.logger.log(`🧱 ${deltas.length} chunks modifiés restaurés`);
+    } catch (error) {
+      this.logger.error(
+        '❌ Erreur lors du chargement des modifications du monde:',
+        error,
+      );
+    }
+  }
+
   private async initializeWorld(): Promise<void> {
     try {
       this.logger.log('🌍 Initialisation du système de blocs...');
@@ -115,20 +162,166 @@ export class BlocksService {
     }
   }
 
-  // Obtenir un chunk complet (tous les blocs)
-  public getChunk(chunkX: number, chunkZ: number): Chunk {
-    const startTime = Date.now();
-    
-    console.log(`⏱️ Début génération chunk (${chunkX}, ${chunkZ})`);
-    
-    const chunk = this.generateChunk(chunkX, chunkZ);
-    const totalTime = Date.now() - startTime;
-    
-    console.log(`⏱️ Chunk (${chunkX}, ${chunkZ}) généré en ${totalTime}ms avec ${chunk.blocks.length} blocs`);
-    
+  // Obtenir un chunk complet (tous les blocs) du monde d'une seed
+  public getChunk(
+    chunkX: number,
+    chunkZ: number,
+    seed: number = this.mapSeed,
+  ): Chunk {
+    const key = this.getChunkKey(seed, chunkX, chunkZ);
+    const cached = this.chunkCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const startTime = performance.now();
+    const chunk = this.generateChunk(chunkX, chunkZ, seed);
+    this.applyChunkDelta(chunk, seed);
+    const generationMs = performance.now() - startTime;
+
+    this.chunkCache.set(key, chunk, generationMs);
+    this.logger.debug(
+      `⏱️ Chunk (${chunkX}, ${chunkZ}) généré en ${generationMs.toFixed(1)}ms avec ${chunk.blocks.length} blocs`,
+    );
+
     return chunk;
   }
+
+  public getChunkCacheMetrics(): ChunkCacheMetrics {
+    return this.chunkCache.getMetrics();
+  }
   
+  // Appliquer les modifications des joueurs sur le terrain généré
+  private applyChunkDelta(chunk: Chunk, seed: number): void {
+    const delta = this.chunkDeltas.get(
+      this.getChunkKey(seed, chunk.x, chunk.z),
+    );
+    if (!delta) return;
+
+    for (const [index, type] of delta) {
+      const block = this.getChunkBlock(chunk, index);
+      if (block) {
+        block.type = type;
+      }
+    }
+  }
+
+  private getChunkBlock(chunk: Chunk, index: number): Block | undefined {
+    const { localX, y, localZ } = this.fromLocalIndex(index);
+    // Ordre de generateChunk : x, puis z, puis y
+    return chunk.blocks[
+      (localX * this.CHUNK_SIZE + localZ) * this.WORLD_HEIGHT + y
+    ];
+  }
+
+  // Poser ou casser un bloc (la validation est faite par l'appelant)
+  public setBlock(
+    x: number,
+    y: number,
+    z: number,
+    type: BlockType,
+    seed: number = this.mapSeed,
+  ): Block {
+    const { chunkX, chunkZ } = this.getChunkCoords(x, z);
+    const key = this.getChunkKey(seed, chunkX, chunkZ);
+    const index = this.getLocalIndex(x, y, z);
+
+    let delta = this.chunkDeltas.get(key);
+    if (!delta) {
+      delta = new Map();
+      this.chunkDeltas.set(key, delta);
+    }
+
+    // Revenir au bloc généré supprime la modification
+    const generatedType = this.getBlockType(
+      x,
+      y,
+      z,
+      this.getTerrainHeight(x, z),
+      seed,
+    );
+    if (type === generatedType) {
+      delta.delete(index);
+    } else {
+      delta.set(index, type);
+    }
+    if (delta.size === 0) {
+      this.chunkDeltas.delete(key);
+    }
+
+    // Garder le chunk en cache à jour plutôt que de le régénérer
+    const cached = this.chunkCache.peek(key);
+    const cachedBlock = cached && this.getChunkBlock(cached, index);
+    if (cachedBlock) {
+      cachedBlock.type = type;
+    }
+
+    this.saveChunkDelta(seed, chunkX, chunkZ);
+    return { x, y, z, type };
+  }
+
+  private saveChunkDelta(seed: number, chunkX: number, chunkZ: number): void {
+    const key = this.getChunkKey(seed, chunkX, chunkZ);
+    const previous = this.pendingSaves.get(key) ?? Promise.resolve();
+
+    // L'état sauvegardé est lu au moment de l'écriture : la dernière sauvegarde gagne
+    const save = previous.then(() =>
+      this.blocksDb.saveChunkDelta(
+        seed,
+        chunkX,
+        chunkZ,
+        Object.fromEntries(this.chunkDeltas.get(key) ?? []),
+      ),
+    );
+    this.pendingSaves.set(key, save);
+    void save.then(() => {
+      if (this.pendingSaves.get(key) === save) {
+        this.pendingSaves.delete(key);
+      }
+    });
+  }
+
+  public getChunkCoords(
+    x: number,
+    z: number,
+  ): { chunkX: number; chunkZ: number } {
+    return {
+      chunkX: Math.floor(x / this.CHUNK_SIZE),
+      chunkZ: Math.floor(z / this.CHUNK_SIZE),
+    };
+  }
+
+  private getChunkKey(seed: number, chunkX: number, chunkZ: number): string {
+    return `${seed}:${chunkX},${chunkZ}`;
+  }
+
+  // Même indexation locale que le client : (y * 16 + z) * 16 + x
+  private getLocalIndex(x: number, y: number, z: number): number {
+    const localX = ((x % this.CHUNK_SIZE) + this.CHUNK_SIZE) % this.CHUNK_SIZE;
+    const localZ = ((z % this.CHUNK_SIZE) + this.CHUNK_SIZE) % this.CHUNK_SIZE;
+    return (y * this.CHUNK_SIZE + localZ) * this.CHUNK_SIZE + localX;
+  }
+
+  private fromLocalIndex(index: number): {
+    localX: number;
+    y: number;
+    localZ: number;
+  } {
+    return {
+      localX: index % this.CHUNK_SIZE,
+      localZ: Math.floor(index / this.CHUNK_SIZE) % this.CHUNK_SIZE,
+      y: Math.floor(index / (this.CHUNK_SIZE * this.CHUNK_SIZE)),
+    };
+  }
+
+  public getWorldHeight(): number {
+    return this.WORLD_HEIGHT;
+  }
+
+  public getChunkDimensions(): ChunkDimensions {
+    return { size: this.CHUNK_SIZE, height: this.WORLD_HEIGHT };
+  }
+
   private processChunkFaces(chunk: Chunk): BlockFace[] {
     const faces: BlockFace[] = [];
     
@@ -281,7 +474,7 @@ export class BlocksService {
   }
 
   // Générer un chunk spécifique
-  private generateChunk(chunkX: number, chunkZ: number): Chunk {
+  private generateChunk(chunkX: number, chunkZ: number, seed: number): Chunk {
     const blocks: Block[] = [];
     
     for (let x = 0; x < this.CHUNK_SIZE; x++) {
@@ -293,7 +486,7 @@ export class BlocksService {
         const terrainHeight = this.getTerrainHeight(worldX, worldZ);
         
         for (let y = 0; y < this.WORLD_HEIGHT; y++) {
-          const blockType = this.getBlockType(worldX, y, worldZ, terrainHeight);
+          const blockType = this.getBlockType(worldX, y, worldZ, terrainHeight, seed);
           
           // Inclure tous les blocs (y compris AIR) pour le face culling côté frontend
           blocks.push({
@@ -333,7 +526,7 @@ export class BlocksService {
   }
 
   // Déterminer le type de bloc à une position donnée
-  private getBlockType(x: number, y: number, z: number, terrainHeight: number): BlockType {
+  private getBlockType(x: number, y: number, z: number, terrainHeight: number, seed: number): BlockType {
     // Bedrock en bas
     if (y === 0) {
       return BlockType.BEDROCK;
@@ -345,7 +538,7 @@ export class BlocksService {
     
     if (distanceFromCenter < cityRadius) {
       // Zone urbaine : générer des bâtiments
-      const buildingBlock = this.getUrbanBlock(x, y, z, terrainHeight);
+      const buildingBlock = this.getUrbanBlock(x, y, z, terrainHeight, seed);
       if (buildingBlock !== null) {
         return buildingBlock;
       }
@@ -374,7 +567,7 @@ export class BlocksService {
   }
 
   // Générer des blocs urbains (bâtiments, routes, etc.)
-  private getUrbanBlock(x: number, y: number, z: number, terrainHeight: number): BlockType | null {
+  private getUrbanBlock(x: number, y: number, z: number, terrainHeight: number, seed: number): BlockType | null {
     // Routes : grille de routes tous les 16 blocs
     if (this.isRoad(x, z)) {
       if (y === terrainHeight) {
@@ -387,7 +580,7 @@ export class BlocksService {
     
     // Bâtiments : générer des bâtiments sur les blocs non-route
     if (!this.isRoad(x, z)) {
-      return this.generateBuilding(x, y, z, terrainHeight);
+      return this.generateBuilding(x, y, z, terrainHeight, seed);
     }
     
     return null; // Pas de bloc urbain spécial
@@ -412,9 +605,10 @@ export class BlocksService {
   }
   
   // Générer un bâtiment à une position
-  private generateBuilding(x: number, y: number, z: number, terrainHeight: number): BlockType | null {
-    // Utiliser une graine basée sur la position pour la cohérence
-    const seed = x * 1000 + z;
+  private generateBuilding(x: number, y: number, z: number, terrainHeight: number, worldSeed: number): BlockType | null {
+    // Utiliser une graine basée sur la position (et le monde) pour la cohérence ;
+    // le monde principal garde ses bâtiments (et ses modifications) d'origine
+    const seed = x * 1000 + z + (worldSeed - this.mapSeed);
     const random = this.seededRandom(seed);
     
     // Déterminer la taille du bâtiment (3-8 étages max)
@@ -548,15 +742,27 @@ export class BlocksService {
   // Obtenir un chunk spécifique
 
   // Obtenir un bloc spécifique
-  public getBlock(x: number, y: number, z: number): Block | null {
+  public getBlock(
+    x: number,
+    y: number,
+    z: number,
+    seed: number = this.mapSeed,
+  ): Block | null {
     // Vérifier les limites du monde
     if (y < 0 || y >= this.WORLD_HEIGHT) {
       return null; // Hors limites verticales
     }
     
-    // Générer le bloc à la demande
-    const terrainHeight = this.getTerrainHeight(x, z);
-    const blockType = this.getBlockType(x, y, z, terrainHeight);
+    // Les modifications des joueurs priment sur le terrain généré
+    const { chunkX, chunkZ } = this.getChunkCoords(x, z);
+    const modifiedType = this.chunkDeltas
+      .get(this.getChunkKey(seed, chunkX, chunkZ))
+      ?.get(this.getLocalIndex(x, y, z));
+
+    // Sinon générer le bloc à la demande
+    const blockType =
+      modifiedType ??
+      this.getBlockType(x, y, z, this.getTerrainHeight(x, z), seed);
     
     // Toujours retourner un bloc, même si c'est AIR
     return {
@@ -567,17 +773,29 @@ export class BlocksService {
     };
   }
 
-  // Régénérer le monde (maintenant juste changer la seed)
-  public async regenerateWorld(): Promise<{ message: string, chunksCount: number, totalBlocks: number }> {
-    this.logger.log('🔄 Régénération du monde de blocs...');
-    
-    // Changer la seed pour générer un monde différent
-    this.mapSeed = Math.floor(Math.random() * 1000000);
+  // Régénérer le monde d'une seed : la seed appartient à la room, on revient
+  // donc au terrain généré en oubliant les modifications des joueurs
+  public async regenerateWorld(seed: number = this.mapSeed): Promise<{ message: string, chunksCount: number, totalBlocks: number }> {
+    this.logger.log(`🔄 Régénération du monde de blocs (seed ${seed})...`);
     
     // Vider le cache des chunks pour forcer la régénération
     this.worldData = null;
+    this.chunkCache.clear();
+
+    // Oublier les modifications de ce monde, après les sauvegardes en cours
+    // (qui effacent alors leur chunk)
+    const prefix = `${seed}:`;
+    const saves: Promise<void>[] = [];
+    for (const key of Array.from(this.chunkDeltas.keys())) {
+      if (key.startsWith(prefix)) this.chunkDeltas.delete(key);
+    }
+    for (const [key, save] of this.pendingSaves) {
+      if (key.startsWith(prefix)) saves.push(save);
+    }
+    await Promise.all(saves);
+    await this.blocksDb.clearChunkDeltas(seed);
     
-    this.logger.log(`✅ Monde régénéré avec nouvelle seed: ${this.mapSeed}`);
+    this.logger.log(`✅ Monde régénéré (seed ${seed})`);
     
     return {
       message: 'Monde régénéré avec succès',
@@ -0,0 +1,90 @@
+import { Chunk } from './blocks.service';
+
+export interface ChunkCacheMetrics {
+  size: number;
+  capacity: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0..1
+  evictions: number;
+  invalidations: number;
+  generations: number;
+  averageGenerationMs: number;
+  maxGenerationMs: number;
+  lastGenerationMs: number;
+}
+
+// Cache LRU des chunks générés : l'ordre d'insertion de la Map sert d'ordre d'utilisation
+export class ChunkCache {
+  private chunks: Map<string, Chunk> = new Map();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private invalidations = 0;
+  private generations = 0;
+  private totalGenerationMs = 0;
+  private maxGenerationMs = 0;
+  private lastGenerationMs = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  get(key: string): Chunk | undefined {
+    const chunk = this.chunks.get(key);
+    if (!chunk) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Replacer le chunk en fin de Map (le plus récemment utilisé)
+    this.chunks.delete(key);
+    this.chunks.set(key, chunk);
+    this.hits++;
+    return chunk;
+  }
+
+  // Accès sans effet sur les statistiques ni sur l'ordre LRU
+  peek(key: string): Chunk | undefined {
+    return this.chunks.get(key);
+  }
+
+  set(key: string, chunk: Chunk, generationMs: number): void {
+    this.generations++;
+    this.totalGenerationMs += generationMs;
+    this.maxGenerationMs = Math.max(this.maxGenerationMs, generationMs);
+    this.lastGenerationMs = generationMs;
+
+    if (this.capacity <= 0) return;
+
+    this.chunks.delete(key);
+    this.chunks.set(key, chunk);
+
+    while (this.chunks.size > this.capacity) {
+      const oldestKey = this.chunks.keys().next().value as string;
+      this.chunks.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  clear(): void {
+    this.invalidations++;
+    this.chunks.clear();
+  }
+
+  getMetrics(): ChunkCacheMetrics {
+    const requests = this.hits + this.misses;
+    return {
+      size: this.chunks.size,
+      capacity: this.capacity,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: requests > 0 ? this.hits / requests : 0,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+      generations: this.generations,
+      averageGenerationMs:
+        this.generations > 0 ? this.totalGenerationMs / this.generations : 0,
+      maxGenerationMs: this.maxGenerationMs,
+      lastGenerationMs: this.lastGenerationMs,
+    };
+  }
+}
@@ -0,0 +1,324 @@
+import { INestApplication, WsMessageHandler } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { AbstractWsAdapter } from '@nestjs/websockets';
+import { lastValueFrom, Observable } from 'rxjs';
+import { AuthService } from '../auth/auth.service';
+import { BlockEditValidatorService } from '../blocks/block-edit-validator.service';
+import { BlocksService, BlockType } from '../blocks/blocks.service';
+import { GameLoopService } from '../game/game-loop.service';
+import { GameRoom, GameTick, PlayerData } from '../game/interfaces';
+import { WeatherService } from '../game/weather.service';
+import { WorldClockService } from '../game/world-clock.service';
+import { MapService } from '../map/map.service';
+import { MovementValidatorService } from '../players/movement-validator.service';
+import { PlayerService } from '../players/player.service';
+import { RoomService } from '../rooms/room.service';
+import { TrafficService } from '../traffic/traffic.service';
+import { VehicleService } from '../vehicles/vehicle.service';
+import { GameGateway } from './game.gateway';
+
+// uuid n'est publié qu'en ESM, que jest ne transforme pas
+jest.mock('uuid', () => {
+  let next = 0;
+  return { v4: () => `id-${++next}` };
+});
+
+// Socket simulée : les messages reçus passent par le pipeline de Nest (pipes, filtres)
+class FakeSocket {
+  readonly data: Record<string, unknown> = {};
+  readonly emit = jest.fn();
+  readonly handlers = new Map<string, (data: unknown) => Promise<unknown>>();
+
+  constructor(readonly id: string) {}
+
+  on() {}
+
+  close() {}
+
+  receive(message: string, data: unknown) {
+    return this.handlers.get(message)?.(data);
+  }
+}
+
+class FakeServer {
+  readonly broadcasts: {
+    room: string | string[];
+    event: string;
+    data: unknown;
+  }[] = [];
+  private connectionListener: ((socket: FakeSocket) => void) | null = null;
+
+  on(event: string, listener: (socket: FakeSocket) => void) {
+    if (event === 'connection') this.connectionListener = listener;
+  }
+
+  close(callback: () => void) {
+    callback();
+  }
+
+  use() {}
+
+  emit() {}
+
+  to(room: string | string[]) {
+    return {
+      emit: (event: string, data: unknown) =>
+        this.broadcasts.push({ room, event, data }),
+    };
+  }
+
+  connect(socket: FakeSocket) {
+    this.connectionListener?.(socket);
+  }
+}
+
+class FakeWsAdapter extends AbstractWsAdapter<FakeServer, FakeSocket> {
+  readonly server = new FakeServer();
+
+  create() {
+    return this.server;
+  }
+
+  bindMessageHandlers(
+    socket: FakeSocket,
+    handlers: WsMessageHandler[],
+    transform: (data: unknown) => Observable<unknown>,
+  ) {
+    for (const { message, callback } of handlers) {
+      socket.handlers.set(message, (data) =>
+        lastValueFrom(transform(callback(data)), { defaultValue: undefined }),
+      );
+    }
+  }
+}
+
+describe('GameGateway', () => {
+  let app: INestApplication;
+  let adapter: FakeWsAdapter;
+  let tickListeners: ((tick: GameTick) => void)[];
+  let player: PlayerData;
+  let applyDriverMove: jest.Mock;
+
+  const tick = (seq: number) => {
+    for (const listener of tickListeners) {
+      listener({ tick: seq, serverTime: seq * 50, deltaTime: 0.05 });
+    }
+  };
+
+  const snapshots = () =>
+    adapter.server.broadcasts.filter(({ event }) => event === 'worldSnapshot');
+
+  beforeEach(async () => {
+    tickListeners = [];
+    applyDriverMove = jest.fn();
+    player = {
+      id: 'player-1',
+      name: 'alice',
+      position: { x: 0, y: 5, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+      isMoving: false,
+      speed: 0,
+      lastUpdate: 0,
+      lastProcessedInput: 0,
+      roomId: 'room-1',
+      vehicleId: null,
+    };
+    const room: GameRoom = {
+      id: 'room-1',
+      name: 'Room',
+      maxPlayers: 10,
+      players: new Map([[player.id, player]]),
+      createdAt: new Date(),
+      seed: 1,
+      mapName: 'default',
+    };
+
+    // Même mise à jour que PlayerService, sans base de données
+    const playerService = {
+      getPlayer: () => player,
+      acknowledgeInput: jest.fn(),
+      updatePlayerPosition: (
+        _socketId: string,
+        position: PlayerData['position'],
+        rotation: PlayerData['rotation'],
+        isMoving: boolean,
+        speed: number,
+      ) => Object.assign(player, { position, rotation, isMoving, speed }),
+    };
+
+    // Deux rooms sur le monde de seed 1, une troisième sur un autre monde
+    const rooms = [
+      room,
+      { ...room, id: 'room-2', players: new Map(), seed: 2 },
+      { ...room, id: 'room-3', players: new Map() },
+    ];
+
+    const module = await Test.createTestingModule({
+      providers: [
+        GameGateway,
+        { provide: PlayerService, useValue: playerService },
+        {
+          provide: RoomService,
+          useValue: {
+            getAllRooms: () => [room],
+            getWorldSeed: () => room.seed,
+            getPlayersInRoom: () => [player],
+            getRoomIdsInWorld: (seed: number) =>
+              rooms.filter((r) => r.seed === seed).map((r) => r.id),
+          },
+        },
+        { provide: MapService, useValue: {} },
+        {
+          provide: MovementValidatorService,
+          useValue: {
+            validateMove: () => ({ valid: true }),
+            clampSpeed: (speed: number) => speed,
+          },
+        },
+        {
+          provide: GameLoopService,
+          useValue: {
+            getTickRate: () => 20,
+            onTick: (listener: (tick: GameTick) => void) =>
+              tickListeners.push(listener),
+          },
+        },
+        { provide: AuthService, useValue: {} },
+        {
+          provide: BlocksService,
+          useValue: {
+            setBlock: (x: number, y: number, z: number, type: BlockType) => ({
+              x,
+              y,
+              z,
+              type,
+            }),
+            getChunkCoords: () => ({ chunkX: 0, chunkZ: 0 }),
+          },
+        },
+        {
+          provide: BlockEditValidatorService,
+          useValue: { validatePlace: () => ({ valid: true }) },
+        },
+        { provide: WorldClockService, useValue: { getState: () => ({}) } },
+        { provide: WeatherService, useValue: { update: () => [] } },
+        {
+          provide: VehicleService,
+          useValue: {
+            update: () => ({ spawned: [], despawned: [] }),
+            applyDriverMove,
+          },
+        },
+        {
+          provide: TrafficService,
+          useValue: {
+            getBroadcastRate: () => 10,
+            update: () => undefined,
+            getSnapshot: () => ({}),
+          },
+        },
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ logger: false });
+    adapter = new FakeWsAdapter();
+    app.useWebSocketAdapter(adapter);
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('rejects a malformed playerMove and keeps broadcasting snapshots', async () => {
+    const socket = new FakeSocket('socket-1');
+    adapter.server.connect(socket);
+
+    // Pas de rotation : le message ne doit jamais atteindre l'état du joueur
+    await socket.receive('playerMove', {
+      position: { x: 1, y: 5, z: 0 },
+      isMoving: 1,
+      speed: 4,
+    });
+
+    expect(socket.emit).toHaveBeenCalledWith('exception', expect.anything());
+    expect(player.position).toEqual({ x: 0, y: 5, z: 0 });
+    expect(() => tick(2)).not.toThrow();
+    expect(snapshots()).toHaveLength(1);
+
+    tick(3);
+    expect(snapshots()).toHaveLength(2);
+  });
+
+  it('applies a well-formed playerMove', async () => {
+    const socket = new FakeSocket('socket-1');
+    adapter.server.connect(socket);
+
+    await socket.receive('playerMove', {
+      seq: 1,
+      inputs: [
+        {
+          seq: 1,
+          dt: 0.016,
+          forward: true,
+          backward: false,
+          left: false,
+          right: false,
+          jump: false,
+          sprint: false,
+          yaw: 1,
+        },
+      ],
+      position: { x: 1, y: 5, z: 0 },
+      rotation: { x: 0, y: 1, z: 0 },
+      isMoving: 1,
+      speed: 4,
+    });
+    tick(2);
+
+    expect(snapshots()[0].data).toMatchObject({
+      players: [{ id: 'player-1', p: [1, 5, 0], r: [0, 1, 0], m: 1 }],
+    });
+  });
+
+  it('rejects a vehicleMove without velocity or with an impossible steering', async () => {
+    const socket = new FakeSocket('socket-1');
+    adapter.server.connect(socket);
+    const move = {
+      vehicleId: 'vehicle-1',
+      position: { x: 1, y: 5, z: 0 },
+      heading: 0,
+      velocity: { x: 0, y: 0, z: 10 },
+      steering: 0.2,
+    };
+
+    await socket.receive('vehicleMove', { ...move, velocity: undefined });
+    await socket.receive('vehicleMove', { ...move, steering: 3 });
+
+    expect(socket.emit).toHaveBeenCalledTimes(2);
+    expect(socket.emit).toHaveBeenCalledWith('exception', expect.anything());
+    expect(applyDriverMove).not.toHaveBeenCalled();
+  });
+
+  it('sends a block edit only to the rooms of the same world', async () => {
+    const socket = new FakeSocket('socket-1');
+    adapter.server.connect(socket);
+
+    await socket.receive('placeBlock', {
+      x: 1,
+      y: 5,
+      z: 0,
+      type: BlockType.STONE,
+    });
+
+    expect(
+      adapter.server.broadcasts.filter(({ event }) => event === 'blockUpdate'),
+    ).toEqual([
+      {
+        room: ['room-1', 'room-3'],
+        event: 'blockUpdate',
+        data: expect.objectContaining({ x: 1, y: 5, z: 0, chunkX: 0 }),
+      },
+    ]);
+  });
+});
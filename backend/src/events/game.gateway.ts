@@ -2,17 +2,56 @@ import {
   WebSocketGateway,
   WebSocketServer,
   SubscribeMessage,
+  OnGatewayInit,
   OnGatewayConnection,
   OnGatewayDisconnect,
   MessageBody,
   ConnectedSocket,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger } from '@nestjs/common';
+import { Logger, UsePipes, ValidationPipe } from '@nestjs/common';
 import { PlayerService } from '../players/player.service';
 import { RoomService } from '../rooms/room.service';
-import { JoinRoomDto, PlayerMoveDto, ChatMessageDto } from '../game/dto';
-import { MapService } from '../map/map.service';
+import {
+  JoinRoomDto,
+  PlayerMoveDto,
+  ChatMessageDto,
+  CreateRoomDto,
+  SwitchRoomDto,
+  BlockPositionDto,
+  PlaceBlockDto,
+  VehicleEnterDto,
+  VehicleExitDto,
+  VehicleIdDto,
+  VehicleMoveDto,
+  VehicleSeatDto,
+} from '../game/dto';
+import { MapData, MapService } from '../map/map.service';
+import { MovementValidatorService } from '../players/movement-validator.service';
+import { GameLoopService } from '../game/game-loop.service';
+import { WorldClockService } from '../game/world-clock.service';
+import { WeatherService } from '../game/weather.service';
+import { VehicleService } from '../vehicles/vehicle.service';
+import { TrafficService } from '../traffic/traffic.service';
+import { BlocksService, BlockType } from '../blocks/blocks.service';
+import {
+  BlockEditValidationResult,
+  BlockEditValidatorService,
+} from '../blocks/block-edit-validator.service';
+import {
+  AUTH_ERRORS,
+  AuthService,
+  AuthTokenPayload,
+} from '../auth/auth.service';
+import {
+  GameRoom,
+  GameTick,
+  PlayerData,
+  PlayerSnapshot,
+  VehicleData,
+  VehicleMoved,
+  WorldSnapshot,
+} from '../game/interfaces';
 
 @WebSocketGateway({
   cors: {
@@ -27,18 +66,102 @@ import { MapService } from '../map/map.service';
     credentials: true,
   },
 })
-export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
+// Les messages des clients sont validés comme les requêtes REST
+@UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+export class GameGateway
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
+{
   @WebSocketServer()
   server: Server;
 
   private readonly logger = new Logger(GameGateway.name);
+  private readonly WORLD_CLOCK_SYNC_INTERVAL = 10; // secondes
 
   constructor(
     private readonly playerService: PlayerService,
     private readonly roomService: RoomService,
     private readonly mapService: MapService,
+    private readonly movementValidator: MovementValidatorService,
+    private readonly gameLoop: GameLoopService,
+    private readonly authService: AuthService,
+    private readonly blocksService: BlocksService,
+    private readonly blockEditValidator: BlockEditValidatorService,
+    private readonly worldClock: WorldClockService,
+    private readonly weather: WeatherService,
+    private readonly vehicles: VehicleService,
+    private readonly traffic: TrafficService,
   ) {}
 
+  afterInit(server: Server) {
+    // Vérifier le token d'accès dès le handshake, avant tout événement de jeu
+    server.use((socket, next) => {
+      try {
+        const auth = socket.handshake.auth as { token?: string } | undefined;
+        socket.data.auth = this.authService.verifyAccessToken(auth?.token);
+        next();
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : AUTH_ERRORS.invalid;
+        this.logger.warn(`🔒 Handshake refusé pour ${socket.id}: ${message}`);
+        next(new Error(message));
+      }
+    });
+
+    // Diffuser un snapshot par room à chaque tick de la boucle serveur
+    this.gameLoop.onTick((tick) => this.broadcastSnapshots(tick));
+
+    // Resynchroniser régulièrement l'horloge du monde des clients
+    const clockSyncTicks =
+      this.gameLoop.getTickRate() * this.WORLD_CLOCK_SYNC_INTERVAL;
+    this.gameLoop.onTick((tick) => {
+      if (tick.tick % clockSyncTicks === 0) {
+        this.server.emit('worldClock', this.worldClock.getState());
+      }
+    });
+
+    // Faire évoluer la météo de chaque room et diffuser les changements
+    this.gameLoop.onTick((tick) => {
+      const roomIds = this.roomService.getAllRooms().map((room) => room.id);
+      for (const roomId of this.weather.update(roomIds, tick.serverTime)) {
+        this.broadcastWeather(roomId);
+      }
+    });
+
+    // Retirer les véhicules abandonnés et compléter le parc de chaque room
+    this.gameLoop.onTick((tick) => {
+      const { spawned, despawned } = this.vehicles.update(
+        this.roomService.getAllRooms(),
+        tick.serverTime,
+      );
+      for (const vehicle of despawned) {
+        this.server
+          .to(vehicle.roomId)
+          .emit('vehicleDespawned', { vehicleId: vehicle.id });
+      }
+      for (const vehicle of spawned) {
+        this.server.to(vehicle.roomId).emit('vehicleSpawned', vehicle);
+      }
+    });
+
+    // Faire rouler la circulation à chaque tick, la diffuser moins souvent
+    const trafficTicks = Math.max(
+      1,
+      Math.round(this.gameLoop.getTickRate() / this.traffic.getBroadcastRate()),
+    );
+    this.gameLoop.onTick((tick) => {
+      const rooms = this.roomService.getAllRooms();
+      this.traffic.update(rooms, tick.deltaTime, tick.serverTime);
+      if (tick.tick % trafficTicks !== 0) return;
+
+      for (const room of rooms) {
+        if (room.players.size === 0) continue;
+        this.server
+          .to(room.id)
+          .emit('traffic', this.traffic.getSnapshot(room.id, tick.serverTime));
+      }
+    });
+  }
+
   handleConnection(client: Socket) {
     this.logger.log(`Client connecté: ${client.id}`);
   }
@@ -48,17 +171,19 @@ export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
     const player = this.playerService.getPlayer(client.id);
     if (player) {
-      // Notification serveur pour la déconnexion
-      const disconnectNotification = {
-        type: 'playerDisconnected',
-        playerName: player.name,
-        message: `${player.name} a quitté le jeu`,
-        timestamp: new Date().toISOString(),
-      };
-      this.server.emit('serverNotification', disconnectNotification);
+      this.movementValidator.resetPlayer(player.id);
+      this.blockEditValidator.resetPlayer(player.id);
 
-      // Notifier les autres joueurs de la déconnexion
-      this.server.emit('playerDisconnected', player.id);
+      // Le joueur reste dans sa room pendant le délai de grâce, sans annonce de départ
+      if (
+        this.playerService.suspendPlayer(client.id, (expired) =>
+          this.handleGraceExpired(expired),
+        )
+      ) {
+        return;
+      }
+
+      this.leaveCurrentRoom(client, player, 'a quitté le jeu');
 
       // Supprimer le joueur (asynchrone)
       this.playerService.removePlayer(client.id).catch((error) => {
@@ -75,112 +200,385 @@ export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
     @MessageBody() joinRoomDto: JoinRoomDto,
     @ConnectedSocket() client: Socket,
   ) {
-    this.logger.log(`Joueur ${joinRoomDto.playerName} rejoint le jeu`);
+    // Le nom du joueur vient du token vérifié au handshake, pas du client
+    const auth = client.data.auth as AuthTokenPayload;
+    const playerName = auth.name;
+    this.logger.log(`Joueur ${playerName} rejoint le jeu`);
+
+    // Reprise d'une partie interrompue : l'état est restauré côté serveur
+    if (joinRoomDto.resumeToken) {
+      const resumed = this.playerService.resumePlayer(
+        client.id,
+        joinRoomDto.resumeToken,
+        auth.sub,
+      );
+      if (resumed) {
+        this.resumeGame(client, resumed);
+        return;
+      }
+      this.logger.warn(`🔑 Jeton de reprise invalide pour ${playerName}`);
+    }
+
+    // Une nouvelle connexion remplace une éventuelle partie suspendue
+    await this.playerService.expireSuspendedPlayer(auth.sub);
+
+    // Vérifier la room avant de créer le joueur
+    const room = this.roomService.findRoom(joinRoomDto.roomId);
+    if (!this.canJoinRoom(client, room, joinRoomDto.roomId)) {
+      return;
+    }
 
     try {
       // Créer le joueur
       const player = await this.playerService.createPlayer(
         client.id,
-        joinRoomDto.playerName,
+        playerName,
       );
+      this.movementValidator.resetPlayer(player.id);
+      this.sendResumeToken(client);
 
-      // Ajouter à la room par défaut
-      const room = this.roomService.getDefaultRoom();
-      if (room) {
-        this.roomService.addPlayerToRoom(room.id, player.id, player);
-
-        // Rejoindre la room Socket.io
-        client.join(room.id);
-
-        // Envoyer les données du joueur au client
-        this.logger.log(
-          `📤 Envoi playerJoined au client ${client.id}:`,
-          player,
-        );
-        client.emit('playerJoined', player);
-
-        // Envoyer la carte au joueur
-        try {
-          const mapData = this.mapService.getMapData();
-          this.logger.log(
-            `🗺️ Envoi de la carte au joueur ${player.name}:`,
-            mapData,
-          );
-          client.emit('mapData', mapData);
-        } catch (error) {
-          this.logger.error(`❌ Erreur lors de l'envoi de la carte:`, error);
-        }
-
-        // Notifier les autres joueurs
-        this.logger.log(
-          `📤 Diffusion playerJoined aux autres joueurs de la room ${room.id}`,
-        );
-        client.to(room.id).emit('playerJoined', player);
-
-        // Notification serveur pour la connexion
-        const joinNotification = {
-          type: 'playerJoined',
-          playerName: player.name,
-          message: `${player.name} a rejoint le jeu`,
-          timestamp: new Date().toISOString(),
-        };
-        this.server.emit('serverNotification', joinNotification);
-
-        // Envoyer la liste des joueurs existants
-        const existingPlayers = this.playerService
-          .getAllPlayers()
-          .filter((p) => p.id !== player.id);
-        this.logger.log(
-          `📤 Envoi existingPlayers au client ${client.id}:`,
-          existingPlayers,
-        );
-        client.emit('existingPlayers', existingPlayers);
-      }
+      this.enterRoom(client, player, room);
     } catch (error) {
       this.logger.error(
-        `❌ Erreur lors de la connexion du joueur ${joinRoomDto.playerName}:`,
+        `❌ Erreur lors de la connexion du joueur ${playerName}:`,
         error,
       );
       client.emit('joinError', { message: error.message });
     }
   }
 
+  @SubscribeMessage('listRooms')
+  handleListRooms(@ConnectedSocket() client: Socket) {
+    client.emit('roomsList', this.roomService.listRooms());
+  }
+
+  @SubscribeMessage('createRoom')
+  async handleCreateRoom(
+    @MessageBody() createRoomDto: CreateRoomDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const roomId = await this.roomService.createRoom(
+        createRoomDto.name,
+        createRoomDto.maxPlayers,
+        createRoomDto.seed,
+      );
+      const room = this.roomService.getRoom(roomId)!;
+      this.logger.log(`🏠 Room créée: ${room.name} (${room.id})`);
+
+      client.emit('roomCreated', this.roomService.toSummary(room));
+      this.server.emit('roomsList', this.roomService.listRooms());
+    } catch (error) {
+      client.emit('roomError', { message: error.message });
+    }
+  }
+
+  @SubscribeMessage('joinRoom')
+  handleJoinRoom(
+    @MessageBody() switchRoomDto: SwitchRoomDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const player = this.playerService.getPlayer(client.id);
+    if (!player) {
+      client.emit('joinError', {
+        code: 'NOT_IN_GAME',
+        message: 'Vous devez rejoindre le jeu avant de changer de room',
+      });
+      return;
+    }
+
+    const room = this.roomService.findRoom(switchRoomDto.roomId);
+    if (room && room.id === player.roomId) {
+      client.emit('roomJoined', this.roomService.toSummary(room));
+      return;
+    }
+    if (!this.canJoinRoom(client, room, switchRoomDto.roomId)) {
+      return;
+    }
+
+    this.leaveCurrentRoom(client, player, 'a quitté la room');
+    this.enterRoom(client, player, room);
+  }
+
+  @SubscribeMessage('leaveRoom')
+  handleLeaveRoom(@ConnectedSocket() client: Socket) {
+    const player = this.playerService.getPlayer(client.id);
+    if (!player?.roomId) return;
+
+    const roomId = player.roomId;
+    this.leaveCurrentRoom(client, player, 'a quitté la room');
+    client.emit('roomLeft', { roomId });
+  }
+
   @SubscribeMessage('playerMove')
   handlePlayerMove(
     @MessageBody() playerMoveDto: PlayerMoveDto,
     @ConnectedSocket() client: Socket,
   ) {
-    const player = this.playerService.updatePlayerPosition(
+    const currentPlayer = this.playerService.getPlayer(client.id);
+    if (!currentPlayer?.roomId) return;
+
+    // Le serveur fait autorité : vérifier le déplacement avant de l'appliquer
+    const validation = this.movementValidator.validateMove(
+      currentPlayer,
+      playerMoveDto.position,
+    );
+    if (playerMoveDto.seq !== undefined) {
+      this.playerService.acknowledgeInput(client.id, playerMoveDto.seq);
+    }
+
+    if (!validation.valid) {
+      this.logger.warn(
+        `⛔ Mouvement rejeté pour ${currentPlayer.name} (${validation.reason})`,
+      );
+      client.emit('positionCorrection', {
+        position: currentPlayer.position,
+        rotation: currentPlayer.rotation,
+        seq: currentPlayer.lastProcessedInput,
+        reason: validation.reason,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    // L'état est diffusé aux autres joueurs par le prochain snapshot
+    this.playerService.updatePlayerPosition(
       client.id,
       playerMoveDto.position,
       playerMoveDto.rotation,
       playerMoveDto.isMoving === 1,
-      playerMoveDto.speed,
+      this.movementValidator.clampSpeed(playerMoveDto.speed),
     );
+  }
 
-    if (player) {
-      // Ne diffuser que si le joueur bouge vraiment (vitesse > 0.5 pour éviter le spam)
-      if (player.isMoving) {
-        const moveData = {
-          playerId: player.id,
-          position: player.position,
-          rotation: player.rotation,
-          isMoving: player.isMoving,
-          speed: player.speed,
-        };
-
-        client.broadcast.emit('playerMoved', moveData);
+  @SubscribeMessage('enterVehicle')
+  handleEnterVehicle(
+    @MessageBody() vehicleEnterDto: VehicleEnterDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const player = this.playerService.getPlayer(client.id);
+    if (!player?.roomId) return;
+
+    const { vehicleId, seat } = vehicleEnterDto;
+    const result = this.vehicles.enterVehicle(player, vehicleId, seat);
+    if (!result.valid) {
+      client.emit('vehicleRejected', { vehicleId, reason: result.reason });
+      return;
+    }
+
+    // L'avatar de l'occupant est masqué par les snapshots
+    this.playerService.setPlayerVehicle(client.id, vehicleId);
+    this.server.to(player.roomId).emit('vehicleEntered', {
+      vehicleId,
+      playerId: player.id,
+      seat: result.seat,
+    });
+  }
+
+  @SubscribeMessage('changeSeat')
+  handleChangeSeat(
+    @MessageBody() vehicleSeatDto: VehicleSeatDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const player = this.playerService.getPlayer(client.id);
+    const { vehicleId, seat } = vehicleSeatDto;
+    if (!player?.roomId || player.vehicleId !== vehicleId) return;
+
+    const result = this.vehicles.changeSeat(player, seat);
+    if (!result.valid) {
+      client.emit('vehicleRejected', { vehicleId, reason: result.reason });
+      return;
+    }
+
+    this.server.to(player.roomId).emit('vehicleSeatChanged', {
+      vehicleId,
+      playerId: player.id,
+      from: result.previousSeat,
+      to: result.seat,
+    });
+  }
+
+  @SubscribeMessage('vehicleMove')
+  handleVehicleMove(
+    @MessageBody() vehicleMoveDto: VehicleMoveDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const player = this.playerService.getPlayer(client.id);
+    if (!player?.roomId) return;
+
+    const { vehicleId, position, heading, velocity, steering } = vehicleMoveDto;
+
+    // Seul le conducteur déplace le véhicule
+    const driven = this.vehicles.getDrivenVehicle(player.id, vehicleId);
+    if (!driven.vehicle) {
+      client.emit('vehicleRejected', { vehicleId, reason: driven.reason });
+      return;
+    }
+    const vehicle = driven.vehicle;
+
+    const validation = this.movementValidator.validateVehicleMove(
+      player,
+      position,
+      heading,
+    );
+    if (!validation.valid) {
+      const reason = validation.reason;
+      this.logger.warn(
+        `⛔ Mouvement de véhicule rejeté pour ${player.name} (${reason})`,
+      );
+      client.emit('vehicleCorrection', {
+        vehicleId,
+        position: vehicle.position,
+        heading: vehicle.rotation.y,
+        reason,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const damaged = this.vehicles.applyDriverMove(
+      vehicle,
+      position,
+      heading,
+      velocity,
+      steering,
+    );
+    this.moveOccupants(player.roomId, vehicle);
+
+    const moved: VehicleMoved = {
+      vehicleId,
+      driverId: player.id,
+      position,
+      heading,
+      velocity,
+      steering,
+      serverTime: Date.now(),
+    };
+    client.to(player.roomId).emit('vehicleMoved', moved);
+
+    if (damaged) {
+      this.server.to(player.roomId).emit('vehicleDamaged', {
+        vehicleId,
+        health: vehicle.health,
+      });
+      if (vehicle.health <= 0) {
+        this.wreckVehicle(player.roomId, vehicle);
       }
     }
   }
 
+  @SubscribeMessage('exitVehicle')
+  handleExitVehicle(
+    @MessageBody() vehicleExitDto: VehicleExitDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const player = this.playerService.getPlayer(client.id);
+    if (!player?.roomId || player.vehicleId !== vehicleExitDto.vehicleId) {
+      return;
+    }
+    this.releaseVehicle(player);
+
+    // Sortie refusée : le joueur reprend à pied depuis la position du véhicule
+    const { position } = vehicleExitDto;
+    const validation = this.movementValidator.validateVehicleExit(
+      player,
+      position,
+    );
+    if (!validation.valid) {
+      client.emit('positionCorrection', {
+        position: player.position,
+        rotation: player.rotation,
+        seq: player.lastProcessedInput,
+        reason: validation.reason,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+    this.playerService.updatePlayerPosition(
+      client.id,
+      position,
+      player.rotation,
+      false,
+      0,
+    );
+  }
+
+  @SubscribeMessage('claimVehicle')
+  async handleClaimVehicle(
+    @MessageBody() vehicleIdDto: VehicleIdDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const player = this.playerService.getPlayer(client.id);
+    if (!player?.roomId) return;
+
+    const { vehicleId } = vehicleIdDto;
+    const result = await this.vehicles.claimVehicle(player, vehicleId);
+    if (!result.valid) {
+      client.emit('vehicleRejected', { vehicleId, reason: result.reason });
+      return;
+    }
+
+    this.server.to(player.roomId).emit('vehicleClaimed', {
+      vehicleId,
+      ownerId: player.id,
+    });
+  }
+
+  @SubscribeMessage('breakBlock')
+  handleBreakBlock(
+    @MessageBody() blockPositionDto: BlockPositionDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const player = this.playerService.getPlayer(client.id);
+    if (!player?.roomId) return;
+
+    const { x, y, z } = blockPositionDto;
+    const seed = this.roomService.getWorldSeed(player.roomId);
+    this.applyBlockEdit(
+      client,
+      player,
+      blockPositionDto,
+      BlockType.AIR,
+      seed,
+      this.blockEditValidator.validateBreak(player, x, y, z, seed),
+    );
+  }
+
+  @SubscribeMessage('placeBlock')
+  handlePlaceBlock(
+    @MessageBody() placeBlockDto: PlaceBlockDto,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const player = this.playerService.getPlayer(client.id);
+    if (!player?.roomId) return;
+
+    const { x, y, z, type } = placeBlockDto;
+    const seed = this.roomService.getWorldSeed(player.roomId);
+    this.applyBlockEdit(
+      client,
+      player,
+      placeBlockDto,
+      type,
+      seed,
+      this.blockEditValidator.validatePlace(
+        player,
+        x,
+        y,
+        z,
+        type,
+        this.roomService.getPlayersInRoom(player.roomId),
+        seed,
+      ),
+    );
+  }
+
   @SubscribeMessage('chatMessage')
   handleChatMessage(
     @MessageBody() chatMessageDto: ChatMessageDto,
     @ConnectedSocket() client: Socket,
   ) {
     const player = this.playerService.getPlayer(client.id);
-    if (player) {
+    if (player?.roomId) {
       const messageData = {
         playerId: player.id,
         playerName: player.name,
@@ -193,20 +591,26 @@ export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
       );
 
       // Diffuser le message à tous les joueurs de la room
-      this.server.emit('chatMessage', messageData);
+      this.server.to(player.roomId).emit('chatMessage', messageData);
     }
   }
 
   @SubscribeMessage('getPlayers')
   handleGetPlayers(@ConnectedSocket() client: Socket) {
-    const players = this.playerService.getAllPlayers();
+    const player = this.playerService.getPlayer(client.id);
+    const players = player?.roomId
+      ? this.playerService.getPlayersInRoom(player.roomId)
+      : [];
     client.emit('playersList', players);
   }
 
   @SubscribeMessage('requestMapData')
   handleRequestMapData(@ConnectedSocket() client: Socket) {
     try {
-      const mapData = this.mapService.getMapData();
+      const player = this.playerService.getPlayer(client.id);
+      const mapData = this.getRoomMapData(
+        player?.roomId ? this.roomService.getRoom(player.roomId) : undefined,
+      );
       this.logger.log(
         `🗺️ Envoi de la carte au joueur qui l'a demandée:`,
         mapData,
@@ -217,16 +621,325 @@ export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  // Vérifier qu'une room existe et n'est pas pleine, sinon prévenir le client
+  private canJoinRoom(
+    client: Socket,
+    room: GameRoom | undefined,
+    requestedRoom?: string,
+  ): room is GameRoom {
+    if (!room) {
+      client.emit('joinError', {
+        code: 'ROOM_NOT_FOUND',
+        message: `La room "${requestedRoom}" n'existe pas`,
+      });
+      return false;
+    }
+
+    if (this.roomService.isRoomFull(room)) {
+      this.logger.warn(`🚫 Room ${room.name} pleine`);
+      client.emit('joinError', {
+        code: 'ROOM_FULL',
+        roomId: room.id,
+        message: `La room "${room.name}" est pleine (${room.players.size}/${room.maxPlayers} joueurs)`,
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  private enterRoom(client: Socket, player: PlayerData, room: GameRoom) {
+    if (!this.roomService.addPlayerToRoom(room.id, player.id, player)) {
+      this.canJoinRoom(client, room);
+      return;
+    }
+    this.playerService.setPlayerRoom(client.id, room.id);
+
+    // Rejoindre la room Socket.io
+    void client.join(room.id);
+    this.sendRoomState(client, player, room);
+
+    // Notifier les autres joueurs de la room
+    this.logger.log(
+      `📤 Diffusion playerJoined aux autres joueurs de la room ${room.id}`,
+    );
+    client.to(room.id).emit('playerJoined', player);
+
+    // Notification serveur pour la connexion
+    const joinNotification = {
+      type: 'playerJoined',
+      playerName: player.name,
+      message: `${player.name} a rejoint ${room.name}`,
+      timestamp: new Date().toISOString(),
+    };
+    this.server.to(room.id).emit('serverNotification', joinNotification);
+  }
+
+  // Les autres joueurs n'ont jamais vu le départ : seul le client est mis à jour
+  private resumeGame(client: Socket, player: PlayerData) {
+    this.movementValidator.resetPlayer(player.id);
+    this.sendResumeToken(client);
+
+    const room = player.roomId
+      ? this.roomService.getRoom(player.roomId)
+      : undefined;
+    if (!room) {
+      client.emit('playerJoined', player);
+      return;
+    }
+
+    void client.join(room.id);
+    this.sendRoomState(client, player, room);
+  }
+
+  // Envoyer au client la room, son joueur, la carte et les joueurs présents
+  private sendRoomState(client: Socket, player: PlayerData, room: GameRoom) {
+    // À l'arrivée (ou à la reprise), le joueur repart à pied
+    this.releaseVehicle(player);
+
+    client.emit('roomJoined', this.roomService.toSummary(room));
+    client.emit('worldClock', this.worldClock.getState());
+    client.emit('weather', this.weather.getState(room.id));
+    client.emit('vehicles', this.vehicles.getVehiclesInRoom(room.id));
+
+    // Les véhicules sauvegardés du joueur le suivent dans la room
+    void this.vehicles.loadOwnedVehicles(room.id, player.id).then((loaded) => {
+      for (const vehicle of loaded) {
+        this.server.to(room.id).emit('vehicleSpawned', vehicle);
+      }
+    });
+
+    // Envoyer les données du joueur au client
+    this.logger.log(`📤 Envoi playerJoined au client ${client.id}:`, player);
+    client.emit('playerJoined', player);
+
+    // Envoyer la carte au joueur, avec la seed du monde de sa room
+    try {
+      const mapData = this.getRoomMapData(room);
+      this.logger.log(
+        `🗺️ Envoi de la carte au joueur ${player.name}:`,
+        mapData,
+      );
+      client.emit('mapData', mapData);
+    } catch (error) {
+      this.logger.error(`❌ Erreur lors de l'envoi de la carte:`, error);
+    }
+
+    // Envoyer la liste des joueurs déjà présents dans la room
+    const existingPlayers = this.roomService
+      .getPlayersInRoom(room.id)
+      .filter((p) => p.id !== player.id);
+    this.logger.log(
+      `📤 Envoi existingPlayers au client ${client.id}:`,
+      existingPlayers,
+    );
+    client.emit('existingPlayers', existingPlayers);
+  }
+
+  // Le réseau routier est commun ; la seed choisit le monde de blocs de la room
+  private getRoomMapData(room: GameRoom | undefined): MapData {
+    const mapData = this.mapService.getMapData();
+    return room ? { ...mapData, seed: room.seed } : mapData;
+  }
+
+  private sendResumeToken(client: Socket) {
+    client.emit('resumeToken', {
+      token: this.playerService.issueResumeToken(client.id),
+      gracePeriod: this.playerService.getGracePeriod(),
+    });
+  }
+
+  private leaveCurrentRoom(client: Socket, player: PlayerData, reason: string) {
+    const roomId = player.roomId;
+    if (!roomId) return;
+
+    this.roomService.removePlayerFromRoom(roomId, player.id);
+    this.playerService.setPlayerRoom(client.id, null);
+    void client.leave(roomId);
+    this.announceLeave(roomId, player, reason);
+  }
+
+  // Le joueur suspendu ne s'est pas reconnecté à temps
+  private handleGraceExpired(player: PlayerData) {
+    if (!player.roomId) return;
+
+    this.roomService.removePlayerFromRoom(player.roomId, player.id);
+    this.announceLeave(player.roomId, player, 'a quitté le jeu');
+  }
+
+  private announceLeave(roomId: string, player: PlayerData, reason: string) {
+    this.releaseVehicle(player);
+
+    // Notification serveur pour le départ
+    const leaveNotification = {
+      type: 'playerDisconnected',
+      playerName: player.name,
+      message: `${player.name} ${reason}`,
+      timestamp: new Date().toISOString(),
+    };
+    this.server.to(roomId).emit('serverNotification', leaveNotification);
+
+    // Notifier les autres joueurs de la room
+    this.server.to(roomId).emit('playerDisconnected', player.id);
+  }
+
+  // Libérer la place du joueur dans son véhicule et prévenir la room
+  private releaseVehicle(player: PlayerData) {
+    player.vehicleId = null;
+
+    const result = this.vehicles.exitVehicle(player.id);
+    if (!result.vehicle) return;
+
+    this.server.to(result.vehicle.roomId).emit('vehicleExited', {
+      vehicleId: result.vehicle.id,
+      playerId: player.id,
+      seat: result.seat,
+    });
+  }
+
+  // Les occupants suivent le véhicule (position utilisée à leur sortie)
+  private moveOccupants(roomId: string, vehicle: VehicleData) {
+    const now = Date.now();
+    for (const occupant of this.roomService.getPlayersInRoom(roomId)) {
+      if (!vehicle.seats.includes(occupant.id)) continue;
+
+      occupant.position = { ...vehicle.position };
+      occupant.rotation = { ...vehicle.rotation };
+      occupant.isMoving = false;
+      occupant.speed = 0;
+      occupant.lastUpdate = now;
+    }
+  }
+
+  // Véhicule détruit : tous ses occupants descendent
+  private wreckVehicle(roomId: string, vehicle: VehicleData) {
+    this.logger.log(`💥 Véhicule ${vehicle.id} détruit`);
+    const players = this.roomService.getPlayersInRoom(roomId);
+
+    for (const { playerId, seat } of this.vehicles.ejectOccupants(vehicle.id)) {
+      const occupant = players.find((other) => other.id === playerId);
+      if (occupant) {
+        occupant.vehicleId = null;
+      }
+      this.server.to(roomId).emit('vehicleExited', {
+        vehicleId: vehicle.id,
+        playerId,
+        seat,
+      });
+    }
+  }
+
+  // La modification n'est diffusée qu'aux rooms dont le monde a cette seed
+  private applyBlockEdit(
+    client: Socket,
+    player: PlayerData,
+    position: BlockPositionDto,
+    type: BlockType,
+    seed: number,
+    validation: BlockEditValidationResult,
+  ) {
+    const { x, y, z } = position;
+    if (!validation.valid) {
+      this.logger.warn(
+        `⛔ Modification du bloc (${x}, ${y}, ${z}) refusée pour ${player.name} (${validation.reason})`,
+      );
+      client.emit('blockEditRejected', {
+        x,
+        y,
+        z,
+        type: this.blocksService.getBlock(x, y, z, seed)?.type ?? null,
+        reason: validation.reason,
+      });
+      return;
+    }
+
+    const block = this.blocksService.setBlock(x, y, z, type, seed);
+    const { chunkX, chunkZ } = this.blocksService.getChunkCoords(x, z);
+    const roomIds = this.roomService.getRoomIdsInWorld(seed);
+    if (roomIds.length === 0) return;
+
+    this.server.to(roomIds).emit('blockUpdate', {
+      ...block,
+      chunkX,
+      chunkZ,
+      playerId: player.id,
+    });
+  }
+
+  // Envoyer l'état compact de tous les joueurs de chaque room
+  private broadcastSnapshots(tick: GameTick) {
+    for (const room of this.roomService.getAllRooms()) {
+      if (room.players.size === 0) continue;
+
+      const snapshot: WorldSnapshot = {
+        seq: tick.tick,
+        serverTime: tick.serverTime,
+        players: Array.from(room.players.values()).map((player) =>
+          this.toPlayerSnapshot(player),
+        ),
+      };
+      this.server.to(room.id).emit('worldSnapshot', snapshot);
+    }
+  }
+
+  private toPlayerSnapshot(player: PlayerData): PlayerSnapshot {
+    const round = (value: number, precision: number) =>
+      Math.round(value * precision) / precision;
+
+    return {
+      id: player.id,
+      p: [
+        round(player.position.x, 100),
+        round(player.position.y, 100),
+        round(player.position.z, 100),
+      ],
+      r: [
+        round(player.rotation.x, 1000),
+        round(player.rotation.y, 1000),
+        round(player.rotation.z, 1000),
+      ],
+      m: player.isMoving ? 1 : 0,
+      s: round(player.speed, 100),
+      q: player.lastProcessedInput,
+      ...(player.vehicleId ? { v: player.vehicleId } : {}),
+    };
+  }
+
   // Méthode pour envoyer la carte à tous les joueurs connectés
   broadcastMapData() {
     try {
-      const mapData = this.mapService.getMapData();
       this.logger.log(
         '🗺️ Diffusion de la nouvelle carte à tous les joueurs connectés',
       );
-      this.server.emit('mapData', mapData);
+      for (const room of this.roomService.getAllRooms()) {
+        this.server.to(room.id).emit('mapData', this.getRoomMapData(room));
+      }
     } catch (error) {
       this.logger.error('❌ Erreur lors de la diffusion de la carte:', error);
     }
   }
+
+  // Diffuser l'horloge du monde après un réglage administrateur
+  broadcastWorldClock(message?: string) {
+    this.server.emit('worldClock', this.worldClock.getState());
+    if (message) {
+      this.server.emit('serverNotification', {
+        type: 'worldClock',
+        message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Diffuser la météo d'une room (changement automatique ou réglage administrateur)
+  broadcastWeather(roomId: string, message?: string) {
+    this.server.to(roomId).emit('weather', this.weather.getState(roomId));
+    if (message) {
+      this.server.to(roomId).emit('serverNotification', {
+        type: 'weather',
+        message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
 }
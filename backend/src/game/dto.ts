@@ -1,11 +1,25 @@
 import {
+  IsEnum,
+  IsIn,
+  IsInt,
   IsString,
   IsNotEmpty,
   IsNumber,
   IsObject,
+  IsBoolean,
+  IsArray,
+  ArrayMaxSize,
+  IsOptional,
+  Max,
+  MaxLength,
+  Min,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { BlockType } from '../blocks/blocks.service';
+import { VEHICLE_CONSTANTS } from '../shared/vehicle';
+import { WEATHER_TYPES } from '../shared/weather';
+import type { WeatherType } from '../shared/weather';
 
 export class PlayerPositionDto {
   @IsNumber()
@@ -30,16 +44,91 @@ export class PlayerRotationDto {
 }
 
 export class JoinRoomDto {
+  // Identifiant ou nom de la room ("default" pour la room principale)
+  @IsOptional()
+  @IsString()
+  roomId?: string;
+
+  // Ignoré : le nom provient du token d'authentification
+  @IsOptional()
+  @IsString()
+  playerName?: string;
+
+  // Jeton de reprise reçu lors de la connexion précédente
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  roomId: string;
+  resumeToken?: string;
+}
 
+export class CreateRoomDto {
   @IsString()
   @IsNotEmpty()
-  playerName: string;
+  name: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  maxPlayers?: number;
+
+  // Seed du monde de la room (aléatoire si absente), stockée en INTEGER
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(2147483647)
+  seed?: number;
+}
+
+export class SwitchRoomDto {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+}
+
+export class PlayerInputDto {
+  @IsNumber()
+  seq: number;
+
+  @IsNumber()
+  dt: number;
+
+  @IsBoolean()
+  forward: boolean;
+
+  @IsBoolean()
+  backward: boolean;
+
+  @IsBoolean()
+  left: boolean;
+
+  @IsBoolean()
+  right: boolean;
+
+  @IsBoolean()
+  jump: boolean;
+
+  @IsBoolean()
+  sprint: boolean;
+
+  @IsNumber()
+  yaw: number;
 }
 
 export class PlayerMoveDto {
+  // Numéro de la dernière frame d'entrée incluse dans ce message
+  @IsOptional()
+  @IsNumber()
+  seq?: number;
+
+  // Frames envoyées depuis le dernier message, au plus l'historique du client (~10 s à 60 FPS)
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(600)
+  @ValidateNested({ each: true })
+  @Type(() => PlayerInputDto)
+  inputs?: PlayerInputDto[];
+
   @IsObject()
   @ValidateNested()
   @Type(() => PlayerPositionDto)
@@ -62,7 +151,127 @@ export class ChatMessageDto {
   @IsNotEmpty()
   message: string;
 
+  // Ignoré : le nom provient du token d'authentification
+  @IsOptional()
+  @IsString()
+  playerName?: string;
+}
+
+export class BlockPositionDto {
+  @IsInt()
+  x: number;
+
+  @IsInt()
+  y: number;
+
+  @IsInt()
+  z: number;
+}
+
+export class PlaceBlockDto extends BlockPositionDto {
+  @IsEnum(BlockType)
+  type: BlockType;
+}
+
+// Véhicule visé par une action (monter, changer de place, s'approprier)
+export class VehicleIdDto {
   @IsString()
   @IsNotEmpty()
-  playerName: string;
+  @MaxLength(64)
+  vehicleId: string;
+}
+
+// État d'un véhicule envoyé par son conducteur
+export class VehicleMoveDto extends VehicleIdDto {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => PlayerPositionDto)
+  position: PlayerPositionDto;
+
+  @IsNumber()
+  heading: number;
+
+  // Même forme qu'une position (m/s)
+  @IsObject()
+  @ValidateNested()
+  @Type(() => PlayerPositionDto)
+  velocity: PlayerPositionDto;
+
+  @IsNumber()
+  @Min(-VEHICLE_CONSTANTS.maxSteer)
+  @Max(VEHICLE_CONSTANTS.maxSteer)
+  steering: number;
+}
+
+// Sans place demandée, le serveur choisit la première libre
+export class VehicleEnterDto extends VehicleIdDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(7)
+  seat?: number;
+}
+
+export class VehicleSeatDto extends VehicleIdDto {
+  @IsInt()
+  @Min(0)
+  @Max(7)
+  seat: number;
+}
+
+// Le conducteur choisit où descendre, le serveur le vérifie
+export class VehicleExitDto extends VehicleIdDto {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => PlayerPositionDto)
+  position: PlayerPositionDto;
+}
+
+// Réglage de l'horloge du monde par un administrateur
+export class SetWorldTimeDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(24)
+  time?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  frozen?: boolean;
+}
+
+// Réglage de la météo d'une room par un administrateur
+export class SetWeatherDto {
+  @IsIn(WEATHER_TYPES)
+  type: WeatherType;
+
+  // Secondes avant le prochain changement automatique
+  @IsOptional()
+  @IsNumber()
+  @Min(10)
+  @Max(24 * 60 * 60)
+  duration?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  frozen?: boolean;
+}
+
+// Itinéraire demandé entre deux positions (paramètres de requête)
+export class RouteQueryDto {
+  @Type(() => Number)
+  @IsNumber()
+  fromX: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  fromZ: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  toX: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  toZ: number;
 }
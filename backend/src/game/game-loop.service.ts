@@ -0,0 +1,83 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GameTick } from './interfaces';
+
+export type TickListener = (tick: GameTick) => void;
+
+@Injectable()
+export class GameLoopService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(GameLoopService.name);
+  private readonly DEFAULT_TICK_RATE = 20; // ticks par seconde
+  private readonly tickRate: number;
+  private listeners: TickListener[] = [];
+  private interval: NodeJS.Timeout | null = null;
+  private tick = 0;
+  private lastTickTime = 0;
+
+  constructor(private readonly configService: ConfigService) {
+    const configured = Number(this.configService.get('SERVER_TICK_RATE'));
+    this.tickRate =
+      Number.isFinite(configured) && configured > 0
+        ? configured
+        : this.DEFAULT_TICK_RATE;
+  }
+
+  onModuleInit() {
+    this.start();
+  }
+
+  onModuleDestroy() {
+    this.stop();
+  }
+
+  start(): void {
+    if (this.interval) return;
+
+    this.lastTickTime = Date.now();
+    this.interval = setInterval(() => this.runTick(), 1000 / this.tickRate);
+    this.logger.log(`⏱️ Boucle de jeu démarrée à ${this.tickRate} ticks/s`);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // Enregistrer un système appelé à chaque tick de simulation
+  onTick(listener: TickListener): void {
+    this.listeners.push(listener);
+  }
+
+  getTickRate(): number {
+    return this.tickRate;
+  }
+
+  getCurrentTick(): number {
+    return this.tick;
+  }
+
+  private runTick(): void {
+    const now = Date.now();
+    const gameTick: GameTick = {
+      tick: ++this.tick,
+      serverTime: now,
+      deltaTime: (now - this.lastTickTime) / 1000,
+    };
+    this.lastTickTime = now;
+
+    for (const listener of this.listeners) {
+      try {
+        listener(gameTick);
+      } catch (error) {
+        this.logger.error(`❌ Erreur pendant le tick ${gameTick.tick}:`, error);
+      }
+    }
+  }
+}
@@ -1,26 +1,74 @@
-import { Controller, Get, Post, Body, Param } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Headers,
+  HttpCode,
+  UsePipes,
+  ValidationPipe,
+  NotFoundException,
+} from '@nestjs/common';
 import { RoomService } from '../rooms/room.service';
 import { PlayerService } from '../players/player.service';
+import { PlayerDatabaseService } from '../players/player-database.service';
 import { MapService } from '../map/map.service';
+import { RoadGraphService } from '../map/road-graph.service';
 import { GameGateway } from '../events/game.gateway';
+import { AuthService } from '../auth/auth.service';
+import { WorldClockService } from './world-clock.service';
+import { WeatherService } from './weather.service';
+import { VehicleService } from '../vehicles/vehicle.service';
+import {
+  CreateRoomDto,
+  RouteQueryDto,
+  SetWeatherDto,
+  SetWorldTimeDto,
+} from './dto';
 
 @Controller('api')
 export class GameController {
   constructor(
     private readonly roomService: RoomService,
     private readonly playerService: PlayerService,
+    private readonly playerDb: PlayerDatabaseService,
     private readonly mapService: MapService,
+    private readonly roadGraph: RoadGraphService,
     private readonly gameGateway: GameGateway,
+    private readonly authService: AuthService,
+    private readonly worldClock: WorldClockService,
+    private readonly weather: WeatherService,
+    private readonly vehicles: VehicleService,
   ) {}
 
   @Get('rooms')
   getRooms() {
-    return this.roomService.getAllRooms();
+    return this.roomService.listRooms();
+  }
+
+  @Post('rooms')
+  @UsePipes(new ValidationPipe({ whitelist: true }))
+  async createRoom(@Body() createRoomDto: CreateRoomDto) {
+    const roomId = await this.roomService.createRoom(
+      createRoomDto.name,
+      createRoomDto.maxPlayers,
+      createRoomDto.seed,
+    );
+    return this.roomService.toSummary(this.roomService.getRoom(roomId)!);
   }
 
   @Get('rooms/:id')
   getRoom(@Param('id') id: string) {
-    return this.roomService.getRoom(id);
+    const room = this.roomService.findRoom(id);
+    if (!room) {
+      throw new NotFoundException(`Room ${id} introuvable`);
+    }
+    return {
+      ...this.roomService.toSummary(room),
+      players: this.roomService.getPlayersInRoom(room.id),
+    };
   }
 
   @Get('players')
@@ -28,6 +76,20 @@ export class GameController {
     return this.playerService.getAllPlayers();
   }
 
+  // Historique des sessions d'un joueur (identifiant ou nom)
+  @Get('players/:id/sessions')
+  async getPlayerSessions(
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+  ) {
+    const take = Math.min(Math.max(parseInt(limit ?? '50', 10) || 50, 1), 200);
+    const history = await this.playerDb.getSessionHistory(id, take);
+    if (!history) {
+      throw new NotFoundException(`Joueur ${id} introuvable`);
+    }
+    return history;
+  }
+
   @Get('health')
   getHealth() {
     return {
@@ -43,6 +105,26 @@ export class GameController {
     return this.mapService.getMapData();
   }
 
+  // Graphe routier : carrefours et voies orientées
+  @Get('map/roads')
+  getRoadGraph() {
+    return this.roadGraph.getGraph();
+  }
+
+  // Plus court chemin par la route entre deux positions
+  @Get('map/route')
+  @UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+  getRoute(@Query() query: RouteQueryDto) {
+    const route = this.roadGraph.findRoute(
+      { x: query.fromX, z: query.fromZ },
+      { x: query.toX, z: query.toZ },
+    );
+    if (!route) {
+      throw new NotFoundException('Aucun itinéraire entre ces positions');
+    }
+    return route;
+  }
+
   @Post('map/regenerate')
   async regenerateMap() {
     const newMapData = await this.mapService.forceRegenerateMap();
@@ -55,4 +137,77 @@ export class GameController {
       elementsCount: newMapData.elements.length 
     };
   }
+
+  @Get('time')
+  getWorldTime() {
+    return this.worldClock.getState();
+  }
+
+  // Régler ou figer l'heure du monde (administrateurs uniquement)
+  @Post('admin/time')
+  @HttpCode(200)
+  @UsePipes(new ValidationPipe({ whitelist: true }))
+  async setWorldTime(
+    @Headers('authorization') authorization: string | undefined,
+    @Body() setWorldTimeDto: SetWorldTimeDto,
+  ) {
+    const admin = await this.authService.verifyAdminToken(
+      authorization?.replace(/^Bearer\s+/i, ''),
+    );
+
+    if (setWorldTimeDto.time !== undefined) {
+      this.worldClock.setTime(setWorldTimeDto.time);
+    }
+    if (setWorldTimeDto.frozen !== undefined) {
+      this.worldClock.setFrozen(setWorldTimeDto.frozen);
+    }
+
+    this.gameGateway.broadcastWorldClock(`🕒 ${admin.name} a changé l'heure`);
+    return this.worldClock.getState();
+  }
+
+  @Get('rooms/:id/weather')
+  getRoomWeather(@Param('id') id: string) {
+    const room = this.roomService.findRoom(id);
+    if (!room) {
+      throw new NotFoundException(`Room ${id} introuvable`);
+    }
+    return this.weather.getState(room.id);
+  }
+
+  @Get('rooms/:id/vehicles')
+  getRoomVehicles(@Param('id') id: string) {
+    const room = this.roomService.findRoom(id);
+    if (!room) {
+      throw new NotFoundException(`Room ${id} introuvable`);
+    }
+    return this.vehicles.getVehiclesInRoom(room.id);
+  }
+
+  @Post('admin/rooms/:id/weather')
+  @HttpCode(200)
+  @UsePipes(new ValidationPipe({ whitelist: true }))
+  async setRoomWeather(
+    @Headers('authorization') authorization: string | undefined,
+    @Param('id') id: string,
+    @Body() setWeatherDto: SetWeatherDto,
+  ) {
+    const admin = await this.authService.verifyAdminToken(
+      authorization?.replace(/^Bearer\s+/i, ''),
+    );
+    const room = this.roomService.findRoom(id);
+    if (!room) {
+      throw new NotFoundException(`Room ${id} introuvable`);
+    }
+
+    const state = this.weather.setWeather(room.id, setWeatherDto.type, {
+      duration: setWeatherDto.duration,
+      frozen: setWeatherDto.frozen,
+    });
+    this.gameGateway.broadcastWeather(
+      room.id,
+      `🌦️ ${admin.name} a changé la météo`,
+    );
+    return state;
+  }
 }
@@ -1,3 +1,5 @@
+import type { VehicleModel } from '../shared/vehicle';
+
 export interface PlayerPosition {
   x: number;
   y: number;
@@ -18,6 +20,9 @@ export interface PlayerData {
   isMoving: boolean;
   speed: number;
   lastUpdate: number;
+  lastProcessedInput: number;
+  roomId: string | null;
+  vehicleId: string | null; // Véhicule occupé (conducteur ou passager)
 }
 
 export interface GameRoom {
@@ -26,16 +31,84 @@ export interface GameRoom {
   maxPlayers: number;
   players: Map<string, PlayerData>;
   createdAt: Date;
+  seed: number; // Seed du monde de la room
+  mapName: string; // Carte (modèle Map) utilisée par la room
+}
+
+// Description publique d'une room (liste des rooms, room rejointe)
+export interface RoomSummary {
+  id: string;
+  name: string;
+  playerCount: number;
+  maxPlayers: number;
+  seed: number;
+  mapName: string;
+  isDefault: boolean;
+  createdAt: string;
 }
 
-export interface JoinRoomDto {
+// Entrée compacte d'un joueur dans un snapshot (p = position, r = rotation, m = en mouvement, s = vitesse,
+// q = dernière entrée traitée par le serveur, pour la réconciliation côté client,
+// v = véhicule occupé, absent à pied)
+export interface PlayerSnapshot {
+  id: string;
+  p: [number, number, number];
+  r: [number, number, number];
+  m: 0 | 1;
+  s: number;
+  q: number;
+  v?: string;
+}
+
+// Véhicule partagé d'une room ; seats[0] est le conducteur
+export interface VehicleData {
+  id: string;
   roomId: string;
-  playerName: string;
+  model: VehicleModel;
+  position: PlayerPosition;
+  rotation: PlayerRotation; // y = cap
+  velocity: PlayerPosition;
+  steering: number;
+  health: number;
+  maxHealth: number;
+  seats: (string | null)[]; // Identifiants des joueurs assis
+  ownerId: string | null; // Propriétaire, null pour les voitures de la ville
+  abandonedAt: number | null; // Dernière sortie d'un occupant, null si jamais utilisé
 }
 
-export interface PlayerMoveDto {
+// État d'un véhicule relayé aux autres joueurs de la room
+export interface VehicleMoved {
+  vehicleId: string;
+  driverId: string;
   position: PlayerPosition;
-  rotation: PlayerRotation;
-  isMoving: boolean;
-  speed: number;
+  heading: number;
+  velocity: PlayerPosition;
+  steering: number;
+  serverTime: number;
+}
+
+export interface WorldSnapshot {
+  seq: number;
+  serverTime: number;
+  players: PlayerSnapshot[];
+}
+
+// Voiture de la circulation, état compact diffusé à fréquence réduite
+export interface TrafficCarSnapshot {
+  id: string;
+  m: VehicleModel;
+  p: [number, number, number];
+  h: number; // Cap
+  s: number; // Vitesse (m/s)
+}
+
+export interface TrafficSnapshot {
+  serverTime: number;
+  cars: TrafficCarSnapshot[];
+}
+
+export interface GameTick {
+  tick: number;
+  serverTime: number;
+  deltaTime: number;
 }
@@ -0,0 +1,63 @@
+import { ConfigService } from '@nestjs/config';
+import { WeatherService } from './weather.service';
+
+describe('WeatherService', () => {
+  const createService = (config: Record<string, string> = {}) =>
+    new WeatherService(
+      new ConfigService({
+        WEATHER_MIN_DURATION_SECONDS: '60',
+        WEATHER_MAX_DURATION_SECONDS: '60',
+        WEATHER_TRANSITION_SECONDS: '10',
+        ...config,
+      }),
+    );
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('starts each room with clear weather', () => {
+    const state = createService().getState('room-1', 0);
+
+    expect(state.type).toBe('clear');
+    expect(state.transitionDuration).toBe(0);
+    expect(state.nextChangeAt).toBe(60_000);
+  });
+
+  it('changes the weather once its duration is over', () => {
+    const service = createService();
+    service.getState('room-1', 0);
+    jest.spyOn(Math, 'random').mockReturnValue(0.5); // clear -> cloudy
+
+    expect(service.update(['room-1'], 59_000)).toEqual([]);
+    expect(service.update(['room-1'], 60_000)).toEqual(['room-1']);
+
+    const state = service.getState('room-1', 60_000);
+    expect(state.type).toBe('cloudy');
+    expect(state.previousType).toBe('clear');
+    expect(state.transitionDuration).toBe(10_000);
+    expect(state.nextChangeAt).toBe(120_000);
+  });
+
+  it('keeps a frozen weather until it is set again', () => {
+    const service = createService();
+    service.setWeather('room-1', 'storm', { frozen: true }, 0);
+
+    expect(service.update(['room-1'], 10_000_000)).toEqual([]);
+    expect(service.getState('room-1').type).toBe('storm');
+  });
+
+  it('uses the requested duration', () => {
+    const service = createService();
+    const state = service.setWeather('room-1', 'fog', { duration: 30 }, 1_000);
+
+    expect(state.nextChangeAt).toBe(31_000);
+  });
+
+  it('forgets rooms that no longer exist', () => {
+    const service = createService();
+    service.setWeather('room-1', 'rain', {}, 0);
+
+    service.update(['room-2'], 1_000);
+
+    expect(service.getState('room-1', 1_000).type).toBe('clear');
+  });
+});
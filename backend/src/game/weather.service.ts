@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  getWeatherTransition,
+  pickNextWeather,
+  WeatherState,
+  WeatherType,
+} from '../shared/weather';
+
+export interface SetWeatherOptions {
+  duration?: number; // secondes avant le prochain changement automatique
+  frozen?: boolean; // ne plus changer automatiquement
+}
+
+@Injectable()
+export class WeatherService {
+  private readonly logger = new Logger(WeatherService.name);
+  private readonly DEFAULT_MIN_DURATION = 5 * 60; // secondes
+  private readonly DEFAULT_MAX_DURATION = 15 * 60; // secondes
+  private readonly DEFAULT_TRANSITION = 30; // secondes
+  private readonly minDuration: number;
+  private readonly maxDuration: number;
+  private readonly transitionDuration: number;
+  private states: Map<string, WeatherState> = new Map();
+
+  constructor(private readonly configService: ConfigService) {
+    const minDuration = this.readSeconds('WEATHER_MIN_DURATION_SECONDS');
+    const maxDuration = this.readSeconds('WEATHER_MAX_DURATION_SECONDS');
+    const transition = this.readSeconds('WEATHER_TRANSITION_SECONDS');
+
+    this.minDuration = minDuration ?? this.DEFAULT_MIN_DURATION;
+    this.maxDuration = Math.max(
+      this.minDuration,
+      maxDuration ?? this.DEFAULT_MAX_DURATION,
+    );
+    this.transitionDuration = (transition ?? this.DEFAULT_TRANSITION) * 1000;
+  }
+
+  // Météo d'une room, créée au beau fixe à la première demande
+  getState(roomId: string, now: number = Date.now()): WeatherState {
+    return { ...this.getOrCreate(roomId, now), serverTime: now };
+  }
+
+  setWeather(
+    roomId: string,
+    type: WeatherType,
+    options: SetWeatherOptions = {},
+    now: number = Date.now(),
+  ): WeatherState {
+    this.changeWeather(roomId, type, now, options);
+    return this.getState(roomId, now);
+  }
+
+  // Faire évoluer la météo des rooms actives ; renvoie celles qui ont changé
+  update(roomIds: string[], now: number = Date.now()): string[] {
+    const active = new Set(roomIds);
+    for (const roomId of this.states.keys()) {
+      if (!active.has(roomId)) {
+        this.states.delete(roomId);
+      }
+    }
+
+    const changed: string[] = [];
+    for (const roomId of roomIds) {
+      const state = this.getOrCreate(roomId, now);
+      if (state.nextChangeAt !== null && now >= state.nextChangeAt) {
+        this.changeWeather(roomId, pickNextWeather(state.type), now);
+        changed.push(roomId);
+      }
+    }
+    return changed;
+  }
+
+  private changeWeather(
+    roomId: string,
+    type: WeatherType,
+    now: number,
+    options: SetWeatherOptions = {},
+  ): void {
+    const current = this.getOrCreate(roomId, now);
+    // Une transition interrompue repart de la météo la plus visible
+    const previousType =
+      getWeatherTransition(current, now) < 0.5
+        ? current.previousType
+        : current.type;
+    const duration = options.duration ?? this.randomDuration();
+
+    this.states.set(roomId, {
+      type,
+      previousType,
+      changedAt: now,
+      transitionDuration: type === previousType ? 0 : this.transitionDuration,
+      nextChangeAt: options.frozen ? null : now + duration * 1000,
+      serverTime: now,
+    });
+    if (type !== current.type) {
+      this.logger.log(`🌦️ Météo de la room ${roomId}: ${type}`);
+    }
+  }
+
+  private getOrCreate(roomId: string, now: number): WeatherState {
+    let state = this.states.get(roomId);
+    if (!state) {
+      state = {
+        type: 'clear',
+        previousType: 'clear',
+        changedAt: now,
+        transitionDuration: 0,
+        nextChangeAt: now + this.randomDuration() * 1000,
+        serverTime: now,
+      };
+      this.states.set(roomId, state);
+    }
+    return state;
+  }
+
+  private randomDuration(): number {
+    return (
+      this.minDuration + Math.random() * (this.maxDuration - this.minDuration)
+    );
+  }
+
+  private readSeconds(key: string): number | undefined {
+    const value = Number(this.configService.get(key));
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+}
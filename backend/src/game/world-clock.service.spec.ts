@@ -0,0 +1,54 @@
+import { ConfigService } from '@nestjs/config';
+import { WorldClockService } from './world-clock.service';
+
+describe('WorldClockService', () => {
+  const createService = (config: Record<string, string> = {}) =>
+    new WorldClockService(new ConfigService(config));
+
+  it('starts at the configured time', () => {
+    const service = createService({
+      WORLD_START_TIME: '21.5',
+      DAY_LENGTH_SECONDS: '600',
+    });
+
+    const state = service.getState();
+
+    expect(state.time).toBeCloseTo(21.5);
+    expect(state.dayLength).toBe(600);
+    expect(state.frozen).toBe(false);
+  });
+
+  it('falls back to defaults for invalid configuration', () => {
+    const state = createService({ DAY_LENGTH_SECONDS: 'abc' }).getState();
+
+    expect(state.time).toBeCloseTo(8);
+    expect(state.dayLength).toBe(1200);
+  });
+
+  it('re-anchors the state on the requested instant', () => {
+    const service = createService({ DAY_LENGTH_SECONDS: '240' });
+    service.setTime(10, 5_000);
+
+    const state = service.getState(15_000);
+
+    expect(state.time).toBeCloseTo(11);
+    expect(state.serverTime).toBe(15_000);
+  });
+
+  it('normalizes the time set by an admin', () => {
+    const service = createService();
+
+    expect(service.setTime(24, 0).time).toBe(0);
+  });
+
+  it('freezes and resumes from the current time', () => {
+    const service = createService({ DAY_LENGTH_SECONDS: '240' });
+    service.setTime(6, 0);
+
+    service.setFrozen(true, 20_000);
+    expect(service.getState(80_000).time).toBeCloseTo(8);
+
+    service.setFrozen(false, 80_000);
+    expect(service.getState(90_000).time).toBeCloseTo(9);
+  });
+});
@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  getTimeOfDay,
+  normalizeTimeOfDay,
+  WorldClockState,
+} from '../shared/world-clock';
+
+@Injectable()
+export class WorldClockService {
+  private readonly logger = new Logger(WorldClockService.name);
+  private readonly DEFAULT_DAY_LENGTH = 20 * 60; // secondes
+  private readonly DEFAULT_START_TIME = 8; // heures
+  private state: WorldClockState;
+
+  constructor(private readonly configService: ConfigService) {
+    const dayLength = Number(this.configService.get('DAY_LENGTH_SECONDS'));
+    const startTime = Number(this.configService.get('WORLD_START_TIME'));
+    this.state = {
+      time: Number.isFinite(startTime)
+        ? normalizeTimeOfDay(startTime)
+        : this.DEFAULT_START_TIME,
+      dayLength:
+        Number.isFinite(dayLength) && dayLength > 0
+          ? dayLength
+          : this.DEFAULT_DAY_LENGTH,
+      frozen: false,
+      serverTime: Date.now(),
+    };
+  }
+
+  // État courant, réancré sur l'instant présent pour les clients
+  getState(now: number = Date.now()): WorldClockState {
+    return {
+      ...this.state,
+      time: getTimeOfDay(this.state, now),
+      serverTime: now,
+    };
+  }
+
+  setTime(hours: number, now: number = Date.now()): WorldClockState {
+    this.state = {
+      ...this.state,
+      time: normalizeTimeOfDay(hours),
+      serverTime: now,
+    };
+    this.logger.log(`🕒 Heure du monde réglée à ${this.formatTime()}`);
+    return this.getState(now);
+  }
+
+  setFrozen(frozen: boolean, now: number = Date.now()): WorldClockState {
+    // Figer l'heure atteinte, ou repartir de celle-ci
+    this.state = { ...this.getState(now), frozen };
+    this.logger.log(
+      frozen
+        ? `⏸️ Heure du monde figée à ${this.formatTime()}`
+        : `▶️ Heure du monde relancée à ${this.formatTime()}`,
+    );
+    return this.getState(now);
+  }
+
+  private formatTime(): string {
+    const time = this.state.time;
+    const hours = Math.floor(time);
+    const minutes = Math.floor((time - hours) * 60);
+    return `${hours}h${minutes.toString().padStart(2, '0')}`;
+  }
+}
@@ -1,8 +1,9 @@
 import { Module } from '@nestjs/common';
 import { MapService } from './map.service';
+import { RoadGraphService } from './road-graph.service';
 
 @Module({
-  providers: [MapService],
-  exports: [MapService],
+  providers: [MapService, RoadGraphService],
+  exports: [MapService, RoadGraphService],
 })
 export class MapModule {}
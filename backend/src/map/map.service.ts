@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { DEFAULT_WORLD_SEED } from '../shared/world';
 
 export interface MapElement {
   type: 'road' | 'ground' | 'streetlight' | 'building';
@@ -10,6 +11,8 @@ export interface MapElement {
   metadata?: any;
 }
 
+export type MapChangeListener = (mapData: MapData) => void;
+
 export interface MapData {
   elements: MapElement[];
   seed: number;
@@ -21,7 +24,8 @@ export interface MapData {
 export class MapService {
   private readonly logger = new Logger(MapService.name);
   private mapData: MapData | null = null;
-  private readonly mapSeed = 12345; // Seed fixe pour la cohérence
+  private readonly mapSeed = DEFAULT_WORLD_SEED; // Seed fixe pour la cohérence
+  private listeners: MapChangeListener[] = [];
 
   constructor(private readonly prisma: PrismaService) {
     // L'initialisation sera faite de manière asynchrone
@@ -39,12 +43,12 @@ export class MapService {
 
       if (existingMap) {
         this.logger.log('🗺️ Carte existante trouvée, chargement...');
-        this.mapData = {
+        this.setMapData({
           elements: existingMap.elements as unknown as MapElement[],
           seed: existingMap.seed,
           version: existingMap.version,
           generatedAt: existingMap.createdAt.toISOString(),
-        };
+        });
       } else {
         this.logger.log('🗺️ Aucune carte trouvée, génération...');
         await this.generateAndSaveMap();
@@ -93,12 +97,12 @@ export class MapService {
     // Générer uniquement les routes
     this.generateRoadNetwork(elements);
 
-    this.mapData = {
+    this.setMapData({
       elements,
       seed: this.mapSeed,
       version: '3.0.0', // Version simplifiée - routes uniquement
       generatedAt: new Date().toISOString(),
-    };
+    });
 
     this.logger.log(
       `✅ Réseau routier généré avec ${elements.length} éléments`,
@@ -284,6 +288,11 @@ export class MapService {
     }
   }
 
+  // Enregistrer un système prévenu à chaque chargement ou régénération de la carte
+  public onMapChanged(listener: MapChangeListener): void {
+    this.listeners.push(listener);
+  }
+
   public getMapData(): MapData {
     if (!this.mapData) {
       this.logger.error("❌ MapData est null, génération d'urgence...");
@@ -309,6 +318,17 @@ export class MapService {
     return this.mapData!;
   }
 
+  private setMapData(mapData: MapData): void {
+    this.mapData = mapData;
+    for (const listener of this.listeners) {
+      try {
+        listener(mapData);
+      } catch (error) {
+        this.logger.error('❌ Erreur après le changement de carte:', error);
+      }
+    }
+  }
+
   // Générer les lampadaires le long des routes (en évitant les intersections)
   private generateStreetlights(
     elements: MapElement[],
@@ -0,0 +1,35 @@
+import { MapChangeListener, MapElement, MapService } from './map.service';
+import { RoadGraphService } from './road-graph.service';
+
+describe('RoadGraphService', () => {
+  const road = (z: number): MapElement => ({
+    type: 'road',
+    position: { x: 0, y: 0, z },
+    rotation: { x: 0, y: 0, z: 0 },
+    scale: { x: 100, y: 0.03, z: 12 },
+    metadata: { roadType: 'main', orientation: 'horizontal' },
+  });
+
+  it('rebuilds the graph when the map changes', () => {
+    let elements = [road(0)];
+    let listener: MapChangeListener = () => undefined;
+    const map = {
+      getMapElements: () => elements,
+      onMapChanged: (callback: MapChangeListener) => (listener = callback),
+    } as unknown as MapService;
+    const service = new RoadGraphService(map);
+
+    const graph = service.getGraph();
+    expect(service.getGraph()).toBe(graph);
+    expect(graph.nodes).toHaveLength(2);
+
+    elements = [road(0), road(40)];
+    listener({ elements, seed: 1, version: '3.0.0', generatedAt: '' });
+
+    expect(service.getGraph()).not.toBe(graph);
+    expect(service.getGraph().nodes).toHaveLength(4);
+    expect(service.findRoute({ x: 0, z: 38 }, { x: 20, z: 40 })?.length).toBe(
+      20,
+    );
+  });
+});
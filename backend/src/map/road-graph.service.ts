@@ -0,0 +1,34 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MapService } from './map.service';
+import { buildRoadGraph, findRoute, RoadGraph, RoadRoute } from './road-graph';
+
+// Graphe routier de la carte, partagé par la circulation, le GPS et les missions
+@Injectable()
+export class RoadGraphService {
+  private readonly logger = new Logger(RoadGraphService.name);
+  private graph: RoadGraph | null = null;
+
+  constructor(private readonly mapService: MapService) {
+    // Carte chargée ou régénérée : le graphe sera reconstruit au prochain usage
+    this.mapService.onMapChanged(() => {
+      this.graph = null;
+    });
+  }
+
+  getGraph(): RoadGraph {
+    if (!this.graph) {
+      this.graph = buildRoadGraph(this.mapService.getMapElements());
+      this.logger.log(
+        `🛣️ Graphe routier : ${this.graph.nodes.length} nœuds, ${this.graph.edges.length} voies`,
+      );
+    }
+    return this.graph;
+  }
+
+  findRoute(
+    from: { x: number; z: number },
+    to: { x: number; z: number },
+  ): RoadRoute | null {
+    return findRoute(this.getGraph(), from, to);
+  }
+}
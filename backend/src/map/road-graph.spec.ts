@@ -0,0 +1,118 @@
+import { MapElement } from './map.service';
+import { buildRoadGraph, findRoute, getLanePosition } from './road-graph';
+
+describe('buildRoadGraph', () => {
+  const road = (
+    x: number,
+    z: number,
+    orientation: 'horizontal' | 'vertical',
+    length = 10,
+  ): MapElement => ({
+    type: 'road',
+    position: { x, y: 0, z },
+    rotation: { x: 0, y: 0, z: 0 },
+    scale:
+      orientation === 'horizontal'
+        ? { x: length, y: 0.03, z: 12 }
+        : { x: 12, y: 0.03, z: length },
+    metadata: { roadType: 'main', orientation },
+  });
+
+  // Croix de deux routes de -25 à 25, segments qui se chevauchent
+  const cross = [-20, -12, -4, 4, 12, 20].flatMap((offset) => [
+    road(offset, 0, 'horizontal'),
+    road(0, offset, 'vertical'),
+  ]);
+
+  it('merges overlapping segments and splits roads at crossings', () => {
+    const graph = buildRoadGraph(cross);
+
+    expect(graph.nodes).toHaveLength(5);
+    expect(graph.edges).toHaveLength(8);
+
+    const center = graph.nodes.find((node) => node.x === 0 && node.z === 0);
+    expect(center?.intersection).toBe(true);
+    expect(center?.edges).toHaveLength(4);
+    expect(graph.nodes.filter((node) => node.intersection)).toHaveLength(1);
+  });
+
+  it('creates one lane per direction with its length', () => {
+    const graph = buildRoadGraph(cross);
+    const west = graph.nodes.find((node) => node.x === -25 && node.z === 0)!;
+    const eastbound = graph.edges[west.edges[0]];
+
+    expect(west.edges).toHaveLength(1);
+    expect(eastbound.length).toBe(25);
+    expect(eastbound.direction).toEqual({ x: 1, z: 0 });
+    expect(
+      graph.edges.some(
+        (edge) => edge.from === eastbound.to && edge.to === eastbound.from,
+      ),
+    ).toBe(true);
+  });
+
+  it('offsets lane positions to the right of the direction', () => {
+    const graph = buildRoadGraph(cross);
+    const west = graph.nodes.find((node) => node.x === -25 && node.z === 0)!;
+    const eastbound = graph.edges[west.edges[0]];
+
+    expect(getLanePosition(graph, eastbound, 10, 1.5)).toEqual({
+      x: -15,
+      z: 1.5,
+    });
+  });
+
+  it('ignores other map elements and keeps separate roads apart', () => {
+    const graph = buildRoadGraph([
+      road(0, 0, 'horizontal'),
+      road(0, 40, 'horizontal'),
+      { ...road(0, 20, 'horizontal'), type: 'building' },
+    ]);
+
+    expect(graph.nodes).toHaveLength(4);
+    expect(graph.edges).toHaveLength(4);
+    expect(graph.nodes.every((node) => !node.intersection)).toBe(true);
+  });
+
+  // Boucle : deux routes horizontales reliées aux deux bouts
+  const loop = [
+    road(0, 0, 'horizontal', 100),
+    road(0, 40, 'horizontal', 100),
+    road(-40, 20, 'vertical', 40),
+    road(40, 20, 'vertical', 40),
+  ];
+
+  it('finds the shortest route between two positions', () => {
+    const route = findRoute(
+      buildRoadGraph(loop),
+      { x: -10, z: 3 },
+      { x: -10, z: 40 },
+    );
+
+    expect(route?.length).toBe(100);
+    expect(route?.points).toEqual([
+      { x: -10, z: 0 },
+      { x: -40, z: 0 },
+      { x: -40, z: 40 },
+      { x: -10, z: 40 },
+    ]);
+    expect(route?.edges).toHaveLength(1);
+  });
+
+  it('drives straight along a single stretch of road', () => {
+    const route = findRoute(
+      buildRoadGraph(loop),
+      { x: 20, z: 0 },
+      { x: -20, z: 0 },
+    );
+
+    expect(route?.length).toBe(40);
+    expect(route?.nodes).toEqual([]);
+  });
+
+  it('returns no route without roads', () => {
+    expect(findRoute(buildRoadGraph([]), { x: 0, z: 0 }, { x: 10, z: 0 })).toBe(
+      null,
+    );
+  });
+});
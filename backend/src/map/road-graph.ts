@@ -0,0 +1,316 @@
+import { MapElement } from './map.service';
+
+// Carrefour ou extrémité de route (plan X/Z)
+export interface RoadNode {
+  id: number;
+  x: number;
+  z: number;
+  edges: number[]; // Tronçons sortants
+  intersection: boolean; // Au moins trois directions possibles
+}
+
+// Tronçon orienté entre deux nœuds : une voie de circulation
+export interface RoadEdge {
+  id: number;
+  from: number;
+  to: number;
+  length: number;
+  direction: { x: number; z: number }; // Unitaire, de from vers to
+  width: number; // Largeur de la chaussée
+  roadType: string;
+}
+
+export interface RoadGraph {
+  nodes: RoadNode[];
+  edges: RoadEdge[];
+}
+
+// Route continue le long d'un axe, fusion des segments qui se touchent
+interface RoadLine {
+  horizontal: boolean; // Suit l'axe X
+  offset: number; // z d'une route horizontale, x d'une route verticale
+  start: number;
+  end: number;
+  width: number;
+  roadType: string;
+}
+
+const MERGE_TOLERANCE = 0.5;
+const MIN_EDGE_LENGTH = 1;
+
+// Construire le graphe routier à partir des éléments `road` de la carte
+export function buildRoadGraph(elements: MapElement[]): RoadGraph {
+  const lines = mergeRoadLines(elements);
+  const nodes: RoadNode[] = [];
+  const edges: RoadEdge[] = [];
+  const nodeIds = new Map<string, number>();
+
+  const getNode = (x: number, z: number): RoadNode => {
+    const key = `${x.toFixed(1)}:${z.toFixed(1)}`;
+    let id = nodeIds.get(key);
+    if (id === undefined) {
+      id = nodes.length;
+      nodes.push({ id, x, z, edges: [], intersection: false });
+      nodeIds.set(key, id);
+    }
+    return nodes[id];
+  };
+
+  const addEdge = (from: RoadNode, to: RoadNode, line: RoadLine) => {
+    const length = Math.hypot(to.x - from.x, to.z - from.z);
+    const edge: RoadEdge = {
+      id: edges.length,
+      from: from.id,
+      to: to.id,
+      length,
+      direction: { x: (to.x - from.x) / length, z: (to.z - from.z) / length },
+      width: line.width,
+      roadType: line.roadType,
+    };
+    edges.push(edge);
+    from.edges.push(edge.id);
+  };
+
+  for (const line of lines) {
+    // Arrêts le long de la route : extrémités et croisements
+    const stops = [line.start, line.end];
+    for (const other of lines) {
+      if (other.horizontal === line.horizontal) continue;
+      if (
+        other.offset >= line.start &&
+        other.offset <= line.end &&
+        line.offset >= other.start &&
+        line.offset <= other.end
+      ) {
+        stops.push(other.offset);
+      }
+    }
+    stops.sort((a, b) => a - b);
+
+    let previous: RoadNode | null = null;
+    let previousStop = -Infinity;
+    for (const stop of stops) {
+      if (stop - previousStop < MIN_EDGE_LENGTH) continue;
+
+      const node = line.horizontal
+        ? getNode(stop, line.offset)
+        : getNode(line.offset, stop);
+      if (previous) {
+        addEdge(previous, node, line);
+        addEdge(node, previous, line);
+      }
+      previous = node;
+      previousStop = stop;
+    }
+  }
+
+  for (const node of nodes) {
+    node.intersection = node.edges.length >= 3;
+  }
+  return { nodes, edges };
+}
+
+// Position sur la voie de droite d'un tronçon, à une distance de son départ
+export function getLanePosition(
+  graph: RoadGraph,
+  edge: RoadEdge,
+  distance: number,
+  laneOffset: number,
+): { x: number; z: number } {
+  const from = graph.nodes[edge.from];
+  return {
+    x: from.x + edge.direction.x * distance - edge.direction.z * laneOffset,
+    z: from.z + edge.direction.z * distance + edge.direction.x * laneOffset,
+  };
+}
+
+function mergeRoadLines(elements: MapElement[]): RoadLine[] {
+  const groups = new Map<string, RoadLine[]>();
+
+  for (const element of elements) {
+    if (element.type !== 'road') continue;
+
+    const orientation = element.metadata?.orientation;
+    const horizontal =
+      orientation === 'horizontal' ||
+      (orientation !== 'vertical' && element.scale.x >= element.scale.z);
+    const center = horizontal ? element.position.x : element.position.z;
+    const length = horizontal ? element.scale.x : element.scale.z;
+    const line: RoadLine = {
+      horizontal,
+      offset: horizontal ? element.position.z : element.position.x,
+      start: center - length / 2,
+      end: center + length / 2,
+      width: horizontal ? element.scale.z : element.scale.x,
+      roadType: element.metadata?.roadType ?? 'main',
+    };
+
+    const key = `${horizontal ? 'h' : 'v'}:${line.offset.toFixed(1)}`;
+    const group = groups.get(key) ?? [];
+    group.push(line);
+    groups.set(key, group);
+  }
+
+  const merged: RoadLine[] = [];
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.start - b.start);
+
+    let current = { ...group[0] };
+    for (const line of group.slice(1)) {
+      if (line.start <= current.end + MERGE_TOLERANCE) {
+        current.end = Math.max(current.end, line.end);
+        current.width = Math.max(current.width, line.width);
+      } else {
+        merged.push(current);
+        current = { ...line };
+      }
+    }
+    merged.push(current);
+  }
+  return merged;
+}
+
+// Point du graphe le plus proche d'une position : tronçon et distance depuis son départ
+export interface RoadSnap {
+  edge: RoadEdge;
+  distance: number;
+  x: number;
+  z: number;
+}
+
+// Itinéraire le plus court entre deux positions, le long des routes
+export interface RoadRoute {
+  length: number;
+  points: { x: number; z: number }[]; // Départ projeté, carrefours, arrivée projetée
+  nodes: number[];
+  edges: number[]; // Tronçons parcourus en entier
+}
+
+// Projeter une position sur l'axe de la route la plus proche
+export function snapToRoad(
+  graph: RoadGraph,
+  x: number,
+  z: number,
+): RoadSnap | null {
+  let best: RoadSnap | null = null;
+  let bestDistance = Infinity;
+
+  for (const edge of graph.edges) {
+    const from = graph.nodes[edge.from];
+    const along =
+      (x - from.x) * edge.direction.x + (z - from.z) * edge.direction.z;
+    const distance = Math.min(Math.max(along, 0), edge.length);
+    const point = {
+      x: from.x + edge.direction.x * distance,
+      z: from.z + edge.direction.z * distance,
+    };
+    const offRoad = Math.hypot(x - point.x, z - point.z);
+    if (offRoad < bestDistance) {
+      best = { edge, distance, ...point };
+      bestDistance = offRoad;
+    }
+  }
+  return best;
+}
+
+// A* entre les projections des deux positions sur le réseau routier
+export function findRoute(
+  graph: RoadGraph,
+  from: { x: number; z: number },
+  to: { x: number; z: number },
+): RoadRoute | null {
+  const start = snapToRoad(graph, from.x, from.z);
+  const goal = snapToRoad(graph, to.x, to.z);
+  if (!start || !goal) return null;
+
+  const startPoint = { x: start.x, z: start.z };
+  const goalPoint = { x: goal.x, z: goal.z };
+
+  // Même portion de route : trajet direct
+  if (
+    (start.edge.from === goal.edge.from && start.edge.to === goal.edge.to) ||
+    (start.edge.from === goal.edge.to && start.edge.to === goal.edge.from)
+  ) {
+    return {
+      length: Math.hypot(goal.x - start.x, goal.z - start.z),
+      points: [startPoint, goalPoint],
+      nodes: [],
+      edges: [],
+    };
+  }
+
+  const costs = new Map<number, number>();
+  const cameBy = new Map<number, number>(); // Nœud -> tronçon emprunté pour l'atteindre
+  const open = new Set<number>();
+  const closed = new Set<number>();
+  const reach = (node: number, cost: number, edge?: number) => {
+    if (cost >= (costs.get(node) ?? Infinity)) return;
+    costs.set(node, cost);
+    if (edge !== undefined) cameBy.set(node, edge);
+    open.add(node);
+  };
+
+  reach(start.edge.from, start.distance);
+  reach(start.edge.to, start.edge.length - start.distance);
+
+  // Reste à parcourir depuis chaque extrémité du tronçon d'arrivée
+  const exits = new Map([
+    [goal.edge.from, goal.distance],
+    [goal.edge.to, goal.edge.length - goal.distance],
+  ]);
+  const heuristic = (node: number) =>
+    Math.hypot(graph.nodes[node].x - goal.x, graph.nodes[node].z - goal.z);
+
+  let bestLength = Infinity;
+  let bestExit: number | null = null;
+  while (open.size > 0) {
+    let current = -1;
+    let currentEstimate = Infinity;
+    for (const node of open) {
+      const estimate = costs.get(node)! + heuristic(node);
+      if (estimate < currentEstimate) {
+        current = node;
+        currentEstimate = estimate;
+      }
+    }
+    if (currentEstimate >= bestLength) break;
+
+    open.delete(current);
+    closed.add(current);
+    const cost = costs.get(current)!;
+
+    const exit = exits.get(current);
+    if (exit !== undefined && cost + exit < bestLength) {
+      bestLength = cost + exit;
+      bestExit = current;
+    }
+
+    for (const edgeId of graph.nodes[current].edges) {
+      const edge = graph.edges[edgeId];
+      if (!closed.has(edge.to)) {
+        reach(edge.to, cost + edge.length, edge.id);
+      }
+    }
+  }
+  if (bestExit === null) return null;
+
+  const edges: number[] = [];
+  let node = bestExit;
+  while (cameBy.has(node)) {
+    const edge = graph.edges[cameBy.get(node)!];
+    edges.unshift(edge.id);
+    node = edge.from;
+  }
+  const nodes = [node, ...edges.map((id) => graph.edges[id].to)];
+
+  return {
+    length: bestLength,
+    points: [
+      startPoint,
+      ...nodes.map((id) => ({ x: graph.nodes[id].x, z: graph.nodes[id].z })),
+      goalPoint,
+    ],
+    nodes,
+    edges,
+  };
+}
@@ -0,0 +1,116 @@
+import { BlocksService } from '../blocks/blocks.service';
+import { PlayerData, PlayerPosition } from '../game/interfaces';
+import { RoomService } from '../rooms/room.service';
+import { MovementValidatorService } from './movement-validator.service';
+
+// uuid n'est publié qu'en ESM, que jest ne transforme pas
+jest.mock('uuid', () => ({ v4: () => 'id' }));
+
+describe('MovementValidatorService', () => {
+  // Sol plat sous y = 5, un mur en x = 3 et un bassin profond en x >= 20
+  const getBlock = (x: number, y: number) => {
+    if (x >= 20) return y < -20 ? { type: 'stone' } : { type: 'water' };
+    if (y < 5) return { type: 'stone' };
+    if (x === 3 && y < 8) return { type: 'stone' };
+    return null;
+  };
+
+  let validator: MovementValidatorService;
+
+  const createPlayer = (position: PlayerPosition): PlayerData => ({
+    id: 'player-1',
+    name: 'alice',
+    position,
+    rotation: { x: 0, y: 0, z: 0 },
+    isMoving: false,
+    speed: 0,
+    lastUpdate: 0,
+    lastProcessedInput: 0,
+    roomId: 'room-1',
+    vehicleId: null,
+  });
+
+  // Valider puis appliquer le déplacement, comme la gateway
+  const move = (player: PlayerData, position: PlayerPosition, now: number) => {
+    const result = validator.validateMove(player, position, now);
+    if (result.valid) player.position = position;
+    return result;
+  };
+
+  beforeEach(() => {
+    validator = new MovementValidatorService(
+      { getBlock } as unknown as BlocksService,
+      { getWorldSeed: () => 12345 } as unknown as RoomService,
+    );
+  });
+
+  it('accepts a run and rejects a teleport', () => {
+    const player = createPlayer({ x: 0.5, y: 5, z: 0.5 });
+
+    expect(move(player, { x: 0.5, y: 5, z: 10 }, 1000)).toEqual({
+      valid: true,
+    });
+    expect(move(player, { x: 0.5, y: 5, z: 60 }, 1100)).toEqual({
+      valid: false,
+      reason: 'speed',
+    });
+  });
+
+  it('rejects climbing higher than a jump', () => {
+    const player = createPlayer({ x: 0.5, y: 5, z: 0.5 });
+
+    expect(move(player, { x: 0.5, y: 5.9, z: 0.5 }, 100).valid).toBe(true);
+    expect(move(player, { x: 0.5, y: 8, z: 0.5 }, 200)).toEqual({
+      valid: false,
+      reason: 'flight',
+    });
+  });
+
+  it('accepts a long fall at terminal velocity', () => {
+    const player = createPlayer({ x: 10.5, y: 100, z: 0.5 });
+
+    expect(move(player, { x: 10.5, y: 99.9, z: 0.5 }, 1000).valid).toBe(true);
+    // 0,5 s d'accélération puis 60 m/s : sans limite, y = 25 serait le maximum
+    expect(move(player, { x: 10.5, y: 40, z: 0.5 }, 2500).valid).toBe(true);
+    expect(move(player, { x: 10.5, y: 48, z: 0.5 }, 2600)).toEqual({
+      valid: false,
+      reason: 'flight',
+    });
+  });
+
+  it('rejects walking through a wall', () => {
+    const player = createPlayer({ x: 1.5, y: 5, z: 0.5 });
+
+    expect(move(player, { x: 4.5, y: 5, z: 0.5 }, 1000)).toEqual({
+      valid: false,
+      reason: 'collision',
+    });
+    expect(player.position.x).toBe(1.5);
+  });
+
+  it('lets a swimmer rise to the surface', () => {
+    const player = createPlayer({ x: 25.5, y: -10, z: 0.5 });
+
+    for (let i = 1; i <= 8; i++) {
+      const position = { x: 25.5, y: -10 + i, z: 0.5 };
+      expect(move(player, position, i * 200).valid).toBe(true);
+    }
+  });
+
+  it('flags a player after ten rejected moves', () => {
+    const player = createPlayer({ x: 0.5, y: 5, z: 0.5 });
+    const invalid = { x: NaN, y: 5, z: 0.5 };
+
+    for (let i = 0; i < 9; i++) {
+      expect(move(player, invalid, 1000).reason).toBe('invalid');
+    }
+    expect(validator.getViolationStats(player.id)).toEqual({
+      total: 9,
+      recent: 9,
+      flagged: false,
+    });
+
+    move(player, invalid, 1000);
+    expect(validator.getViolationStats(player.id)?.flagged).toBe(true);
+  });
+});
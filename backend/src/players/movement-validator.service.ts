@@ -0,0 +1,335 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BlocksService } from '../blocks/blocks.service';
+import { PlayerData, PlayerPosition } from '../game/interfaces';
+import { RoomService } from '../rooms/room.service';
+import {
+  MOVEMENT_CONSTANTS,
+  collidesAt,
+  getMaxJumpHeight,
+  isGroundedAt,
+  isInLiquid,
+  isLiquidBlockType,
+  isSolidBlockType,
+} from '../shared/movement';
+import type { LiquidBlockQuery, SolidBlockQuery } from '../shared/movement';
+import { VEHICLE_CONSTANTS, vehicleCollidesAt } from '../shared/vehicle';
+
+export type MovementViolation = 'invalid' | 'speed' | 'flight' | 'collision';
+
+export interface MovementValidationResult {
+  valid: boolean;
+  reason?: MovementViolation;
+}
+
+export interface MovementViolationStats {
+  total: number;
+  recent: number;
+  flagged: boolean;
+}
+
+// État de validation conservé pour chaque joueur
+interface MovementState {
+  lastCheckedAt: number;
+  distanceBudget: number;
+  lastGroundY: number;
+  airborneSince: number | null;
+  violations: number;
+  recentViolations: number[];
+  flagged: boolean;
+}
+
+@Injectable()
+export class MovementValidatorService {
+  private readonly logger = new Logger(MovementValidatorService.name);
+  private states: Map<string, MovementState> = new Map();
+
+  // Tolérances pour absorber la latence et la gigue réseau
+  private readonly SPEED_TOLERANCE = 1.25;
+  private readonly MAX_BUDGET_SECONDS = 1;
+  private readonly VERTICAL_TOLERANCE = 0.6;
+  private readonly AIR_GRACE_SECONDS = 0.25;
+  private readonly PATH_STEP = 0.5;
+  private readonly VEHICLE_EXIT_DISTANCE = 4;
+
+  // Signalement des joueurs qui enchaînent les violations
+  private readonly VIOLATION_WINDOW_MS = 10000;
+  private readonly FLAG_THRESHOLD = 10;
+
+  constructor(
+    private readonly blocksService: BlocksService,
+    private readonly roomService: RoomService,
+  ) {}
+
+  validateMove(
+    player: PlayerData,
+    position: PlayerPosition,
+    now: number = Date.now(),
+  ): MovementValidationResult {
+    const state = this.getState(player);
+    const elapsed = Math.max(0, (now - state.lastCheckedAt) / 1000);
+    state.lastCheckedAt = now;
+
+    // Recharger le budget de distance selon le temps écoulé
+    const maxSpeed = MOVEMENT_CONSTANTS.runSpeed * this.SPEED_TOLERANCE;
+    state.distanceBudget = Math.min(
+      state.distanceBudget + maxSpeed * elapsed,
+      maxSpeed * this.MAX_BUDGET_SECONDS,
+    );
+
+    if (!this.isFinitePosition(position)) {
+      return this.reject(player, state, 'invalid');
+    }
+
+    const from = player.position;
+    const isSolidAt = this.getSolidQuery(player);
+
+    // Vitesse horizontale
+    const horizontalDistance = Math.hypot(
+      position.x - from.x,
+      position.z - from.z,
+    );
+    if (horizontalDistance > state.distanceBudget) {
+      return this.reject(player, state, 'speed');
+    }
+
+    // Gravité : impossible de monter plus haut qu'un saut depuis le dernier sol
+    const airTime =
+      state.airborneSince === null ? 0 : (now - state.airborneSince) / 1000;
+    const maxY =
+      state.lastGroundY + this.getMaxRise(airTime) + this.VERTICAL_TOLERANCE;
+    if (position.y > maxY) {
+      return this.reject(player, state, 'flight');
+    }
+
+    // Blocs solides sur le trajet (on autorise à sortir d'un bloc)
+    if (
+      !collidesAt(from, isSolidAt) &&
+      this.pathCollides(from, position, isSolidAt)
+    ) {
+      return this.reject(player, state, 'collision');
+    }
+
+    state.distanceBudget -= horizontalDistance;
+
+    // Dans l'eau, on peut remonter à la nage : même traitement qu'au sol
+    if (
+      isGroundedAt(position, isSolidAt) ||
+      isInLiquid(position, this.getLiquidQuery(player))
+    ) {
+      state.lastGroundY = position.y;
+      state.airborneSince = null;
+    } else if (state.airborneSince === null) {
+      state.airborneSince = now;
+    }
+
+    return { valid: true };
+  }
+
+  // Position d'un véhicule conduit par le joueur : vitesse de la voiture,
+  // sans contrainte de saut (le joueur repart du sol en descendant)
+  validateVehicleMove(
+    player: PlayerData,
+    position: PlayerPosition,
+    heading: number,
+    now: number = Date.now(),
+  ): MovementValidationResult {
+    const state = this.getState(player);
+    const elapsed = Math.max(0, (now - state.lastCheckedAt) / 1000);
+    state.lastCheckedAt = now;
+
+    const maxSpeed = VEHICLE_CONSTANTS.maxSpeed * this.SPEED_TOLERANCE;
+    state.distanceBudget = Math.min(
+      state.distanceBudget + maxSpeed * elapsed,
+      maxSpeed * this.MAX_BUDGET_SECONDS,
+    );
+
+    if (!this.isFinitePosition(position) || !Number.isFinite(heading)) {
+      return this.reject(player, state, 'invalid');
+    }
+
+    const horizontalDistance = Math.hypot(
+      position.x - player.position.x,
+      position.z - player.position.z,
+    );
+    if (horizontalDistance > state.distanceBudget) {
+      return this.reject(player, state, 'speed');
+    }
+
+    if (vehicleCollidesAt(position, heading, this.getSolidQuery(player))) {
+      return this.reject(player, state, 'collision');
+    }
+
+    state.distanceBudget -= horizontalDistance;
+    state.lastGroundY = position.y;
+    state.airborneSince = null;
+    return { valid: true };
+  }
+
+  // Position où le joueur descend de son véhicule : à côté de la voiture ou
+  // sur son toit, dans un espace libre
+  validateVehicleExit(
+    player: PlayerData,
+    position: PlayerPosition,
+  ): MovementValidationResult {
+    const state = this.getState(player);
+    if (!this.isFinitePosition(position)) {
+      return this.reject(player, state, 'invalid');
+    }
+
+    const horizontalDistance = Math.hypot(
+      position.x - player.position.x,
+      position.z - player.position.z,
+    );
+    const rise = position.y - player.position.y;
+    if (
+      horizontalDistance > this.VEHICLE_EXIT_DISTANCE ||
+      rise > VEHICLE_CONSTANTS.height + this.VERTICAL_TOLERANCE
+    ) {
+      return this.reject(player, state, 'speed');
+    }
+
+    if (collidesAt(position, this.getSolidQuery(player))) {
+      return this.reject(player, state, 'collision');
+    }
+
+    state.lastGroundY = position.y;
+    state.airborneSince = null;
+    return { valid: true };
+  }
+
+  // Vitesse déclarée par le client, bornée à la vitesse de course
+  clampSpeed(speed: number): number {
+    if (!Number.isFinite(speed)) return 0;
+    return Math.max(0, Math.min(speed, MOVEMENT_CONSTANTS.runSpeed));
+  }
+
+  getViolationStats(playerId: string): MovementViolationStats | null {
+    const state = this.states.get(playerId);
+    if (!state) return null;
+
+    this.pruneViolations(state, Date.now());
+    return {
+      total: state.violations,
+      recent: state.recentViolations.length,
+      flagged: state.flagged,
+    };
+  }
+
+  resetPlayer(playerId: string): void {
+    this.states.delete(playerId);
+  }
+
+  private getState(player: PlayerData): MovementState {
+    let state = this.states.get(player.id);
+    if (!state) {
+      state = {
+        lastCheckedAt: player.lastUpdate,
+        distanceBudget: 0,
+        lastGroundY: player.position.y,
+        airborneSince: null,
+        violations: 0,
+        recentViolations: [],
+        flagged: false,
+      };
+      this.states.set(player.id, state);
+    }
+    return state;
+  }
+
+  private reject(
+    player: PlayerData,
+    state: MovementState,
+    reason: MovementViolation,
+  ): MovementValidationResult {
+    const now = Date.now();
+    state.violations++;
+    state.recentViolations.push(now);
+    this.pruneViolations(state, now);
+
+    if (
+      !state.flagged &&
+      state.recentViolations.length >= this.FLAG_THRESHOLD
+    ) {
+      state.flagged = true;
+      this.logger.warn(
+        `🚩 Joueur ${player.name} signalé: ${state.recentViolations.length} mouvements rejetés en ${this.VIOLATION_WINDOW_MS / 1000}s`,
+      );
+    }
+
+    return { valid: false, reason };
+  }
+
+  private pruneViolations(state: MovementState, now: number): void {
+    state.recentViolations = state.recentViolations.filter(
+      (timestamp) => now - timestamp <= this.VIOLATION_WINDOW_MS,
+    );
+  }
+
+  // Hauteur maximale atteignable après un temps de vol donné : chute
+  // accélérée jusqu'à la vitesse maximale, puis à vitesse constante
+  private getMaxRise(airTime: number): number {
+    const gravity = -MOVEMENT_CONSTANTS.gravity;
+    const maxFallSpeed = MOVEMENT_CONSTANTS.maxFallSpeed;
+    const apexTime = MOVEMENT_CONSTANTS.jumpSpeed / gravity;
+    const apexHeight = getMaxJumpHeight();
+    const fallTime = airTime - apexTime - this.AIR_GRACE_SECONDS;
+
+    if (fallTime <= 0) {
+      return apexHeight;
+    }
+
+    const terminalTime = maxFallSpeed / gravity;
+    if (fallTime <= terminalTime) {
+      return apexHeight - 0.5 * gravity * fallTime * fallTime;
+    }
+    return (
+      apexHeight -
+      0.5 * gravity * terminalTime * terminalTime -
+      maxFallSpeed * (fallTime - terminalTime)
+    );
+  }
+
+  private isFinitePosition(position: PlayerPosition): boolean {
+    return (
+      !!position &&
+      Number.isFinite(position.x) &&
+      Number.isFinite(position.y) &&
+      Number.isFinite(position.z)
+    );
+  }
+
+  // Requêtes transmises à la simulation partagée, dans le monde de la room du joueur
+  private getSolidQuery(player: PlayerData): SolidBlockQuery {
+    const seed = this.roomService.getWorldSeed(player.roomId);
+    return (x, y, z) =>
+      isSolidBlockType(this.blocksService.getBlock(x, y, z, seed)?.type);
+  }
+
+  private getLiquidQuery(player: PlayerData): LiquidBlockQuery {
+    const seed = this.roomService.getWorldSeed(player.roomId);
+    return (x, y, z) =>
+      isLiquidBlockType(this.blocksService.getBlock(x, y, z, seed)?.type);
+  }
+
+  private pathCollides(
+    from: PlayerPosition,
+    to: PlayerPosition,
+    isSolidAt: SolidBlockQuery,
+  ): boolean {
+    const distance = Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z);
+    const steps = Math.max(1, Math.ceil(distance / this.PATH_STEP));
+
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      const sample = {
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+        z: from.z + (to.z - from.z) * t,
+      };
+      if (collidesAt(sample, isSolidAt)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
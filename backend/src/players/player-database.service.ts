@@ -2,6 +2,7 @@ import {
   Injectable,
   Logger,
   ConflictException,
+  OnModuleInit,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { Player as PrismaPlayer } from '@prisma/client';
@@ -19,13 +20,45 @@ export interface PlayerData {
   totalPlayTime: number;
 }
 
+// Compte d'un joueur (identifiants de connexion)
+export interface PlayerAccount {
+  id: string;
+  name: string;
+  passwordHash: string | null;
+  isAdmin: boolean;
+}
+
+// Point d'apparition des nouveaux joueurs, au-dessus de la ville
+export const DEFAULT_SPAWN_POSITION = { x: 0.5, y: 50, z: 0.5 };
+
+export interface PlayerSessionData {
+  id: string;
+  roomId: string;
+  roomName: string | null;
+  joinedAt: Date;
+  leftAt: Date | null;
+  duration: number | null; // secondes
+}
+
+export interface PlayerSessionHistory {
+  playerId: string;
+  name: string;
+  isOnline: boolean;
+  totalPlayTime: number; // secondes, cumul des sessions fermées
+  sessions: PlayerSessionData[];
+}
+
 @Injectable()
-export class PlayerDatabaseService {
+export class PlayerDatabaseService implements OnModuleInit {
   private readonly logger = new Logger(PlayerDatabaseService.name);
   private readonly playerCache = new Map<string, PlayerData>();
 
   constructor(private readonly prisma: PrismaService) {}
 
+  async onModuleInit(): Promise<void> {
+    await this.closeDanglingSessions();
+  }
+
   async createOrUpdatePlayer(
     socketId: string,
     name: string,
@@ -84,6 +117,80 @@ export class PlayerDatabaseService {
     }
   }
 
+  // Les noms ne diffèrent pas par la casse : "Admin" désigne le compte "admin"
+  async getAccountByName(name: string): Promise<PlayerAccount | null> {
+    const player = await this.prisma.player.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+    });
+    return player ? this.mapToPlayerAccount(player) : null;
+  }
+
+  async getAccountById(playerId: string): Promise<PlayerAccount | null> {
+    const player = await this.prisma.player.findUnique({
+      where: { id: playerId },
+    });
+    return player ? this.mapToPlayerAccount(player) : null;
+  }
+
+  async createAccount(
+    name: string,
+    passwordHash: string,
+  ): Promise<PlayerAccount> {
+    try {
+      const player = await this.prisma.player.create({
+        data: {
+          name,
+          passwordHash,
+          position: DEFAULT_SPAWN_POSITION as any,
+          rotation: { x: 0, y: 0, z: 0 } as any,
+          isOnline: false,
+        },
+      });
+
+      this.logger.log(`✅ Compte créé: ${name}`);
+      return this.mapToPlayerAccount(player);
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException(`Le nom "${name}" est déjà utilisé`);
+      }
+      throw error;
+    }
+  }
+
+  async setPasswordHash(playerId: string, passwordHash: string): Promise<void> {
+    await this.prisma.player.update({
+      where: { id: playerId },
+      data: { passwordHash },
+    });
+  }
+
+  // Accorder les droits administrateur aux comptes existants portant ces noms
+  async grantAdmin(names: string[]): Promise<number> {
+    if (names.length === 0) return 0;
+
+    try {
+      const { count } = await this.prisma.player.updateMany({
+        where: {
+          name: { in: names, mode: 'insensitive' },
+          isAdmin: false,
+        },
+        data: { isAdmin: true },
+      });
+      if (count > 0) {
+        this.logger.log(
+          `🛡️ Droits administrateur accordés à ${count} compte(s)`,
+        );
+      }
+      return count;
+    } catch (error) {
+      this.logger.error(
+        "❌ Erreur lors de l'attribution des droits administrateur:",
+        error,
+      );
+      throw error;
+    }
+  }
+
   async updatePlayerPosition(
     playerId: string,
     position: any,
@@ -148,6 +255,24 @@ export class PlayerDatabaseService {
     }
   }
 
+  // Rattacher le joueur à sa nouvelle socket après une reconnexion
+  async updateSocketId(
+    oldSocketId: string,
+    newSocketId: string,
+  ): Promise<void> {
+    try {
+      await this.prisma.player.update({
+        where: { socketId: oldSocketId },
+        data: { socketId: newSocketId, isOnline: true, lastSeen: new Date() },
+      });
+    } catch (error) {
+      this.logger.error(
+        `❌ Erreur lors du changement de socket ${oldSocketId} -> ${newSocketId}:`,
+        error,
+      );
+    }
+  }
+
   async getPlayerByName(name: string): Promise<PlayerData | null> {
     try {
       const player = await this.prisma.player.findUnique({
@@ -211,6 +336,127 @@ export class PlayerDatabaseService {
     }
   }
 
+  // Ouvrir une session de jeu quand un joueur entre dans une room
+  async openSession(playerId: string, roomId: string): Promise<string | null> {
+    try {
+      const session = await this.prisma.playerSession.create({
+        data: { playerId, roomId },
+      });
+      return session.id;
+    } catch (error) {
+      this.logger.error(
+        `❌ Erreur lors de l'ouverture de la session du joueur ${playerId}:`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  // Fermer une session et ajouter sa durée au temps de jeu total du joueur
+  async closeSession(
+    sessionId: string,
+    leftAt: Date = new Date(),
+  ): Promise<void> {
+    try {
+      const session = await this.prisma.playerSession.findUnique({
+        where: { id: sessionId },
+      });
+      if (!session || session.leftAt) return;
+
+      const duration = Math.max(
+        0,
+        Math.round((leftAt.getTime() - session.joinedAt.getTime()) / 1000),
+      );
+
+      await this.prisma.$transaction([
+        this.prisma.playerSession.update({
+          where: { id: sessionId },
+          data: { leftAt, duration },
+        }),
+        this.prisma.player.update({
+          where: { id: session.playerId },
+          data: { totalPlayTime: { increment: duration } },
+        }),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `❌ Erreur lors de la fermeture de la session ${sessionId}:`,
+        error,
+      );
+    }
+  }
+
+  // Sessions restées ouvertes après un arrêt du serveur : les fermer au dernier signe de vie du joueur
+  async closeDanglingSessions(): Promise<void> {
+    try {
+      const sessions = await this.prisma.playerSession.findMany({
+        where: { leftAt: null },
+        include: { player: true },
+      });
+
+      for (const session of sessions) {
+        const leftAt =
+          session.player.lastSeen > session.joinedAt
+            ? session.player.lastSeen
+            : session.joinedAt;
+        await this.closeSession(session.id, leftAt);
+      }
+
+      if (sessions.length > 0) {
+        this.logger.log(
+          `🔒 ${sessions.length} session(s) orpheline(s) fermée(s)`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        '❌ Erreur lors de la fermeture des sessions orphelines:',
+        error,
+      );
+    }
+  }
+
+  // Historique des sessions d'un joueur (par identifiant ou par nom)
+  async getSessionHistory(
+    playerIdOrName: string,
+    limit: number = 50,
+  ): Promise<PlayerSessionHistory | null> {
+    const player = await this.prisma.player.findFirst({
+      where: { OR: [{ id: playerIdOrName }, { name: playerIdOrName }] },
+      include: {
+        sessions: {
+          orderBy: { joinedAt: 'desc' },
+          take: limit,
+          include: { room: true },
+        },
+      },
+    });
+    if (!player) return null;
+
+    return {
+      playerId: player.id,
+      name: player.name,
+      isOnline: player.isOnline,
+      totalPlayTime: player.totalPlayTime,
+      sessions: player.sessions.map((session) => ({
+        id: session.id,
+        roomId: session.roomId,
+        roomName: session.room?.name ?? null,
+        joinedAt: session.joinedAt,
+        leftAt: session.leftAt,
+        duration: session.duration,
+      })),
+    };
+  }
+
+  private mapToPlayerAccount(player: PrismaPlayer): PlayerAccount {
+    return {
+      id: player.id,
+      name: player.name,
+      passwordHash: player.passwordHash,
+      isAdmin: player.isAdmin,
+    };
+  }
+
   private mapToPlayerData(player: PrismaPlayer): PlayerData {
     return {
       id: player.id,
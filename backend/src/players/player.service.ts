@@ -1,16 +1,48 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { PlayerData, PlayerPosition, PlayerRotation } from '../game/interfaces';
-import { PlayerDatabaseService } from './player-database.service';
+import {
+  DEFAULT_SPAWN_POSITION,
+  PlayerDatabaseService,
+} from './player-database.service';
+
+// Joueur déconnecté dont l'état est conservé pendant le délai de grâce
+interface SuspendedPlayer {
+  player: PlayerData;
+  socketId: string; // Ancienne socket
+  disconnectedAt: Date;
+  timer: NodeJS.Timeout;
+  onExpire: (player: PlayerData) => void;
+}
 
 @Injectable()
 export class PlayerService {
   private readonly logger = new Logger(PlayerService.name);
   private players: Map<string, PlayerData> = new Map();
+  // Session de jeu ouverte pour chaque socket (identifiant résolu de manière asynchrone)
+  private sessions: Map<string, Promise<string | null>> = new Map();
+  // Jeton de reprise émis pour chaque socket, et joueurs en attente de reconnexion
+  private resumeTokens: Map<string, string> = new Map();
+  private suspendedPlayers: Map<string, SuspendedPlayer> = new Map();
+  private readonly DEFAULT_GRACE_PERIOD = 30000; // 30 secondes
+  private readonly gracePeriod: number;
   private lastSaveTime = Date.now();
   private readonly SAVE_INTERVAL = 5000; // 5 secondes
 
-  constructor(private readonly playerDb: PlayerDatabaseService) {
+  constructor(
+    private readonly playerDb: PlayerDatabaseService,
+    private readonly configService: ConfigService,
+  ) {
+    const configured = Number(
+      this.configService.get('RECONNECT_GRACE_PERIOD_MS'),
+    );
+    this.gracePeriod =
+      Number.isFinite(configured) && configured >= 0
+        ? configured
+        : this.DEFAULT_GRACE_PERIOD;
+
     // Sauvegarder périodiquement les positions
     setInterval(() => {
       this.saveAllPlayerPositions();
@@ -49,6 +81,9 @@ export class PlayerService {
             isMoving: false,
             speed: 0,
             lastUpdate: Date.now(),
+            lastProcessedInput: 0,
+            roomId: null,
+            vehicleId: null,
           };
 
           this.players.set(socketId, player);
@@ -64,7 +99,7 @@ export class PlayerService {
         const dbPlayer = await this.playerDb.createOrUpdatePlayer(
           socketId,
           name,
-          { x: 0, y: 5, z: 0 },
+          DEFAULT_SPAWN_POSITION,
           { x: 0, y: 0, z: 0 }
         );
 
@@ -77,6 +112,9 @@ export class PlayerService {
           isMoving: false,
           speed: 0,
           lastUpdate: Date.now(),
+          lastProcessedInput: 0,
+          roomId: null,
+          vehicleId: null,
         };
 
         this.players.set(socketId, player);
@@ -112,11 +150,145 @@ export class PlayerService {
     return player;
   }
 
+  // Mémoriser la dernière frame d'entrée traitée (acceptée ou rejetée)
+  acknowledgeInput(socketId: string, seq: number): void {
+    const player = this.players.get(socketId);
+    if (player && Number.isFinite(seq) && seq > player.lastProcessedInput) {
+      player.lastProcessedInput = seq;
+    }
+  }
+
+  // Monter dans un véhicule (ou en descendre avec null)
+  setPlayerVehicle(socketId: string, vehicleId: string | null): void {
+    const player = this.players.get(socketId);
+    if (player) {
+      player.vehicleId = vehicleId;
+    }
+  }
+
+  // Changer de room ferme la session de jeu en cours et en ouvre une nouvelle
+  setPlayerRoom(socketId: string, roomId: string | null): void {
+    const player = this.players.get(socketId);
+    if (!player || player.roomId === roomId) return;
+
+    this.endSession(socketId);
+    player.roomId = roomId;
+
+    if (roomId) {
+      this.sessions.set(socketId, this.playerDb.openSession(player.id, roomId));
+    }
+  }
+
+  private endSession(socketId: string, leftAt = new Date()): void {
+    const session = this.sessions.get(socketId);
+    if (!session) return;
+
+    this.sessions.delete(socketId);
+    void session.then((sessionId) =>
+      sessionId ? this.playerDb.closeSession(sessionId, leftAt) : undefined,
+    );
+  }
+
+  getGracePeriod(): number {
+    return this.gracePeriod;
+  }
+
+  // Le jeton remplace le précédent : il n'est valable que pour la dernière connexion
+  issueResumeToken(socketId: string): string {
+    const token = randomBytes(24).toString('base64url');
+    this.resumeTokens.set(socketId, token);
+    return token;
+  }
+
+  // Conserver l'état d'un joueur déconnecté jusqu'à sa reconnexion ou l'expiration du délai
+  suspendPlayer(
+    socketId: string,
+    onExpire: (player: PlayerData) => void,
+  ): boolean {
+    const player = this.players.get(socketId);
+    const token = this.resumeTokens.get(socketId);
+    this.resumeTokens.delete(socketId);
+    if (!player || !token || this.gracePeriod === 0) return false;
+
+    this.players.delete(socketId);
+    this.suspendedPlayers.set(token, {
+      player,
+      socketId,
+      disconnectedAt: new Date(),
+      timer: setTimeout(() => {
+        void this.expireSuspendedPlayer(player.id);
+      }, this.gracePeriod),
+      onExpire,
+    });
+
+    this.logger.log(
+      `⏳ ${player.name} suspendu pendant ${this.gracePeriod} ms (${socketId})`,
+    );
+    return true;
+  }
+
+  // Restaurer l'état exact du joueur sur sa nouvelle socket
+  resumePlayer(
+    socketId: string,
+    token: string,
+    playerId: string,
+  ): PlayerData | null {
+    const suspended = this.suspendedPlayers.get(token);
+    if (!suspended || suspended.player.id !== playerId) return null;
+
+    clearTimeout(suspended.timer);
+    this.suspendedPlayers.delete(token);
+
+    const { player } = suspended;
+    player.lastUpdate = Date.now();
+    // Un client rechargé renumérote ses entrées à partir de 0
+    player.lastProcessedInput = 0;
+    this.players.set(socketId, player);
+
+    // La session de jeu continue sur la nouvelle socket
+    const session = this.sessions.get(suspended.socketId);
+    if (session) {
+      this.sessions.delete(suspended.socketId);
+      this.sessions.set(socketId, session);
+    }
+    void this.playerDb.updateSocketId(suspended.socketId, socketId);
+
+    this.logger.log(`🔁 ${player.name} reprend sa partie (${socketId})`);
+    return player;
+  }
+
+  // Fin du délai de grâce (ou nouvelle connexion sans jeton) : départ définitif
+  async expireSuspendedPlayer(playerId: string): Promise<void> {
+    const entry = Array.from(this.suspendedPlayers.entries()).find(
+      ([, suspended]) => suspended.player.id === playerId,
+    );
+    if (!entry) return;
+
+    const [token, suspended] = entry;
+    clearTimeout(suspended.timer);
+    this.suspendedPlayers.delete(token);
+    suspended.onExpire(suspended.player);
+
+    this.endSession(suspended.socketId, suspended.disconnectedAt);
+    await this.playerDb.updatePlayerPosition(
+      suspended.player.id,
+      suspended.player.position,
+      suspended.player.rotation,
+    );
+    await this.playerDb.disconnectPlayer(suspended.socketId);
+    this.logger.log(
+      `⌛ Délai de reconnexion expiré pour ${suspended.player.name}`,
+    );
+  }
+
   async removePlayer(socketId: string): Promise<PlayerData | null> {
     const player = this.players.get(socketId);
     this.logger.log(`🗑️ Suppression du joueur ${socketId}:`, player);
     
     if (player) {
+      this.endSession(socketId);
+      this.resumeTokens.delete(socketId);
+
       // Marquer comme déconnecté en base de données
       await this.playerDb.disconnectPlayer(socketId);
       this.players.delete(socketId);
@@ -141,8 +313,6 @@ export class PlayerService {
   }
 
   getPlayersInRoom(roomId: string): PlayerData[] {
-    // Pour l'instant, tous les joueurs sont dans la même "room"
-    // Plus tard, on pourra implémenter des rooms séparées
-    return this.getAllPlayers();
+    return this.getAllPlayers().filter((player) => player.roomId === roomId);
   }
 }
@@ -0,0 +1,71 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { GameRoom } from '../game/interfaces';
+
+export interface StoredRoom {
+  id: string;
+  name: string;
+  maxPlayers: number;
+  seed: number;
+  mapName: string;
+  isDefault: boolean;
+  createdAt: Date;
+}
+
+@Injectable()
+export class RoomDatabaseService {
+  private readonly logger = new Logger(RoomDatabaseService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async loadRooms(): Promise<StoredRoom[]> {
+    const rooms = await this.prisma.room.findMany({
+      where: { isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return rooms.map((room) => ({
+      id: room.id,
+      name: room.name,
+      maxPlayers: room.maxPlayers,
+      seed: room.seed,
+      mapName: room.mapName,
+      isDefault: room.isDefault,
+      createdAt: room.createdAt,
+    }));
+  }
+
+  async saveRoom(room: GameRoom, isDefault: boolean): Promise<void> {
+    try {
+      await this.prisma.room.upsert({
+        where: { id: room.id },
+        create: {
+          id: room.id,
+          name: room.name,
+          maxPlayers: room.maxPlayers,
+          seed: room.seed,
+          mapName: room.mapName,
+          isDefault,
+          createdAt: room.createdAt,
+        },
+        update: {
+          name: room.name,
+          maxPlayers: room.maxPlayers,
+          seed: room.seed,
+          mapName: room.mapName,
+          isDefault,
+          isActive: true,
+        },
+      });
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException(`La room "${room.name}" existe déjà`);
+      }
+      this.logger.error(
+        `❌ Erreur lors de la sauvegarde de la room ${room.name}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { ConflictException } from '@nestjs/common';
+import { MapService } from '../map/map.service';
+import { RoomDatabaseService } from './room-database.service';
+import { RoomService } from './room.service';
+
+// uuid n'est publié qu'en ESM, que jest ne transforme pas
+jest.mock('uuid', () => {
+  let next = 0;
+  return { v4: () => `room-${++next}` };
+});
+
+describe('RoomService', () => {
+  let roomDb: { saveRoom: jest.Mock; loadRooms: jest.Mock };
+  let service: RoomService;
+
+  beforeEach(() => {
+    roomDb = {
+      saveRoom: jest.fn().mockResolvedValue(undefined),
+      loadRooms: jest.fn().mockResolvedValue([]),
+    };
+    service = new RoomService(
+      { getMapSeed: () => 12345 } as unknown as MapService,
+      roomDb as unknown as RoomDatabaseService,
+    );
+  });
+
+  it('saves a new room before it can be joined', async () => {
+    let saved!: () => void;
+    roomDb.saveRoom.mockReturnValue(
+      new Promise<void>((resolve) => (saved = resolve)),
+    );
+
+    const created = service.createRoom('Arène', 8);
+    await Promise.resolve();
+    expect(service.findRoom('Arène')).toBeUndefined();
+
+    saved();
+    const roomId = await created;
+    expect(roomDb.saveRoom).toHaveBeenCalledWith(
+      expect.objectContaining({ id: roomId, name: 'Arène', maxPlayers: 8 }),
+      false,
+    );
+    expect(service.findRoom('Arène')?.id).toBe(roomId);
+  });
+
+  it('does not keep a room that could not be saved', async () => {
+    roomDb.saveRoom.mockRejectedValue(new Error('database down'));
+
+    await expect(service.createRoom('Arène')).rejects.toThrow('database down');
+    expect(service.findRoom('Arène')).toBeUndefined();
+  });
+
+  it('rejects a duplicate name', async () => {
+    await service.createRoom('Arène');
+
+    await expect(service.createRoom(' arène ')).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(roomDb.saveRoom).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the world seed chosen at creation', async () => {
+    const roomId = await service.createRoom('Arène', 8, 42);
+
+    expect(roomDb.saveRoom).toHaveBeenCalledWith(
+      expect.objectContaining({ id: roomId, seed: 42 }),
+      false,
+    );
+    expect(service.getWorldSeed(roomId)).toBe(42);
+    expect(service.getWorldSeed(null)).toBe(12345);
+  });
+});
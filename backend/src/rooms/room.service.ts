@@ -1,35 +1,102 @@
-import { Injectable } from '@nestjs/common';
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
-import { GameRoom } from '../game/interfaces';
+import { GameRoom, PlayerData, RoomSummary } from '../game/interfaces';
+import { MapService } from '../map/map.service';
+import { RoomDatabaseService, StoredRoom } from './room-database.service';
+
+// Identifiant utilisé par les clients pour rejoindre la room principale
+export const DEFAULT_ROOM_ALIAS = 'default';
+export const DEFAULT_MAP_NAME = 'main_map';
 
 @Injectable()
-export class RoomService {
+export class RoomService implements OnModuleInit {
+  private readonly logger = new Logger(RoomService.name);
   private rooms: Map<string, GameRoom> = new Map();
   private defaultRoomId: string;
 
-  constructor() {
-    // Créer une room par défaut
-    this.defaultRoomId = this.createRoom('Monde Principal', 50);
+  constructor(
+    private readonly mapService: MapService,
+    private readonly roomDb: RoomDatabaseService,
+  ) {
+    // Créer une room par défaut, sur la carte principale
+    // (remplacée par celle de la base de données si elle existe)
+    this.defaultRoomId = this.registerRoom({
+      id: uuidv4(),
+      name: 'Monde Principal',
+      maxPlayers: 50,
+      seed: this.mapService.getMapSeed(),
+      mapName: DEFAULT_MAP_NAME,
+      createdAt: new Date(),
+    }).id;
   }
 
-  createRoom(name: string, maxPlayers: number = 20): string {
-    const roomId = uuidv4();
-    const room: GameRoom = {
-      id: roomId,
-      name,
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.restoreRooms();
+    } catch (error) {
+      this.logger.error(
+        '❌ Erreur lors de la restauration des rooms, rooms en mémoire uniquement:',
+        error,
+      );
+    }
+  }
+
+  async createRoom(
+    name: string,
+    maxPlayers: number = 20,
+    seed: number = Math.floor(Math.random() * 1000000),
+    mapName: string = DEFAULT_MAP_NAME,
+  ): Promise<string> {
+    const trimmedName = name.trim();
+    if (this.findRoomByName(trimmedName)) {
+      throw new ConflictException(`La room "${trimmedName}" existe déjà`);
+    }
+
+    const room = this.buildRoom({
+      id: uuidv4(),
+      name: trimmedName,
       maxPlayers,
-      players: new Map(),
+      seed,
+      mapName,
       createdAt: new Date(),
-    };
+    });
 
-    this.rooms.set(roomId, room);
-    return roomId;
+    // Les sessions référencent la room : elle doit exister en base avant d'être rejointe
+    await this.roomDb.saveRoom(room, false);
+    this.rooms.set(room.id, room);
+    return room.id;
   }
 
   getRoom(roomId: string): GameRoom | undefined {
     return this.rooms.get(roomId);
   }
 
+  // Seed du monde où se trouve un joueur (celui de la room principale par défaut)
+  getWorldSeed(roomId: string | null): number {
+    const room = (roomId && this.rooms.get(roomId)) || this.getDefaultRoom();
+    return room?.seed ?? this.mapService.getMapSeed();
+  }
+
+  // Rooms qui partagent ce monde (même seed) : elles voient les mêmes blocs
+  getRoomIdsInWorld(seed: number): string[] {
+    return this.getAllRooms()
+      .filter((room) => room.seed === seed)
+      .map((room) => room.id);
+  }
+
+  // Retrouver une room par identifiant, par nom ou via l'alias "default"
+  findRoom(roomIdOrName?: string): GameRoom | undefined {
+    if (!roomIdOrName || roomIdOrName === DEFAULT_ROOM_ALIAS) {
+      return this.getDefaultRoom();
+    }
+    return this.rooms.get(roomIdOrName) ?? this.findRoomByName(roomIdOrName);
+  }
+
   getDefaultRoom(): GameRoom | undefined {
     return this.rooms.get(this.defaultRoomId);
   }
@@ -38,13 +105,102 @@ export class RoomService {
     return Array.from(this.rooms.values());
   }
 
-  addPlayerToRoom(roomId: string, playerId: string, playerData: any): boolean {
+  listRooms(): RoomSummary[] {
+    return this.getAllRooms().map((room) => this.toSummary(room));
+  }
+
+  toSummary(room: GameRoom): RoomSummary {
+    return {
+      id: room.id,
+      name: room.name,
+      playerCount: room.players.size,
+      maxPlayers: room.maxPlayers,
+      seed: room.seed,
+      mapName: room.mapName,
+      isDefault: room.id === this.defaultRoomId,
+      createdAt: room.createdAt.toISOString(),
+    };
+  }
+
+  isRoomFull(room: GameRoom): boolean {
+    return room.players.size >= room.maxPlayers;
+  }
+
+  getPlayerRoom(playerId: string): GameRoom | undefined {
+    return this.getAllRooms().find((room) => room.players.has(playerId));
+  }
+
+  getPlayersInRoom(roomId: string): PlayerData[] {
     const room = this.rooms.get(roomId);
-    if (!room || room.players.size >= room.maxPlayers) {
+    return room ? Array.from(room.players.values()) : [];
+  }
+
+  addPlayerToRoom(
+    roomId: string,
+    playerId: string,
+    playerData: PlayerData,
+  ): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room || this.isRoomFull(room)) {
       return false;
     }
 
     room.players.set(playerId, playerData);
     return true;
   }
+
+  removePlayerFromRoom(roomId: string, playerId: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return false;
+    }
+
+    return room.players.delete(playerId);
+  }
+
+  // Recharger les rooms sauvegardées (mêmes identifiants qu'avant le redémarrage)
+  private async restoreRooms(): Promise<void> {
+    const storedRooms = await this.roomDb.loadRooms();
+    const storedDefault = storedRooms.find((room) => room.isDefault);
+
+    if (storedDefault) {
+      this.rooms.delete(this.defaultRoomId);
+      this.defaultRoomId = this.registerRoom(storedDefault).id;
+    } else {
+      await this.roomDb.saveRoom(this.getDefaultRoom()!, true);
+    }
+
+    for (const storedRoom of storedRooms) {
+      if (!storedRoom.isDefault && !this.rooms.has(storedRoom.id)) {
+        this.registerRoom(storedRoom);
+      }
+    }
+
+    this.logger.log(`🏠 ${storedRooms.length} room(s) restaurée(s)`);
+  }
+
+  private registerRoom(data: Omit<StoredRoom, 'isDefault'>): GameRoom {
+    const room = this.buildRoom(data);
+    this.rooms.set(room.id, room);
+    return room;
+  }
+
+  private buildRoom(data: Omit<StoredRoom, 'isDefault'>): GameRoom {
+    return {
+      id: data.id,
+      name: data.name,
+      maxPlayers: data.maxPlayers,
+      players: new Map(),
+      createdAt: data.createdAt,
+      seed: data.seed,
+      mapName: data.mapName,
+    };
+  }
+
+  private findRoomByName(name: string): GameRoom | undefined {
+    const normalized = name.toLowerCase();
+    return this.getAllRooms().find(
+      (room) => room.name.toLowerCase() === normalized,
+    );
+  }
 }
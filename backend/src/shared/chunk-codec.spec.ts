@@ -0,0 +1,123 @@
+import {
+  ChunkBlock,
+  ChunkData,
+  ChunkDimensions,
+  decodeChunk,
+  encodeChunk,
+} from './chunk-codec';
+
+const DIMENSIONS: ChunkDimensions = { size: 16, height: 32 };
+
+// Chunk complet dans l'ordre de génération du serveur (x, puis z, puis y)
+function createChunk(
+  chunkX: number,
+  chunkZ: number,
+  typeAt: (x: number, y: number, z: number) => string,
+): ChunkData {
+  const blocks: ChunkBlock[] = [];
+  for (let localX = 0; localX < DIMENSIONS.size; localX++) {
+    for (let localZ = 0; localZ < DIMENSIONS.size; localZ++) {
+      for (let y = 0; y < DIMENSIONS.height; y++) {
+        const x = chunkX * DIMENSIONS.size + localX;
+        const z = chunkZ * DIMENSIONS.size + localZ;
+        blocks.push({ x, y, z, type: typeAt(x, y, z) });
+      }
+    }
+  }
+  return {
+    x: chunkX,
+    z: chunkZ,
+    blocks,
+    lastUpdated: new Date('2025-10-19T12:00:00.000Z'),
+  };
+}
+
+const layeredTerrain = (x: number, y: number, z: number): string => {
+  if (y === 0) return 'bedrock';
+  if (y < 8) return 'stone';
+  if (y < 10) return 'dirt';
+  if (y === 10) return (x + z) % 7 === 0 ? 'road' : 'grass';
+  return 'air';
+};
+
+describe('chunk binary codec', () => {
+  it('round-trips a layered chunk', () => {
+    const chunk = createChunk(2, 5, layeredTerrain);
+
+    const decoded = decodeChunk(encodeChunk(chunk, DIMENSIONS));
+
+    expect(decoded.x).toBe(2);
+    expect(decoded.z).toBe(5);
+    expect(decoded.lastUpdated).toBe('2025-10-19T12:00:00.000Z');
+    expect(decoded.blocks).toEqual(chunk.blocks);
+  });
+
+  it('round-trips negative chunk coordinates', () => {
+    const chunk = createChunk(-3, -1, layeredTerrain);
+
+    const decoded = decodeChunk(encodeChunk(chunk, DIMENSIONS));
+
+    expect(decoded.x).toBe(-3);
+    expect(decoded.z).toBe(-1);
+    expect(decoded.blocks).toEqual(chunk.blocks);
+  });
+
+  it('round-trips a chunk without any repeated neighbour', () => {
+    const types = ['stone', 'glass', 'wood', 'building_wall'];
+    const chunk = createChunk(
+      0,
+      0,
+      (x, y, z) => types[(x + y * 3 + z * 5) % types.length],
+    );
+
+    const decoded = decodeChunk(encodeChunk(chunk, DIMENSIONS));
+
+    expect(decoded.blocks).toEqual(chunk.blocks);
+  });
+
+  it('fills missing blocks with air', () => {
+    const chunk: ChunkData = {
+      x: 1,
+      z: 0,
+      blocks: [{ x: 20, y: 3, z: 4, type: 'gold' }],
+      lastUpdated: new Date(0),
+    };
+
+    const decoded = decodeChunk(encodeChunk(chunk, DIMENSIONS));
+
+    expect(decoded.blocks).toHaveLength(16 * 16 * 32);
+    expect(decoded.blocks.filter((block) => block.type === 'gold')).toEqual([
+      { x: 20, y: 3, z: 4, type: 'gold' },
+    ]);
+    expect(decoded.blocks.filter((block) => block.type !== 'gold').length).toBe(
+      16 * 16 * 32 - 1,
+    );
+  });
+
+  it('is much smaller than the JSON encoding', () => {
+    const chunk = createChunk(0, 0, layeredTerrain);
+
+    const binary = encodeChunk(chunk, DIMENSIONS);
+    const json = new TextEncoder().encode(JSON.stringify(chunk));
+
+    expect(binary.length * 50).toBeLessThan(json.length);
+  });
+
+  it('rejects blocks outside the chunk', () => {
+    const chunk: ChunkData = {
+      x: 0,
+      z: 0,
+      blocks: [{ x: 16, y: 0, z: 0, type: 'stone' }],
+      lastUpdated: new Date(0),
+    };
+
+    expect(() => encodeChunk(chunk, DIMENSIONS)).toThrow(RangeError);
+  });
+
+  it('rejects corrupted data', () => {
+    const bytes = encodeChunk(createChunk(0, 0, layeredTerrain), DIMENSIONS);
+
+    expect(() => decodeChunk(bytes.subarray(4))).toThrow();
+    expect(() => decodeChunk(bytes.subarray(0, bytes.length - 3))).toThrow();
+  });
+});
@@ -0,0 +1,209 @@
+// Format binaire des chunks, partagé entre le serveur (encodage) et le client (décodage).
+// Une palette des types de blocs présents, puis les voxels compressés par plages (RLE),
+// parcourus couche par couche : index local = (y * taille + z) * taille + x.
+//
+// Disposition (little-endian) :
+//   0  "VXCK"           4 octets
+//   4  version          u8
+//   5  taille           u8   (largeur d'un chunk en blocs)
+//   6  hauteur          u16
+//   8  chunkX, chunkZ   i32 × 2
+//   16 lastUpdated      f64  (ms depuis l'epoch)
+//   24 palette          u8 nombre d'entrées, puis (u8 longueur + nom UTF-8) par entrée
+//   .. plages           u32 nombre de plages, puis (u16 longueur + u8 index de palette)
+
+export const CHUNK_BINARY_CONTENT_TYPE = 'application/x-voxel-chunk';
+export const CHUNK_FORMAT_VERSION = 1;
+
+const MAGIC = [0x56, 0x58, 0x43, 0x4b]; // "VXCK"
+const HEADER_SIZE = 24;
+const MAX_RUN_LENGTH = 0xffff;
+const MAX_PALETTE_SIZE = 0xff;
+const DEFAULT_BLOCK_TYPE = 'air';
+
+export interface ChunkBlock {
+  x: number;
+  y: number;
+  z: number;
+  type: string;
+}
+
+export interface ChunkData {
+  x: number;
+  z: number;
+  blocks: ChunkBlock[];
+  lastUpdated: Date | string;
+}
+
+export interface ChunkDimensions {
+  size: number;
+  height: number;
+}
+
+export interface DecodedChunk {
+  x: number;
+  z: number;
+  blocks: ChunkBlock[];
+  lastUpdated: string; // ISO 8601, comme la version JSON
+}
+
+export function encodeChunk(
+  chunk: ChunkData,
+  { size, height }: ChunkDimensions,
+): Uint8Array {
+  // Types indexés par position locale ; les voxels absents sont de l'air
+  const voxels: string[] = new Array<string>(size * size * height).fill(
+    DEFAULT_BLOCK_TYPE,
+  );
+  const originX = chunk.x * size;
+  const originZ = chunk.z * size;
+  for (const block of chunk.blocks) {
+    const localX = block.x - originX;
+    const localZ = block.z - originZ;
+    if (
+      localX < 0 ||
+      localX >= size ||
+      localZ < 0 ||
+      localZ >= size ||
+      block.y < 0 ||
+      block.y >= height
+    ) {
+      throw new RangeError(
+        `Bloc (${block.x}, ${block.y}, ${block.z}) hors du chunk (${chunk.x}, ${chunk.z})`,
+      );
+    }
+    voxels[(block.y * size + localZ) * size + localX] = block.type;
+  }
+
+  const palette: string[] = [];
+  const paletteIndex = new Map<string, number>();
+  const runs: number[] = []; // Paires (longueur, index de palette)
+
+  for (const type of voxels) {
+    let index = paletteIndex.get(type);
+    if (index === undefined) {
+      if (palette.length >= MAX_PALETTE_SIZE) {
+        throw new RangeError('Trop de types de blocs dans un seul chunk');
+      }
+      index = palette.length;
+      palette.push(type);
+      paletteIndex.set(type, index);
+    }
+
+    const last = runs.length - 2;
+    if (last >= 0 && runs[last + 1] === index && runs[last] < MAX_RUN_LENGTH) {
+      runs[last]++;
+    } else {
+      runs.push(1, index);
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const paletteBytes = palette.map((type) => encoder.encode(type));
+  const paletteSize = paletteBytes.reduce(
+    (total, bytes) => total + 1 + bytes.length,
+    1,
+  );
+  const runCount = runs.length / 2;
+  const bytes = new Uint8Array(HEADER_SIZE + paletteSize + 4 + runCount * 3);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(MAGIC, 0);
+  view.setUint8(4, CHUNK_FORMAT_VERSION);
+  view.setUint8(5, size);
+  view.setUint16(6, height, true);
+  view.setInt32(8, chunk.x, true);
+  view.setInt32(12, chunk.z, true);
+  view.setFloat64(16, new Date(chunk.lastUpdated).getTime(), true);
+
+  let offset = HEADER_SIZE;
+  view.setUint8(offset++, palette.length);
+  for (const typeBytes of paletteBytes) {
+    view.setUint8(offset++, typeBytes.length);
+    bytes.set(typeBytes, offset);
+    offset += typeBytes.length;
+  }
+
+  view.setUint32(offset, runCount, true);
+  offset += 4;
+  for (let i = 0; i < runs.length; i += 2) {
+    view.setUint16(offset, runs[i], true);
+    view.setUint8(offset + 2, runs[i + 1]);
+    offset += 3;
+  }
+
+  return bytes;
+}
+
+// Les blocs sont restitués dans l'ordre de génération du serveur : x, puis z, puis y
+export function decodeChunk(bytes: Uint8Array): DecodedChunk {
+  if (
+    bytes.length < HEADER_SIZE ||
+    MAGIC.some((value, i) => bytes[i] !== value)
+  ) {
+    throw new Error('Données de chunk binaires invalides');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(4);
+  if (version !== CHUNK_FORMAT_VERSION) {
+    throw new Error(`Version de chunk non supportée: ${version}`);
+  }
+
+  const size = view.getUint8(5);
+  const height = view.getUint16(6, true);
+  const chunkX = view.getInt32(8, true);
+  const chunkZ = view.getInt32(12, true);
+  const lastUpdated = view.getFloat64(16, true);
+
+  const decoder = new TextDecoder();
+  let offset = HEADER_SIZE;
+  const paletteLength = view.getUint8(offset++);
+  const palette: string[] = [];
+  for (let i = 0; i < paletteLength; i++) {
+    const length = view.getUint8(offset++);
+    palette.push(decoder.decode(bytes.subarray(offset, offset + length)));
+    offset += length;
+  }
+
+  const voxelCount = size * size * height;
+  const voxels: string[] = new Array<string>(voxelCount);
+  const runCount = view.getUint32(offset, true);
+  offset += 4;
+
+  let voxel = 0;
+  for (let i = 0; i < runCount; i++) {
+    const length = view.getUint16(offset, true);
+    const type = palette[view.getUint8(offset + 2)];
+    offset += 3;
+    if (type === undefined || voxel + length > voxelCount) {
+      throw new Error('Plage de voxels invalide');
+    }
+    voxels.fill(type, voxel, voxel + length);
+    voxel += length;
+  }
+  if (voxel !== voxelCount) {
+    throw new Error('Données de voxels incomplètes');
+  }
+
+  const blocks: ChunkBlock[] = [];
+  for (let localX = 0; localX < size; localX++) {
+    for (let localZ = 0; localZ < size; localZ++) {
+      for (let y = 0; y < height; y++) {
+        blocks.push({
+          x: chunkX * size + localX,
+          y,
+          z: chunkZ * size + localZ,
+          type: voxels[(y * size + localZ) * size + localX],
+        });
+      }
+    }
+  }
+
+  return {
+    x: chunkX,
+    z: chunkZ,
+    blocks,
+    lastUpdated: new Date(lastUpdated).toISOString(),
+  };
+}
@@ -0,0 +1,360 @@
+import {
+  LiquidBlockQuery,
+  MOVEMENT_CONSTANTS,
+  MovementInput,
+  MovementState,
+  SolidBlockQuery,
+  collidesAt,
+  getMaxJumpHeight,
+  isGroundedAt,
+  isLiquidBlockType,
+  isSolidBlockType,
+  stepMovement,
+} from './movement';
+
+const FRAME = 1 / 60;
+
+function idleInput(overrides: Partial<MovementInput> = {}): MovementInput {
+  return {
+    forward: false,
+    backward: false,
+    left: false,
+    right: false,
+    jump: false,
+    sprint: false,
+    yaw: 0,
+    ...overrides,
+  };
+}
+
+function createState(x: number, y: number, z: number): MovementState {
+  return {
+    position: { x, y, z },
+    velocity: { x: 0, y: 0, z: 0 },
+    grounded: false,
+  };
+}
+
+// Monde de test : un ensemble de blocs solides + un sol plein à y = 0
+function createWorld(
+  blocks: [number, number, number][],
+  floorY = 0,
+): SolidBlockQuery {
+  const solid = new Set(blocks.map(([x, y, z]) => `${x},${y},${z}`));
+  return (x, y, z) => y <= floorY || solid.has(`${x},${y},${z}`);
+}
+
+// Bassin d'eau de y = 1 à y = surfaceY - 1, au-dessus du sol plein
+function createPool(surfaceY = 5): LiquidBlockQuery {
+  return (x, y) => y >= 1 && y < surfaceY;
+}
+
+function simulate(
+  state: MovementState,
+  input: MovementInput,
+  isSolid: SolidBlockQuery,
+  frames: number,
+) {
+  for (let i = 0; i < frames; i++) {
+    stepMovement(state, input, FRAME, isSolid);
+  }
+}
+
+describe('shared movement', () => {
+  it('treats air and water as non-solid', () => {
+    expect(isSolidBlockType('air')).toBe(false);
+    expect(isSolidBlockType('water')).toBe(false);
+    expect(isSolidBlockType(null)).toBe(false);
+    expect(isSolidBlockType('stone')).toBe(true);
+  });
+
+  it('falls under gravity and lands on top of the floor', () => {
+    const world = createWorld([]);
+    const state = createState(0.5, 5, 0.5);
+
+    simulate(state, idleInput(), world, 120);
+
+    expect(state.position.y).toBe(1);
+    expect(state.velocity.y).toBe(0);
+    expect(state.grounded).toBe(true);
+  });
+
+  it('lands on a block edge overlapped by the bounding box', () => {
+    // Pilier en x = 1 ; le joueur ne le chevauche que de 0.25 bloc
+    const world = createWorld([[1, 5, 0]]);
+    const state = createState(0.95, 8, 0.5);
+
+    simulate(state, idleInput(), world, 120);
+
+    expect(state.position.y).toBe(6);
+    expect(state.grounded).toBe(true);
+  });
+
+  it('falls past a block edge the bounding box does not overlap', () => {
+    const world = createWorld([[1, 5, 0]]);
+    const state = createState(0.65, 8, 0.5);
+
+    simulate(state, idleInput(), world, 120);
+
+    expect(state.position.y).toBe(1);
+  });
+
+  it('walks off a ledge once the bounding box clears the edge', () => {
+    // Plateforme de 0 à 1 en x, à y = 5 ; marcher vers +x
+    const world = createWorld([[0, 5, 0]]);
+    const state = createState(0.5, 6, 0.5);
+    const walkRight = idleInput({ right: true });
+
+    // Tant que le bord de la boîte reste au-dessus du bloc, on ne tombe pas
+    simulate(state, walkRight, world, 3);
+    expect(state.position.x).toBeLessThan(
+      1 + MOVEMENT_CONSTANTS.playerWidth / 2,
+    );
+    expect(state.position.y).toBe(6);
+
+    simulate(state, walkRight, world, 60);
+    expect(state.position.y).toBe(1);
+  });
+
+  it('stops against a wall flush with the block face', () => {
+    const world = createWorld([
+      [2, 1, 0],
+      [2, 2, 0],
+    ]);
+    const state = createState(0.5, 1, 0.5);
+
+    const result = stepMovement(state, idleInput({ right: true }), 0.5, world);
+
+    expect(result.hitWall).toBe(true);
+    expect(state.position.x).toBeCloseTo(
+      2 - MOVEMENT_CONSTANTS.playerWidth / 2,
+      2,
+    );
+    expect(collidesAt(state.position, world)).toBe(false);
+  });
+
+  it('cannot step up a full block without jumping', () => {
+    const world = createWorld([[1, 1, 0]]);
+    const state = createState(0.5, 1, 0.5);
+
+    simulate(state, idleInput({ right: true }), world, 30);
+
+    expect(state.position.x).toBeLessThan(1);
+    expect(state.position.y).toBe(1);
+  });
+
+  it('reaches the expected jump apex in open space', () => {
+    const world = createWorld([]);
+    const state = createState(0.5, 1, 0.5);
+
+    stepMovement(state, idleInput({ jump: true }), FRAME, world);
+    let apex = state.position.y;
+    for (let i = 0; i < 60; i++) {
+      stepMovement(state, idleInput(), FRAME, world);
+      apex = Math.max(apex, state.position.y);
+    }
+
+    expect(apex - 1).toBeLessThanOrEqual(getMaxJumpHeight());
+    expect(apex - 1).toBeGreaterThan(getMaxJumpHeight() * 0.9);
+    expect(state.position.y).toBe(1);
+  });
+
+  it('stops upward velocity when hitting a ceiling', () => {
+    // Plafond à y = 3 : 2 blocs d'espace libre au-dessus du sol
+    const world = createWorld([[0, 3, 0]]);
+    const state = createState(0.5, 1, 0.5);
+
+    let hitCeiling = stepMovement(
+      state,
+      idleInput({ jump: true }),
+      FRAME,
+      world,
+    ).hitCeiling;
+    let maxY = state.position.y;
+    for (let i = 0; i < 30 && !hitCeiling; i++) {
+      hitCeiling = stepMovement(state, idleInput(), FRAME, world).hitCeiling;
+      maxY = Math.max(maxY, state.position.y);
+    }
+
+    expect(hitCeiling).toBe(true);
+    expect(state.velocity.y).toBeLessThanOrEqual(0);
+    expect(maxY + MOVEMENT_CONSTANTS.playerHeight).toBeLessThanOrEqual(3);
+
+    simulate(state, idleInput(), world, 60);
+    expect(state.position.y).toBe(1);
+  });
+
+  it('ignores jump input while airborne', () => {
+    const world = createWorld([]);
+    const state = createState(0.5, 10, 0.5);
+
+    stepMovement(state, idleInput({ jump: true }), FRAME, world);
+
+    expect(state.velocity.y).toBeLessThan(0);
+  });
+
+  it('moves faster when sprinting', () => {
+    const world = createWorld([]);
+    const walking = createState(0.5, 1, 0.5);
+    const sprinting = createState(0.5, 1, 0.5);
+
+    stepMovement(walking, idleInput({ forward: true }), 0.5, world);
+    stepMovement(
+      sprinting,
+      idleInput({ forward: true, sprint: true }),
+      0.5,
+      world,
+    );
+
+    expect(walking.position.z).toBeCloseTo(
+      0.5 - MOVEMENT_CONSTANTS.walkSpeed * 0.5,
+    );
+    expect(sprinting.position.z).toBeCloseTo(
+      0.5 - MOVEMENT_CONSTANTS.runSpeed * 0.5,
+    );
+  });
+
+  it('does not tunnel through thin floors on large time steps', () => {
+    const world = createWorld([[0, 10, 0]], -100);
+    const state = createState(0.5, 20, 0.5);
+    state.velocity.y = -MOVEMENT_CONSTANTS.maxFallSpeed;
+
+    stepMovement(state, idleInput(), 1, world);
+
+    expect(state.position.y).toBe(11);
+    expect(isGroundedAt(state.position, world)).toBe(true);
+  });
+
+  it('is deterministic for identical inputs', () => {
+    const world = createWorld([
+      [2, 1, 0],
+      [0, 3, -2],
+    ]);
+    const run = () => {
+      const state = createState(0.5, 1, 0.5);
+      for (let i = 0; i < 90; i++) {
+        stepMovement(
+          state,
+          idleInput({
+            forward: i % 3 !== 0,
+            right: i % 2 === 0,
+            jump: i === 10,
+            yaw: i * 0.05,
+          }),
+          FRAME,
+          world,
+        );
+      }
+      return state.position;
+    };
+
+    expect(run()).toEqual(run());
+  });
+
+  it('treats water as the only liquid', () => {
+    expect(isLiquidBlockType('water')).toBe(true);
+    expect(isLiquidBlockType('WATER')).toBe(true);
+    expect(isLiquidBlockType('ice')).toBe(false);
+    expect(isLiquidBlockType(null)).toBe(false);
+  });
+
+  it('slows a fall when entering water', () => {
+    const world = createWorld([]);
+    const state = createState(0.5, 3, 0.5);
+    state.velocity.y = -MOVEMENT_CONSTANTS.maxFallSpeed;
+
+    const result = stepMovement(state, idleInput(), FRAME, world, {
+      isLiquid: createPool(),
+    });
+
+    expect(result.swimming).toBe(true);
+    expect(state.velocity.y).toBeGreaterThanOrEqual(
+      -MOVEMENT_CONSTANTS.maxSinkSpeed,
+    );
+  });
+
+  it('swims up to the surface while jump is held', () => {
+    const world = createWorld([]);
+    const pool = createPool();
+    const state = createState(0.5, 1, 0.5);
+
+    for (let i = 0; i < 120; i++) {
+      stepMovement(state, idleInput({ jump: true }), FRAME, world, {
+        isLiquid: pool,
+      });
+    }
+
+    // La tête sort de l'eau : le joueur ne reste pas au fond
+    expect(state.position.y + MOVEMENT_CONSTANTS.playerHeight).toBeGreaterThan(
+      5,
+    );
+  });
+
+  it('moves at swimming speed in water', () => {
+    const world = createWorld([]);
+    const state = createState(0.5, 1, 0.5);
+
+    stepMovement(
+      state,
+      idleInput({ forward: true, sprint: true }),
+      0.5,
+      world,
+      { isLiquid: createPool() },
+    );
+
+    expect(state.position.z).toBeCloseTo(
+      0.5 - MOVEMENT_CONSTANTS.swimSpeed * 0.5,
+    );
+  });
+
+  it('can jump out of the water from the surface', () => {
+    const world = createWorld([]);
+    // Pieds dans l'eau, taille hors de l'eau
+    const state = createState(0.5, 4.5, 0.5);
+
+    const result = stepMovement(
+      state,
+      idleInput({ jump: true }),
+      FRAME,
+      world,
+      { isLiquid: createPool() },
+    );
+
+    expect(result.swimming).toBe(false);
+    expect(state.velocity.y).toBeGreaterThan(
+      MOVEMENT_CONSTANTS.jumpSpeed + MOVEMENT_CONSTANTS.gravity * FRAME - 0.01,
+    );
+  });
+
+  it('never swims without a liquid query', () => {
+    const world = createWorld([]);
+    const state = createState(0.5, 3, 0.5);
+
+    const result = stepMovement(state, idleInput(), FRAME, world);
+
+    expect(result.swimming).toBe(false);
+  });
+
+  it('accelerates and stops gradually on a slippery floor', () => {
+    const world = createWorld([]);
+    const dry = createState(0.5, 1, 0.5);
+    const wet = createState(0.5, 1, 0.5);
+    const forward = idleInput({ forward: true });
+
+    stepMovement(dry, forward, FRAME, world, { grip: 1 });
+    stepMovement(wet, forward, FRAME, world, { grip: 0.5 });
+
+    expect(dry.velocity.z).toBeCloseTo(-MOVEMENT_CONSTANTS.walkSpeed);
+    expect(wet.velocity.z).toBeLessThan(0);
+    expect(wet.velocity.z).toBeGreaterThan(-MOVEMENT_CONSTANTS.walkSpeed);
+
+    for (let i = 0; i < 120; i++) {
+      stepMovement(wet, forward, FRAME, world, { grip: 0.5 });
+    }
+    expect(wet.velocity.z).toBeCloseTo(-MOVEMENT_CONSTANTS.walkSpeed, 1);
+
+    // Sans entrée, le joueur continue de glisser avant de s'arrêter
+    stepMovement(wet, idleInput(), FRAME, world, { grip: 0.5 });
+    expect(wet.velocity.z).toBeLessThan(-1);
+  });
+});
@@ -0,0 +1,356 @@
+// Simulation de mouvement partagée entre le client (prédiction) et le serveur (validation).
+// Module pur, sans dépendance à Three.js ni à NestJS : les deux côtés doivent obtenir
+// exactement le même résultat pour les mêmes entrées.
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MovementInput {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  sprint: boolean;
+  yaw: number; // Rotation horizontale de la caméra (radians)
+}
+
+// État simulé, modifié en place (compatible avec THREE.Vector3 côté client)
+export interface MovementState {
+  position: Vec3;
+  velocity: Vec3;
+  grounded: boolean;
+}
+
+export interface MovementOptions {
+  godmode?: boolean;
+  // Descendre en godmode (Shift côté client)
+  descend?: boolean;
+  // Blocs liquides : sans cette requête, le joueur ne nage jamais
+  isLiquid?: LiquidBlockQuery;
+  // Adhérence au sol (1 = sol sec) : en dessous, la vitesse change progressivement
+  grip?: number;
+}
+
+export interface MovementStepResult {
+  hitCeiling: boolean;
+  hitWall: boolean;
+  landed: boolean;
+  swimming: boolean;
+}
+
+// Retourne true si le bloc aux coordonnées entières données bloque le joueur
+export type SolidBlockQuery = (x: number, y: number, z: number) => boolean;
+
+// Retourne true si le bloc aux coordonnées entières données est un liquide
+export type LiquidBlockQuery = (x: number, y: number, z: number) => boolean;
+
+export const MOVEMENT_CONSTANTS = {
+  gravity: -120, // Gravité forte pour un mouvement réactif (m/s²)
+  jumpSpeed: 15, // Vitesse initiale du saut
+  walkSpeed: 12, // Vitesse de marche (m/s)
+  runSpeed: 18, // Vitesse de sprint (m/s)
+  godmodeSpeed: 30, // Vitesse en mode godmode
+  maxFallSpeed: 60, // Vitesse de chute maximale
+  playerWidth: 0.6,
+  playerHeight: 1.8,
+  maxStepTime: 0.01, // Pas de simulation maximum (évite de traverser les blocs)
+  swimSpeed: 6, // Vitesse de nage horizontale
+  swimUpSpeed: 5, // Vitesse de remontée (saut maintenu dans l'eau)
+  waterGravity: -15, // Gravité ressentie dans l'eau (flottabilité)
+  maxSinkSpeed: 3, // Vitesse de descente maximale dans l'eau
+  swimDepth: 0.6, // Hauteur au-dessus des pieds à partir de laquelle on nage
+  slipperyAcceleration: 10, // Réactivité (1/s) sur sol glissant, multipliée par l'adhérence
+} as const;
+
+// Types de blocs que le joueur peut traverser
+export const NON_SOLID_BLOCK_TYPES: readonly string[] = ['air', 'water'];
+
+// Types de blocs dans lesquels le joueur nage
+export const LIQUID_BLOCK_TYPES: readonly string[] = ['water'];
+
+const COLLISION_EPSILON = 0.001;
+const GROUND_PROBE = 0.05;
+
+export function isSolidBlockType(type: string | null | undefined): boolean {
+  if (!type) return false;
+  return !NON_SOLID_BLOCK_TYPES.includes(type.toLowerCase());
+}
+
+export function isLiquidBlockType(type: string | null | undefined): boolean {
+  if (!type) return false;
+  return LIQUID_BLOCK_TYPES.includes(type.toLowerCase());
+}
+
+// Le joueur nage quand l'eau lui arrive à la taille
+export function isSwimmingAt(
+  position: Vec3,
+  isLiquid: LiquidBlockQuery,
+): boolean {
+  return isLiquid(
+    Math.floor(position.x),
+    Math.floor(position.y + MOVEMENT_CONSTANTS.swimDepth),
+    Math.floor(position.z),
+  );
+}
+
+// Pieds ou taille dans un liquide (nage ou sortie de l'eau)
+export function isInLiquid(
+  position: Vec3,
+  isLiquid: LiquidBlockQuery,
+): boolean {
+  return (
+    isSwimmingAt(position, isLiquid) ||
+    isLiquid(
+      Math.floor(position.x),
+      Math.floor(position.y),
+      Math.floor(position.z),
+    )
+  );
+}
+
+// Hauteur maximale d'un saut depuis le sol
+export function getMaxJumpHeight(): number {
+  const { jumpSpeed, gravity } = MOVEMENT_CONSTANTS;
+  return (jumpSpeed * jumpSpeed) / (2 * -gravity);
+}
+
+// La position est celle des pieds, au centre de la boîte de collision
+export function collidesAt(position: Vec3, isSolid: SolidBlockQuery): boolean {
+  const halfWidth = MOVEMENT_CONSTANTS.playerWidth / 2 - COLLISION_EPSILON;
+  const minX = Math.floor(position.x - halfWidth);
+  const maxX = Math.floor(position.x + halfWidth);
+  const minY = Math.floor(position.y + COLLISION_EPSILON);
+  const maxY = Math.floor(
+    position.y + MOVEMENT_CONSTANTS.playerHeight - COLLISION_EPSILON,
+  );
+  const minZ = Math.floor(position.z - halfWidth);
+  const maxZ = Math.floor(position.z + halfWidth);
+
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      for (let z = minZ; z <= maxZ; z++) {
+        if (isSolid(x, y, z)) {
+          return true;
+        }
+      }
+    }
+  }
+  return false;
+}
+
+// Un bloc solide se trouve-t-il juste sous l'emprise du joueur ?
+export function isGroundedAt(
+  position: Vec3,
+  isSolid: SolidBlockQuery,
+): boolean {
+  return collidesAt(
+    { x: position.x, y: position.y - GROUND_PROBE, z: position.z },
+    isSolid,
+  );
+}
+
+// Vitesse horizontale souhaitée pour une entrée donnée
+export function getWishVelocity(
+  input: MovementInput,
+  speed: number,
+): { x: number; z: number } {
+  const forwardX = -Math.sin(input.yaw);
+  const forwardZ = -Math.cos(input.yaw);
+  const rightX = Math.cos(input.yaw);
+  const rightZ = -Math.sin(input.yaw);
+
+  let x = 0;
+  let z = 0;
+  if (input.forward) {
+    x += forwardX;
+    z += forwardZ;
+  }
+  if (input.backward) {
+    x -= forwardX;
+    z -= forwardZ;
+  }
+  if (input.left) {
+    x -= rightX;
+    z -= rightZ;
+  }
+  if (input.right) {
+    x += rightX;
+    z += rightZ;
+  }
+
+  const length = Math.hypot(x, z);
+  if (length === 0) {
+    return { x: 0, z: 0 };
+  }
+  return { x: (x / length) * speed, z: (z / length) * speed };
+}
+
+// Avancer la simulation d'une frame d'entrée
+export function stepMovement(
+  state: MovementState,
+  input: MovementInput,
+  deltaTime: number,
+  isSolid: SolidBlockQuery,
+  options: MovementOptions = {},
+): MovementStepResult {
+  const result: MovementStepResult = {
+    hitCeiling: false,
+    hitWall: false,
+    landed: false,
+    swimming: false,
+  };
+  if (!(deltaTime > 0)) return result;
+
+  const swimming =
+    !options.godmode &&
+    !!options.isLiquid &&
+    isSwimmingAt(state.position, options.isLiquid);
+  result.swimming = swimming;
+
+  const speed = options.godmode
+    ? MOVEMENT_CONSTANTS.godmodeSpeed
+    : swimming
+      ? MOVEMENT_CONSTANTS.swimSpeed
+      : input.sprint
+        ? MOVEMENT_CONSTANTS.runSpeed
+        : MOVEMENT_CONSTANTS.walkSpeed;
+  const wish = getWishVelocity(input, speed);
+  const grip = options.godmode || swimming ? 1 : (options.grip ?? 1);
+  if (grip >= 1) {
+    state.velocity.x = wish.x;
+    state.velocity.z = wish.z;
+  } else {
+    // Sol mouillé : on glisse vers la vitesse souhaitée au lieu de l'atteindre
+    const blend =
+      1 -
+      Math.exp(
+        -MOVEMENT_CONSTANTS.slipperyAcceleration *
+          Math.max(grip, 0) *
+          deltaTime,
+      );
+    state.velocity.x += (wish.x - state.velocity.x) * blend;
+    state.velocity.z += (wish.z - state.velocity.z) * blend;
+  }
+
+  if (options.godmode) {
+    // Vol libre, sans gravité ni collision
+    state.velocity.y = input.jump
+      ? MOVEMENT_CONSTANTS.godmodeSpeed
+      : options.descend
+        ? -MOVEMENT_CONSTANTS.godmodeSpeed
+        : 0;
+    state.position.x += state.velocity.x * deltaTime;
+    state.position.y += state.velocity.y * deltaTime;
+    state.position.z += state.velocity.z * deltaTime;
+    state.grounded = false;
+    return result;
+  }
+
+  state.grounded = isGroundedAt(state.position, isSolid);
+  if (swimming) {
+    // Remonter tant que le saut est maintenu
+    if (input.jump) {
+      state.velocity.y = MOVEMENT_CONSTANTS.swimUpSpeed;
+    }
+  } else if (
+    input.jump &&
+    (state.grounded ||
+      (!!options.isLiquid && isInLiquid(state.position, options.isLiquid)))
+  ) {
+    // Depuis le sol, ou depuis la surface de l'eau pour en sortir
+    state.velocity.y = MOVEMENT_CONSTANTS.jumpSpeed;
+    state.grounded = false;
+  }
+
+  const gravity = swimming
+    ? MOVEMENT_CONSTANTS.waterGravity
+    : MOVEMENT_CONSTANTS.gravity;
+  const maxFallSpeed = swimming
+    ? MOVEMENT_CONSTANTS.maxSinkSpeed
+    : MOVEMENT_CONSTANTS.maxFallSpeed;
+
+  // Découper en sous-pas pour ne jamais avancer de plus d'un bloc à la fois
+  const steps = Math.max(
+    1,
+    Math.ceil(deltaTime / MOVEMENT_CONSTANTS.maxStepTime),
+  );
+  const dt = deltaTime / steps;
+
+  for (let i = 0; i < steps; i++) {
+    state.velocity.y = Math.max(state.velocity.y + gravity * dt, -maxFallSpeed);
+
+    // Mouvement par axe (comme Minecraft) : Y d'abord pour atterrir proprement
+    const movedY = moveAxis(state, 'y', state.velocity.y * dt, isSolid);
+    if (movedY === 'negative') {
+      result.landed = true;
+    } else if (movedY === 'positive') {
+      result.hitCeiling = true;
+    }
+    if (moveAxis(state, 'x', state.velocity.x * dt, isSolid)) {
+      result.hitWall = true;
+    }
+    if (moveAxis(state, 'z', state.velocity.z * dt, isSolid)) {
+      result.hitWall = true;
+    }
+  }
+
+  state.grounded = isGroundedAt(state.position, isSolid);
+  if (state.grounded && state.velocity.y < 0) {
+    state.velocity.y = 0;
+  }
+
+  return result;
+}
+
+// Déplacer le joueur sur un axe et le caler contre le bloc rencontré.
+// Retourne le sens de la collision, ou null si le mouvement est libre.
+function moveAxis(
+  state: MovementState,
+  axis: 'x' | 'y' | 'z',
+  delta: number,
+  isSolid: SolidBlockQuery,
+): 'positive' | 'negative' | null {
+  if (delta === 0) return null;
+
+  const previous = state.position[axis];
+  state.position[axis] = previous + delta;
+  if (!collidesAt(state.position, isSolid)) {
+    return null;
+  }
+
+  // Autoriser à sortir d'un bloc dans lequel on était déjà coincé
+  state.position[axis] = previous;
+  if (collidesAt(state.position, isSolid)) {
+    state.position[axis] = previous + delta;
+    return null;
+  }
+
+  const halfWidth = MOVEMENT_CONSTANTS.playerWidth / 2;
+  const height = MOVEMENT_CONSTANTS.playerHeight;
+
+  if (axis === 'y') {
+    state.position.y =
+      delta > 0
+        ? Math.floor(previous + delta + height) - height - COLLISION_EPSILON
+        : Math.floor(previous + delta) + 1;
+  } else {
+    state.position[axis] =
+      delta > 0
+        ? Math.floor(previous + delta + halfWidth) -
+          halfWidth -
+          COLLISION_EPSILON
+        : Math.floor(previous + delta - halfWidth) + 1 + halfWidth;
+  }
+
+  // Sécurité : si le calage échoue, rester à la position précédente
+  if (collidesAt(state.position, isSolid)) {
+    state.position[axis] = previous;
+  }
+
+  state.velocity[axis] = 0;
+  return delta > 0 ? 'positive' : 'negative';
+}
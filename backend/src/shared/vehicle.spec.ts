@@ -0,0 +1,167 @@
+import { SolidBlockQuery } from './movement';
+import {
+  stepVehicle,
+  VEHICLE_CONSTANTS,
+  vehicleCollidesAt,
+  VehicleInput,
+  VehicleState,
+} from './vehicle';
+
+const FRAME = 1 / 60;
+
+function idleInput(overrides: Partial<VehicleInput> = {}): VehicleInput {
+  return {
+    accelerate: false,
+    brake: false,
+    left: false,
+    right: false,
+    handbrake: false,
+    ...overrides,
+  };
+}
+
+function createState(x: number, y: number, z: number): VehicleState {
+  return {
+    position: { x, y, z },
+    velocity: { x: 0, y: 0, z: 0 },
+    heading: 0,
+    steering: 0,
+    grounded: false,
+  };
+}
+
+// Sol plein à y = 0 et murs optionnels
+function createWorld(walls: (x: number, z: number) => boolean = () => false) {
+  const isSolid: SolidBlockQuery = (x, y, z) =>
+    y <= 0 || (y <= 3 && walls(x, z));
+  return isSolid;
+}
+
+function drive(
+  state: VehicleState,
+  input: VehicleInput,
+  isSolid: SolidBlockQuery,
+  seconds: number,
+) {
+  let maxImpact = 0;
+  let drifted = false;
+  for (let t = 0; t < seconds; t += FRAME) {
+    const result = stepVehicle(state, input, FRAME, isSolid);
+    maxImpact = Math.max(maxImpact, result.impactSpeed);
+    drifted = drifted || result.drifting;
+  }
+  return { maxImpact, drifted };
+}
+
+describe('vehicle physics', () => {
+  it('settles on the ground', () => {
+    const state = createState(0.5, 4, 0.5);
+
+    drive(state, idleInput(), createWorld(), 1);
+
+    expect(state.grounded).toBe(true);
+    expect(state.position.y).toBeCloseTo(1);
+  });
+
+  it('accelerates forward up to its top speed', () => {
+    const world = createWorld();
+    const state = createState(0.5, 1, 0.5);
+
+    drive(state, idleInput({ accelerate: true }), world, 1);
+    expect(state.velocity.z).toBeCloseTo(-VEHICLE_CONSTANTS.acceleration, 0);
+    expect(state.position.z).toBeLessThan(-5);
+
+    drive(state, idleInput({ accelerate: true }), world, 5);
+    expect(-state.velocity.z).toBeCloseTo(VEHICLE_CONSTANTS.maxSpeed);
+  });
+
+  it('brakes before reversing', () => {
+    const world = createWorld();
+    const state = createState(0.5, 1, 0.5);
+    state.velocity.z = -20;
+
+    drive(state, idleInput({ brake: true }), world, 0.5);
+    expect(state.velocity.z).toBeGreaterThan(-20);
+    expect(state.velocity.z).toBeLessThanOrEqual(0);
+
+    drive(state, idleInput({ brake: true }), world, 3);
+    expect(state.velocity.z).toBeCloseTo(VEHICLE_CONSTANTS.maxReverseSpeed);
+  });
+
+  it('turns left when steering left while moving', () => {
+    const world = createWorld();
+    const state = createState(0.5, 1, 0.5);
+    state.velocity.z = -10;
+
+    drive(state, idleInput({ accelerate: true, left: true }), world, 0.5);
+
+    expect(state.heading).toBeGreaterThan(0.2);
+    expect(state.position.x).toBeLessThan(0);
+  });
+
+  it('does not turn while standing still', () => {
+    const state = createState(0.5, 1, 0.5);
+
+    drive(state, idleInput({ left: true }), createWorld(), 1);
+
+    expect(state.heading).toBeCloseTo(0);
+    expect(state.steering).toBeCloseTo(VEHICLE_CONSTANTS.maxSteer);
+  });
+
+  it('drifts with the handbrake in a turn', () => {
+    const world = createWorld();
+    const gripping = createState(0.5, 1, 0.5);
+    const drifting = createState(0.5, 1, 0.5);
+    gripping.velocity.z = drifting.velocity.z = -25;
+
+    drive(gripping, idleInput({ left: true }), world, 0.4);
+    const { drifted } = drive(
+      drifting,
+      idleInput({ left: true, handbrake: true }),
+      world,
+      0.4,
+    );
+
+    expect(drifted).toBe(true);
+    expect(drifting.heading).toBeGreaterThan(gripping.heading);
+  });
+
+  it('stops against a wall and reports the impact', () => {
+    const world = createWorld((x, z) => z <= -10);
+    const state = createState(0.5, 1, 0.5);
+    state.velocity.z = -20;
+
+    const { maxImpact } = drive(state, idleInput(), world, 1);
+
+    expect(maxImpact).toBeGreaterThan(10);
+    expect(vehicleCollidesAt(state.position, state.heading, world)).toBe(false);
+    expect(state.position.z).toBeGreaterThan(
+      -9 + VEHICLE_CONSTANTS.length / 2 - 0.1,
+    );
+  });
+
+  it('climbs a one block step', () => {
+    const step = (x: number, y: number, z: number) =>
+      y <= 0 || (y === 1 && z <= -5);
+    const state = createState(0.5, 1, 0.5);
+
+    drive(state, idleInput({ accelerate: true }), step, 2);
+
+    expect(state.position.z).toBeLessThan(-6);
+    expect(state.position.y).toBeCloseTo(2);
+  });
+
+  it('slides further on a wet road', () => {
+    const world = createWorld();
+    const dry = createState(0.5, 1, 0.5);
+    const wet = createState(0.5, 1, 0.5);
+    dry.velocity.x = wet.velocity.x = 10; // Glissement latéral
+
+    for (let i = 0; i < 30; i++) {
+      stepVehicle(dry, idleInput(), FRAME, world, { grip: 1 });
+      stepVehicle(wet, idleInput(), FRAME, world, { grip: 0.4 });
+    }
+
+    expect(wet.velocity.x).toBeGreaterThan(dry.velocity.x);
+  });
+});
@@ -0,0 +1,324 @@
+// Physique arcade des véhicules, partagée entre le client (conduite) et le serveur
+// (validation). Module pur comme movement.ts : mêmes entrées, même résultat.
+import { SolidBlockQuery, Vec3 } from './movement';
+
+export interface VehicleInput {
+  accelerate: boolean;
+  brake: boolean; // Freine, puis recule une fois arrêté
+  left: boolean;
+  right: boolean;
+  handbrake: boolean;
+}
+
+// État simulé, modifié en place (compatible avec THREE.Vector3 côté client)
+export interface VehicleState {
+  position: Vec3; // Centre du dessous de la carrosserie
+  velocity: Vec3;
+  heading: number; // Lacet (radians) : l'avant pointe vers -Z à 0, comme la caméra
+  steering: number; // Angle des roues avant (radians, positif à gauche)
+  grounded: boolean;
+}
+
+export interface VehicleOptions {
+  // Adhérence de la route (1 = sol sec), réduite par la pluie
+  grip?: number;
+}
+
+export interface VehicleStepResult {
+  impactSpeed: number; // Vitesse perdue dans la plus forte collision de la frame
+  drifting: boolean;
+}
+
+export const VEHICLE_CONSTANTS = {
+  maxSpeed: 32, // Vitesse maximale en marche avant (m/s)
+  maxReverseSpeed: 8,
+  acceleration: 14,
+  reverseAcceleration: 8,
+  brakeDeceleration: 30,
+  handbrakeDeceleration: 12,
+  rollingResistance: 4, // Décélération sans accélérer ni freiner
+  maxSteer: 0.6, // Braquage maximal des roues (radians)
+  steerSpeed: 3, // Vitesse de braquage (radians/s)
+  highSpeedSteer: 0.45, // Part du braquage conservée à vitesse maximale
+  wheelBase: 2.4, // Empattement (modèle bicyclette)
+  lateralGrip: 10, // Amortissement du glissement latéral (1/s)
+  driftGrip: 1.5, // Idem frein à main serré
+  driftYawBoost: 1.6, // Survirage au frein à main
+  driftThreshold: 3, // Glissement latéral (m/s) considéré comme une dérive
+  wallBounce: 0.2, // Part de la vitesse renvoyée par un mur
+  gravity: -40,
+  maxFallSpeed: 60,
+  length: 4,
+  width: 1.8,
+  height: 1.5,
+  maxStepTime: 0.01,
+} as const;
+
+// Modèles de voitures : même physique, places et solidité différentes
+export const VEHICLE_MODELS = {
+  sedan: { seats: 4, maxHealth: 100 },
+  coupe: { seats: 2, maxHealth: 80 },
+  pickup: { seats: 2, maxHealth: 140 },
+} as const;
+
+export type VehicleModel = keyof typeof VEHICLE_MODELS;
+
+export const VEHICLE_MODEL_IDS = Object.keys(VEHICLE_MODELS) as VehicleModel[];
+
+// Place 0 : conducteur, les suivantes : passagers
+export const DRIVER_SEAT = 0;
+
+const COLLISION_EPSILON = 0.001;
+const GROUND_PROBE = 0.05;
+
+// La carrosserie est approchée par trois cercles (arrière, centre, avant)
+const COLLISION_RADIUS = VEHICLE_CONSTANTS.width / 2;
+const COLLISION_OFFSETS = [
+  -(VEHICLE_CONSTANTS.length / 2 - COLLISION_RADIUS),
+  0,
+  VEHICLE_CONSTANTS.length / 2 - COLLISION_RADIUS,
+];
+
+export function getVehicleForward(heading: number): { x: number; z: number } {
+  return { x: -Math.sin(heading), z: -Math.cos(heading) };
+}
+
+export function vehicleCollidesAt(
+  position: Vec3,
+  heading: number,
+  isSolid: SolidBlockQuery,
+): boolean {
+  const forward = getVehicleForward(heading);
+  const minY = Math.floor(position.y + COLLISION_EPSILON);
+  const maxY = Math.floor(
+    position.y + VEHICLE_CONSTANTS.height - COLLISION_EPSILON,
+  );
+  const radiusSquared = COLLISION_RADIUS * COLLISION_RADIUS;
+
+  for (const offset of COLLISION_OFFSETS) {
+    const centerX = position.x + forward.x * offset;
+    const centerZ = position.z + forward.z * offset;
+    const maxX = Math.floor(centerX + COLLISION_RADIUS);
+    const maxZ = Math.floor(centerZ + COLLISION_RADIUS);
+
+    for (let x = Math.floor(centerX - COLLISION_RADIUS); x <= maxX; x++) {
+      for (let z = Math.floor(centerZ - COLLISION_RADIUS); z <= maxZ; z++) {
+        // Distance du centre du cercle au point le plus proche de la colonne
+        const dx = centerX - Math.min(Math.max(centerX, x), x + 1);
+        const dz = centerZ - Math.min(Math.max(centerZ, z), z + 1);
+        if (dx * dx + dz * dz >= radiusSquared) continue;
+
+        for (let y = minY; y <= maxY; y++) {
+          if (isSolid(x, y, z)) {
+            return true;
+          }
+        }
+      }
+    }
+  }
+  return false;
+}
+
+export function isVehicleGroundedAt(
+  position: Vec3,
+  heading: number,
+  isSolid: SolidBlockQuery,
+): boolean {
+  return vehicleCollidesAt(
+    { x: position.x, y: position.y - GROUND_PROBE, z: position.z },
+    heading,
+    isSolid,
+  );
+}
+
+// Avancer la simulation du véhicule d'une frame
+export function stepVehicle(
+  state: VehicleState,
+  input: VehicleInput,
+  deltaTime: number,
+  isSolid: SolidBlockQuery,
+  options: VehicleOptions = {},
+): VehicleStepResult {
+  const result: VehicleStepResult = { impactSpeed: 0, drifting: false };
+  if (!(deltaTime > 0)) return result;
+
+  const constants = VEHICLE_CONSTANTS;
+  const grip = Math.min(1, Math.max(0, options.grip ?? 1));
+  const steps = Math.max(1, Math.ceil(deltaTime / constants.maxStepTime));
+  const dt = deltaTime / steps;
+  let lateralSpeed = 0;
+
+  for (let i = 0; i < steps; i++) {
+    state.grounded = isVehicleGroundedAt(
+      state.position,
+      state.heading,
+      isSolid,
+    );
+
+    const forward = getVehicleForward(state.heading);
+    let forwardSpeed =
+      state.velocity.x * forward.x + state.velocity.z * forward.z;
+    lateralSpeed = state.velocity.x * -forward.z + state.velocity.z * forward.x;
+
+    // Les roues tournent progressivement, et moins à haute vitesse
+    const speedRatio = Math.min(1, Math.abs(forwardSpeed) / constants.maxSpeed);
+    const steerInput = (input.left ? 1 : 0) - (input.right ? 1 : 0);
+    const steerTarget =
+      steerInput *
+      constants.maxSteer *
+      (1 - (1 - constants.highSpeedSteer) * speedRatio);
+    state.steering = approach(
+      state.steering,
+      steerTarget,
+      constants.steerSpeed * dt,
+    );
+
+    if (state.grounded) {
+      forwardSpeed = applyEngine(forwardSpeed, input, dt, grip);
+
+      // Le frein à main libère l'arrière : la voiture glisse et survire
+      const lateralGrip =
+        (input.handbrake ? constants.driftGrip : constants.lateralGrip) * grip;
+      lateralSpeed *= Math.exp(-lateralGrip * dt);
+
+      state.velocity.x = forward.x * forwardSpeed - forward.z * lateralSpeed;
+      state.velocity.z = forward.z * forwardSpeed + forward.x * lateralSpeed;
+
+      // La carrosserie tourne, la vitesse garde sa direction : l'adhérence
+      // latérale la réaligne au pas suivant, sauf en dérive
+      const yawRate =
+        ((forwardSpeed * Math.tan(state.steering)) / constants.wheelBase) *
+        (input.handbrake ? constants.driftYawBoost : 1);
+      const heading = state.heading + yawRate * dt;
+      if (!vehicleCollidesAt(state.position, heading, isSolid)) {
+        state.heading = heading;
+      }
+    }
+
+    state.velocity.y = Math.max(
+      state.velocity.y + constants.gravity * dt,
+      -constants.maxFallSpeed,
+    );
+
+    moveVertically(state, state.velocity.y * dt, isSolid);
+    for (const axis of ['x', 'z'] as const) {
+      const impact = moveHorizontally(
+        state,
+        axis,
+        state.velocity[axis] * dt,
+        isSolid,
+      );
+      result.impactSpeed = Math.max(result.impactSpeed, impact);
+    }
+  }
+
+  state.grounded = isVehicleGroundedAt(state.position, state.heading, isSolid);
+  result.drifting =
+    state.grounded && Math.abs(lateralSpeed) > constants.driftThreshold;
+  return result;
+}
+
+// Accélérer, freiner ou reculer le long de l'axe du véhicule
+function applyEngine(
+  forwardSpeed: number,
+  input: VehicleInput,
+  dt: number,
+  grip: number,
+): number {
+  const constants = VEHICLE_CONSTANTS;
+  // Sur route mouillée, les roues patinent et freinent moins bien
+  const traction = 0.5 + 0.5 * grip;
+  const throttle = (input.accelerate ? 1 : 0) - (input.brake ? 1 : 0);
+
+  if (input.handbrake) {
+    return approach(
+      forwardSpeed,
+      0,
+      constants.handbrakeDeceleration * traction * dt,
+    );
+  }
+  if (throttle !== 0 && forwardSpeed * throttle < -0.5) {
+    // Freiner avant de repartir dans l'autre sens
+    return approach(
+      forwardSpeed,
+      0,
+      constants.brakeDeceleration * traction * dt,
+    );
+  }
+  if (throttle > 0) {
+    return Math.min(
+      constants.maxSpeed,
+      forwardSpeed + constants.acceleration * traction * dt,
+    );
+  }
+  if (throttle < 0) {
+    return Math.max(
+      -constants.maxReverseSpeed,
+      forwardSpeed - constants.reverseAcceleration * traction * dt,
+    );
+  }
+  return approach(forwardSpeed, 0, constants.rollingResistance * dt);
+}
+
+function moveVertically(
+  state: VehicleState,
+  delta: number,
+  isSolid: SolidBlockQuery,
+): void {
+  if (delta === 0) return;
+
+  const previous = state.position.y;
+  state.position.y = previous + delta;
+  if (!vehicleCollidesAt(state.position, state.heading, isSolid)) return;
+
+  // Se poser sur le bloc rencontré (ou toucher le plafond) ; rester sur place
+  // si le contact vient d'un mur plutôt que du sol
+  state.position.y =
+    delta < 0
+      ? Math.floor(previous + delta) + 1
+      : Math.floor(previous + delta + VEHICLE_CONSTANTS.height) -
+        VEHICLE_CONSTANTS.height -
+        COLLISION_EPSILON;
+  if (vehicleCollidesAt(state.position, state.heading, isSolid)) {
+    state.position.y = previous;
+  }
+  state.velocity.y = 0;
+}
+
+// Retourne la vitesse perdue contre un obstacle (0 si le mouvement est libre)
+function moveHorizontally(
+  state: VehicleState,
+  axis: 'x' | 'z',
+  delta: number,
+  isSolid: SolidBlockQuery,
+): number {
+  if (delta === 0) return 0;
+
+  const previous = state.position[axis];
+  state.position[axis] = previous + delta;
+  if (!vehicleCollidesAt(state.position, state.heading, isSolid)) return 0;
+
+  // Monter une marche d'un bloc (trottoir, dénivelé de la route)
+  if (state.grounded) {
+    const previousY = state.position.y;
+    state.position.y = Math.floor(previousY + COLLISION_EPSILON) + 1;
+    if (!vehicleCollidesAt(state.position, state.heading, isSolid)) return 0;
+    state.position.y = previousY;
+  }
+
+  // Autoriser à sortir d'un bloc dans lequel on était déjà coincé
+  state.position[axis] = previous;
+  if (vehicleCollidesAt(state.position, state.heading, isSolid)) {
+    state.position[axis] = previous + delta;
+    return 0;
+  }
+
+  const impact = Math.abs(state.velocity[axis]);
+  state.velocity[axis] *= -VEHICLE_CONSTANTS.wallBounce;
+  return impact;
+}
+
+function approach(value: number, target: number, maxDelta: number): number {
+  if (value < target) return Math.min(value + maxDelta, target);
+  return Math.max(value - maxDelta, target);
+}
@@ -0,0 +1,57 @@
+import {
+  getWeatherEffects,
+  pickNextWeather,
+  WEATHER_EFFECTS,
+  WEATHER_TRANSITIONS,
+  WeatherState,
+} from './weather';
+
+const state = (overrides: Partial<WeatherState> = {}): WeatherState => ({
+  type: 'rain',
+  previousType: 'clear',
+  changedAt: 1_000_000,
+  transitionDuration: 10_000,
+  nextChangeAt: null,
+  serverTime: 1_000_000,
+  ...overrides,
+});
+
+describe('weather', () => {
+  it('blends the effects during a transition', () => {
+    const { clear, rain } = WEATHER_EFFECTS;
+
+    expect(getWeatherEffects(state(), 1_000_000)).toEqual(clear);
+    expect(getWeatherEffects(state(), 1_000_000 + 5_000).grip).toBeCloseTo(
+      (clear.grip + rain.grip) / 2,
+    );
+    expect(getWeatherEffects(state(), 1_000_000 + 20_000)).toEqual(rain);
+  });
+
+  it('applies the new weather at once without transition', () => {
+    const effects = getWeatherEffects(
+      state({ type: 'storm', transitionDuration: 0 }),
+      1_000_000,
+    );
+
+    expect(effects).toEqual(WEATHER_EFFECTS.storm);
+  });
+
+  it('reduces grip and view distance when it rains', () => {
+    const { clear, rain, storm } = WEATHER_EFFECTS;
+
+    expect(rain.grip).toBeLessThan(clear.grip);
+    expect(storm.grip).toBeLessThan(rain.grip);
+    expect(storm.viewDistance).toBeLessThan(clear.viewDistance);
+  });
+
+  it('picks the next weather among the allowed transitions', () => {
+    expect(pickNextWeather('clear', () => 0)).toBe('clear');
+    expect(pickNextWeather('clear', () => 0.999)).toBe('fog');
+    expect(pickNextWeather('storm', () => 0)).toBe('rain');
+
+    for (const roll of [0, 0.25, 0.5, 0.75, 0.999]) {
+      const next = pickNextWeather('cloudy', () => roll);
+      expect(WEATHER_TRANSITIONS.cloudy.map(([type]) => type)).toContain(next);
+    }
+  });
+});
@@ -0,0 +1,114 @@
+// Météo partagée entre le serveur (qui la tire au sort par room) et les clients,
+// qui en déduisent le rendu (pluie, brouillard, lumière) et l'adhérence au sol.
+
+export const WEATHER_TYPES = [
+  'clear',
+  'cloudy',
+  'rain',
+  'storm',
+  'fog',
+] as const;
+
+export type WeatherType = (typeof WEATHER_TYPES)[number];
+
+export interface WeatherState {
+  type: WeatherType;
+  previousType: WeatherType; // Météo dont on sort pendant la transition
+  changedAt: number; // Instant (ms, horloge du serveur) du début de la transition
+  transitionDuration: number; // Durée du fondu entre les deux météos (ms)
+  nextChangeAt: number | null; // Prochain changement automatique, null si figée
+  serverTime: number; // Instant (ms) auquel l'état a été envoyé
+}
+
+// Effets d'une météo, interpolés pendant les transitions
+export interface WeatherEffects {
+  rain: number; // Intensité de la pluie (0-1)
+  cloudCover: number; // Assombrissement du ciel et de la lumière (0-1)
+  fog: number; // Épaisseur du brouillard (0-1)
+  grip: number; // Adhérence au sol (1 = sol sec)
+  viewDistance: number; // Facteur appliqué à la distance d'affichage
+}
+
+export const WEATHER_EFFECTS: Record<WeatherType, WeatherEffects> = {
+  clear: { rain: 0, cloudCover: 0, fog: 0, grip: 1, viewDistance: 1 },
+  cloudy: { rain: 0, cloudCover: 0.5, fog: 0.1, grip: 1, viewDistance: 1 },
+  rain: {
+    rain: 0.6,
+    cloudCover: 0.75,
+    fog: 0.4,
+    grip: 0.6,
+    viewDistance: 0.75,
+  },
+  storm: { rain: 1, cloudCover: 1, fog: 0.6, grip: 0.4, viewDistance: 0.5 },
+  fog: { rain: 0, cloudCover: 0.4, fog: 1, grip: 0.9, viewDistance: 0.5 },
+};
+
+// Enchaînements possibles et leurs poids : la pluie passe par les nuages
+export const WEATHER_TRANSITIONS: Record<WeatherType, [WeatherType, number][]> =
+  {
+    clear: [
+      ['clear', 2],
+      ['cloudy', 3],
+      ['fog', 1],
+    ],
+    cloudy: [
+      ['clear', 3],
+      ['cloudy', 1],
+      ['rain', 3],
+      ['fog', 1],
+    ],
+    rain: [
+      ['cloudy', 3],
+      ['rain', 1],
+      ['storm', 2],
+    ],
+    storm: [
+      ['rain', 3],
+      ['cloudy', 1],
+    ],
+    fog: [
+      ['clear', 2],
+      ['cloudy', 2],
+    ],
+  };
+
+// Avancement de la transition (0 au changement, 1 une fois terminée)
+export function getWeatherTransition(state: WeatherState, now: number): number {
+  if (state.transitionDuration <= 0) return 1;
+  const progress = (now - state.changedAt) / state.transitionDuration;
+  return Math.min(1, Math.max(0, progress));
+}
+
+// Effets à l'instant `now` (ms, horloge du serveur)
+export function getWeatherEffects(
+  state: WeatherState,
+  now: number,
+): WeatherEffects {
+  const from = WEATHER_EFFECTS[state.previousType];
+  const to = WEATHER_EFFECTS[state.type];
+  const t = getWeatherTransition(state, now);
+  const mix = (a: number, b: number) => a + (b - a) * t;
+
+  return {
+    rain: mix(from.rain, to.rain),
+    cloudCover: mix(from.cloudCover, to.cloudCover),
+    fog: mix(from.fog, to.fog),
+    grip: mix(from.grip, to.grip),
+    viewDistance: mix(from.viewDistance, to.viewDistance),
+  };
+}
+
+// Tirer la météo suivante ; `random` renvoie un nombre dans [0, 1)
+export function pickNextWeather(
+  current: WeatherType,
+  random: () => number = Math.random,
+): WeatherType {
+  const choices = WEATHER_TRANSITIONS[current];
+  const total = choices.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random() * total;
+  for (const [type, weight] of choices) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return choices[choices.length - 1][0];
+}
@@ -0,0 +1,49 @@
+import {
+  areNightLightsOn,
+  getSunElevation,
+  getTimeOfDay,
+  normalizeTimeOfDay,
+  WorldClockState,
+} from './world-clock';
+
+const state = (overrides: Partial<WorldClockState> = {}): WorldClockState => ({
+  time: 8,
+  dayLength: 240, // 10 secondes réelles par heure
+  frozen: false,
+  serverTime: 1_000_000,
+  ...overrides,
+});
+
+describe('world clock', () => {
+  it('advances with the configured day length', () => {
+    expect(getTimeOfDay(state(), 1_000_000)).toBe(8);
+    expect(getTimeOfDay(state(), 1_000_000 + 10_000)).toBeCloseTo(9);
+    expect(getTimeOfDay(state(), 1_000_000 + 60_000)).toBeCloseTo(14);
+  });
+
+  it('wraps around midnight', () => {
+    expect(getTimeOfDay(state({ time: 23 }), 1_000_000 + 20_000)).toBeCloseTo(
+      1,
+    );
+    expect(normalizeTimeOfDay(-2)).toBe(22);
+    expect(normalizeTimeOfDay(24)).toBe(0);
+  });
+
+  it('stays put while frozen', () => {
+    expect(getTimeOfDay(state({ frozen: true }), 1_000_000 + 60_000)).toBe(8);
+  });
+
+  it('puts the sun at its highest at noon and lowest at midnight', () => {
+    expect(getSunElevation(12)).toBeCloseTo(1);
+    expect(getSunElevation(0)).toBeCloseTo(-1);
+    expect(getSunElevation(6)).toBeCloseTo(0);
+    expect(getSunElevation(18)).toBeCloseTo(0);
+  });
+
+  it('switches the night lights on around dusk', () => {
+    expect(areNightLightsOn(12)).toBe(false);
+    expect(areNightLightsOn(8)).toBe(false);
+    expect(areNightLightsOn(18)).toBe(true);
+    expect(areNightLightsOn(2)).toBe(true);
+  });
+});
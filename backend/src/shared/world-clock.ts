@@ -0,0 +1,42 @@
+// Horloge du monde partagée entre le serveur (qui fait autorité) et les clients,
+// qui extrapolent l'heure entre deux synchronisations.
+
+export const HOURS_PER_DAY = 24;
+
+// Lever et coucher du soleil (heures)
+export const SUNRISE_HOUR = 6;
+export const SUNSET_HOUR = 18;
+
+// Les lumières de la ville s'allument quand le soleil passe sous cette hauteur
+const NIGHT_LIGHTS_ELEVATION = 0.1;
+
+export interface WorldClockState {
+  time: number; // Heure du jour dans [0, 24)
+  dayLength: number; // Durée d'une journée complète en secondes réelles
+  frozen: boolean;
+  serverTime: number; // Instant (ms) auquel `time` a été mesurée
+}
+
+export function normalizeTimeOfDay(hours: number): number {
+  return ((hours % HOURS_PER_DAY) + HOURS_PER_DAY) % HOURS_PER_DAY;
+}
+
+// Heure du jour à l'instant `now` (ms, horloge du serveur)
+export function getTimeOfDay(state: WorldClockState, now: number): number {
+  if (state.frozen || state.dayLength <= 0) {
+    return state.time;
+  }
+  const elapsedHours =
+    ((now - state.serverTime) / 1000 / state.dayLength) * HOURS_PER_DAY;
+  return normalizeTimeOfDay(state.time + elapsedHours);
+}
+
+// Hauteur du soleil : 1 à midi, 0 au lever et au coucher, -1 à minuit
+export function getSunElevation(time: number): number {
+  const dayProgress = (time - SUNRISE_HOUR) / HOURS_PER_DAY;
+  return Math.sin(dayProgress * 2 * Math.PI);
+}
+
+export function areNightLightsOn(time: number): boolean {
+  return getSunElevation(time) < NIGHT_LIGHTS_ELEVATION;
+}
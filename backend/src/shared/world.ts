@@ -0,0 +1,4 @@
+// Monde de blocs partagé entre le serveur et les clients : chaque room désigne
+// le sien par une seed, celle de la room principale sert par défaut.
+
+export const DEFAULT_WORLD_SEED = 12345;
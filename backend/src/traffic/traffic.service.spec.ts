@@ -0,0 +1,182 @@
+import { ConfigService } from '@nestjs/config';
+import { BlocksService } from '../blocks/blocks.service';
+import { GameRoom, PlayerData } from '../game/interfaces';
+import { MapElement, MapService } from '../map/map.service';
+import { buildRoadGraph } from '../map/road-graph';
+import { RoadGraphService } from '../map/road-graph.service';
+import { RoomService } from '../rooms/room.service';
+import { VehicleDatabaseService } from '../vehicles/vehicle-database.service';
+import { VehicleService } from '../vehicles/vehicle.service';
+import { TrafficCar, TrafficService } from './traffic.service';
+
+// uuid n'est publié qu'en ESM, que jest ne transforme pas
+jest.mock('uuid', () => {
+  let next = 0;
+  return { v4: () => `car-${++next}` };
+});
+
+describe('TrafficService', () => {
+  // Sol plat : blocs pleins sous y = 5
+  const blocks = {
+    getBlock: (_x: number, y: number) => (y < 5 ? { type: 'stone' } : null),
+    getWorldHeight: () => 32,
+  } as unknown as BlocksService;
+  const rooms = { getWorldSeed: () => 1 } as unknown as RoomService;
+
+  // Croix de deux routes de -50 à 50 qui se croisent en (0, 0)
+  const road = (horizontal: boolean): MapElement => ({
+    type: 'road',
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    scale: horizontal ? { x: 100, y: 0.03, z: 12 } : { x: 12, y: 0.03, z: 100 },
+    metadata: {
+      roadType: 'main',
+      orientation: horizontal ? 'horizontal' : 'vertical',
+    },
+  });
+  const map = {
+    getMapElements: () => [road(true), road(false)],
+    onMapChanged: () => undefined,
+  } as unknown as MapService;
+
+  const createService = (config: Record<string, string> = {}) => {
+    const configService = new ConfigService({
+      TRAFFIC_CARS_PER_ROOM: '1',
+      ...config,
+    });
+    const vehicles = new VehicleService(
+      configService,
+      map,
+      blocks,
+      {} as VehicleDatabaseService,
+      rooms,
+    );
+    return new TrafficService(
+      configService,
+      new RoadGraphService(map),
+      blocks,
+      vehicles,
+      rooms,
+    );
+  };
+
+  const createPlayer = (x: number, z: number): PlayerData => ({
+    id: 'alice',
+    name: 'alice',
+    position: { x, y: 5, z },
+    rotation: { x: 0, y: 0, z: 0 },
+    isMoving: false,
+    speed: 0,
+    lastUpdate: 0,
+    lastProcessedInput: 0,
+    roomId: 'room-1',
+    vehicleId: null,
+  });
+
+  const createRoom = (players: PlayerData[]): GameRoom => ({
+    id: 'room-1',
+    name: 'Room 1',
+    maxPlayers: 10,
+    players: new Map(players.map((player) => [player.id, player])),
+    createdAt: new Date(0),
+    seed: 1,
+    mapName: 'default',
+  });
+
+  // Faire tourner la simulation à 20 ticks par seconde
+  const simulate = (
+    service: TrafficService,
+    room: GameRoom,
+    seconds: number,
+    start: number,
+    onTick?: (car: TrafficCar) => void,
+  ): number => {
+    let now = start;
+    for (let i = 0; i < seconds * 20; i++) {
+      now += 50;
+      service.update([room], 0.05, now);
+      onTick?.(service.getCarsInRoom(room.id)[0]);
+    }
+    return now;
+  };
+
+  beforeEach(() => {
+    // Première voie (vers l'est depuis x = -50), premier modèle, début du tronçon
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('fills occupied rooms and empties the others', () => {
+    const service = createService({ TRAFFIC_CARS_PER_ROOM: '3' });
+    jest.restoreAllMocks();
+
+    const room = createRoom([createPlayer(30, 30)]);
+    service.update([createRoom([])], 0.05, 0);
+    expect(service.getCarsInRoom('room-1')).toHaveLength(0);
+
+    service.update([room], 0.05, 0);
+    expect(service.getCarsInRoom('room-1')).toHaveLength(3);
+
+    room.players.clear();
+    service.update([room], 0.05, 50);
+    expect(service.getCarsInRoom('room-1')).toHaveLength(0);
+  });
+
+  it('drives along the right-hand lane', () => {
+    const service = createService();
+    const room = createRoom([createPlayer(30, 30)]);
+
+    service.update([room], 0.05, 0);
+    const car = service.getCarsInRoom('room-1')[0];
+    expect(car.position).toEqual({ x: -50, y: 5, z: 1.5 });
+
+    simulate(service, room, 2, 0);
+    expect(car.position.x).toBeGreaterThan(-45);
+    expect(car.position.z).toBe(1.5);
+    expect(car.speed).toBeCloseTo(8);
+
+    const snapshot = service.getSnapshot('room-1', 2_000);
+    expect(snapshot.cars[0]).toMatchObject({
+      id: car.id,
+      p: [car.position.x, 5, 1.5],
+    });
+  });
+
+  it('stops behind a player standing in its lane', () => {
+    const service = createService();
+    const player = createPlayer(30, 30);
+    const room = createRoom([player]);
+
+    service.update([room], 0.05, 0);
+    player.position = { x: -30, y: 5, z: 1.5 };
+    simulate(service, room, 10, 0);
+
+    const car = service.getCarsInRoom('room-1')[0];
+    expect(car.speed).toBe(0);
+    expect(car.position.x).toBeLessThan(-35);
+    expect(car.position.x).toBeGreaterThan(-40);
+  });
+
+  it('stops at intersections before crossing', () => {
+    const service = createService();
+    const room = createRoom([createPlayer(30, 30)]);
+    const graph = buildRoadGraph(map.getMapElements());
+    let stoppedAtLine = false;
+    let crossed = false;
+
+    service.update([room], 0.05, 0);
+    simulate(service, room, 10, 0, (car) => {
+      if (car.speed === 0 && Math.abs(car.position.x + 6) < 1) {
+        stoppedAtLine = true;
+      }
+      // Le tronçon suivant part du carrefour
+      if (graph.nodes[car.edge.from].intersection) {
+        crossed = stoppedAtLine;
+      }
+    });
+
+    expect(stoppedAtLine).toBe(true);
+    expect(crossed).toBe(true);
+  });
+});
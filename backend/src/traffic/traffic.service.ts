@@ -0,0 +1,444 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { BlocksService } from '../blocks/blocks.service';
+import { GameRoom, PlayerPosition, TrafficSnapshot } from '../game/interfaces';
+import {
+  getLanePosition,
+  RoadEdge,
+  RoadGraph,
+  RoadNode,
+} from '../map/road-graph';
+import { RoadGraphService } from '../map/road-graph.service';
+import { RoomService } from '../rooms/room.service';
+import { isSolidBlockType } from '../shared/movement';
+import type { SolidBlockQuery } from '../shared/movement';
+import {
+  getVehicleForward,
+  VEHICLE_MODEL_IDS,
+  VehicleModel,
+  vehicleCollidesAt,
+} from '../shared/vehicle';
+import { VehicleService } from '../vehicles/vehicle.service';
+
+// Voiture conduite par le serveur le long d'une voie du graphe routier
+export interface TrafficCar {
+  id: string;
+  roomId: string;
+  model: VehicleModel;
+  edge: RoadEdge;
+  distance: number; // Depuis le début du tronçon
+  speed: number;
+  position: PlayerPosition;
+  heading: number;
+  waitingSince: number | null; // Arrêtée au carrefour
+  cleared: boolean; // Peut traverser le carrefour en fin de tronçon
+  blockedSince: number | null;
+}
+
+@Injectable()
+export class TrafficService {
+  private readonly DEFAULT_CARS_PER_ROOM = 8;
+  private readonly DEFAULT_BROADCAST_RATE = 5; // Diffusions par seconde
+  private readonly MAIN_ROAD_SPEED = 12; // m/s
+  private readonly SECONDARY_ROAD_SPEED = 8;
+  private readonly ACCELERATION = 4;
+  private readonly DECELERATION = 8;
+  private readonly MAX_LANE_OFFSET = 1.5; // Distance de l'axe de la route
+  private readonly STOP_LINE = 6; // Arrêt avant le centre du carrefour
+  private readonly STOP_DURATION = 1500; // ms
+  private readonly INTERSECTION_RADIUS = 5;
+  private readonly LOOKAHEAD = 14;
+  private readonly SAFE_GAP = 6; // Entre centres, longueur de la voiture comprise
+  private readonly LANE_HALF_WIDTH = 2.2;
+  private readonly SPAWN_CLEARANCE = 10;
+  private readonly SPAWN_ATTEMPTS = 5;
+  private readonly STUCK_TIMEOUT = 30_000; // ms
+  private readonly PROFILE_STEP = 2; // Échantillonnage du sol le long des voies
+  private readonly carsPerRoom: number;
+  private readonly broadcastRate: number;
+  private cars: Map<string, TrafficCar> = new Map();
+  private graph: RoadGraph | null = null;
+  // Hauteur du sol le long de chaque voie ; null si la voie n'est pas praticable
+  private profiles: Map<number, number[] | null> = new Map();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly roadGraph: RoadGraphService,
+    private readonly blocksService: BlocksService,
+    private readonly vehicleService: VehicleService,
+    private readonly roomService: RoomService,
+  ) {
+    const perRoom = Number(this.configService.get('TRAFFIC_CARS_PER_ROOM'));
+    const rate = Number(this.configService.get('TRAFFIC_BROADCAST_RATE'));
+
+    this.carsPerRoom =
+      Number.isFinite(perRoom) && perRoom >= 0
+        ? Math.floor(perRoom)
+        : this.DEFAULT_CARS_PER_ROOM;
+    this.broadcastRate =
+      Number.isFinite(rate) && rate > 0 ? rate : this.DEFAULT_BROADCAST_RATE;
+  }
+
+  getBroadcastRate(): number {
+    return this.broadcastRate;
+  }
+
+  getCarsInRoom(roomId: string): TrafficCar[] {
+    return Array.from(this.cars.values()).filter(
+      (car) => car.roomId === roomId,
+    );
+  }
+
+  // Faire rouler la circulation des rooms occupées, vider les autres
+  update(rooms: GameRoom[], deltaTime: number, now: number = Date.now()): void {
+    const occupied = new Map(
+      rooms
+        .filter((room) => room.players.size > 0)
+        .map((room) => [room.id, room]),
+    );
+    for (const car of Array.from(this.cars.values())) {
+      if (!occupied.has(car.roomId)) {
+        this.cars.delete(car.id);
+      }
+    }
+
+    // Carte régénérée : la circulation repart sur le nouveau graphe
+    const graph = this.roadGraph.getGraph();
+    if (graph !== this.graph) {
+      this.graph = graph;
+      this.cars.clear();
+      this.profiles.clear();
+    }
+
+    for (const room of occupied.values()) {
+      const obstacles = this.getObstacles(room);
+      const roomCars = this.getCarsInRoom(room.id);
+      const positions = [...obstacles, ...roomCars.map((car) => car.position)];
+
+      for (const car of roomCars) {
+        this.stepCar(car, graph, positions, deltaTime, now);
+
+        // Coincée trop longtemps (bloc sur la voie, joueur immobile) : retirée
+        if (
+          car.blockedSince !== null &&
+          now - car.blockedSince >= this.STUCK_TIMEOUT
+        ) {
+          this.cars.delete(car.id);
+        }
+      }
+
+      let count = this.getCarsInRoom(room.id).length;
+      while (count < this.carsPerRoom && this.spawnCar(room, graph)) {
+        count++;
+      }
+    }
+  }
+
+  getSnapshot(roomId: string, now: number = Date.now()): TrafficSnapshot {
+    const round = (value: number, precision: number) =>
+      Math.round(value * precision) / precision;
+
+    return {
+      serverTime: now,
+      cars: this.getCarsInRoom(roomId).map((car) => ({
+        id: car.id,
+        m: car.model,
+        p: [
+          round(car.position.x, 100),
+          round(car.position.y, 100),
+          round(car.position.z, 100),
+        ],
+        h: round(car.heading, 1000),
+        s: round(car.speed, 10),
+      })),
+    };
+  }
+
+  private stepCar(
+    car: TrafficCar,
+    graph: RoadGraph,
+    positions: PlayerPosition[],
+    deltaTime: number,
+    now: number,
+  ): void {
+    const target = this.getTargetSpeed(car, graph, positions, now);
+    car.speed =
+      target > car.speed
+        ? Math.min(target, car.speed + this.ACCELERATION * deltaTime)
+        : Math.max(target, car.speed - this.DECELERATION * deltaTime);
+
+    // Un joueur a construit sur la voie : s'arrêter devant le bloc
+    const advance = car.speed * deltaTime;
+    if (advance > 0 && this.collidesAhead(car, graph, advance)) {
+      car.speed = 0;
+    } else {
+      car.distance += advance;
+    }
+
+    while (car.distance >= car.edge.length) {
+      const next = this.pickNextEdge(graph, car.edge);
+      if (!next) {
+        car.distance = car.edge.length;
+        car.speed = 0;
+        break;
+      }
+      car.distance -= car.edge.length;
+      car.edge = next;
+      car.cleared = false;
+      car.waitingSince = null;
+    }
+    this.placeCar(car, graph);
+
+    const waiting = car.waitingSince !== null;
+    if (car.speed < 0.1 && !waiting) {
+      car.blockedSince ??= now;
+    } else {
+      car.blockedSince = null;
+    }
+  }
+
+  // Vitesse de croisière, limitée par le carrefour et le véhicule qui précède
+  private getTargetSpeed(
+    car: TrafficCar,
+    graph: RoadGraph,
+    positions: PlayerPosition[],
+    now: number,
+  ): number {
+    let target =
+      car.edge.roadType === 'main'
+        ? this.MAIN_ROAD_SPEED
+        : this.SECONDARY_ROAD_SPEED;
+
+    const node = graph.nodes[car.edge.to];
+    if (node.intersection && !car.cleared) {
+      const toStopLine = car.edge.length - car.distance - this.STOP_LINE;
+      if (toStopLine > 0.5 || car.speed >= 0.5) {
+        target = Math.min(target, this.getBrakingSpeed(toStopLine));
+      } else {
+        // Marquer l'arrêt puis traverser quand le carrefour est libre
+        car.waitingSince ??= now;
+        if (
+          now - car.waitingSince >= this.STOP_DURATION &&
+          this.isIntersectionClear(node, car, positions)
+        ) {
+          car.cleared = true;
+          car.waitingSince = null;
+        } else {
+          return 0;
+        }
+      }
+    }
+
+    const gap = this.getGapAhead(car, positions);
+    if (gap !== null) {
+      target = Math.min(target, this.getBrakingSpeed(gap - this.SAFE_GAP));
+    }
+    return target;
+  }
+
+  private getBrakingSpeed(distance: number): number {
+    return Math.sqrt(2 * this.DECELERATION * Math.max(0, distance));
+  }
+
+  // Distance au plus proche obstacle devant la voiture, dans sa voie
+  private getGapAhead(
+    car: TrafficCar,
+    positions: PlayerPosition[],
+  ): number | null {
+    const forward = getVehicleForward(car.heading);
+    let gap: number | null = null;
+
+    for (const position of positions) {
+      if (position === car.position) continue;
+
+      const dx = position.x - car.position.x;
+      const dz = position.z - car.position.z;
+      const along = dx * forward.x + dz * forward.z;
+      if (along <= 0 || along > this.LOOKAHEAD) continue;
+      if (Math.abs(dx * forward.z - dz * forward.x) > this.LANE_HALF_WIDTH) {
+        continue;
+      }
+      if (Math.abs(position.y - car.position.y) > 3) continue;
+
+      gap = gap === null ? along : Math.min(gap, along);
+    }
+    return gap;
+  }
+
+  private isIntersectionClear(
+    node: RoadNode,
+    car: TrafficCar,
+    positions: PlayerPosition[],
+  ): boolean {
+    return positions.every(
+      (position) =>
+        position === car.position ||
+        Math.hypot(position.x - node.x, position.z - node.z) >
+          this.INTERSECTION_RADIUS,
+    );
+  }
+
+  private collidesAhead(
+    car: TrafficCar,
+    graph: RoadGraph,
+    advance: number,
+  ): boolean {
+    const distance = Math.min(car.distance + advance, car.edge.length);
+    const lane = getLanePosition(
+      graph,
+      car.edge,
+      distance,
+      this.getLaneOffset(car.edge),
+    );
+    return vehicleCollidesAt(
+      { x: lane.x, y: car.position.y, z: lane.z },
+      car.heading,
+      this.getSolidQuery(car.roomId),
+    );
+  }
+
+  // Continuer tout droit ou tourner au hasard ; demi-tour en cul-de-sac
+  private pickNextEdge(graph: RoadGraph, edge: RoadEdge): RoadEdge | null {
+    const outgoing = graph.nodes[edge.to].edges
+      .map((id) => graph.edges[id])
+      .filter((next) => this.getProfile(graph, next) !== null);
+    const options = outgoing.filter((next) => next.to !== edge.from);
+
+    if (options.length === 0) {
+      return outgoing[0] ?? null;
+    }
+    return options[Math.floor(Math.random() * options.length)];
+  }
+
+  private spawnCar(room: GameRoom, graph: RoadGraph): TrafficCar | null {
+    const edges = graph.edges.filter(
+      (edge) =>
+        edge.length > this.STOP_LINE * 2 &&
+        this.getProfile(graph, edge) !== null,
+    );
+    if (edges.length === 0) return null;
+
+    const occupied = [
+      ...this.getObstacles(room),
+      ...this.getCarsInRoom(room.id).map((car) => car.position),
+    ];
+
+    for (let attempt = 0; attempt < this.SPAWN_ATTEMPTS; attempt++) {
+      const edge = edges[Math.floor(Math.random() * edges.length)];
+      const car: TrafficCar = {
+        id: uuidv4(),
+        roomId: room.id,
+        model:
+          VEHICLE_MODEL_IDS[
+            Math.floor(Math.random() * VEHICLE_MODEL_IDS.length)
+          ],
+        edge,
+        distance: Math.random() * (edge.length - this.STOP_LINE * 2),
+        speed: 0,
+        position: { x: 0, y: 0, z: 0 },
+        heading: 0,
+        waitingSince: null,
+        cleared: false,
+        blockedSince: null,
+      };
+      this.placeCar(car, graph);
+
+      const free = occupied.every(
+        (position) =>
+          Math.hypot(
+            position.x - car.position.x,
+            position.z - car.position.z,
+          ) >= this.SPAWN_CLEARANCE,
+      );
+      if (
+        free &&
+        !vehicleCollidesAt(
+          car.position,
+          car.heading,
+          this.getSolidQuery(car.roomId),
+        )
+      ) {
+        this.cars.set(car.id, car);
+        return car;
+      }
+    }
+    return null;
+  }
+
+  // Position sur la voie de droite, posée sur le profil du sol
+  private placeCar(car: TrafficCar, graph: RoadGraph): void {
+    const { edge, distance } = car;
+    const lane = getLanePosition(
+      graph,
+      edge,
+      distance,
+      this.getLaneOffset(edge),
+    );
+    const profile = this.getProfile(graph, edge) ?? [car.position.y];
+    const index = Math.min(distance / this.PROFILE_STEP, profile.length - 1);
+    const below = Math.floor(index);
+    const above = Math.min(below + 1, profile.length - 1);
+
+    // Modifiée en place : la position sert aussi d'identité d'obstacle
+    car.position.x = lane.x;
+    car.position.y =
+      profile[below] + (profile[above] - profile[below]) * (index - below);
+    car.position.z = lane.z;
+    car.heading = Math.atan2(-edge.direction.x, -edge.direction.z);
+  }
+
+  private getLaneOffset(edge: RoadEdge): number {
+    return Math.min(edge.width / 4, this.MAX_LANE_OFFSET);
+  }
+
+  // Échantillonner le sol le long de la voie : praticable si la voiture y tient
+  // partout sans marche de plus d'un bloc
+  private getProfile(graph: RoadGraph, edge: RoadEdge): number[] | null {
+    const cached = this.profiles.get(edge.id);
+    if (cached !== undefined) return cached;
+
+    const heading = Math.atan2(-edge.direction.x, -edge.direction.z);
+    const offset = this.getLaneOffset(edge);
+    const samples = Math.ceil(edge.length / this.PROFILE_STEP);
+    let profile: number[] | null = [];
+
+    for (let i = 0; i <= samples; i++) {
+      const distance = Math.min(i * this.PROFILE_STEP, edge.length);
+      const lane = getLanePosition(graph, edge, distance, offset);
+      const ground = this.vehicleService.findGround(lane.x, lane.z, heading);
+      const previous = profile[profile.length - 1];
+      if (
+        !ground ||
+        (previous !== undefined && Math.abs(ground.y - previous) > 1)
+      ) {
+        profile = null;
+        break;
+      }
+      profile.push(ground.y);
+    }
+
+    this.profiles.set(edge.id, profile);
+    return profile;
+  }
+
+  // Joueurs à pied et véhicules partagés de la room
+  private getObstacles(room: GameRoom): PlayerPosition[] {
+    return [
+      ...Array.from(room.players.values())
+        .filter((player) => !player.vehicleId)
+        .map((player) => player.position),
+      ...this.vehicleService
+        .getVehiclesInRoom(room.id)
+        .map((vehicle) => vehicle.position),
+    ];
+  }
+
+  // Requête de solidité transmise à la physique partagée, dans le monde
+  // (seed) de la room de la voiture
+  private getSolidQuery(roomId: string): SolidBlockQuery {
+    const seed = this.roomService.getWorldSeed(roomId);
+    return (x, y, z) =>
+      isSolidBlockType(this.blocksService.getBlock(x, y, z, seed)?.type);
+  }
+}
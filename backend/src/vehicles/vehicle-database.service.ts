@@ -0,0 +1,74 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  PlayerPosition,
+  PlayerRotation,
+  VehicleData,
+} from '../game/interfaces';
+import { VEHICLE_MODELS, VehicleModel } from '../shared/vehicle';
+
+// Véhicule d'un joueur, conservé entre les parties
+export interface StoredVehicle {
+  id: string;
+  ownerId: string;
+  model: VehicleModel;
+  position: PlayerPosition;
+  rotation: PlayerRotation;
+  health: number;
+}
+
+@Injectable()
+export class VehicleDatabaseService {
+  private readonly logger = new Logger(VehicleDatabaseService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async loadOwnedVehicles(ownerId: string): Promise<StoredVehicle[]> {
+    try {
+      const vehicles = await this.prisma.vehicle.findMany({
+        where: { ownerId },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return vehicles
+        .filter((vehicle) => vehicle.model in VEHICLE_MODELS)
+        .map((vehicle) => ({
+          id: vehicle.id,
+          ownerId: vehicle.ownerId,
+          model: vehicle.model as VehicleModel,
+          position: vehicle.position as unknown as PlayerPosition,
+          rotation: vehicle.rotation as unknown as PlayerRotation,
+          health: vehicle.health,
+        }));
+    } catch (error) {
+      this.logger.error(
+        `❌ Erreur lors du chargement des véhicules du joueur ${ownerId}:`,
+        error,
+      );
+      return [];
+    }
+  }
+
+  async saveVehicle(vehicle: VehicleData): Promise<void> {
+    if (!vehicle.ownerId) return;
+
+    const state = {
+      model: vehicle.model,
+      position: { ...vehicle.position },
+      rotation: { ...vehicle.rotation },
+      health: Math.round(vehicle.health),
+    };
+    try {
+      await this.prisma.vehicle.upsert({
+        where: { id: vehicle.id },
+        create: { id: vehicle.id, ownerId: vehicle.ownerId, ...state },
+        update: state,
+      });
+    } catch (error) {
+      this.logger.error(
+        `❌ Erreur lors de la sauvegarde du véhicule ${vehicle.id}:`,
+        error,
+      );
+    }
+  }
+}
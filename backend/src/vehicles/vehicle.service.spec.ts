@@ -0,0 +1,223 @@
+import { ConfigService } from '@nestjs/config';
+import { BlocksService } from '../blocks/blocks.service';
+import { GameRoom, PlayerData } from '../game/interfaces';
+import { MapService } from '../map/map.service';
+import { RoomService } from '../rooms/room.service';
+import { VehicleDatabaseService } from './vehicle-database.service';
+import { VehicleService } from './vehicle.service';
+
+// uuid n'est publié qu'en ESM, que jest ne transforme pas
+jest.mock('uuid', () => {
+  let next = 0;
+  return { v4: () => `vehicle-${++next}` };
+});
+
+describe('VehicleService', () => {
+  // Sol plat : blocs pleins sous y = 5
+  const blocks = {
+    getBlock: (_x: number, y: number) => (y < 5 ? { type: 'stone' } : null),
+    getWorldHeight: () => 32,
+  } as unknown as BlocksService;
+
+  const roads = [0, 20, 40].map((x) => ({
+    type: 'road',
+    position: { x, y: 0, z: 0 },
+    metadata: { orientation: 'horizontal' },
+  }));
+  const map = {
+    getMapElements: () => roads,
+  } as unknown as MapService;
+
+  let vehicleDb: {
+    loadOwnedVehicles: jest.Mock;
+    saveVehicle: jest.Mock;
+  };
+
+  const createService = (config: Record<string, string> = {}) =>
+    new VehicleService(
+      new ConfigService({
+        VEHICLES_PER_ROOM: '2',
+        VEHICLE_ABANDON_SECONDS: '60',
+        ...config,
+      }),
+      map,
+      blocks,
+      vehicleDb as unknown as VehicleDatabaseService,
+      { getWorldSeed: () => 1 } as unknown as RoomService,
+    );
+
+  const createPlayer = (id: string, x = 0): PlayerData => ({
+    id,
+    name: id,
+    position: { x, y: 5, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    isMoving: false,
+    speed: 0,
+    lastUpdate: 0,
+    lastProcessedInput: 0,
+    roomId: 'room-1',
+    vehicleId: null,
+  });
+
+  const createRoom = (players: PlayerData[]): GameRoom => ({
+    id: 'room-1',
+    name: 'Room 1',
+    maxPlayers: 10,
+    players: new Map(players.map((player) => [player.id, player])),
+    createdAt: new Date(0),
+    seed: 1,
+    mapName: 'default',
+  });
+
+  const spawn = { position: { x: 0, y: 5, z: 0 }, heading: 0 };
+
+  beforeEach(() => {
+    vehicleDb = {
+      loadOwnedVehicles: jest.fn().mockResolvedValue([]),
+      saveVehicle: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('snaps road spawn points onto the ground', () => {
+    const points = createService().getSpawnPoints();
+
+    expect(points).toHaveLength(3);
+    expect(points[0].position).toEqual({ x: 0, y: 5, z: 0 });
+    expect(points[0].heading).toBeCloseTo(Math.PI / 2);
+  });
+
+  it('fills occupied rooms up to the configured count', () => {
+    const service = createService();
+
+    expect(service.update([createRoom([])], 0).spawned).toHaveLength(0);
+
+    const room = createRoom([createPlayer('alice')]);
+    expect(service.update([room], 0).spawned).toHaveLength(2);
+    expect(service.update([room], 1_000).spawned).toHaveLength(0);
+    expect(service.getVehiclesInRoom('room-1')).toHaveLength(2);
+  });
+
+  it('gives the driver seat first, then passenger seats', () => {
+    const service = createService();
+    const vehicle = service.spawnVehicle('room-1', 'sedan', spawn);
+
+    const driver = service.enterVehicle(createPlayer('alice'), vehicle.id);
+    const passenger = service.enterVehicle(createPlayer('bob'), vehicle.id);
+
+    expect(driver.seat).toBe(0);
+    expect(passenger.seat).toBe(1);
+    expect(vehicle.seats).toEqual(['alice', 'bob', null, null]);
+    expect(service.getDrivenVehicle('bob', vehicle.id).reason).toBe(
+      'notDriver',
+    );
+  });
+
+  it('rejects players too far away or already seated', () => {
+    const service = createService();
+    const vehicle = service.spawnVehicle('room-1', 'coupe', spawn);
+    const alice = createPlayer('alice');
+
+    expect(
+      service.enterVehicle(createPlayer('bob', 10), vehicle.id).reason,
+    ).toBe('tooFar');
+    service.enterVehicle(alice, vehicle.id);
+    expect(service.enterVehicle(alice, vehicle.id).reason).toBe(
+      'alreadyInVehicle',
+    );
+    expect(
+      service.enterVehicle(createPlayer('carol'), vehicle.id, 1).seat,
+    ).toBe(1);
+    expect(service.enterVehicle(createPlayer('dave'), vehicle.id).reason).toBe(
+      'seatTaken',
+    );
+  });
+
+  it('locks the driver seat of an owned vehicle', () => {
+    const service = createService();
+    const vehicle = service.spawnVehicle('room-1', 'sedan', spawn, 'alice');
+    const bob = createPlayer('bob');
+
+    expect(service.enterVehicle(bob, vehicle.id, 0).reason).toBe('locked');
+    expect(service.enterVehicle(bob, vehicle.id).seat).toBe(1);
+    expect(service.changeSeat(bob, 0).reason).toBe('locked');
+    expect(service.changeSeat(bob, 3).previousSeat).toBe(1);
+  });
+
+  it('despawns empty vehicles after the abandon delay', () => {
+    const service = createService({ VEHICLES_PER_ROOM: '0' });
+    const room = createRoom([createPlayer('alice')]);
+    const vehicle = service.spawnVehicle('room-1', 'sedan', spawn);
+
+    service.enterVehicle(createPlayer('bob'), vehicle.id);
+    service.exitVehicle('bob', 1_000);
+    expect(vehicle.abandonedAt).toBe(1_000);
+
+    expect(service.update([room], 60_999).despawned).toHaveLength(0);
+    expect(service.update([room], 61_000).despawned).toEqual([vehicle]);
+    expect(service.getVehicle(vehicle.id)).toBeUndefined();
+  });
+
+  it('keeps owned vehicles while their owner is in the room', () => {
+    const service = createService({ VEHICLES_PER_ROOM: '0' });
+    const vehicle = service.spawnVehicle('room-1', 'pickup', spawn, 'alice');
+    vehicle.abandonedAt = 0;
+
+    const room = createRoom([createPlayer('alice')]);
+    expect(service.update([room], 100_000).despawned).toHaveLength(0);
+
+    room.players.clear();
+    expect(service.update([room], 100_000).despawned).toEqual([vehicle]);
+    expect(vehicleDb.saveVehicle).toHaveBeenCalledWith(vehicle);
+  });
+
+  it('damages vehicles on hard impacts only', () => {
+    const service = createService();
+    const vehicle = service.spawnVehicle('room-1', 'sedan', spawn);
+    const { x, y, z } = spawn.position;
+    // Vitesse déclarée ignorée : seules les positions comptent
+    const velocity = { x: NaN, y: 0, z: 0 };
+    const drive = (distance: number, now: number) =>
+      service.applyDriverMove(
+        vehicle,
+        { x, y, z: z + distance },
+        0,
+        velocity,
+        0,
+        now,
+      );
+
+    expect(drive(0, 0)).toBe(false);
+    expect(drive(5, 250)).toBe(false); // 20 m/s
+    expect(drive(8.75, 500)).toBe(false); // 15 m/s
+    expect(drive(8.75, 600)).toBe(false); // Fenêtre de mesure incomplète
+    expect(drive(8.75, 750)).toBe(true); // Arrêt brutal
+    expect(vehicle.health).toBe(100 - (15 - 8) * 4);
+  });
+
+  it('lets a driver claim a vehicle up to the ownership limit', async () => {
+    const service = createService();
+    const alice = createPlayer('alice');
+    const vehicle = service.spawnVehicle('room-1', 'sedan', spawn);
+
+    expect((await service.claimVehicle(alice, vehicle.id)).reason).toBe(
+      'notDriver',
+    );
+
+    service.enterVehicle(alice, vehicle.id);
+    vehicleDb.loadOwnedVehicles.mockResolvedValueOnce([
+      { id: 'saved-1' },
+      { id: 'saved-2' },
+      { id: 'saved-3' },
+    ]);
+    expect((await service.claimVehicle(alice, vehicle.id)).reason).toBe(
+      'ownedLimit',
+    );
+
+    expect((await service.claimVehicle(alice, vehicle.id)).valid).toBe(true);
+    expect(vehicle.ownerId).toBe('alice');
+    expect(vehicleDb.saveVehicle).toHaveBeenCalledWith(vehicle);
+    expect((await service.claimVehicle(alice, vehicle.id)).reason).toBe(
+      'alreadyOwned',
+    );
+  });
+});
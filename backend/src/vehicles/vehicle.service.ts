@@ -0,0 +1,545 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { BlocksService } from '../blocks/blocks.service';
+import {
+  GameRoom,
+  PlayerData,
+  PlayerPosition,
+  VehicleData,
+} from '../game/interfaces';
+import { MapService } from '../map/map.service';
+import { RoomService } from '../rooms/room.service';
+import { isSolidBlockType } from '../shared/movement';
+import type { SolidBlockQuery } from '../shared/movement';
+import {
+  DRIVER_SEAT,
+  VEHICLE_MODEL_IDS,
+  VEHICLE_MODELS,
+  VehicleModel,
+  vehicleCollidesAt,
+} from '../shared/vehicle';
+import { VehicleDatabaseService } from './vehicle-database.service';
+
+export type VehicleRejection =
+  | 'notFound'
+  | 'tooFar'
+  | 'invalidSeat'
+  | 'seatTaken'
+  | 'locked'
+  | 'wrecked'
+  | 'alreadyInVehicle'
+  | 'notInVehicle'
+  | 'notDriver'
+  | 'alreadyOwned'
+  | 'ownedLimit';
+
+export interface VehicleSeatResult {
+  valid: boolean;
+  reason?: VehicleRejection;
+  vehicle?: VehicleData;
+  seat?: number;
+  previousSeat?: number;
+}
+
+// Point d'apparition sur une route de la carte, posé sur le sol voxel
+export interface VehicleSpawnPoint {
+  position: PlayerPosition;
+  heading: number;
+}
+
+export interface VehicleUpdateResult {
+  spawned: VehicleData[];
+  despawned: VehicleData[];
+}
+
+// Vitesse mesurée par le serveur entre deux positions validées du conducteur
+interface SpeedSample {
+  time: number;
+  position: PlayerPosition;
+  speed: number;
+}
+
+@Injectable()
+export class VehicleService {
+  private readonly logger = new Logger(VehicleService.name);
+  private readonly DEFAULT_VEHICLES_PER_ROOM = 12;
+  private readonly DEFAULT_ABANDON_DURATION = 120; // secondes
+  private readonly ENTER_DISTANCE = 4;
+  private readonly ENTER_HEIGHT = 3;
+  private readonly SPAWN_SPACING = 6; // Distance minimale entre deux voitures
+  private readonly MAX_OWNED_VEHICLES = 3;
+  private readonly IMPACT_THRESHOLD = 8; // Perte de vitesse (m/s) sans dégât
+  private readonly IMPACT_DAMAGE = 4; // Points de vie par m/s au-delà du seuil
+  private readonly SPEED_SAMPLE_SECONDS = 0.25; // Fenêtre de mesure, absorbe la gigue réseau
+  private readonly vehiclesPerRoom: number;
+  private readonly abandonDuration: number; // ms
+  private vehicles: Map<string, VehicleData> = new Map();
+  private speedSamples: Map<string, SpeedSample> = new Map();
+  private spawnPoints: VehicleSpawnPoint[] | null = null;
+
+  // Requête de solidité transmise à la physique partagée. Le réseau routier est
+  // le même dans tous les mondes : les points d'apparition sont cherchés dans
+  // celui de la room principale
+  private readonly isSolidAt = (x: number, y: number, z: number): boolean =>
+    isSolidBlockType(this.blocksService.getBlock(x, y, z)?.type);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly mapService: MapService,
+    private readonly blocksService: BlocksService,
+    private readonly vehicleDb: VehicleDatabaseService,
+    private readonly roomService: RoomService,
+  ) {
+    const perRoom = this.readNumber('VEHICLES_PER_ROOM');
+    const abandon = this.readNumber('VEHICLE_ABANDON_SECONDS');
+
+    this.vehiclesPerRoom = Math.floor(
+      perRoom ?? this.DEFAULT_VEHICLES_PER_ROOM,
+    );
+    this.abandonDuration = (abandon ?? this.DEFAULT_ABANDON_DURATION) * 1000;
+  }
+
+  getVehicle(vehicleId: string): VehicleData | undefined {
+    return this.vehicles.get(vehicleId);
+  }
+
+  getVehiclesInRoom(roomId: string): VehicleData[] {
+    return Array.from(this.vehicles.values()).filter(
+      (vehicle) => vehicle.roomId === roomId,
+    );
+  }
+
+  // Véhicule dans lequel le joueur est assis, le cas échéant
+  getPlayerVehicle(playerId: string): VehicleData | undefined {
+    for (const vehicle of this.vehicles.values()) {
+      if (vehicle.seats.includes(playerId)) return vehicle;
+    }
+    return undefined;
+  }
+
+  spawnVehicle(
+    roomId: string,
+    model: VehicleModel,
+    spawn: VehicleSpawnPoint,
+    ownerId: string | null = null,
+    id: string = uuidv4(),
+  ): VehicleData {
+    const { seats, maxHealth } = VEHICLE_MODELS[model];
+    const vehicle: VehicleData = {
+      id,
+      roomId,
+      model,
+      position: { ...spawn.position },
+      rotation: { x: 0, y: spawn.heading, z: 0 },
+      velocity: { x: 0, y: 0, z: 0 },
+      steering: 0,
+      health: maxHealth,
+      maxHealth,
+      seats: new Array<string | null>(seats).fill(null),
+      ownerId,
+      abandonedAt: null,
+    };
+
+    this.vehicles.set(id, vehicle);
+    return vehicle;
+  }
+
+  // Retirer un véhicule du monde ; ceux des joueurs sont sauvegardés
+  despawnVehicle(vehicleId: string): VehicleData | undefined {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle) return undefined;
+
+    this.vehicles.delete(vehicleId);
+    this.speedSamples.delete(vehicleId);
+    if (vehicle.ownerId) {
+      void this.vehicleDb.saveVehicle(vehicle);
+    }
+    return vehicle;
+  }
+
+  // Monter à une place donnée, ou à la première place libre (conducteur d'abord)
+  enterVehicle(
+    player: PlayerData,
+    vehicleId: string,
+    seat?: number,
+  ): VehicleSeatResult {
+    if (this.getPlayerVehicle(player.id)) {
+      return { valid: false, reason: 'alreadyInVehicle' };
+    }
+
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle || vehicle.roomId !== player.roomId) {
+      return { valid: false, reason: 'notFound' };
+    }
+    if (vehicle.health <= 0) {
+      return { valid: false, reason: 'wrecked' };
+    }
+
+    const horizontalDistance = Math.hypot(
+      vehicle.position.x - player.position.x,
+      vehicle.position.z - player.position.z,
+    );
+    if (
+      horizontalDistance > this.ENTER_DISTANCE ||
+      Math.abs(vehicle.position.y - player.position.y) > this.ENTER_HEIGHT
+    ) {
+      return { valid: false, reason: 'tooFar' };
+    }
+
+    if (seat === undefined) {
+      const free = vehicle.seats.findIndex(
+        (_, index) => !this.getSeatRejection(vehicle, player, index),
+      );
+      if (free === -1) {
+        return { valid: false, reason: 'seatTaken' };
+      }
+      seat = free;
+    }
+
+    const rejection = this.getSeatRejection(vehicle, player, seat);
+    if (rejection) {
+      return { valid: false, reason: rejection };
+    }
+
+    vehicle.seats[seat] = player.id;
+    return { valid: true, vehicle, seat };
+  }
+
+  // Libérer la place du joueur ; le véhicule vide commence à être abandonné
+  exitVehicle(playerId: string, now: number = Date.now()): VehicleSeatResult {
+    const vehicle = this.getPlayerVehicle(playerId);
+    if (!vehicle) {
+      return { valid: false, reason: 'notInVehicle' };
+    }
+
+    const seat = vehicle.seats.indexOf(playerId);
+    vehicle.seats[seat] = null;
+    if (seat === DRIVER_SEAT) {
+      this.speedSamples.delete(vehicle.id);
+    }
+    if (vehicle.seats.every((occupant) => occupant === null)) {
+      vehicle.abandonedAt = now;
+      vehicle.velocity = { x: 0, y: 0, z: 0 };
+      vehicle.steering = 0;
+    }
+    if (vehicle.ownerId) {
+      void this.vehicleDb.saveVehicle(vehicle);
+    }
+    return { valid: true, vehicle, seat };
+  }
+
+  changeSeat(player: PlayerData, seat: number): VehicleSeatResult {
+    const vehicle = this.getPlayerVehicle(player.id);
+    if (!vehicle) {
+      return { valid: false, reason: 'notInVehicle' };
+    }
+
+    const rejection = this.getSeatRejection(vehicle, player, seat);
+    if (rejection) {
+      return { valid: false, reason: rejection };
+    }
+
+    const previousSeat = vehicle.seats.indexOf(player.id);
+    vehicle.seats[previousSeat] = null;
+    vehicle.seats[seat] = player.id;
+    if (previousSeat === DRIVER_SEAT) {
+      this.speedSamples.delete(vehicle.id);
+    }
+    return { valid: true, vehicle, seat, previousSeat };
+  }
+
+  // Seul le conducteur d'un véhicule en état de rouler peut le déplacer
+  getDrivenVehicle(playerId: string, vehicleId: string): VehicleSeatResult {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle) {
+      return { valid: false, reason: 'notFound' };
+    }
+    if (vehicle.seats[DRIVER_SEAT] !== playerId) {
+      return { valid: false, reason: 'notDriver' };
+    }
+    if (vehicle.health <= 0) {
+      return { valid: false, reason: 'wrecked' };
+    }
+    return { valid: true, vehicle, seat: DRIVER_SEAT };
+  }
+
+  // Appliquer l'état validé envoyé par le conducteur ; renvoie true si un choc
+  // a abîmé le véhicule. La vitesse déclarée n'est que relayée aux autres
+  // joueurs : les dégâts dépendent des positions validées
+  applyDriverMove(
+    vehicle: VehicleData,
+    position: PlayerPosition,
+    heading: number,
+    velocity: PlayerPosition,
+    steering: number,
+    now: number = Date.now(),
+  ): boolean {
+    vehicle.position = { x: position.x, y: position.y, z: position.z };
+    vehicle.rotation = { x: 0, y: heading, z: 0 };
+    vehicle.velocity = { x: velocity.x, y: velocity.y, z: velocity.z };
+    vehicle.steering = steering;
+
+    return this.applyImpact(vehicle, now);
+  }
+
+  // Faire descendre tous les occupants (véhicule détruit) ; renvoie leurs places
+  ejectOccupants(
+    vehicleId: string,
+    now: number = Date.now(),
+  ): { playerId: string; seat: number }[] {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle) return [];
+
+    const ejected: { playerId: string; seat: number }[] = [];
+    vehicle.seats.forEach((playerId, seat) => {
+      if (playerId) {
+        ejected.push({ playerId, seat });
+        this.exitVehicle(playerId, now);
+      }
+    });
+    return ejected;
+  }
+
+  // Le conducteur devient propriétaire d'un véhicule de la ville
+  async claimVehicle(
+    player: PlayerData,
+    vehicleId: string,
+  ): Promise<VehicleSeatResult> {
+    const driven = this.getDrivenVehicle(player.id, vehicleId);
+    if (!driven.valid || !driven.vehicle) return driven;
+
+    const vehicle = driven.vehicle;
+    if (vehicle.ownerId) {
+      return { valid: false, reason: 'alreadyOwned' };
+    }
+
+    const stored = await this.vehicleDb.loadOwnedVehicles(player.id);
+    const owned = new Set(stored.map((ownedVehicle) => ownedVehicle.id));
+    for (const other of this.vehicles.values()) {
+      if (other.ownerId === player.id) owned.add(other.id);
+    }
+    if (owned.size >= this.MAX_OWNED_VEHICLES) {
+      return { valid: false, reason: 'ownedLimit' };
+    }
+
+    vehicle.ownerId = player.id;
+    await this.vehicleDb.saveVehicle(vehicle);
+    this.logger.log(`🔑 ${player.name} possède maintenant ${vehicle.id}`);
+    return { valid: true, vehicle, seat: DRIVER_SEAT };
+  }
+
+  // Faire apparaître dans la room les véhicules sauvegardés du joueur
+  async loadOwnedVehicles(
+    roomId: string,
+    ownerId: string,
+    now: number = Date.now(),
+  ): Promise<VehicleData[]> {
+    const stored = await this.vehicleDb.loadOwnedVehicles(ownerId);
+    const loaded: VehicleData[] = [];
+
+    for (const saved of stored) {
+      if (this.vehicles.has(saved.id)) continue; // Déjà dans le monde
+
+      const vehicle = this.spawnVehicle(
+        roomId,
+        saved.model,
+        { position: saved.position, heading: saved.rotation.y },
+        ownerId,
+        saved.id,
+      );
+      vehicle.health = Math.min(saved.health, vehicle.maxHealth);
+      vehicle.abandonedAt = now;
+      loaded.push(vehicle);
+    }
+    return loaded;
+  }
+
+  // Retirer les véhicules abandonnés et compléter le parc des rooms occupées
+  update(rooms: GameRoom[], now: number = Date.now()): VehicleUpdateResult {
+    const result: VehicleUpdateResult = { spawned: [], despawned: [] };
+    const roomsById = new Map(rooms.map((room) => [room.id, room]));
+
+    for (const vehicle of Array.from(this.vehicles.values())) {
+      const room = roomsById.get(vehicle.roomId);
+      if (!room || this.isAbandoned(vehicle, room, now)) {
+        this.despawnVehicle(vehicle.id);
+        result.despawned.push(vehicle);
+      }
+    }
+
+    for (const room of rooms) {
+      if (room.players.size === 0) continue;
+
+      let cityVehicles = this.getVehiclesInRoom(room.id).filter(
+        (vehicle) => !vehicle.ownerId,
+      ).length;
+      while (cityVehicles < this.vehiclesPerRoom) {
+        const spawn = this.pickSpawnPoint(room.id);
+        if (!spawn) break;
+
+        const model =
+          VEHICLE_MODEL_IDS[
+            Math.floor(Math.random() * VEHICLE_MODEL_IDS.length)
+          ];
+        result.spawned.push(this.spawnVehicle(room.id, model, spawn));
+        cityVehicles++;
+      }
+    }
+
+    if (result.spawned.length > 0 || result.despawned.length > 0) {
+      this.logger.log(
+        `🚗 Véhicules : ${result.spawned.length} apparus, ${result.despawned.length} retirés`,
+      );
+    }
+    return result;
+  }
+
+  // Points d'apparition tirés des routes de la carte, là où la chaussée est libre
+  getSpawnPoints(): VehicleSpawnPoint[] {
+    if (this.spawnPoints) return this.spawnPoints;
+
+    const points: VehicleSpawnPoint[] = [];
+    const roads = this.mapService
+      .getMapElements()
+      .filter((element) => element.type === 'road');
+
+    roads.forEach((road, index) => {
+      // Les routes « horizontales » suivent l'axe X ; sens alternés
+      const along = road.metadata?.orientation === 'horizontal';
+      const heading = (along ? Math.PI / 2 : 0) + (index % 2) * Math.PI;
+      const position = this.findGround(
+        road.position.x,
+        road.position.z,
+        heading,
+      );
+      if (!position) return;
+
+      const tooClose = points.some(
+        (point) =>
+          Math.hypot(
+            point.position.x - position.x,
+            point.position.z - position.z,
+          ) < this.SPAWN_SPACING,
+      );
+      if (!tooClose) {
+        points.push({ position, heading });
+      }
+    });
+
+    this.spawnPoints = points;
+    this.logger.log(`🚗 ${points.length} points d'apparition de véhicules`);
+    return points;
+  }
+
+  // Premier sol solide sous (x, z) où la voiture tient sans toucher de bloc
+  findGround(x: number, z: number, heading: number): PlayerPosition | null {
+    for (let y = this.blocksService.getWorldHeight() - 1; y > 0; y--) {
+      if (!this.isSolidAt(x, y - 1, z)) continue;
+
+      const position = { x, y, z };
+      return vehicleCollidesAt(position, heading, this.isSolidAt)
+        ? null
+        : position;
+    }
+    return null;
+  }
+
+  private getSeatRejection(
+    vehicle: VehicleData,
+    player: PlayerData,
+    seat: number,
+  ): VehicleRejection | null {
+    if (!Number.isInteger(seat) || seat < 0 || seat >= vehicle.seats.length) {
+      return 'invalidSeat';
+    }
+    if (vehicle.seats[seat] !== null) {
+      return 'seatTaken';
+    }
+    // Les véhicules possédés ne se conduisent que par leur propriétaire
+    if (
+      seat === DRIVER_SEAT &&
+      vehicle.ownerId &&
+      vehicle.ownerId !== player.id
+    ) {
+      return 'locked';
+    }
+    return null;
+  }
+
+  // Choc : forte perte de vitesse d'une fenêtre de mesure à la suivante
+  // (le véhicule est à l'arrêt quand un conducteur en prend le volant)
+  private applyImpact(vehicle: VehicleData, now: number): boolean {
+    const sample = this.speedSamples.get(vehicle.id);
+    if (!sample) {
+      this.speedSamples.set(vehicle.id, {
+        time: now,
+        position: vehicle.position,
+        speed: 0,
+      });
+      return false;
+    }
+
+    const elapsed = (now - sample.time) / 1000;
+    if (elapsed < this.SPEED_SAMPLE_SECONDS) return false;
+
+    const speed =
+      Math.hypot(
+        vehicle.position.x - sample.position.x,
+        vehicle.position.z - sample.position.z,
+      ) / elapsed;
+    const impact = sample.speed - speed - this.IMPACT_THRESHOLD;
+    this.speedSamples.set(vehicle.id, {
+      time: now,
+      position: vehicle.position,
+      speed,
+    });
+
+    if (impact <= 0) return false;
+    vehicle.health = Math.max(0, vehicle.health - impact * this.IMPACT_DAMAGE);
+    return true;
+  }
+
+  // Vide depuis trop longtemps, sauf s'il appartient à un joueur présent
+  private isAbandoned(
+    vehicle: VehicleData,
+    room: GameRoom,
+    now: number,
+  ): boolean {
+    if (vehicle.abandonedAt === null) return false;
+    if (vehicle.seats.some((occupant) => occupant !== null)) return false;
+    if (vehicle.ownerId && room.players.has(vehicle.ownerId)) return false;
+    return now - vehicle.abandonedAt >= this.abandonDuration;
+  }
+
+  private pickSpawnPoint(roomId: string): VehicleSpawnPoint | null {
+    const vehicles = this.getVehiclesInRoom(roomId);
+    const isSolidAt = this.getSolidQuery(roomId);
+    const free = this.getSpawnPoints().filter(
+      (point) =>
+        vehicles.every(
+          (vehicle) =>
+            Math.hypot(
+              vehicle.position.x - point.position.x,
+              vehicle.position.z - point.position.z,
+            ) >= this.SPAWN_SPACING,
+        ) &&
+        // Un joueur a pu construire sur la route depuis
+        !vehicleCollidesAt(point.position, point.heading, isSolidAt),
+    );
+    if (free.length === 0) return null;
+    return free[Math.floor(Math.random() * free.length)];
+  }
+
+  // Solidité dans le monde (seed) de la room
+  private getSolidQuery(roomId: string): SolidBlockQuery {
+    const seed = this.roomService.getWorldSeed(roomId);
+    return (x, y, z) =>
+      isSolidBlockType(this.blocksService.getBlock(x, y, z, seed)?.type);
+  }
+
+  private readNumber(key: string): number | undefined {
+    const value = Number(this.configService.get(key));
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+}
@@ -1,6 +1,8 @@
 import * as THREE from 'three';
 import { OptimizedBlockManager } from '../game/OptimizedBlockManager';
 import { InputManager } from './InputManager';
+import { DayNightCycle } from '../game/DayNightCycle';
+import { WeatherSystem } from '../game/WeatherSystem';
 
 export class Game {
     scene: THREE.Scene | null;
@@ -9,6 +11,8 @@ export class Game {
     clock: THREE.Clock;
     blockManager: OptimizedBlockManager | null;
     inputManager: InputManager | null;
+    dayNightCycle: DayNightCycle | null;
+    weatherSystem: WeatherSystem | null;
     
     constructor() {
         this.scene = null;
@@ -16,15 +20,16 @@ export class Game {
         this.renderer = null;
         this.blockManager = null;
         this.inputManager = null;
+        this.dayNightCycle = null;
+        this.weatherSystem = null;
         this.clock = new THREE.Clock();
     }
     
     init() {
         console.log('🎮 Initialisation du jeu...');
         
-        // Créer la scène
+        // Créer la scène (ciel et brouillard gérés par le cycle jour/nuit)
         this.scene = new THREE.Scene();
-        this.scene.background = new THREE.Color(0x87CEEB); // Ciel bleu
         
         // Créer la caméra
         this.camera = new THREE.PerspectiveCamera(
@@ -96,6 +101,23 @@ export class Game {
                 // Le Player gère la position ET la rotation de la caméra
             }
             
+            // Météo : pluie autour de la caméra, ciel couvert, sol glissant, distance d'affichage
+            if (this.weatherSystem && this.camera) {
+                const weather = this.weatherSystem.update(this.camera.position, performance.now() / 1000);
+                this.dayNightCycle?.setWeather(weather);
+                this.blockManager?.applyWeather(weather);
+            }
+            
+            // Faire avancer le cycle jour/nuit autour de la caméra
+            if (this.dayNightCycle && this.camera) {
+                this.dayNightCycle.update(this.camera.position);
+            }
+            
+            // Animer l'eau et trier les faces transparentes avant le rendu
+            if (this.blockManager && this.camera) {
+                this.blockManager.updateTransparentPass(this.camera.position, performance.now() / 1000);
+            }
+            
             // Rendre la scène
             if (this.scene && this.camera && this.renderer) {
                 this.renderer.render(this.scene, this.camera);
@@ -108,34 +130,11 @@ export class Game {
     setupLighting() {
         if (!this.scene) return;
         
-        // Lumière ambiante plus forte pour voir les textures
-        const ambientLight = new THREE.AmbientLight(0x606060, 2.0);
-        this.scene.add(ambientLight);
-        
-        // Lumière directionnelle (soleil) plus forte
-        const directionalLight = new THREE.DirectionalLight(0xffffff, 2.0);
-        directionalLight.position.set(50, 50, 50);
-        directionalLight.castShadow = true;
-        directionalLight.shadow.mapSize.width = 2048;
-        directionalLight.shadow.mapSize.height = 2048;
-        directionalLight.shadow.camera.near = 0.5;
-        directionalLight.shadow.camera.far = 500;
-        directionalLight.shadow.camera.left = -100;
-        directionalLight.shadow.camera.right = 100;
-        directionalLight.shadow.camera.top = 100;
-        directionalLight.shadow.camera.bottom = -100;
-        this.scene.add(directionalLight);
-        
-        // Lumière supplémentaire pour éclairer le sol
-        const groundLight = new THREE.DirectionalLight(0xffffff, 0.8);
-        groundLight.position.set(0, 30, 0);
-        groundLight.target.position.set(0, 0, 0);
-        this.scene.add(groundLight);
-        this.scene.add(groundLight.target);
-        
-        // Lumière hémisphérique pour un éclairage plus naturel
-        const hemisphereLight = new THREE.HemisphereLight(0x87CEEB, 0x8B4513, 0.6);
-        this.scene.add(hemisphereLight);
+        // Soleil, lune, lumière ambiante, ciel et brouillard suivent l'horloge du serveur
+        this.dayNightCycle = new DayNightCycle(this.scene);
+        
+        // Pluie et effets de la météo envoyée par le serveur
+        this.weatherSystem = new WeatherSystem(this.scene);
     }
     
     async loadWorld() {
@@ -173,6 +172,10 @@ export class Game {
     }
     
     dispose() {
+        if (this.weatherSystem) {
+            this.weatherSystem.dispose();
+        }
+        
         if (this.blockManager) {
             this.blockManager.dispose();
         }
@@ -22,12 +22,37 @@ export class InputManager {
         // Callback pour le mode godmode
         this.godmodeCallback = null;
         
+        // Callbacks pour casser/poser des blocs et choisir le bloc à poser
+        this.blockActionCallback = null;
+        this.blockSelectCallback = null;
+        
+        // Callbacks pour monter dans un véhicule ou en descendre, changer de place
+        // et devenir propriétaire du véhicule
+        this.vehicleCallback = null;
+        this.seatCallback = null;
+        this.claimCallback = null;
+        
+        // Callback pour ouvrir ou fermer la carte plein écran
+        this.mapCallback = null;
+        
+        // Entrées du jeu suspendues pendant que la carte plein écran est ouverte
+        this.paused = false;
+        
         this.setupEventListeners();
     }
     
     setupEventListeners() {
         // Clavier
         document.addEventListener('keydown', (event) => {
+            // En pause, seules les touches de fermeture de la carte restent actives
+            if (this.paused) {
+                if ((event.code === 'KeyM' || event.code === 'Escape') && !event.repeat && this.mapCallback) {
+                    event.preventDefault();
+                    this.mapCallback();
+                }
+                return;
+            }
+            
             this.keys[event.code] = true;
             
             // Gestion de la touche de debug (P)
@@ -54,6 +79,33 @@ export class InputManager {
                 }
             }
             
+            // Monter dans le véhicule le plus proche ou en descendre (F)
+            if (event.code === 'KeyF' && !event.repeat) {
+                event.preventDefault();
+                if (this.vehicleCallback) {
+                    this.vehicleCallback();
+                }
+            }
+            
+            // Passer à la place libre suivante (C) ou s'approprier le véhicule (L)
+            if (event.code === 'KeyC' && !event.repeat && this.seatCallback) {
+                this.seatCallback();
+            }
+            if (event.code === 'KeyL' && !event.repeat && this.claimCallback) {
+                this.claimCallback();
+            }
+            
+            // Carte plein écran et destination du GPS (M)
+            if (event.code === 'KeyM' && !event.repeat && this.mapCallback) {
+                this.mapCallback();
+            }
+            
+            // Sélection du bloc à poser (touches 1 à 9 puis 0)
+            if (/^Digit[0-9]$/.test(event.code) && this.blockSelectCallback) {
+                const digit = Number(event.code.slice(5));
+                this.blockSelectCallback(digit === 0 ? 9 : digit - 1);
+            }
+            
             // Empêcher les comportements par défaut pour certaines touches
             if (['Space', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(event.code)) {
                 event.preventDefault();
@@ -73,9 +125,20 @@ export class InputManager {
             }
         });
         
+        // Clic gauche pour casser un bloc, clic droit pour en poser un
+        document.addEventListener('mousedown', (event) => {
+            if (!this.mouse.isLocked || !this.blockActionCallback) return;
+            
+            if (event.button === 0) {
+                this.blockActionCallback('break');
+            } else if (event.button === 2) {
+                this.blockActionCallback('place');
+            }
+        });
+        
         // Clic pour verrouiller le curseur
         document.addEventListener('click', (event) => {
-            if (!this.mouse.isLocked) {
+            if (!this.mouse.isLocked && !this.paused) {
                 document.body.requestPointerLock();
             }
         });
@@ -149,6 +212,47 @@ export class InputManager {
         this.godmodeCallback = callback;
     }
     
+    setBlockActionCallback(callback) {
+        this.blockActionCallback = callback;
+    }
+    
+    setBlockSelectCallback(callback) {
+        this.blockSelectCallback = callback;
+    }
+    
+    setVehicleCallback(callback) {
+        this.vehicleCallback = callback;
+    }
+    
+    setSeatCallback(callback) {
+        this.seatCallback = callback;
+    }
+    
+    setClaimCallback(callback) {
+        this.claimCallback = callback;
+    }
+    
+    setMapCallback(callback) {
+        this.mapCallback = callback;
+    }
+    
+    // Suspendre les entrées du jeu et libérer le curseur (carte plein écran)
+    setPaused(paused) {
+        this.paused = paused;
+        this.keys = {};
+        this.mouse.deltaX = 0;
+        this.mouse.deltaY = 0;
+        if (paused) {
+            this.exitPointerLock();
+        } else {
+            this.requestPointerLock();
+        }
+    }
+    
+    isPaused() {
+        return this.paused;
+    }
+    
     // Obtenir l'état des entrées de mouvement pour la physique
     getMovementInput() {
         return {
@@ -162,6 +266,17 @@ export class InputManager {
         };
     }
     
+    // Obtenir l'état des commandes du véhicule conduit
+    getVehicleInput() {
+        return {
+            accelerate: this.isKeyPressed('KeyW') || this.isKeyPressed('ArrowUp'),
+            brake: this.isKeyPressed('KeyS') || this.isKeyPressed('ArrowDown'),
+            left: this.isKeyPressed('KeyA') || this.isKeyPressed('ArrowLeft'),
+            right: this.isKeyPressed('KeyD') || this.isKeyPressed('ArrowRight'),
+            handbrake: this.isKeyPressed('Space')
+        };
+    }
+    
     // Obtenir l'état de la souris pour la caméra
     getMouseInput() {
         return {
@@ -1,10 +1,16 @@
+export type LoginMode = 'login' | 'register';
+
 export class LoginManager {
     private container: HTMLElement;
     private input: HTMLInputElement;
+    private passwordInput: HTMLInputElement;
     private button: HTMLButtonElement;
-    private onLogin: (name: string) => void;
+    private toggleLink: HTMLAnchorElement;
+    private mode: LoginMode = 'login';
+    private isSubmitting = false;
+    private onLogin: (name: string, password: string, mode: LoginMode) => Promise<void>;
 
-    constructor(onLogin: (name: string) => void) {
+    constructor(onLogin: (name: string, password: string, mode: LoginMode) => Promise<void>) {
         this.onLogin = onLogin;
         this.createLoginInterface();
     }
@@ -50,7 +56,7 @@ export class LoginManager {
 
         // Sous-titre
         const subtitle = document.createElement('p');
-        subtitle.textContent = 'Entrez votre nom de joueur';
+        subtitle.textContent = 'Connectez-vous à votre compte';
         subtitle.style.cssText = `
             color: #b8d4f0;
             margin: 0 0 20px 0;
@@ -73,9 +79,15 @@ export class LoginManager {
             box-sizing: border-box;
         `;
 
+        // Input pour le mot de passe
+        this.passwordInput = document.createElement('input');
+        this.passwordInput.type = 'password';
+        this.passwordInput.placeholder = 'Mot de passe...';
+        this.passwordInput.style.cssText = this.input.style.cssText;
+
         // Bouton de connexion
         this.button = document.createElement('button');
-        this.button.textContent = '🚀 Rejoindre le jeu';
+        this.button.textContent = '🚀 Se connecter';
         this.button.style.cssText = `
             width: 100%;
             padding: 12px;
@@ -101,11 +113,24 @@ export class LoginManager {
             this.button.style.boxShadow = '0 4px 15px rgba(238, 90, 36, 0.3)';
         });
 
+        // Lien pour basculer entre connexion et inscription
+        this.toggleLink = document.createElement('a');
+        this.toggleLink.href = '#';
+        this.toggleLink.textContent = 'Pas encore de compte ? Créer un compte';
+        this.toggleLink.style.cssText = `
+            display: block;
+            margin-top: 15px;
+            color: #b8d4f0;
+            font-size: 13px;
+        `;
+
         // Assembler les éléments
         loginBox.appendChild(title);
         loginBox.appendChild(subtitle);
         loginBox.appendChild(this.input);
+        loginBox.appendChild(this.passwordInput);
         loginBox.appendChild(this.button);
+        loginBox.appendChild(this.toggleLink);
         this.container.appendChild(loginBox);
 
         // Ajouter au DOM
@@ -134,35 +159,6 @@ export class LoginManager {
                 font-style: italic;
             `;
             this.input.parentNode?.insertBefore(savedIndicator, this.input.nextSibling);
-            
-            // Vérifier s'il y a une session valide
-            const sessionData = localStorage.getItem('gta-session');
-            if (sessionData) {
-                try {
-                    const session = JSON.parse(sessionData);
-                    const maxAge = 24 * 60 * 60 * 1000; // 24 heures
-                    const sessionAge = Date.now() - session.timestamp;
-                    
-                    if (sessionAge < maxAge) {
-                        const sessionIndicator = document.createElement('div');
-                        sessionIndicator.textContent = '🔄 Session active trouvée - Reconnexion automatique...';
-                        sessionIndicator.style.cssText = `
-                            color: #2196F3;
-                            font-size: 12px;
-                            margin-top: 5px;
-                            font-weight: bold;
-                        `;
-                        this.input.parentNode?.insertBefore(sessionIndicator, this.input.nextSibling);
-                        
-                        // Auto-connexion après 2 secondes
-                        setTimeout(() => {
-                            this.handleLogin();
-                        }, 2000);
-                    }
-                } catch (error) {
-                    console.error('Erreur lors de la vérification de la session:', error);
-                }
-            }
         }
     }
 
@@ -172,18 +168,36 @@ export class LoginManager {
             this.handleLogin();
         });
 
-        // Entrée dans l'input
-        this.input.addEventListener('keypress', (e) => {
-            if (e.key === 'Enter') {
-                this.handleLogin();
-            }
+        // Entrée dans les inputs
+        [this.input, this.passwordInput].forEach((input) => {
+            input.addEventListener('keypress', (e) => {
+                if (e.key === 'Enter') {
+                    this.handleLogin();
+                }
+            });
+        });
+
+        this.toggleLink.addEventListener('click', (e) => {
+            e.preventDefault();
+            this.setMode(this.mode === 'login' ? 'register' : 'login');
         });
 
-        // Focus sur l'input au chargement
-        this.input.focus();
+        // Focus sur le premier champ vide au chargement
+        (this.input.value ? this.passwordInput : this.input).focus();
     }
 
-    private handleLogin() {
+    private setMode(mode: LoginMode) {
+        this.mode = mode;
+        this.button.textContent = mode === 'login' ? '🚀 Se connecter' : '✨ Créer mon compte';
+        this.toggleLink.textContent = mode === 'login'
+            ? 'Pas encore de compte ? Créer un compte'
+            : 'Déjà un compte ? Se connecter';
+        this.clearError();
+    }
+
+    private async handleLogin() {
+        if (this.isSubmitting) return;
+
         const name = this.input.value.trim();
         
         if (!name) {
@@ -201,22 +215,38 @@ export class LoginManager {
             return;
         }
 
-        // Sauvegarder le nom
-        localStorage.setItem('gta-player-name', name);
-        
-        // Masquer l'interface
-        this.hide();
-        
-        // Appeler la fonction de callback
-        this.onLogin(name);
+        const password = this.passwordInput.value;
+        if (password.length < 6) {
+            this.showError('Le mot de passe doit contenir au moins 6 caractères');
+            return;
+        }
+
+        this.isSubmitting = true;
+        this.button.disabled = true;
+        this.clearError();
+
+        try {
+            // Le callback authentifie le joueur ; l'interface reste affichée en cas d'erreur
+            await this.onLogin(name, password, this.mode);
+            this.hide();
+        } catch (error) {
+            this.showError(error instanceof Error ? error.message : 'Erreur de connexion');
+        } finally {
+            this.isSubmitting = false;
+            this.button.disabled = false;
+        }
     }
 
-    private showError(message: string) {
-        // Supprimer l'ancienne erreur si elle existe
+    private clearError() {
         const existingError = this.container.querySelector('.error-message');
         if (existingError) {
             existingError.remove();
         }
+    }
+
+    private showError(message: string) {
+        // Supprimer l'ancienne erreur si elle existe
+        this.clearError();
 
         // Créer le message d'erreur
         const errorDiv = document.createElement('div');
@@ -229,8 +259,8 @@ export class LoginManager {
             font-weight: bold;
         `;
 
-        // Ajouter après l'input
-        this.input.parentNode?.insertBefore(errorDiv, this.input.nextSibling);
+        // Ajouter après le mot de passe
+        this.passwordInput.parentNode?.insertBefore(errorDiv, this.passwordInput.nextSibling);
         
         // Effet de shake sur l'input
         this.input.style.borderColor = '#ff6b6b';
@@ -14,11 +14,40 @@ export class NetworkService {
     // Callbacks pour les événements de jeu
     private playerJoinedCallback?: (data: any) => void;
     private playerDisconnectedCallback?: (data: any) => void;
-    private playerMovedCallback?: (data: any) => void;
+    private worldSnapshotCallback?: (data: any) => void;
     private existingPlayersCallback?: (data: any) => void;
     private chatMessageCallback?: (data: any) => void;
     private serverNotificationCallback?: (data: any) => void;
     private mapDataCallback?: (data: any) => void;
+    private positionCorrectionCallback?: (data: any) => void;
+    private roomsListCallback?: (data: any) => void;
+    private roomJoinedCallback?: (data: any) => void;
+    private joinErrorCallback?: (data: any) => void;
+    private authErrorCallback?: (message: string) => void;
+    private blockUpdateCallback?: (data: any) => void;
+    private blockEditRejectedCallback?: (data: any) => void;
+    private worldClockCallback?: (data: any) => void;
+    private weatherCallback?: (data: any) => void;
+    private vehicleMovedCallback?: (data: any) => void;
+    private vehicleExitedCallback?: (data: any) => void;
+    private vehicleCorrectionCallback?: (data: any) => void;
+    private vehicleRejectedCallback?: (data: any) => void;
+    private vehiclesCallback?: (data: any) => void;
+    private vehicleSpawnedCallback?: (data: any) => void;
+    private vehicleDespawnedCallback?: (data: any) => void;
+    private vehicleEnteredCallback?: (data: any) => void;
+    private vehicleSeatChangedCallback?: (data: any) => void;
+    private vehicleDamagedCallback?: (data: any) => void;
+    private vehicleClaimedCallback?: (data: any) => void;
+    private trafficCallback?: (data: any) => void;
+    
+    // Room actuelle (fournie par le serveur à chaque changement de room)
+    private currentRoom: any = null;
+    
+    // Jeton de reprise : permet de retrouver sa partie après une coupure
+    private resumeToken: string | null = sessionStorage.getItem('gta-resume-token');
+    private hasJoined = false;
+    private pendingRoomId = 'default';
 
     constructor() {
         this.networkConfig = NetworkConfig.getInstance();
@@ -27,9 +56,11 @@ export class NetworkService {
         const backendUrl = this.networkConfig.getSocketUrl();
         console.log(`🔗 Connexion au serveur: ${backendUrl}`);
         
+        // La connexion est ouverte après authentification (voir connect())
         this.socket = io(backendUrl, {
             transports: ['websocket', 'polling'],
-            autoConnect: true // Se connecte automatiquement
+            autoConnect: false,
+            auth: (cb) => cb({ token: this.sessionManager.getAccessToken() })
         });
 
         this.setupEventListeners();
@@ -41,6 +72,16 @@ export class NetworkService {
             this.isConnected = true;
             this.sessionManager.setConnected(true);
             this.clearReconnectTimeout();
+            
+            // Après une coupure, reprendre la partie là où le serveur l'a gardée
+            if (this.hasJoined) {
+                this.joinGame(this.currentRoom?.id || this.pendingRoomId);
+            }
+        });
+
+        this.socket.on('resumeToken', (data) => {
+            this.resumeToken = data.token;
+            sessionStorage.setItem('gta-resume-token', data.token);
         });
 
         this.socket.on('disconnect', () => {
@@ -52,10 +93,42 @@ export class NetworkService {
 
         this.socket.on('connect_error', (error) => {
             console.error('Erreur de connexion:', error);
+
+            // Token refusé par le handshake : rafraîchir puis réessayer
+            if (error.message === 'TOKEN_EXPIRED') {
+                this.sessionManager.refreshSession().then((token) => {
+                    if (token) {
+                        this.socket.connect();
+                    } else {
+                        this.authErrorCallback?.(error.message);
+                    }
+                });
+                return;
+            }
+            if (error.message === 'TOKEN_INVALID' || error.message === 'AUTH_REQUIRED') {
+                this.sessionManager.clearSession();
+                this.authErrorCallback?.(error.message);
+                return;
+            }
+
             this.sessionManager.setConnected(false);
             this.scheduleReconnection();
         });
     }
+
+    // Ouvrir la connexion Socket.IO avec un token d'accès valide
+    async connect(): Promise<boolean> {
+        const token = await this.sessionManager.getValidAccessToken();
+        if (!token) {
+            console.warn('⚠️ Aucune session valide, connexion impossible');
+            return false;
+        }
+
+        if (!this.socket.connected) {
+            this.socket.connect();
+        }
+        return true;
+    }
     
     
     private scheduleReconnection() {
@@ -76,19 +149,22 @@ export class NetworkService {
         }
     }
 
-    joinGame(playerName: string, reconnectData?: any) {
-        this.playerName = playerName;
-        
-        // Si c'est une reconnexion, utiliser les données sauvegardées
-        const joinData = reconnectData ? {
-            roomId: 'default',
-            playerName: playerName,
-            reconnect: true,
-            lastPosition: reconnectData.position,
-            lastRotation: reconnectData.rotation
+    // Le nom du joueur est déterminé par le serveur à partir du token
+    joinGame(roomId: string = 'default') {
+        this.playerName = this.sessionManager.getPlayerName() || '';
+        this.hasJoined = true;
+        
+        // Hors connexion, la demande est envoyée par l'écouteur 'connect'
+        if (!this.socket.connected) {
+            this.pendingRoomId = roomId;
+            return;
+        }
+        
+        const joinData = this.resumeToken ? {
+            roomId: roomId,
+            resumeToken: this.resumeToken
         } : {
-            roomId: 'default',
-            playerName: playerName
+            roomId: roomId
         };
         
         console.log('🎮 Envoi de joinGame:', joinData);
@@ -111,17 +187,84 @@ export class NetworkService {
                 isMoving: isMoving ? 1 : 0,
                 speed: speed
             });
-            
-            // Sauvegarder les données du joueur dans la session
-            this.sessionManager.updatePlayerData({
-                position: position,
-                rotation: rotation,
-                isMoving: isMoving,
+        }
+    }
+
+    // Envoyer les frames d'entrée numérotées et l'état prédit correspondant
+    sendPlayerInputs(inputs, position, rotation, isMoving, speed) {
+        if (this.isConnected && inputs.length > 0) {
+            this.socket.emit('playerMove', {
+                seq: inputs[inputs.length - 1].seq,
+                inputs: inputs.map((input) => ({
+                    seq: input.seq,
+                    dt: input.dt,
+                    forward: input.forward,
+                    backward: input.backward,
+                    left: input.left,
+                    right: input.right,
+                    jump: input.jump,
+                    sprint: input.sprint,
+                    yaw: input.yaw
+                })),
+                position: {
+                    x: position.x,
+                    y: position.y,
+                    z: position.z
+                },
+                rotation: {
+                    x: rotation.x,
+                    y: rotation.y,
+                    z: rotation.z
+                },
+                isMoving: isMoving ? 1 : 0,
                 speed: speed
             });
         }
     }
 
+    // État du véhicule conduit, prédit localement
+    sendVehicleMove(vehicleId: string, position, heading: number, velocity, steering: number) {
+        if (this.isConnected) {
+            this.socket.emit('vehicleMove', {
+                vehicleId,
+                position: { x: position.x, y: position.y, z: position.z },
+                heading,
+                velocity: { x: velocity.x, y: velocity.y, z: velocity.z },
+                steering
+            });
+        }
+    }
+    
+    // Demander une place (la première libre si aucune n'est précisée)
+    sendEnterVehicle(vehicleId: string, seat?: number) {
+        if (this.isConnected) {
+            this.socket.emit('enterVehicle', { vehicleId, seat });
+        }
+    }
+    
+    sendChangeSeat(vehicleId: string, seat: number) {
+        if (this.isConnected) {
+            this.socket.emit('changeSeat', { vehicleId, seat });
+        }
+    }
+    
+    // Devenir propriétaire du véhicule conduit
+    sendClaimVehicle(vehicleId: string) {
+        if (this.isConnected) {
+            this.socket.emit('claimVehicle', { vehicleId });
+        }
+    }
+    
+    // Descendre du véhicule à la position choisie (vérifiée par le serveur)
+    sendExitVehicle(vehicleId: string, position) {
+        if (this.isConnected) {
+            this.socket.emit('exitVehicle', {
+                vehicleId,
+                position: { x: position.x, y: position.y, z: position.z }
+            });
+        }
+    }
+    
     sendChatMessage(message: string) {
         if (this.isConnected) {
             this.socket.emit('chatMessage', {
@@ -131,6 +274,235 @@ export class NetworkService {
         }
     }
     
+    // Gestion des rooms
+    listRooms() {
+        this.socket.emit('listRooms');
+    }
+    
+    createRoom(name: string, maxPlayers?: number, seed?: number) {
+        this.socket.emit('createRoom', { name, maxPlayers, seed });
+    }
+    
+    joinRoom(roomId: string) {
+        this.socket.emit('joinRoom', { roomId });
+    }
+    
+    leaveRoom() {
+        this.socket.emit('leaveRoom');
+    }
+    
+    getCurrentRoom() {
+        return this.currentRoom;
+    }
+    
+    // Modifications du monde (validées et diffusées par le serveur)
+    breakBlock(x: number, y: number, z: number) {
+        if (this.isConnected) {
+            this.socket.emit('breakBlock', { x, y, z });
+        }
+    }
+    
+    placeBlock(x: number, y: number, z: number, type: string) {
+        if (this.isConnected) {
+            this.socket.emit('placeBlock', { x, y, z, type });
+        }
+    }
+    
+    onBlockUpdate(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.blockUpdateCallback = callback;
+    }
+    
+    onBlockEditRejected(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.blockEditRejectedCallback = callback;
+    }
+    
+    onWorldClock(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.worldClockCallback = callback;
+    }
+    
+    onWeather(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.weatherCallback = callback;
+    }
+    
+    onVehicleMoved(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehicleMovedCallback = callback;
+    }
+    
+    onVehicleExited(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehicleExitedCallback = callback;
+    }
+    
+    onVehicleCorrection(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehicleCorrectionCallback = callback;
+    }
+    
+    onVehicleRejected(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehicleRejectedCallback = callback;
+    }
+    
+    onVehicles(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehiclesCallback = callback;
+    }
+    
+    onVehicleSpawned(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehicleSpawnedCallback = callback;
+    }
+    
+    onVehicleDespawned(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehicleDespawnedCallback = callback;
+    }
+    
+    onVehicleEntered(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehicleEnteredCallback = callback;
+    }
+    
+    onVehicleSeatChanged(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehicleSeatChangedCallback = callback;
+    }
+    
+    onVehicleDamaged(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehicleDamagedCallback = callback;
+    }
+    
+    onTraffic(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.trafficCallback = callback;
+    }
+    
+    onVehicleClaimed(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.vehicleClaimedCallback = callback;
+    }
+    
+    onRoomsList(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.roomsListCallback = callback;
+    }
+    
+    onRoomJoined(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.roomJoinedCallback = callback;
+    }
+    
+    onJoinError(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.joinErrorCallback = callback;
+    }
+    
+    // Session refusée par le serveur (token invalide ou impossible à rafraîchir)
+    onAuthError(callback: (message: string) => void) {
+        this.authErrorCallback = callback;
+    }
+    
     onChatMessage(callback) {
         if (!this.eventListenersSetup) {
             console.log('🎮 Configuration des écouteurs d\'événements');
@@ -161,6 +533,16 @@ export class NetworkService {
         this.mapDataCallback = callback;
     }
 
+    onPositionCorrection(callback) {
+        if (!this.eventListenersSetup) {
+            console.log('🎮 Configuration des écouteurs d\'événements');
+            this.setupGameEventListeners();
+            this.eventListenersSetup = true;
+        }
+        
+        this.positionCorrectionCallback = callback;
+    }
+
     onPlayerJoined(callback) {
         console.log('🎮 Configuration du callback playerJoined');
         if (!this.eventListenersSetup) {
@@ -184,14 +566,14 @@ export class NetworkService {
         this.playerDisconnectedCallback = callback;
     }
 
-    onPlayerMoved(callback) {
+    onWorldSnapshot(callback) {
         if (!this.eventListenersSetup) {
             console.log('🎮 Configuration des écouteurs d\'événements');
             this.setupGameEventListeners();
             this.eventListenersSetup = true;
         }
         
-        this.playerMovedCallback = callback;
+        this.worldSnapshotCallback = callback;
     }
 
     onExistingPlayers(callback) {
@@ -217,8 +599,9 @@ export class NetworkService {
             this.playerDisconnectedCallback?.(data);
         });
 
-        this.socket.on('playerMoved', (data) => {
-            this.playerMovedCallback?.(data);
+        // Snapshot périodique de tous les joueurs de la room (tick serveur)
+        this.socket.on('worldSnapshot', (data) => {
+            this.worldSnapshotCallback?.(data);
         });
 
         this.socket.on('existingPlayers', (data) => {
@@ -245,8 +628,106 @@ export class NetworkService {
             this.mapDataCallback?.(data);
         });
         
+        this.socket.on('positionCorrection', (data) => {
+            console.warn('⛔ Position corrigée par le serveur:', data);
+            this.positionCorrectionCallback?.(data);
+        });
+        
+        this.socket.on('roomsList', (data) => {
+            this.roomsListCallback?.(data);
+        });
+        
+        this.socket.on('roomJoined', (data) => {
+            console.log(`🏠 Room rejointe: ${data?.name}`);
+            this.currentRoom = data;
+            this.roomJoinedCallback?.(data);
+        });
+        
+        this.socket.on('roomLeft', () => {
+            this.currentRoom = null;
+        });
+        
+        this.socket.on('joinError', (data) => {
+            console.error('❌ Impossible de rejoindre la room:', data?.message);
+            this.joinErrorCallback?.(data);
+        });
+        
+        this.socket.on('blockUpdate', (data) => {
+            this.blockUpdateCallback?.(data);
+        });
+        
+        this.socket.on('blockEditRejected', (data) => {
+            console.warn(`⛔ Modification du bloc refusée (${data?.reason})`);
+            this.blockEditRejectedCallback?.(data);
+        });
+        
+        // Horloge du monde : à l'arrivée dans une room puis à intervalle régulier
+        this.socket.on('worldClock', (data) => {
+            this.worldClockCallback?.(data);
+        });
+        
+        // Météo de la room : à l'arrivée puis à chaque changement
+        this.socket.on('weather', (data) => {
+            this.weatherCallback?.(data);
+        });
+        
+        // Véhicules de la room : liste complète à l'arrivée, puis apparitions et retraits
+        this.socket.on('vehicles', (data) => {
+            this.vehiclesCallback?.(data);
+        });
+        
+        this.socket.on('vehicleSpawned', (data) => {
+            this.vehicleSpawnedCallback?.(data);
+        });
+        
+        this.socket.on('vehicleDespawned', (data) => {
+            this.vehicleDespawnedCallback?.(data);
+        });
+        
+        // Places occupées, dégâts et propriétaires
+        this.socket.on('vehicleEntered', (data) => {
+            this.vehicleEnteredCallback?.(data);
+        });
+        
+        this.socket.on('vehicleSeatChanged', (data) => {
+            this.vehicleSeatChangedCallback?.(data);
+        });
+        
+        this.socket.on('vehicleDamaged', (data) => {
+            this.vehicleDamagedCallback?.(data);
+        });
+        
+        this.socket.on('vehicleClaimed', (data) => {
+            this.vehicleClaimedCallback?.(data);
+        });
+        
+        // Circulation conduite par le serveur, diffusée à fréquence réduite
+        this.socket.on('traffic', (data) => {
+            this.trafficCallback?.(data);
+        });
+        
+        // Véhicules conduits par les autres joueurs
+        this.socket.on('vehicleMoved', (data) => {
+            this.vehicleMovedCallback?.(data);
+        });
+        
+        this.socket.on('vehicleExited', (data) => {
+            this.vehicleExitedCallback?.(data);
+        });
+        
+        // Mouvement de notre véhicule ou demande de place refusés
+        this.socket.on('vehicleCorrection', (data) => {
+            console.warn(`⛔ Mouvement du véhicule refusé (${data?.reason})`);
+            this.vehicleCorrectionCallback?.(data);
+        });
+        
+        this.socket.on('vehicleRejected', (data) => {
+            this.vehicleRejectedCallback?.(data);
+        });
+        
         // Log tous les événements reçus pour le debug
         this.socket.onAny((eventName, ...args) => {
+            if (['worldSnapshot', 'vehicleMoved', 'traffic'].includes(eventName)) return; // Trop fréquents pour être loggés
             console.log(`📨 Événement reçu: ${eventName}`, args);
         });
         
@@ -255,18 +736,31 @@ export class NetworkService {
 
     disconnect() {
         this.clearReconnectTimeout();
+        this.clearResumeToken();
         this.sessionManager.setConnected(false);
         this.socket.disconnect();
     }
     
     clearSession() {
+        this.clearResumeToken();
         this.sessionManager.clearSession();
     }
     
+    private clearResumeToken() {
+        this.resumeToken = null;
+        this.hasJoined = false;
+        sessionStorage.removeItem('gta-resume-token');
+    }
+    
     isSessionValid() {
         return this.sessionManager.hasValidSession();
     }
     
+    // Connecté au serveur, qui fait alors autorité sur les déplacements
+    isOnline() {
+        return this.isConnected;
+    }
+    
     getSocket() {
         return this.socket;
     }
@@ -1,105 +1,183 @@
+import { NetworkConfig } from './NetworkConfig';
+
+// Tokens d'authentification renvoyés par l'API /api/auth
+export interface AuthSession {
+    playerId: string;
+    playerName: string;
+    accessToken: string;
+    refreshToken: string;
+    accessExpiresAt: number; // ms
+    refreshExpiresAt: number; // ms
+}
+
 export class SessionManager {
     private static instance: SessionManager;
-    private sessionData: any = null;
+    private sessionData: AuthSession | null = null;
     private isConnected = false;
     private reconnectAttempts = 0;
     private maxReconnectAttempts = 3;
-    
+    private refreshTimeout: number | null = null;
+    private refreshPromise: Promise<string | null> | null = null;
+    private refreshMargin = 60 * 1000; // Rafraîchir 1 minute avant l'expiration
+
     private constructor() {
         this.loadSession();
     }
-    
+
     public static getInstance(): SessionManager {
         if (!SessionManager.instance) {
             SessionManager.instance = new SessionManager();
         }
         return SessionManager.instance;
     }
-    
+
     private loadSession() {
         try {
             const savedSession = localStorage.getItem('gta-session');
             if (savedSession) {
-                this.sessionData = JSON.parse(savedSession);
-                console.log('📦 Session chargée:', this.sessionData);
+                const session = JSON.parse(savedSession);
+                // Ancien format (données du joueur sans token) : l'ignorer
+                if (!session?.refreshToken) {
+                    this.clearSession();
+                    return;
+                }
+                this.sessionData = session;
+                console.log(`📦 Session chargée pour ${session.playerName}`);
+                this.scheduleRefresh();
             }
         } catch (error) {
             console.error('Erreur lors du chargement de la session:', error);
             this.clearSession();
         }
     }
-    
-    public saveSession(playerData: any, connectionData?: any) {
+
+    // Connexion et inscription via l'API REST
+    public async login(playerName: string, password: string): Promise<AuthSession> {
+        return this.authenticate('login', { name: playerName, password });
+    }
+
+    public async register(playerName: string, password: string): Promise<AuthSession> {
+        return this.authenticate('register', { name: playerName, password });
+    }
+
+    private async authenticate(endpoint: string, body: any): Promise<AuthSession> {
+        const response = await fetch(`${NetworkConfig.getInstance().getBackendUrl()}/api/auth/${endpoint}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok) {
+            const message = Array.isArray(data?.message) ? data.message[0] : data?.message;
+            throw new Error(message || `Erreur d'authentification (${response.status})`);
+        }
+
+        this.saveSession(data);
+        return this.sessionData!;
+    }
+
+    private saveSession(authData: any) {
+        const now = Date.now();
+        this.sessionData = {
+            playerId: authData.player.id,
+            playerName: authData.player.name,
+            accessToken: authData.accessToken,
+            refreshToken: authData.refreshToken,
+            accessExpiresAt: now + authData.expiresIn * 1000,
+            refreshExpiresAt: now + authData.refreshExpiresIn * 1000
+        };
+
         try {
-            this.sessionData = {
-                playerName: playerData.name,
-                playerId: playerData.id,
-                position: playerData.position,
-                rotation: playerData.rotation,
-                timestamp: Date.now(),
-                connectionData: connectionData || null
-            };
-            
             localStorage.setItem('gta-session', JSON.stringify(this.sessionData));
-            this.isConnected = true;
-            console.log('💾 Session sauvegardée:', this.sessionData);
+            localStorage.setItem('gta-player-name', this.sessionData.playerName);
         } catch (error) {
             console.error('Erreur lors de la sauvegarde de la session:', error);
         }
+
+        this.scheduleRefresh();
+        console.log(`💾 Session sauvegardée pour ${this.sessionData.playerName}`);
     }
-    
-    public updatePlayerData(playerData: any) {
-        if (this.sessionData) {
-            this.sessionData.position = playerData.position;
-            this.sessionData.rotation = playerData.rotation;
-            this.sessionData.timestamp = Date.now();
-            
-            try {
-                localStorage.setItem('gta-session', JSON.stringify(this.sessionData));
-            } catch (error) {
-                console.error('Erreur lors de la mise à jour de la session:', error);
-            }
+
+    // Obtenir un token d'accès valide, en le rafraîchissant si nécessaire
+    public async getValidAccessToken(): Promise<string | null> {
+        if (!this.sessionData) return null;
+
+        if (Date.now() < this.sessionData.accessExpiresAt - this.refreshMargin) {
+            return this.sessionData.accessToken;
+        }
+        return this.refreshSession();
+    }
+
+    public async refreshSession(): Promise<string | null> {
+        if (!this.hasValidSession()) {
+            this.clearSession();
+            return null;
+        }
+
+        // Éviter plusieurs rafraîchissements simultanés
+        if (!this.refreshPromise) {
+            this.refreshPromise = this.authenticate('refresh', { refreshToken: this.sessionData!.refreshToken })
+                .then((session) => session.accessToken)
+                .catch((error) => {
+                    console.error('❌ Impossible de rafraîchir la session:', error);
+                    this.clearSession();
+                    return null;
+                })
+                .finally(() => {
+                    this.refreshPromise = null;
+                });
+        }
+        return this.refreshPromise;
+    }
+
+    private scheduleRefresh() {
+        this.clearRefreshTimeout();
+        if (!this.sessionData) return;
+
+        const delay = Math.max(0, this.sessionData.accessExpiresAt - this.refreshMargin - Date.now());
+        this.refreshTimeout = setTimeout(() => {
+            this.refreshSession();
+        }, delay);
+    }
+
+    private clearRefreshTimeout() {
+        if (this.refreshTimeout) {
+            clearTimeout(this.refreshTimeout);
+            this.refreshTimeout = null;
         }
     }
-    
+
+    // Token d'accès actuel (sans rafraîchissement), pour le handshake Socket.IO
+    public getAccessToken(): string | null {
+        return this.sessionData?.accessToken || null;
+    }
+
     public hasValidSession(): boolean {
         if (!this.sessionData) return false;
-        
-        // Vérifier si la session n'est pas trop ancienne (24 heures)
-        const maxAge = 24 * 60 * 60 * 1000; // 24 heures en millisecondes
-        const sessionAge = Date.now() - this.sessionData.timestamp;
-        
-        return sessionAge < maxAge;
-    }
-    
+
+        // La session reste utilisable tant que le token de rafraîchissement n'a pas expiré
+        return Date.now() < this.sessionData.refreshExpiresAt;
+    }
+
     public getSessionData() {
         return this.sessionData;
     }
-    
+
     public getPlayerName(): string | null {
         return this.sessionData?.playerName || null;
     }
-    
+
     public getPlayerId(): string | null {
         return this.sessionData?.playerId || null;
     }
-    
-  public getLastPosition() {
-    // SOLUTION RADICALE : Supprimer complètement le localStorage pour forcer un nouveau spawn
-    localStorage.removeItem('gta-game-session');
-    console.log('🗑️ Session localStorage supprimée pour forcer un nouveau spawn');
-    return null;
-  }
-    
-    public getLastRotation() {
-        return this.sessionData?.rotation || null;
-    }
-    
+
     public clearSession() {
         this.sessionData = null;
         this.isConnected = false;
         this.reconnectAttempts = 0;
-        
+        this.clearRefreshTimeout();
+
         try {
             localStorage.removeItem('gta-session');
             console.log('🗑️ Session effacée');
@@ -107,7 +185,7 @@ export class SessionManager {
             console.error('Erreur lors de l\'effacement de la session:', error);
         }
     }
-    
+
     public setConnected(connected: boolean) {
         this.isConnected = connected;
         if (!connected) {
@@ -116,23 +194,12 @@ export class SessionManager {
             this.reconnectAttempts = 0;
         }
     }
-    
+
     public canReconnect(): boolean {
         return this.reconnectAttempts < this.maxReconnectAttempts;
     }
-    
+
     public shouldAutoReconnect(): boolean {
         return this.hasValidSession() && !this.isConnected && this.canReconnect();
     }
-    
-    public getReconnectData() {
-        if (!this.shouldAutoReconnect()) return null;
-        
-        return {
-            playerName: this.getPlayerName(),
-            playerId: this.getPlayerId(),
-            position: this.getLastPosition(),
-            rotation: this.getLastRotation()
-        };
-    }
 }
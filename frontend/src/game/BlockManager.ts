@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { BlockTextureAtlas, TRANSPARENT_BLOCK_TYPES } from './BlockTextureAtlas';
 
 export interface BlockData {
   x: number;
@@ -36,6 +37,7 @@ export class BlockManager {
   private scene: THREE.Scene;
   private blockMeshes: Map<string, THREE.Mesh> = new Map();
   private blockMaterials: Map<string, THREE.MeshLambertMaterial> = new Map();
+  private textureAtlas: BlockTextureAtlas = BlockTextureAtlas.getInstance();
   private worldData: WorldData | null = null;
   private spawnPosition: SpawnPosition | null = null;
   
@@ -52,44 +54,15 @@ export class BlockManager {
   }
 
   private initializeMaterials(): void {
-    // Créer les matériaux pour chaque type de bloc
-    const materialConfigs = {
-      // Blocs de base
-      stone: { color: 0x808080, roughness: 0.8 },
-      dirt: { color: 0x8B4513, roughness: 0.9 },
-      grass: { color: 0x228B22, roughness: 0.7 },
-      sand: { color: 0xF4A460, roughness: 0.6 },
-      water: { color: 0x006994, roughness: 0.1, transparent: true, opacity: 0.8 },
-      bedrock: { color: 0x1C1C1C, roughness: 1.0 },
-      
-      // Blocs de végétation
-      wood: { color: 0x8B4513, roughness: 0.8 },
-      leaves: { color: 0x32CD32, roughness: 0.9 },
-      
-      // Blocs de climat
-      snow: { color: 0xFFFFFF, roughness: 0.9 },
-      ice: { color: 0x87CEEB, roughness: 0.1, transparent: true, opacity: 0.9 },
-      clay: { color: 0xCD853F, roughness: 0.8 },
-      gravel: { color: 0x696969, roughness: 0.9 },
-      
-      // Minerais
-      coal: { color: 0x2F2F2F, roughness: 0.9 },
-      iron: { color: 0xCD853F, roughness: 0.7 },
-      gold: { color: 0xFFD700, roughness: 0.3 },
-      diamond: { color: 0x00FFFF, roughness: 0.1 },
-      
-      // Blocs de construction
-      road: { color: 0x404040, roughness: 0.8 },
-      building_wall: { color: 0x8B7355, roughness: 0.8 },
-      building_floor: { color: 0xD2B48C, roughness: 0.7 },
-      building_roof: { color: 0x8B0000, roughness: 0.9 },
-      glass: { color: 0x87CEEB, roughness: 0.1, transparent: true, opacity: 0.3 },
-      door: { color: 0x8B4513, roughness: 0.8 },
-      window: { color: 0x87CEEB, roughness: 0.1, transparent: true, opacity: 0.5 }
-    };
+    // Les blocs opaques partagent un matériau texturé par l'atlas ; l'opacité
+    // des blocs transparents vient du canal alpha de leur tuile
+    const atlasTexture = this.textureAtlas.getTexture();
+    const opaqueMaterial = new THREE.MeshLambertMaterial({ map: atlasTexture });
+    this.blockMaterials.set('opaque', opaqueMaterial);
 
-    for (const [type, config] of Object.entries(materialConfigs)) {
-      this.blockMaterials.set(type, new THREE.MeshLambertMaterial(config));
+    const transparentMaterial = new THREE.MeshLambertMaterial({ map: atlasTexture, transparent: true, alphaTest: 0.01 });
+    for (const type of TRANSPARENT_BLOCK_TYPES) {
+      this.blockMaterials.set(type, transparentMaterial);
     }
   }
 
@@ -99,7 +72,8 @@ export class BlockManager {
 
   private createBlockMesh(blockData: BlockData): THREE.Mesh {
     const geometry = new THREE.BoxGeometry(1, 1, 1);
-    const material = this.blockMaterials.get(blockData.type) || this.blockMaterials.get('stone')!;
+    this.textureAtlas.mapBoxGeometryUvs(geometry, blockData.type);
+    const material = this.blockMaterials.get(blockData.type) || this.blockMaterials.get('opaque')!;
     
     const mesh = new THREE.Mesh(geometry, material);
     mesh.position.set(blockData.x, blockData.y, blockData.z);
@@ -0,0 +1,293 @@
+import * as THREE from 'three';
+
+type TilePattern = 'noise' | 'grass_side' | 'bricks' | 'planks' | 'bark' | 'rings' | 'ore' | 'frame' | 'leaves';
+
+interface TileDefinition {
+  color: number;
+  pattern?: TilePattern;
+  accent?: number;
+  alpha?: number; // Opacité de la tuile (le cadre des vitres reste opaque)
+}
+
+export interface BlockFaceTextures {
+  top: string;
+  side: string;
+  bottom: string;
+}
+
+// Tuiles de l'atlas, peintes procéduralement au démarrage
+const TILES: Record<string, TileDefinition> = {
+  missing: { color: 0xFF00FF, pattern: 'frame', accent: 0x000000 },
+  stone: { color: 0x808080 },
+  dirt: { color: 0x8B4513 },
+  grass_top: { color: 0x228B22 },
+  grass_side: { color: 0x8B4513, pattern: 'grass_side', accent: 0x228B22 },
+  sand: { color: 0xF4A460 },
+  water: { color: 0x006994, alpha: 0.7 },
+  bedrock: { color: 0x1C1C1C },
+  wood_side: { color: 0x8B4513, pattern: 'bark', accent: 0x5C2E0B },
+  wood_top: { color: 0xA0522D, pattern: 'rings', accent: 0x6B3410 },
+  leaves: { color: 0x32CD32, pattern: 'leaves', accent: 0x228B22 },
+  snow: { color: 0xFFFFFF },
+  ice: { color: 0x87CEEB, alpha: 0.85 },
+  clay: { color: 0xCD853F },
+  gravel: { color: 0x696969 },
+  coal: { color: 0x808080, pattern: 'ore', accent: 0x2F2F2F },
+  iron: { color: 0x808080, pattern: 'ore', accent: 0xCD853F },
+  gold: { color: 0x808080, pattern: 'ore', accent: 0xFFD700 },
+  diamond: { color: 0x808080, pattern: 'ore', accent: 0x00FFFF },
+  road: { color: 0x404040 },
+  building_wall: { color: 0x8B7355, pattern: 'bricks', accent: 0x5E4B36 },
+  building_floor: { color: 0xD2B48C, pattern: 'planks', accent: 0x9C7A55 },
+  building_roof: { color: 0x8B0000, pattern: 'bricks', accent: 0x5A0000 },
+  glass: { color: 0x87CEEB, pattern: 'frame', accent: 0xFFFFFF, alpha: 0.3 },
+  door: { color: 0x8B4513, pattern: 'planks', accent: 0x5C2E0B },
+  window: { color: 0x87CEEB, pattern: 'frame', accent: 0x5C2E0B, alpha: 0.5 },
+  lamp: { color: 0xFFE8A0, pattern: 'frame', accent: 0x8B6914 }
+};
+
+// Textures par face pour les blocs qui ne réutilisent pas la tuile de leur nom
+const BLOCK_TEXTURES: Record<string, BlockFaceTextures> = {
+  grass: { top: 'grass_top', side: 'grass_side', bottom: 'dirt' },
+  wood: { top: 'wood_top', side: 'wood_side', bottom: 'wood_top' }
+};
+
+// Blocs rendus dans la passe transparente (triée de l'arrière vers l'avant)
+export const TRANSPARENT_BLOCK_TYPES: readonly string[] = ['water', 'ice', 'glass', 'window', 'leaves'];
+
+// Blocs dont les faces restent visibles contre un bloc du même type (trous du feuillage)
+export const SELF_VISIBLE_BLOCK_TYPES: readonly string[] = ['leaves'];
+
+export class BlockTextureAtlas {
+  private static instance: BlockTextureAtlas | null = null;
+  public static readonly TILE_SIZE = 16;
+
+  private tileNames: string[] = Object.keys(TILES);
+  private tileIndices: Map<string, number> = new Map(this.tileNames.map((name, index) => [name, index]));
+  private warnedTypes: Set<string> = new Set();
+  private texture: THREE.CanvasTexture | null = null;
+  // Uniforme partagé par tous les matériaux de chunks (animation de l'eau)
+  private timeUniform = { value: 0 };
+  public readonly columns: number;
+  public readonly rows: number;
+
+  private constructor() {
+    this.columns = Math.ceil(Math.sqrt(this.tileNames.length));
+    this.rows = Math.ceil(this.tileNames.length / this.columns);
+  }
+
+  public static getInstance(): BlockTextureAtlas {
+    if (!BlockTextureAtlas.instance) {
+      BlockTextureAtlas.instance = new BlockTextureAtlas();
+    }
+    return BlockTextureAtlas.instance;
+  }
+
+  // Index des tuiles [dessus, côtés, dessous] d'un type de bloc
+  public getFaceTiles(type: string): [number, number, number] {
+    const faces = BLOCK_TEXTURES[type] ?? { top: type, side: type, bottom: type };
+    return [this.getTileIndex(type, faces.top), this.getTileIndex(type, faces.side), this.getTileIndex(type, faces.bottom)];
+  }
+
+  // Couleur de la face du dessus, pour les vues de dessus (minimap)
+  public getTopColor(type: string): number {
+    const faces = BLOCK_TEXTURES[type] ?? { top: type, side: type, bottom: type };
+    return (TILES[faces.top] ?? TILES.missing).color;
+  }
+
+  private getTileIndex(type: string, tile: string): number {
+    const index = this.tileIndices.get(tile);
+    if (index !== undefined) {
+      return index;
+    }
+    if (!this.warnedTypes.has(type)) {
+      this.warnedTypes.add(type);
+      console.warn(`Texture manquante pour le type de bloc: ${type}`);
+    }
+    return this.tileIndices.get('missing')!;
+  }
+
+  // Rectangle UV d'une tuile (texture sans retournement vertical : v = 0 en haut)
+  public getTileUvRect(tile: number): { u0: number, v0: number, u1: number, v1: number } {
+    const column = tile % this.columns;
+    const row = Math.floor(tile / this.columns);
+    return {
+      u0: column / this.columns,
+      v0: row / this.rows,
+      u1: (column + 1) / this.columns,
+      v1: (row + 1) / this.rows
+    };
+  }
+
+  // Remapper les UVs d'un cube (BoxGeometry 1×1×1) sur les tuiles du type de bloc.
+  // Ordre des faces de BoxGeometry : +x, -x, +y, -y, +z, -z (4 sommets chacune)
+  public mapBoxGeometryUvs(geometry: THREE.BoxGeometry, type: string): void {
+    const [top, side, bottom] = this.getFaceTiles(type);
+    const uvs = geometry.getAttribute('uv') as THREE.BufferAttribute;
+
+    for (let face = 0; face < 6; face++) {
+      const rect = this.getTileUvRect(face === 2 ? top : face === 3 ? bottom : side);
+      for (let vertex = face * 4; vertex < face * 4 + 4; vertex++) {
+        uvs.setXY(
+          vertex,
+          rect.u0 + uvs.getX(vertex) * (rect.u1 - rect.u0),
+          rect.v0 + (1 - uvs.getY(vertex)) * (rect.v1 - rect.v0)
+        );
+      }
+    }
+    uvs.needsUpdate = true;
+  }
+
+  public setTime(seconds: number): void {
+    this.timeUniform.value = seconds;
+  }
+
+  public getTexture(): THREE.CanvasTexture {
+    if (!this.texture) {
+      this.texture = new THREE.CanvasTexture(this.paintAtlas());
+      this.texture.flipY = false;
+      this.texture.magFilter = THREE.NearestFilter;
+      this.texture.minFilter = THREE.NearestFilter;
+      this.texture.generateMipmaps = false;
+      this.texture.colorSpace = THREE.SRGBColorSpace;
+    }
+    return this.texture;
+  }
+
+  // Matériau des chunks : la tuile vient de l'attribut `tile` et se répète
+  // sur les faces fusionnées grâce à fract(uv). Les tuiles d'eau ondulent et défilent.
+  public createChunkMaterial(parameters: THREE.MeshLambertMaterialParameters = {}): THREE.MeshLambertMaterial {
+    // Les couleurs de sommets portent l'éclairage voxel calculé au maillage
+    const material = new THREE.MeshLambertMaterial({ vertexColors: true, ...parameters });
+    const tileInset = 0.5 / BlockTextureAtlas.TILE_SIZE;
+
+    material.onBeforeCompile = (shader) => {
+      shader.uniforms.blockAtlas = { value: this.getTexture() };
+      shader.uniforms.atlasGrid = { value: new THREE.Vector2(this.columns, this.rows) };
+      shader.uniforms.waterTile = { value: this.tileIndices.get('water') };
+      shader.uniforms.blockTime = this.timeUniform;
+
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>
+attribute float tile;
+varying vec2 vBlockUv;
+varying float vBlockTile;`)
+        .replace('#include <uv_vertex>', `#include <uv_vertex>
+vBlockUv = uv;
+vBlockTile = tile;`);
+
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <common>', `#include <common>
+uniform sampler2D blockAtlas;
+uniform vec2 atlasGrid;
+uniform float waterTile;
+uniform float blockTime;
+varying vec2 vBlockUv;
+varying float vBlockTile;`)
+        .replace('#include <map_fragment>', `#include <map_fragment>
+float tileIndex = floor(vBlockTile + 0.5);
+bool isWater = abs(tileIndex - waterTile) < 0.5;
+vec2 blockUv = isWater ? vBlockUv + vec2(blockTime * 0.15, blockTime * 0.1) : vBlockUv;
+vec2 tileUv = clamp(fract(blockUv), ${tileInset.toFixed(5)}, ${(1 - tileInset).toFixed(5)});
+tileUv.y = 1.0 - tileUv.y;
+vec2 tileOrigin = vec2(mod(tileIndex, atlasGrid.x), floor(tileIndex / atlasGrid.x));
+diffuseColor *= texture2D(blockAtlas, (tileOrigin + tileUv) / atlasGrid);
+if (isWater) {
+  float ripple = sin(vBlockUv.x * 1.7 + blockTime * 1.3) * sin(vBlockUv.y * 2.3 - blockTime * 1.1);
+  diffuseColor.rgb *= 1.0 + 0.15 * ripple;
+}
+if (diffuseColor.a < 0.01) discard;`)
+        // Éclairage voxel : la lumière du ciel module le soleil et la lune de la scène,
+        // celle des blocs (lampes) s'ajoute en émission chaude, de jour comme de nuit
+        .replace('#include <color_fragment>', `totalEmissiveRadiance += diffuseColor.rgb * vColor.g * vec3(0.9, 0.75, 0.5);
+diffuseColor.rgb *= vColor.r;`);
+    };
+    material.customProgramCacheKey = () => 'block-atlas';
+
+    return material;
+  }
+
+  private paintAtlas(): HTMLCanvasElement {
+    const size = BlockTextureAtlas.TILE_SIZE;
+    const canvas = document.createElement('canvas');
+    canvas.width = this.columns * size;
+    canvas.height = this.rows * size;
+    const context = canvas.getContext('2d')!;
+
+    this.tileNames.forEach((name, index) => {
+      const image = context.createImageData(size, size);
+      paintTile(image, TILES[name], index + 1);
+      context.putImageData(image, (index % this.columns) * size, Math.floor(index / this.columns) * size);
+    });
+
+    return canvas;
+  }
+}
+
+function paintTile(image: ImageData, tile: TileDefinition, seed: number): void {
+  const size = image.width;
+  const accent = tile.accent ?? tile.color;
+  let state = seed * 9301 + 49297;
+  const random = () => {
+    state = (state * 9301 + 49297) % 233280;
+    return state / 233280;
+  };
+  // Taches de minerai choisies une fois par tuile
+  const spots = Array.from({ length: 4 }, () => ({ x: 2 + random() * (size - 4), y: 2 + random() * (size - 4) }));
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let color = tile.color;
+      switch (tile.pattern) {
+        case 'grass_side':
+          if (y < 3 || (y === 3 && random() < 0.5)) color = accent;
+          break;
+        case 'bricks': {
+          const row = Math.floor(y / 4);
+          const offset = row % 2 === 0 ? 0 : 4;
+          if (y % 4 === 3 || (x + offset) % 8 === 7) color = accent;
+          break;
+        }
+        case 'planks':
+          if (y % 4 === 3 || (x === (Math.floor(y / 4) * 5) % size)) color = accent;
+          break;
+        case 'bark':
+          if (x % 4 === 1 || (x % 4 === 2 && random() < 0.3)) color = accent;
+          break;
+        case 'rings': {
+          const distance = Math.hypot(x - size / 2 + 0.5, y - size / 2 + 0.5);
+          if (Math.floor(distance) % 3 === 0 || x === 0 || y === 0 || x === size - 1 || y === size - 1) color = accent;
+          break;
+        }
+        case 'ore':
+          if (spots.some(spot => Math.hypot(x - spot.x, y - spot.y) < 1.5)) color = accent;
+          break;
+        case 'frame':
+          if (x === 0 || y === 0 || x === size - 1 || y === size - 1) color = accent;
+          break;
+        case 'leaves':
+          if (random() < 0.3) color = accent;
+          break;
+      }
+
+      // Légère variation de luminosité pour casser l'aspect uni
+      const shade = 0.88 + random() * 0.24;
+      const offset = (y * size + x) * 4;
+      image.data[offset] = Math.min(255, ((color >> 16) & 0xff) * shade);
+      image.data[offset + 1] = Math.min(255, ((color >> 8) & 0xff) * shade);
+      image.data[offset + 2] = Math.min(255, (color & 0xff) * shade);
+      image.data[offset + 3] = 255 * getTileAlpha(tile, x, y, size);
+    }
+  }
+}
+
+function getTileAlpha(tile: TileDefinition, x: number, y: number, size: number): number {
+  if (tile.pattern === 'leaves') {
+    // Trous fixes dans le feuillage, découpés par le shader
+    return (x * 7 + y * 13) % 5 === 0 ? 0 : 1;
+  }
+  if (tile.pattern === 'frame' && (x === 0 || y === 0 || x === size - 1 || y === size - 1)) {
+    return 1;
+  }
+  return tile.alpha ?? 1;
+}
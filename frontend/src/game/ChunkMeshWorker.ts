@@ -0,0 +1,16 @@
+// Web Worker de maillage : reçoit le volume de voxels d'un chunk et renvoie
+// la géométrie fusionnée sous forme de tableaux typés transférés sans copie
+import { buildChunkMesh, getChunkMeshTransferables, ChunkMeshInput } from './ChunkMesher';
+
+export interface ChunkMeshRequest {
+  id: number;
+  input: ChunkMeshInput;
+}
+
+const workerScope = self as unknown as Worker;
+
+workerScope.onmessage = (event: MessageEvent<ChunkMeshRequest>) => {
+  const { id, input } = event.data;
+  const mesh = buildChunkMesh(input);
+  workerScope.postMessage({ id, mesh }, getChunkMeshTransferables(mesh));
+};
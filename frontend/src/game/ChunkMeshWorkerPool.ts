@@ -0,0 +1,99 @@
+import { buildChunkMesh, ChunkMeshData, ChunkMeshInput } from './ChunkMesher';
+import type { ChunkMeshRequest } from './ChunkMeshWorker';
+
+interface MeshJob {
+  id: number;
+  input: ChunkMeshInput;
+  resolve: (mesh: ChunkMeshData) => void;
+}
+
+// Pool de Web Workers pour mailler les chunks hors du thread principal.
+// Sans support des workers, le maillage se fait directement sur le thread principal.
+export class ChunkMeshWorkerPool {
+  private idleWorkers: Worker[] = [];
+  private activeJobs: Map<Worker, MeshJob> = new Map();
+  private queue: MeshJob[] = [];
+  private nextJobId: number = 1;
+
+  constructor(workerCount: number = ChunkMeshWorkerPool.getDefaultWorkerCount()) {
+    if (typeof Worker === 'undefined') {
+      console.warn('⚠️ Web Workers indisponibles, maillage des chunks sur le thread principal');
+      return;
+    }
+
+    for (let i = 0; i < workerCount; i++) {
+      const worker = new Worker(new URL('./ChunkMeshWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<{ id: number, mesh: ChunkMeshData }>) => {
+        this.completeJob(worker, event.data.mesh);
+      };
+      worker.onerror = (event) => {
+        console.error('❌ Erreur du worker de maillage:', event.message);
+        this.dropWorker(worker);
+      };
+      this.idleWorkers.push(worker);
+    }
+  }
+
+  private static getDefaultWorkerCount(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    return Math.max(1, Math.min(4, cores - 1));
+  }
+
+  public mesh(input: ChunkMeshInput): Promise<ChunkMeshData> {
+    if (this.idleWorkers.length === 0 && this.activeJobs.size === 0) {
+      return Promise.resolve(buildChunkMesh(input));
+    }
+
+    return new Promise(resolve => {
+      this.queue.push({ id: this.nextJobId++, input, resolve });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.idleWorkers.length > 0 && this.queue.length > 0) {
+      const worker = this.idleWorkers.pop()!;
+      const job = this.queue.shift()!;
+      this.activeJobs.set(worker, job);
+      // Le volume d'entrée est copié (quelques Ko) pour pouvoir rejouer le job en cas d'erreur
+      const request: ChunkMeshRequest = { id: job.id, input: job.input };
+      worker.postMessage(request);
+    }
+  }
+
+  private completeJob(worker: Worker, mesh: ChunkMeshData): void {
+    const job = this.activeJobs.get(worker);
+    this.activeJobs.delete(worker);
+    this.idleWorkers.push(worker);
+    job?.resolve(mesh);
+    this.dispatch();
+  }
+
+  // Retirer un worker défaillant et mailler son job sur le thread principal
+  private dropWorker(worker: Worker): void {
+    worker.terminate();
+    const job = this.activeJobs.get(worker);
+    this.activeJobs.delete(worker);
+    this.idleWorkers = this.idleWorkers.filter(idle => idle !== worker);
+    if (job) {
+      job.resolve(buildChunkMesh(job.input));
+    }
+
+    if (this.idleWorkers.length === 0 && this.activeJobs.size === 0) {
+      const pending = this.queue;
+      this.queue = [];
+      for (const queued of pending) {
+        queued.resolve(buildChunkMesh(queued.input));
+      }
+    }
+  }
+
+  public dispose(): void {
+    for (const worker of [...this.idleWorkers, ...this.activeJobs.keys()]) {
+      worker.terminate();
+    }
+    this.idleWorkers = [];
+    this.activeJobs.clear();
+    this.queue = [];
+  }
+}
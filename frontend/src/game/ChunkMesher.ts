@@ -0,0 +1,289 @@
+// Maillage glouton (greedy meshing) d'un chunk : les faces visibles coplanaires
+// d'un même type de bloc et de même éclairage sont fusionnées en rectangles,
+// en deux passes (opaque, transparente).
+// Sans dépendance à Three.js pour pouvoir tourner dans un Web Worker.
+
+export interface ChunkMeshInput {
+  chunkX: number;
+  chunkZ: number;
+  size: number;
+  height: number;
+  // Les voxels sont des index de palette (0 = air), qui indexent les tableaux suivants.
+  // Tuiles de l'atlas par type : [dessus, côtés, dessous] à l'index type * 3
+  faceTiles: Uint16Array;
+  // Combinaison de BLOCK_FLAG_* par type
+  blockFlags: Uint8Array;
+  // Volume (size + 2) × height × (size + 2) : le chunk entouré d'une bordure d'un bloc
+  // prise dans les chunks voisins, pour éliminer les faces cachées en limite de chunk.
+  // Index = (y * (size + 2) + pz) * (size + 2) + px, avec px = x local + 1
+  voxels: Uint8Array;
+  // Lumière du même volume : soleil dans les 4 bits de poids fort, blocs dans les 4 autres
+  light: Uint8Array;
+}
+
+export const BLOCK_FLAG_OPAQUE = 1;
+export const BLOCK_FLAG_LIQUID = 2; // Surface abaissée quand rien n'est posé dessus
+export const BLOCK_FLAG_SELF_VISIBLE = 4; // Faces gardées contre le même type (feuillages)
+
+// Hauteur de la surface d'un liquide dans son bloc
+const LIQUID_SURFACE_HEIGHT = 0.875;
+
+// Masque : type dans les bits 0-7, lumière de la face dans les bits 8-15,
+// puis un bit pour un voxel liquide de surface
+const LOWERED_SURFACE = 1 << 16;
+
+// Lumière au-dessus du monde : plein soleil
+const SKY_LIGHT = 0xf0;
+
+// Luminosité par niveau de lumière (0-15), jamais totalement noire
+const LIGHT_BRIGHTNESS = Array.from({ length: 16 }, (_, level) => Math.max(0.05, Math.pow(0.8, 15 - level)));
+
+// Toute la géométrie opaque d'un chunk dans un groupe, la transparente dans un autre
+export type ChunkMeshPass = 'opaque' | 'transparent';
+
+export interface ChunkMeshGroup {
+  pass: ChunkMeshPass;
+  positions: Float32Array;
+  normals: Float32Array;
+  uvs: Float32Array; // Coordonnées monde : la tuile se répète via fract() dans le shader
+  tiles: Float32Array; // Index de tuile de l'atlas par sommet
+  colors: Float32Array; // Éclairage voxel précalculé par sommet : ciel (r) et blocs (g)
+  indices: Uint16Array | Uint32Array;
+}
+
+export interface ChunkMeshData {
+  chunkX: number;
+  chunkZ: number;
+  quadCount: number;
+  groups: ChunkMeshGroup[];
+}
+
+interface GroupBuffers {
+  positions: number[];
+  normals: number[];
+  uvs: number[];
+  tiles: number[];
+  colors: number[];
+  indices: number[];
+  vertexCount: number;
+}
+
+export function getPaddedVoxelIndex(size: number, px: number, y: number, pz: number): number {
+  return (y * (size + 2) + pz) * (size + 2) + px;
+}
+
+export function buildChunkMesh(input: ChunkMeshInput): ChunkMeshData {
+  const { chunkX, chunkZ, size, height, faceTiles, blockFlags, voxels, light } = input;
+  const dims = [size, height, size];
+  const origin = [chunkX * size, 0, chunkZ * size];
+  const buffers = new Map<ChunkMeshPass, GroupBuffers>();
+  let quadCount = 0;
+
+  // Type à une position locale (x, z dans [-1, size], y hors du monde = air)
+  const typeAt = (pos: number[]): number => {
+    if (pos[1] < 0 || pos[1] >= height) return 0;
+    return voxels[getPaddedVoxelIndex(size, pos[0] + 1, pos[1], pos[2] + 1)];
+  };
+
+  const lightAt = (pos: number[]): number => {
+    if (pos[1] >= height) return SKY_LIGHT;
+    if (pos[1] < 0) return 0;
+    return light[getPaddedVoxelIndex(size, pos[0] + 1, pos[1], pos[2] + 1)];
+  };
+
+  // Un bloc opaque cache tout ; entre transparents, seul un type différent reste visible
+  const isFaceVisible = (type: number, neighbour: number): boolean => {
+    if (neighbour === 0) return true;
+    if (blockFlags[neighbour] & BLOCK_FLAG_OPAQUE) return false;
+    if (blockFlags[type] & BLOCK_FLAG_OPAQUE) return true;
+    return neighbour !== type || (blockFlags[type] & BLOCK_FLAG_SELF_VISIBLE) !== 0;
+  };
+
+  // Un liquide sans liquide ni bloc opaque au-dessus a une surface abaissée
+  const isLoweredSurface = (type: number, pos: number[]): boolean => {
+    if (!(blockFlags[type] & BLOCK_FLAG_LIQUID)) return false;
+    pos[1]++;
+    const above = typeAt(pos);
+    pos[1]--;
+    return above !== type && !(blockFlags[above] & BLOCK_FLAG_OPAQUE);
+  };
+
+  // Pour chaque axe d et chaque sens, balayer les tranches perpendiculaires
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const mask = new Int32Array(dims[u] * dims[v]);
+    const pos = [0, 0, 0];
+
+    for (const dir of [1, -1]) {
+      for (pos[d] = 0; pos[d] < dims[d]; pos[d]++) {
+        // Masque des faces visibles de la tranche : type du bloc, lumière du voxel
+        // devant la face (+ surface abaissée), 0 si pas de face
+        let n = 0;
+        for (pos[v] = 0; pos[v] < dims[v]; pos[v]++) {
+          for (pos[u] = 0; pos[u] < dims[u]; pos[u]++) {
+            const type = typeAt(pos);
+            let value = 0;
+            if (type !== 0) {
+              pos[d] += dir;
+              if (isFaceVisible(type, typeAt(pos))) {
+                value = type | (lightAt(pos) << 8);
+              }
+              pos[d] -= dir;
+              if (value !== 0 && isLoweredSurface(type, pos)) {
+                value |= LOWERED_SURFACE;
+              }
+            }
+            mask[n++] = value;
+          }
+        }
+
+        // Fusionner les faces identiques en rectangles
+        n = 0;
+        for (let j = 0; j < dims[v]; j++) {
+          for (let i = 0; i < dims[u]; ) {
+            const value = mask[n];
+            if (value === 0) {
+              i++;
+              n++;
+              continue;
+            }
+
+            let width = 1;
+            while (i + width < dims[u] && mask[n + width] === value) {
+              width++;
+            }
+
+            let rectHeight = 1;
+            expand: while (j + rectHeight < dims[v]) {
+              for (let k = 0; k < width; k++) {
+                if (mask[n + k + rectHeight * dims[u]] !== value) break expand;
+              }
+              rectHeight++;
+            }
+
+            const type = value & 0xff;
+            const pass = blockFlags[type] & BLOCK_FLAG_OPAQUE ? 'opaque' : 'transparent';
+            const group = getGroupBuffers(buffers, pass);
+            const face = d !== 1 ? 1 : dir > 0 ? 0 : 2; // Dessus, côtés ou dessous
+            const corner = [origin[0], origin[1], origin[2]];
+            corner[d] += pos[d] + (dir > 0 ? 1 : 0);
+            corner[u] += i;
+            corner[v] += j;
+
+            // Surface de liquide : dessus abaissé, côtés raccourcis
+            // (une seule couche de haut : le bloc au-dessus n'est pas du même liquide)
+            let quadWidth = width;
+            let quadHeight = rectHeight;
+            if (value & LOWERED_SURFACE) {
+              const drop = 1 - LIQUID_SURFACE_HEIGHT;
+              if (d === 1) {
+                if (dir > 0) corner[1] -= drop;
+              } else if (u === 1) {
+                quadWidth -= drop;
+              } else {
+                quadHeight -= drop;
+              }
+            }
+            pushQuad(group, corner, d, u, v, dir, quadWidth, quadHeight, faceTiles[type * 3 + face], (value >> 8) & 0xff);
+            quadCount++;
+
+            for (let h = 0; h < rectHeight; h++) {
+              mask.fill(0, n + h * dims[u], n + h * dims[u] + width);
+            }
+            i += width;
+            n += width;
+          }
+        }
+      }
+    }
+  }
+
+  const groups: ChunkMeshGroup[] = [];
+  for (const [pass, group] of buffers) {
+    groups.push({
+      pass,
+      positions: new Float32Array(group.positions),
+      normals: new Float32Array(group.normals),
+      uvs: new Float32Array(group.uvs),
+      tiles: new Float32Array(group.tiles),
+      colors: new Float32Array(group.colors),
+      indices: group.vertexCount > 0xffff
+        ? new Uint32Array(group.indices)
+        : new Uint16Array(group.indices)
+    });
+  }
+
+  return { chunkX, chunkZ, quadCount, groups };
+}
+
+// Buffers à transférer (sans copie) depuis le worker
+export function getChunkMeshTransferables(mesh: ChunkMeshData): ArrayBuffer[] {
+  const transferables: ArrayBuffer[] = [];
+  for (const group of mesh.groups) {
+    transferables.push(
+      group.positions.buffer as ArrayBuffer,
+      group.normals.buffer as ArrayBuffer,
+      group.uvs.buffer as ArrayBuffer,
+      group.tiles.buffer as ArrayBuffer,
+      group.colors.buffer as ArrayBuffer,
+      group.indices.buffer as ArrayBuffer
+    );
+  }
+  return transferables;
+}
+
+function getGroupBuffers(buffers: Map<ChunkMeshPass, GroupBuffers>, pass: ChunkMeshPass): GroupBuffers {
+  let group = buffers.get(pass);
+  if (!group) {
+    group = { positions: [], normals: [], uvs: [], tiles: [], colors: [], indices: [], vertexCount: 0 };
+    buffers.set(pass, group);
+  }
+  return group;
+}
+
+function pushQuad(
+  group: GroupBuffers,
+  corner: number[],
+  d: number,
+  u: number,
+  v: number,
+  dir: number,
+  width: number,
+  height: number,
+  tile: number,
+  light: number
+): void {
+  // (u, v, d) est direct : parcourir u puis v donne une face orientée vers +d,
+  // l'ordre inverse une face orientée vers -d (sens antihoraire vu de l'extérieur)
+  const sky = LIGHT_BRIGHTNESS[light >> 4];
+  const block = LIGHT_BRIGHTNESS[light & 0x0f];
+  const steps = dir > 0
+    ? [[0, 0], [width, 0], [width, height], [0, height]]
+    : [[0, 0], [0, height], [width, height], [width, 0]];
+
+  for (const [du, dv] of steps) {
+    const vertex = [corner[0], corner[1], corner[2]];
+    vertex[u] += du;
+    vertex[v] += dv;
+    group.positions.push(vertex[0], vertex[1], vertex[2]);
+
+    const normal = [0, 0, 0];
+    normal[d] = dir;
+    group.normals.push(normal[0], normal[1], normal[2]);
+
+    // UV en coordonnées monde : horizontales sur le dessus et le dessous,
+    // (horizontale, hauteur) sur les côtés pour garder les textures à l'endroit
+    if (d === 1) {
+      group.uvs.push(vertex[0], vertex[2]);
+    } else {
+      group.uvs.push(d === 0 ? vertex[2] : vertex[0], vertex[1]);
+    }
+    group.tiles.push(tile);
+    group.colors.push(sky, block, 0);
+  }
+
+  const base = group.vertexCount;
+  group.indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+  group.vertexCount += 4;
+}
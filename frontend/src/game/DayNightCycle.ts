@@ -0,0 +1,145 @@
+import * as THREE from 'three';
+import {
+  areNightLightsOn,
+  getSunElevation,
+  getTimeOfDay,
+  HOURS_PER_DAY,
+  SUNRISE_HOUR,
+  WorldClockState
+} from '@shared/world-clock';
+import { WEATHER_EFFECTS, WeatherEffects } from '@shared/weather';
+
+// Couleurs du ciel (et du brouillard) selon la hauteur du soleil
+const NIGHT_SKY = new THREE.Color(0x0b1026);
+const TWILIGHT_SKY = new THREE.Color(0xfd8a5e);
+const DAY_SKY = new THREE.Color(0x87ceeb);
+const OVERCAST_SKY = new THREE.Color(0x6e7780);
+
+// Distance des astres au point suivi (caméra), dans le champ de la caméra d'ombre
+const CELESTIAL_DISTANCE = 100;
+
+type NightLightsListener = (on: boolean) => void;
+
+// Cycle jour/nuit piloté par l'horloge du serveur : soleil, lune, ciel, brouillard
+// et intensité ambiante. L'heure est extrapolée entre deux synchronisations.
+export class DayNightCycle {
+  private scene: THREE.Scene;
+  private sunLight: THREE.DirectionalLight;
+  private moonLight: THREE.DirectionalLight;
+  private ambientLight: THREE.AmbientLight;
+  private hemisphereLight: THREE.HemisphereLight;
+  private fillLight: THREE.DirectionalLight;
+  private fog: THREE.Fog;
+  private skyColor: THREE.Color = DAY_SKY.clone();
+  private overcastColor: THREE.Color = new THREE.Color();
+  private sunDirection: THREE.Vector3 = new THREE.Vector3();
+  private weather: WeatherEffects = { ...WEATHER_EFFECTS.clear };
+
+  // En attendant la première synchronisation : matinée qui avance à vitesse normale
+  private clock: WorldClockState = { time: 8, dayLength: 20 * 60, frozen: false, serverTime: Date.now() };
+  private clockOffset: number = 0; // Heure serveur - heure locale (ms)
+  private nightLightsOn: boolean | null = null;
+  private nightLightsListeners: NightLightsListener[] = [];
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+
+    this.ambientLight = new THREE.AmbientLight(0x606060, 2.0);
+    this.scene.add(this.ambientLight);
+
+    this.sunLight = new THREE.DirectionalLight(0xffffff, 2.0);
+    this.sunLight.castShadow = true;
+    this.sunLight.shadow.mapSize.width = 2048;
+    this.sunLight.shadow.mapSize.height = 2048;
+    this.sunLight.shadow.camera.near = 0.5;
+    this.sunLight.shadow.camera.far = 500;
+    this.sunLight.shadow.camera.left = -100;
+    this.sunLight.shadow.camera.right = 100;
+    this.sunLight.shadow.camera.top = 100;
+    this.sunLight.shadow.camera.bottom = -100;
+    this.scene.add(this.sunLight, this.sunLight.target);
+
+    // Lune : lumière froide et faible, sans ombres
+    this.moonLight = new THREE.DirectionalLight(0x9db4ff, 0);
+    this.scene.add(this.moonLight, this.moonLight.target);
+
+    // Lumière zénithale d'appoint pour éclairer le sol en journée
+    this.fillLight = new THREE.DirectionalLight(0xffffff, 0.8);
+    this.fillLight.position.set(0, 30, 0);
+    this.scene.add(this.fillLight);
+
+    this.hemisphereLight = new THREE.HemisphereLight(0x87ceeb, 0x8b4513, 0.6);
+    this.scene.add(this.hemisphereLight);
+
+    this.fog = new THREE.Fog(this.skyColor, 80, 300);
+    this.scene.fog = this.fog;
+    this.scene.background = this.skyColor;
+  }
+
+  public setClock(state: WorldClockState): void {
+    this.clock = state;
+    this.clockOffset = state.serverTime - Date.now();
+  }
+
+  public getTimeOfDay(): number {
+    return getTimeOfDay(this.clock, Date.now() + this.clockOffset);
+  }
+
+  // Nuages et brouillard de la météo courante, appliqués au prochain `update`
+  public setWeather(effects: WeatherEffects): void {
+    this.weather = effects;
+  }
+
+  // Appelé à chaque passage jour/nuit (et immédiatement avec l'état courant)
+  public onNightLightsChange(listener: NightLightsListener): void {
+    this.nightLightsListeners.push(listener);
+    if (this.nightLightsOn !== null) {
+      listener(this.nightLightsOn);
+    }
+  }
+
+  // Mettre à jour les lumières ; les astres suivent `focus` pour garder les ombres autour du joueur
+  public update(focus: THREE.Vector3): void {
+    const time = this.getTimeOfDay();
+    const elevation = getSunElevation(time);
+    const daylight = THREE.MathUtils.smoothstep(elevation, -0.1, 0.25);
+    const twilight = Math.max(0, 1 - Math.abs(elevation) / 0.25);
+
+    // Le soleil se lève à l'est (+x) et se couche à l'ouest, légèrement incliné vers le sud
+    const angle = ((time - SUNRISE_HOUR) / HOURS_PER_DAY) * Math.PI * 2;
+    const sunDirection = this.sunDirection.set(Math.cos(angle), Math.sin(angle), 0.3).normalize();
+
+    this.sunLight.position.copy(focus).addScaledVector(sunDirection, CELESTIAL_DISTANCE);
+    this.sunLight.target.position.copy(focus);
+    // Les nuages assombrissent surtout la lumière directe
+    const { cloudCover, fog } = this.weather;
+    const directLight = 1 - 0.75 * cloudCover;
+    this.sunLight.intensity = 2.0 * daylight * directLight;
+
+    this.moonLight.position.copy(focus).addScaledVector(sunDirection, -CELESTIAL_DISTANCE);
+    this.moonLight.target.position.copy(focus);
+    this.moonLight.intensity = 0.35 * (1 - daylight) * directLight;
+
+    this.fillLight.intensity = 0.8 * daylight * directLight;
+    this.ambientLight.intensity = THREE.MathUtils.lerp(0.35, 2.0, daylight) * (1 - 0.4 * cloudCover);
+    this.hemisphereLight.intensity = THREE.MathUtils.lerp(0.15, 0.6, daylight) * (1 - 0.3 * cloudCover);
+
+    this.overcastColor.copy(NIGHT_SKY).lerp(OVERCAST_SKY, daylight);
+    this.skyColor
+      .copy(NIGHT_SKY)
+      .lerp(DAY_SKY, daylight)
+      .lerp(TWILIGHT_SKY, twilight * 0.5 * (1 - cloudCover))
+      .lerp(this.overcastColor, cloudCover * 0.85);
+    this.fog.color.copy(this.skyColor);
+    this.fog.near = THREE.MathUtils.lerp(THREE.MathUtils.lerp(30, 80, daylight), 4, fog);
+    this.fog.far = THREE.MathUtils.lerp(THREE.MathUtils.lerp(160, 300, daylight), 45, fog);
+
+    const nightLightsOn = areNightLightsOn(time);
+    if (nightLightsOn !== this.nightLightsOn) {
+      this.nightLightsOn = nightLightsOn;
+      for (const listener of this.nightLightsListeners) {
+        listener(nightLightsOn);
+      }
+    }
+  }
+}
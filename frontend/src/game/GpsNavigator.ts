@@ -0,0 +1,198 @@
+import { NetworkConfig } from '../core/NetworkConfig';
+
+// Position sur le plan X/Z
+export interface MapPoint {
+  x: number;
+  z: number;
+}
+
+export type GpsTurn = 'left' | 'right' | 'arrive';
+
+// Prochaine indication à suivre
+export interface GpsGuidance {
+  turn: GpsTurn;
+  distance: number; // Jusqu'au prochain virage (ou à l'arrivée)
+  remaining: number; // Jusqu'à l'arrivée
+}
+
+const OFF_ROUTE_DISTANCE = 10; // Au-delà, l'itinéraire est recalculé
+const RECALCULATE_DELAY = 2000; // ms entre deux demandes d'itinéraire
+const ARRIVAL_DISTANCE = 8;
+const TURN_ANGLE = Math.PI / 6; // Changement de direction annoncé comme un virage
+const MIN_POINT_SPACING = 0.5;
+
+// Guidage vers une destination choisie sur la carte, le long des routes
+export class GpsNavigator {
+  private waypoint: MapPoint | null = null;
+  private route: MapPoint[] = [];
+  private routeDistances: number[] = []; // Distance cumulée à chaque point
+  private guidance: GpsGuidance | null = null;
+  private requestId = 0;
+  private requesting = false;
+  private lastRequest = 0;
+  private unreachableCallback?: () => void;
+
+  public getWaypoint(): MapPoint | null {
+    return this.waypoint;
+  }
+
+  public getRoute(): MapPoint[] {
+    return this.route;
+  }
+
+  public getGuidance(): GpsGuidance | null {
+    return this.guidance;
+  }
+
+  public setWaypoint(waypoint: MapPoint, position: MapPoint): void {
+    this.waypoint = { x: waypoint.x, z: waypoint.z };
+    this.setRoute([]);
+    this.requestRoute(position);
+  }
+
+  // Aucune route ne mène à la destination : le point est effacé
+  public onWaypointUnreachable(callback: () => void): void {
+    this.unreachableCallback = callback;
+  }
+
+  public clearWaypoint(): void {
+    this.waypoint = null;
+    this.setRoute([]);
+    this.requestId++; // Ignorer la réponse en attente
+    this.requesting = false;
+  }
+
+  // Suivre la progression ; renvoie true quand la destination vient d'être atteinte
+  public update(position: MapPoint): boolean {
+    if (!this.waypoint) return false;
+
+    if (distance(position, this.waypoint) < ARRIVAL_DISTANCE) {
+      this.clearWaypoint();
+      return true;
+    }
+
+    const canRequest = !this.requesting && Date.now() - this.lastRequest >= RECALCULATE_DELAY;
+    if (this.route.length < 2) {
+      if (canRequest) this.requestRoute(position);
+      return false;
+    }
+
+    const progress = this.locate(position);
+    if (progress.offRoute > OFF_ROUTE_DISTANCE && canRequest) {
+      console.log('🧭 Hors de l\'itinéraire, recalcul...');
+      this.requestRoute(position);
+    }
+    this.guidance = this.getNextTurn(progress.segment, progress.along);
+    return false;
+  }
+
+  private async requestRoute(from: MapPoint): Promise<void> {
+    if (!this.waypoint) return;
+
+    const requestId = ++this.requestId;
+    const to = this.waypoint;
+    const params = new URLSearchParams({
+      fromX: String(from.x),
+      fromZ: String(from.z),
+      toX: String(to.x),
+      toZ: String(to.z)
+    });
+
+    this.requesting = true;
+    this.lastRequest = Date.now();
+    try {
+      const response = await fetch(`${NetworkConfig.getInstance().getBackendUrl()}/api/map/route?${params}`);
+      // Le serveur ne trouve aucun itinéraire : inutile de redemander toutes les 2 s
+      if (response.status === 404) {
+        if (requestId === this.requestId) {
+          this.clearWaypoint();
+          this.unreachableCallback?.();
+        }
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Itinéraire indisponible (${response.status})`);
+      }
+
+      const route = await response.json();
+      // Destination changée ou effacée pendant la requête
+      if (requestId !== this.requestId) return;
+
+      // Rejoindre la route depuis la position réelle, puis finir jusqu'au point choisi
+      this.setRoute([{ x: from.x, z: from.z }, ...route.points, to]);
+    } catch (error) {
+      console.error('❌ Erreur lors du calcul de l\'itinéraire:', error);
+    } finally {
+      if (requestId === this.requestId) {
+        this.requesting = false;
+      }
+    }
+  }
+
+  private setRoute(points: MapPoint[]): void {
+    this.route = [];
+    this.routeDistances = [];
+    this.guidance = null;
+
+    for (const point of points) {
+      const previous = this.route[this.route.length - 1];
+      if (previous && distance(previous, point) < MIN_POINT_SPACING) continue;
+
+      const travelled = previous ? this.routeDistances[this.routeDistances.length - 1] + distance(previous, point) : 0;
+      this.routeDistances.push(travelled);
+      this.route.push(point);
+    }
+  }
+
+  // Portion de l'itinéraire la plus proche et distance parcourue depuis le départ
+  private locate(position: MapPoint): { segment: number; along: number; offRoute: number } {
+    let best = { segment: 0, along: 0, offRoute: Infinity };
+
+    for (let i = 0; i < this.route.length - 1; i++) {
+      const start = this.route[i];
+      const end = this.route[i + 1];
+      const length = this.routeDistances[i + 1] - this.routeDistances[i];
+      const projected = ((position.x - start.x) * (end.x - start.x) + (position.z - start.z) * (end.z - start.z)) / (length * length);
+      const t = Math.min(Math.max(projected, 0), 1);
+      const offRoute = distance(position, {
+        x: start.x + (end.x - start.x) * t,
+        z: start.z + (end.z - start.z) * t
+      });
+
+      if (offRoute < best.offRoute) {
+        best = { segment: i, along: this.routeDistances[i] + length * t, offRoute };
+      }
+    }
+    return best;
+  }
+
+  private getNextTurn(segment: number, along: number): GpsGuidance {
+    const total = this.routeDistances[this.routeDistances.length - 1];
+
+    for (let i = segment + 1; i < this.route.length - 1; i++) {
+      const before = direction(this.route[i - 1], this.route[i]);
+      const after = direction(this.route[i], this.route[i + 1]);
+      const cross = before.x * after.z - before.z * after.x;
+      const dot = before.x * after.x + before.z * after.z;
+
+      if (Math.abs(Math.atan2(cross, dot)) > TURN_ANGLE) {
+        // Vue de dessus, z vers le bas : un produit vectoriel positif tourne à droite
+        return {
+          turn: cross > 0 ? 'right' : 'left',
+          distance: this.routeDistances[i] - along,
+          remaining: total - along
+        };
+      }
+    }
+    return { turn: 'arrive', distance: total - along, remaining: total - along };
+  }
+}
+
+function distance(a: MapPoint, b: MapPoint): number {
+  return Math.hypot(b.x - a.x, b.z - a.z);
+}
+
+function direction(from: MapPoint, to: MapPoint): MapPoint {
+  const length = distance(from, to);
+  return { x: (to.x - from.x) / length, z: (to.z - from.z) / length };
+}
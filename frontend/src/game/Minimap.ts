@@ -1,4 +1,40 @@
 import * as THREE from 'three';
+import { BlockTextureAtlas } from './BlockTextureAtlas';
+import { GpsGuidance, MapPoint } from './GpsNavigator';
+import { OptimizedBlockManager } from './OptimizedBlockManager';
+import type { MapData, MapElement } from './World';
+
+// Vue de dessus mise en cache hors écran : un pixel par bloc, centrée sur l'origine
+const CACHE_WORLD_SIZE = 512;
+const MINIMAP_WORLD_SPAN = 100; // Blocs visibles d'un bord à l'autre de la minimap
+
+// Zoom de la carte plein écran (1 : toute la carte visible)
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.2;
+const DRAG_THRESHOLD = 4; // px avant qu'un clic devienne un déplacement de la carte
+
+// Points d'intérêt affichés sur la carte plein écran
+export type PointOfInterestKind = 'vehicle' | 'ownedVehicle';
+
+export interface PointOfInterest {
+    x: number;
+    z: number;
+    kind: PointOfInterestKind;
+    label: string;
+}
+
+const POINT_OF_INTEREST_COLORS: Record<PointOfInterestKind, string> = {
+    vehicle: '#FF9800',
+    ownedVehicle: '#2196F3'
+};
+
+// Couleurs des éléments de la carte qui n'en précisent pas
+const MAP_ELEMENT_COLORS: Record<string, string> = {
+    road: '#404040',
+    building: '#8B7355',
+    streetlight: '#FFE8A0'
+};
 
 export class Minimap {
     private canvas: HTMLCanvasElement;
@@ -9,12 +45,56 @@ export class Minimap {
     private otherPlayers: Map<string, { position: THREE.Vector3, name: string }> = new Map();
     private worldBounds: { min: THREE.Vector3, max: THREE.Vector3 };
     
-    constructor() {
-        this.createMinimap();
+    // Couches de la vue de dessus : relief des chunks chargés, puis éléments de la carte
+    private blockManager: OptimizedBlockManager | null;
+    private terrainLayer: HTMLCanvasElement;
+    private terrainContext: CanvasRenderingContext2D;
+    private mapLayer: HTMLCanvasElement;
+    private mapContext: CanvasRenderingContext2D;
+    private mapElements: MapElement[] = [];
+    
+    // GPS : destination et itinéraire à suivre
+    private waypoint: MapPoint | null = null;
+    private route: MapPoint[] = [];
+    private guidanceLabel: HTMLElement;
+    
+    // Carte plein écran, où l'on choisit la destination
+    private fullscreen: HTMLElement;
+    private fullscreenCanvas: HTMLCanvasElement;
+    private fullscreenContext: CanvasRenderingContext2D;
+    private fullscreenOpen = false;
+    private viewCenter: MapPoint = { x: 0, z: 0 };
+    private viewZoom = MIN_ZOOM;
+    private dragStart: { x: number, y: number, center: MapPoint } | null = null;
+    private dragged = false;
+    private pointsOfInterest: PointOfInterest[] = [];
+    private waypointCallback?: (waypoint: MapPoint | null) => void;
+    
+    constructor(blockManager: OptimizedBlockManager | null = null) {
         this.worldBounds = {
             min: new THREE.Vector3(-100, 0, -100),
             max: new THREE.Vector3(100, 0, 100)
         };
+        this.blockManager = blockManager;
+        this.createLayers();
+        this.createMinimap();
+    }
+    
+    private createLayers() {
+        this.terrainLayer = document.createElement('canvas');
+        this.terrainLayer.width = CACHE_WORLD_SIZE;
+        this.terrainLayer.height = CACHE_WORLD_SIZE;
+        this.terrainContext = this.terrainLayer.getContext('2d')!;
+        
+        this.mapLayer = document.createElement('canvas');
+        this.mapLayer.width = CACHE_WORLD_SIZE;
+        this.mapLayer.height = CACHE_WORLD_SIZE;
+        this.mapContext = this.mapLayer.getContext('2d')!;
+        
+        // Chaque chunk chargé ou modifié est redessiné dans le cache
+        this.blockManager?.onChunkChanged((chunkX, chunkZ) => {
+            this.drawChunkSurface(chunkX, chunkZ);
+        });
     }
     
     private createMinimap() {
@@ -65,12 +145,32 @@ export class Minimap {
             `;
             this.container.appendChild(title);
             
+            // Indication du GPS sous la minimap
+            this.guidanceLabel = document.createElement('div');
+            this.guidanceLabel.style.cssText = `
+                position: absolute;
+                top: 208px;
+                left: 0;
+                width: 100%;
+                padding: 6px 8px;
+                box-sizing: border-box;
+                background: rgba(0, 0, 0, 0.7);
+                border-radius: 6px;
+                color: white;
+                font-size: 12px;
+                font-weight: bold;
+                text-align: center;
+                display: none;
+            `;
+            this.container.appendChild(this.guidanceLabel);
+            
             // Ajouter au DOM
             const gameContainer = document.getElementById('gameContainer');
             if (!gameContainer) {
                 throw new Error('Élément gameContainer non trouvé');
             }
             gameContainer.appendChild(this.container);
+            this.createFullscreenMap(gameContainer);
             
             // Dessiner la minimap initiale
             this.draw();
@@ -81,6 +181,205 @@ export class Minimap {
         }
     }
     
+    private createFullscreenMap(gameContainer: HTMLElement) {
+        this.fullscreen = document.createElement('div');
+        this.fullscreen.style.cssText = `
+            position: absolute;
+            inset: 0;
+            display: none;
+            flex-direction: column;
+            align-items: center;
+            justify-content: center;
+            gap: 10px;
+            background: rgba(0, 0, 0, 0.6);
+            z-index: 2000;
+        `;
+        
+        const size = Math.floor(Math.min(window.innerWidth, window.innerHeight) * 0.85);
+        this.fullscreenCanvas = document.createElement('canvas');
+        this.fullscreenCanvas.width = size;
+        this.fullscreenCanvas.height = size;
+        this.fullscreenCanvas.style.cssText = `
+            border: 2px solid #333;
+            border-radius: 10px;
+            cursor: crosshair;
+        `;
+        this.fullscreenContext = this.fullscreenCanvas.getContext('2d')!;
+        
+        const hint = document.createElement('div');
+        hint.textContent = 'Molette : zoom — Glisser : déplacer — Clic : destination — Clic droit : effacer — M / Échap : fermer';
+        hint.style.cssText = `
+            color: white;
+            font-size: 14px;
+            text-shadow: 1px 1px 2px rgba(0,0,0,0.8);
+        `;
+        
+        // Les clics sur la carte ne doivent pas reverrouiller le pointeur
+        this.fullscreen.addEventListener('click', (event) => event.stopPropagation());
+        this.fullscreenCanvas.addEventListener('click', (event) => {
+            if (this.dragged) return;
+            const point = this.toCanvasPoint(event);
+            this.waypointCallback?.(this.fullscreenToWorld(point.x, point.y));
+        });
+        
+        // Zoom à la molette autour du point visé
+        this.fullscreenCanvas.addEventListener('wheel', (event) => {
+            event.preventDefault();
+            const point = this.toCanvasPoint(event);
+            const before = this.fullscreenToWorld(point.x, point.y);
+            
+            const factor = event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+            this.viewZoom = Math.min(Math.max(this.viewZoom * factor, MIN_ZOOM), MAX_ZOOM);
+            
+            const after = this.fullscreenToWorld(point.x, point.y);
+            this.setViewCenter(this.viewCenter.x + before.x - after.x, this.viewCenter.z + before.z - after.z);
+        }, { passive: false });
+        
+        // Déplacement de la carte en la faisant glisser
+        this.fullscreenCanvas.addEventListener('mousedown', (event) => {
+            if (event.button !== 0) return;
+            this.dragStart = { x: event.clientX, y: event.clientY, center: { ...this.viewCenter } };
+            this.dragged = false;
+        });
+        window.addEventListener('mousemove', (event) => {
+            if (!this.dragStart) return;
+            
+            const dx = event.clientX - this.dragStart.x;
+            const dy = event.clientY - this.dragStart.y;
+            if (Math.hypot(dx, dy) > DRAG_THRESHOLD) {
+                this.dragged = true;
+            }
+            if (this.dragged) {
+                const rect = this.fullscreenCanvas.getBoundingClientRect();
+                const scale = this.getFullscreenScale() * (rect.width / this.fullscreenCanvas.width);
+                this.setViewCenter(this.dragStart.center.x - dx / scale, this.dragStart.center.z - dy / scale);
+            }
+        });
+        window.addEventListener('mouseup', () => {
+            this.dragStart = null;
+        });
+        this.fullscreenCanvas.addEventListener('contextmenu', (event) => {
+            event.preventDefault();
+            this.waypointCallback?.(null);
+        });
+        
+        this.fullscreen.appendChild(this.fullscreenCanvas);
+        this.fullscreen.appendChild(hint);
+        this.fullscreen.appendChild(this.createLegend());
+        gameContainer.appendChild(this.fullscreen);
+    }
+    
+    private createLegend(): HTMLElement {
+        const legend = document.createElement('div');
+        legend.style.cssText = `
+            position: absolute;
+            top: 20px;
+            left: 20px;
+            padding: 10px 14px;
+            background: rgba(0, 0, 0, 0.7);
+            border: 2px solid #333;
+            border-radius: 10px;
+            color: white;
+            font-size: 13px;
+            line-height: 22px;
+        `;
+        
+        const entries: { label: string, color: string, shape: 'square' | 'circle' | 'line' }[] = [
+            { label: 'Route', color: MAP_ELEMENT_COLORS.road, shape: 'square' },
+            { label: 'Bâtiment', color: MAP_ELEMENT_COLORS.building, shape: 'square' },
+            { label: 'Lampadaire', color: MAP_ELEMENT_COLORS.streetlight, shape: 'circle' },
+            { label: 'Vous', color: '#FF0000', shape: 'circle' },
+            { label: 'Autres joueurs', color: '#00FF00', shape: 'circle' },
+            { label: 'Véhicule libre', color: POINT_OF_INTEREST_COLORS.vehicle, shape: 'square' },
+            { label: 'Votre véhicule', color: POINT_OF_INTEREST_COLORS.ownedVehicle, shape: 'square' },
+            { label: 'Destination', color: '#FFD600', shape: 'circle' },
+            { label: 'Itinéraire', color: '#4FC3F7', shape: 'line' }
+        ];
+        
+        for (const entry of entries) {
+            const row = document.createElement('div');
+            const swatch = document.createElement('span');
+            swatch.style.cssText = `
+                display: inline-block;
+                width: 12px;
+                height: ${entry.shape === 'line' ? 4 : 12}px;
+                margin-right: 8px;
+                vertical-align: middle;
+                background: ${entry.color};
+                border-radius: ${entry.shape === 'circle' ? '50%' : '2px'};
+            `;
+            row.appendChild(swatch);
+            row.appendChild(document.createTextNode(entry.label));
+            legend.appendChild(row);
+        }
+        return legend;
+    }
+    
+    // Carte reçue du serveur : la carte plein écran couvre l'étendue de ses routes
+    public setMapData(mapData: MapData) {
+        this.mapElements = mapData.elements ?? [];
+        
+        const roads = this.mapElements.filter((element) => element.type === 'road');
+        if (roads.length > 0) {
+            const margin = 20;
+            const xs = roads.flatMap((road) => [road.position.x - road.scale.x / 2, road.position.x + road.scale.x / 2]);
+            const zs = roads.flatMap((road) => [road.position.z - road.scale.z / 2, road.position.z + road.scale.z / 2]);
+            this.worldBounds = {
+                min: new THREE.Vector3(Math.min(...xs) - margin, 0, Math.min(...zs) - margin),
+                max: new THREE.Vector3(Math.max(...xs) + margin, 0, Math.max(...zs) + margin)
+            };
+        }
+        
+        this.drawMapLayer();
+        this.draw();
+    }
+    
+    public setNavigation(waypoint: MapPoint | null, route: MapPoint[], guidance: GpsGuidance | null) {
+        this.waypoint = waypoint;
+        this.route = route;
+        
+        let text = '';
+        if (guidance) {
+            text = this.formatGuidance(guidance);
+        } else if (waypoint) {
+            text = '🧭 Calcul de l\'itinéraire...';
+        }
+        if (this.guidanceLabel && this.guidanceLabel.textContent !== text) {
+            this.guidanceLabel.textContent = text;
+            this.guidanceLabel.style.display = text ? 'block' : 'none';
+        }
+    }
+    
+    public onWaypointSelected(callback: (waypoint: MapPoint | null) => void) {
+        this.waypointCallback = callback;
+    }
+    
+    public setPointsOfInterest(pointsOfInterest: PointOfInterest[]) {
+        this.pointsOfInterest = pointsOfInterest;
+    }
+    
+    public toggleFullscreen(): boolean {
+        this.fullscreenOpen = !this.fullscreenOpen;
+        if (this.fullscreenOpen) {
+            // Chaque ouverture repart de la carte entière
+            this.viewZoom = MIN_ZOOM;
+            this.setViewCenter(
+                (this.worldBounds.min.x + this.worldBounds.max.x) / 2,
+                (this.worldBounds.min.z + this.worldBounds.max.z) / 2
+            );
+        }
+        this.dragStart = null;
+        if (this.fullscreen) {
+            this.fullscreen.style.display = this.fullscreenOpen ? 'flex' : 'none';
+        }
+        this.draw();
+        return this.fullscreenOpen;
+    }
+    
+    public isFullscreenOpen(): boolean {
+        return this.fullscreenOpen;
+    }
+    
     public updatePlayerPosition(position: THREE.Vector3, rotation?: THREE.Euler) {
         this.playerPosition.copy(position);
         if (rotation) {
@@ -99,6 +398,11 @@ export class Minimap {
         this.draw();
     }
     
+    public clearOtherPlayers() {
+        this.otherPlayers.clear();
+        this.draw();
+    }
+
     public removeOtherPlayer(playerId: string) {
         this.otherPlayers.delete(playerId);
         this.draw();
@@ -120,11 +424,12 @@ export class Minimap {
         ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
         ctx.fillRect(0, 0, width, height);
         
-        // Dessiner la grille
+        // Dessiner les éléments du monde, puis la grille par-dessus
+        this.drawWorldElements();
         this.drawGrid();
         
-        // Dessiner les éléments du monde
-        this.drawWorldElements();
+        // Dessiner l'itinéraire du GPS et la destination
+        this.drawRoute();
         
         // Dessiner les autres joueurs
         this.drawOtherPlayers();
@@ -134,6 +439,10 @@ export class Minimap {
         
         // Dessiner la direction du joueur
         this.drawPlayerDirection();
+        
+        if (this.fullscreenOpen) {
+            this.drawFullscreen();
+        }
     }
     
     private drawGrid() {
@@ -163,59 +472,213 @@ export class Minimap {
         }
     }
     
+    // Copier la portion du cache centrée sur le joueur
     private drawWorldElements() {
+        const half = MINIMAP_WORLD_SPAN / 2;
+        this.drawLayers(
+            this.context,
+            this.playerPosition.x - half,
+            this.playerPosition.z - half,
+            MINIMAP_WORLD_SPAN,
+            this.canvas.width
+        );
+    }
+    
+    private drawLayers(ctx: CanvasRenderingContext2D, worldX: number, worldZ: number, span: number, size: number) {
+        const offset = CACHE_WORLD_SIZE / 2;
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(this.terrainLayer, worldX + offset, worldZ + offset, span, span, 0, 0, size, size);
+        ctx.drawImage(this.mapLayer, worldX + offset, worldZ + offset, span, span, 0, 0, size, size);
+        ctx.imageSmoothingEnabled = true;
+    }
+    
+    // Relief d'un chunk : couleur du bloc visible, éclaircie avec l'altitude
+    private drawChunkSurface(chunkX: number, chunkZ: number) {
+        const surface = this.blockManager?.getChunkSurface(chunkX, chunkZ);
+        if (!surface) return;
+        
+        const atlas = BlockTextureAtlas.getInstance();
+        const image = this.terrainContext.createImageData(surface.size, surface.size);
+        surface.types.forEach((type, column) => {
+            if (!type) return;
+            
+            const color = atlas.getTopColor(type);
+            const shade = Math.min(Math.max(0.7 + surface.heights[column] / 60, 0.6), 1.3);
+            image.data[column * 4] = Math.min(((color >> 16) & 0xff) * shade, 255);
+            image.data[column * 4 + 1] = Math.min(((color >> 8) & 0xff) * shade, 255);
+            image.data[column * 4 + 2] = Math.min((color & 0xff) * shade, 255);
+            image.data[column * 4 + 3] = 255;
+        });
+        
+        const offset = CACHE_WORLD_SIZE / 2;
+        this.terrainContext.putImageData(image, chunkX * surface.size + offset, chunkZ * surface.size + offset);
+    }
+    
+    // Routes, bâtiments et lampadaires de la carte, redessinés quand elle change
+    private drawMapLayer() {
+        const ctx = this.mapContext;
+        const offset = CACHE_WORLD_SIZE / 2;
+        ctx.clearRect(0, 0, CACHE_WORLD_SIZE, CACHE_WORLD_SIZE);
+        
+        for (const element of this.mapElements) {
+            // Le sol vient du relief des chunks
+            if (element.type === 'ground') continue;
+            
+            ctx.save();
+            ctx.translate(element.position.x + offset, element.position.z + offset);
+            ctx.rotate(-(element.rotation?.y ?? 0));
+            ctx.fillStyle = element.color ?? MAP_ELEMENT_COLORS[element.type];
+            
+            if (element.type === 'streetlight') {
+                ctx.beginPath();
+                ctx.arc(0, 0, 1, 0, Math.PI * 2);
+                ctx.fill();
+            } else {
+                ctx.globalAlpha = element.type === 'road' ? 0.85 : 0.9;
+                ctx.fillRect(-element.scale.x / 2, -element.scale.z / 2, element.scale.x, element.scale.z);
+            }
+            ctx.restore();
+        }
+    }
+    
+    private drawRoute() {
         const ctx = this.context;
         const width = this.canvas.width;
         const height = this.canvas.height;
         
-        // Dessiner la route principale (centrée sur le joueur)
-        ctx.fillStyle = 'rgba(100, 100, 100, 0.8)';
-        const roadWidth = 30;
-        const roadHeight = 200;
-        const roadX = this.worldToMinimapX(0) - (roadWidth / 2);
-        const roadY = this.worldToMinimapZ(0) - (roadHeight / 2);
-        ctx.fillRect(roadX, roadY, roadWidth, roadHeight);
-        
-        // Dessiner les bâtiments (seulement ceux visibles dans la zone)
-        ctx.fillStyle = 'rgba(150, 150, 150, 0.6)';
-        const buildings = [
-            { x: -45, z: -30, size: 15 },
-            { x: -45, z: 30, size: 18 },
-            { x: -60, z: 0, size: 10 },
-            { x: -60, z: -60, size: 12 },
-            { x: -60, z: 60, size: 14 },
-            { x: 45, z: -30, size: 12 },
-            { x: 45, z: 30, size: 16 },
-            { x: 60, z: 0, size: 16 },
-            { x: 60, z: -60, size: 10 },
-            { x: 60, z: 60, size: 18 }
-        ];
+        this.strokeRoute(ctx, (point) => ({
+            x: this.worldToMinimapX(point.x),
+            y: this.worldToMinimapZ(point.z)
+        }), 3);
         
-        buildings.forEach(building => {
-            const x = this.worldToMinimapX(building.x);
-            const y = this.worldToMinimapZ(building.z);
-            
-            // Ne dessiner que les bâtiments visibles dans la minimap
-            if (x >= -20 && x <= width + 20 && y >= -20 && y <= height + 20) {
-                const size = building.size / 4; // Réduire la taille pour la minimap
-                ctx.fillRect(x - size/2, y - size/2, size, size);
+        // Destination hors champ : épinglée au bord, dans sa direction
+        if (this.waypoint) {
+            const x = Math.min(Math.max(this.worldToMinimapX(this.waypoint.x), 6), width - 6);
+            const y = Math.min(Math.max(this.worldToMinimapZ(this.waypoint.z), 6), height - 6);
+            this.drawWaypointMarker(ctx, x, y, 5);
+        }
+    }
+    
+    private drawFullscreen() {
+        const ctx = this.fullscreenContext;
+        const width = this.fullscreenCanvas.width;
+        const height = this.fullscreenCanvas.height;
+        const scale = this.getFullscreenScale();
+        const project = (point: MapPoint) => this.worldToFullscreen(point.x, point.z);
+        
+        ctx.fillStyle = '#1b1f24';
+        ctx.fillRect(0, 0, width, height);
+        
+        // Toute l'étendue de la carte, depuis le cache
+        const span = width / scale;
+        const topLeft = this.fullscreenToWorld(0, 0);
+        this.drawLayers(ctx, topLeft.x, topLeft.z, span, width);
+        
+        this.strokeRoute(ctx, project, 5);
+        
+        // Points d'intérêt, nommés une fois la carte assez zoomée
+        for (const point of this.pointsOfInterest) {
+            const position = project(point);
+            ctx.save();
+            ctx.translate(position.x, position.y);
+            ctx.rotate(Math.PI / 4);
+            ctx.fillStyle = POINT_OF_INTEREST_COLORS[point.kind];
+            ctx.fillRect(-5, -5, 10, 10);
+            ctx.strokeStyle = '#000000';
+            ctx.lineWidth = 1;
+            ctx.strokeRect(-5, -5, 10, 10);
+            ctx.restore();
+            if (this.viewZoom >= 2) {
+                this.drawLabel(ctx, point.label, position.x, position.y);
             }
+        }
+        
+        if (this.waypoint) {
+            const marker = project(this.waypoint);
+            this.drawWaypointMarker(ctx, marker.x, marker.y, 8);
+        }
+        
+        this.otherPlayers.forEach((player) => {
+            const position = project({ x: player.position.x, z: player.position.z });
+            ctx.fillStyle = '#00FF00';
+            ctx.beginPath();
+            ctx.arc(position.x, position.y, 4, 0, Math.PI * 2);
+            ctx.fill();
+            this.drawLabel(ctx, player.name, position.x, position.y);
         });
         
-        // Dessiner les trottoirs
-        ctx.fillStyle = 'rgba(139, 115, 85, 0.6)';
-        const sidewalkWidth = 8;
-        const sidewalkHeight = 200;
+        // Joueur et sa direction
+        const player = project({ x: this.playerPosition.x, z: this.playerPosition.z });
+        const angle = this.playerRotation.y;
+        ctx.strokeStyle = '#FFFFFF';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(player.x, player.y);
+        ctx.lineTo(player.x + Math.sin(angle) * 14, player.y - Math.cos(angle) * 14);
+        ctx.stroke();
+        ctx.fillStyle = '#FF0000';
+        ctx.beginPath();
+        ctx.arc(player.x, player.y, 6, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+        this.drawLabel(ctx, 'Vous', player.x, player.y);
+    }
+    
+    // Nom à côté d'un marqueur, détouré pour rester lisible sur le relief
+    private drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number) {
+        ctx.font = 'bold 12px sans-serif';
+        ctx.textBaseline = 'bottom';
+        ctx.lineWidth = 3;
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+        ctx.strokeText(text, x + 8, y - 6);
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillText(text, x + 8, y - 6);
+    }
+    
+    private strokeRoute(
+        ctx: CanvasRenderingContext2D,
+        project: (point: MapPoint) => { x: number, y: number },
+        lineWidth: number
+    ) {
+        if (this.route.length < 2) return;
         
-        // Trottoir droit
-        const rightSidewalkX = this.worldToMinimapX(19) - (sidewalkWidth / 2);
-        const rightSidewalkY = this.worldToMinimapZ(0) - (sidewalkHeight / 2);
-        ctx.fillRect(rightSidewalkX, rightSidewalkY, sidewalkWidth, sidewalkHeight);
+        ctx.strokeStyle = '#4FC3F7';
+        ctx.lineWidth = lineWidth;
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        this.route.forEach((point, index) => {
+            const { x, y } = project(point);
+            if (index === 0) {
+                ctx.moveTo(x, y);
+            } else {
+                ctx.lineTo(x, y);
+            }
+        });
+        ctx.stroke();
+        ctx.lineJoin = 'miter';
+    }
+    
+    private drawWaypointMarker(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number) {
+        ctx.fillStyle = '#FFD600';
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+    }
+    
+    private formatGuidance(guidance: GpsGuidance): string {
+        const distance = `${Math.max(0, Math.round(guidance.distance))} m`;
+        const remaining = `${Math.max(0, Math.round(guidance.remaining))} m`;
         
-        // Trottoir gauche
-        const leftSidewalkX = this.worldToMinimapX(-19) - (sidewalkWidth / 2);
-        const leftSidewalkY = this.worldToMinimapZ(0) - (sidewalkHeight / 2);
-        ctx.fillRect(leftSidewalkX, leftSidewalkY, sidewalkWidth, sidewalkHeight);
+        if (guidance.turn === 'left') {
+            return `⬅️ Tourner à gauche dans ${distance} (arrivée à ${remaining})`;
+        }
+        if (guidance.turn === 'right') {
+            return `➡️ Tourner à droite dans ${distance} (arrivée à ${remaining})`;
+        }
+        return `🏁 Arrivée dans ${distance}`;
     }
     
     private drawOtherPlayers() {
@@ -309,9 +772,55 @@ export class Minimap {
         return normalizedZ * this.canvas.height;
     }
     
+    // Échelle de la carte plein écran : toute l'étendue des routes est visible
+    private getFullscreenScale(): number {
+        const extent = Math.max(
+            this.worldBounds.max.x - this.worldBounds.min.x,
+            this.worldBounds.max.z - this.worldBounds.min.z
+        );
+        return (this.fullscreenCanvas.width / extent) * this.viewZoom;
+    }
+    
+    // Centre de la vue, gardé au-dessus de la carte
+    private setViewCenter(x: number, z: number) {
+        this.viewCenter = {
+            x: Math.min(Math.max(x, this.worldBounds.min.x), this.worldBounds.max.x),
+            z: Math.min(Math.max(z, this.worldBounds.min.z), this.worldBounds.max.z)
+        };
+        this.draw();
+    }
+    
+    // Position de la souris en pixels du canvas, qui peut être affiché à une autre taille
+    private toCanvasPoint(event: MouseEvent): { x: number, y: number } {
+        const rect = this.fullscreenCanvas.getBoundingClientRect();
+        return {
+            x: (event.clientX - rect.left) * (this.fullscreenCanvas.width / rect.width),
+            y: (event.clientY - rect.top) * (this.fullscreenCanvas.height / rect.height)
+        };
+    }
+    
+    private worldToFullscreen(worldX: number, worldZ: number): { x: number, y: number } {
+        const scale = this.getFullscreenScale();
+        return {
+            x: this.fullscreenCanvas.width / 2 + (worldX - this.viewCenter.x) * scale,
+            y: this.fullscreenCanvas.height / 2 + (worldZ - this.viewCenter.z) * scale
+        };
+    }
+    
+    private fullscreenToWorld(canvasX: number, canvasY: number): MapPoint {
+        const scale = this.getFullscreenScale();
+        return {
+            x: this.viewCenter.x + (canvasX - this.fullscreenCanvas.width / 2) / scale,
+            z: this.viewCenter.z + (canvasY - this.fullscreenCanvas.height / 2) / scale
+        };
+    }
+    
     public destroy() {
         if (this.container && this.container.parentNode) {
             this.container.parentNode.removeChild(this.container);
         }
+        if (this.fullscreen && this.fullscreen.parentNode) {
+            this.fullscreen.parentNode.removeChild(this.fullscreen);
+        }
     }
 }
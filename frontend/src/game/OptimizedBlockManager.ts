@@ -1,16 +1,20 @@
 import * as THREE from 'three';
 import { PhysicsManager } from './PhysicsManager';
-
-export interface BlockFace {
-  x: number;
-  y: number;
-  z: number;
-  type: string;
-  face: 'top' | 'bottom' | 'north' | 'south' | 'east' | 'west';
-  vertices: number[];
-  normals: number[];
-  uvs: number[];
-}
+import { isLiquidBlockType, isSolidBlockType } from '@shared/movement';
+import { CHUNK_BINARY_CONTENT_TYPE, decodeChunk } from '@shared/chunk-codec';
+import {
+  BLOCK_FLAG_LIQUID,
+  BLOCK_FLAG_OPAQUE,
+  BLOCK_FLAG_SELF_VISIBLE,
+  ChunkMeshData,
+  ChunkMeshInput,
+  getPaddedVoxelIndex
+} from './ChunkMesher';
+import { BlockTextureAtlas, SELF_VISIBLE_BLOCK_TYPES, TRANSPARENT_BLOCK_TYPES } from './BlockTextureAtlas';
+import { ChunkMeshWorkerPool } from './ChunkMeshWorkerPool';
+import { VoxelLightEngine } from './VoxelLighting';
+import { WeatherEffects } from '@shared/weather';
+import { DEFAULT_WORLD_SEED } from '@shared/world';
 
 export interface Block {
   x: number;
@@ -29,10 +33,29 @@ export interface Chunk {
 export interface ChunkFaces {
   x: number;
   z: number;
-  faces: BlockFace[];
+  faceCount: number; // Quads après fusion des faces coplanaires
   lastUpdated: string;
   // Ajouter les données complètes du chunk pour la physique
   blocks?: Block[];
+  // Types de blocs indexés par position locale (accès O(1) pour les collisions)
+  blockTypes?: string[];
+}
+
+// Bloc visé par un lancer de rayon, avec la normale de la face touchée
+export interface BlockHit {
+  x: number;
+  y: number;
+  z: number;
+  normal: { x: number, y: number, z: number };
+}
+
+// Vue de dessus d'un chunk : bloc visible et hauteur de chaque colonne
+export interface ChunkSurface {
+  chunkX: number;
+  chunkZ: number;
+  size: number;
+  types: (string | null)[]; // Indexés par localZ * size + localX, null si colonne vide
+  heights: number[];
 }
 
 export interface SpawnPosition {
@@ -48,10 +71,15 @@ export interface SpawnResponse {
 
 export class OptimizedBlockManager {
   private scene: THREE.Scene;
-  private blockMaterials: Map<string, THREE.MeshLambertMaterial> = new Map();
+  private textureAtlas: BlockTextureAtlas = BlockTextureAtlas.getInstance();
+  private opaqueMaterial!: THREE.MeshLambertMaterial;
+  private transparentMaterial!: THREE.MeshLambertMaterial;
+  private transparentMeshes: Map<string, THREE.Mesh> = new Map(); // Triés selon la caméra
+  private lastSortPosition: THREE.Vector3 = new THREE.Vector3(Infinity, Infinity, Infinity);
   private loadedChunks: Map<string, ChunkFaces> = new Map();
   private chunkGroups: Map<string, THREE.Group> = new Map();
-  private chunkRadius: number = 4; // Rayon augmenté car chunks plus petits (16×16)
+  private baseChunkRadius: number = 4; // Rayon augmenté car chunks plus petits (16×16)
+  private chunkRadius: number = this.baseChunkRadius; // Réduit par mauvais temps
   private chunkSize: number = 16;
   private lastPlayerChunk: { x: number, z: number } | null = null;
   private spawnPosition: SpawnPosition | null = null;
@@ -59,6 +87,19 @@ export class OptimizedBlockManager {
   private lastUpdateTime: number = 0;
   private updateThrottle: number = 1000; // Mettre à jour au maximum toutes les 1 seconde
   
+  // Maillage des chunks dans des Web Workers
+  private meshWorkers: ChunkMeshWorkerPool = new ChunkMeshWorkerPool();
+  private blockPalette: string[] = ['air'];
+  private blockPaletteIndex: Map<string, number> = new Map([['air', 0]]);
+  private paletteFaceTiles: number[] = [0, 0, 0];
+  private paletteFlags: number[] = [0];
+  private meshVersions: Map<string, number> = new Map(); // Ignorer les maillages obsolètes
+  private lightEngine: VoxelLightEngine = new VoxelLightEngine(this.chunkSize);
+  private pendingRemesh: Set<string> = new Set();
+  private remeshTimer: ReturnType<typeof setTimeout> | null = null;
+  private chunkChangedCallback?: (chunkX: number, chunkZ: number) => void;
+  private worldSeed: number = DEFAULT_WORLD_SEED; // Monde de la room rejointe
+  
   // Gestionnaire de physique
   private physicsManager: PhysicsManager;
   
@@ -73,35 +114,14 @@ export class OptimizedBlockManager {
   }
 
   private initializeMaterials(): void {
-    const materialConfigs = {
-      stone: { color: 0x808080 },
-      dirt: { color: 0x8B4513 },
-      grass: { color: 0x228B22 },
-      sand: { color: 0xF4A460 },
-      water: { color: 0x006994, transparent: true, opacity: 0.8 },
-      bedrock: { color: 0x1C1C1C },
-      wood: { color: 0x8B4513 },
-      leaves: { color: 0x32CD32 },
-      snow: { color: 0xFFFFFF },
-      ice: { color: 0x87CEEB, transparent: true, opacity: 0.9 },
-      clay: { color: 0xCD853F },
-      gravel: { color: 0x696969 },
-      coal: { color: 0x2F2F2F },
-      iron: { color: 0xCD853F },
-      gold: { color: 0xFFD700 },
-      diamond: { color: 0x00FFFF },
-      road: { color: 0x404040 },
-      building_wall: { color: 0x8B7355 },
-      building_floor: { color: 0xD2B48C },
-      building_roof: { color: 0x8B0000 },
-      glass: { color: 0x87CEEB, transparent: true, opacity: 0.3 },
-      door: { color: 0x8B4513 },
-      window: { color: 0x87CEEB, transparent: true, opacity: 0.5 }
-    };
-
-    for (const [type, config] of Object.entries(materialConfigs)) {
-      this.blockMaterials.set(type, new THREE.MeshLambertMaterial(config));
-    }
+    // Un matériau pour toute la géométrie opaque, un autre pour la transparente :
+    // textures et opacités viennent de l'atlas
+    this.opaqueMaterial = this.textureAtlas.createChunkMaterial();
+    this.transparentMaterial = this.textureAtlas.createChunkMaterial({
+      transparent: true,
+      depthWrite: false,
+      side: THREE.DoubleSide // Surface de l'eau visible depuis le dessous
+    });
   }
 
   public async loadWorldData(): Promise<void> {
@@ -240,6 +260,7 @@ export class OptimizedBlockManager {
     }
     
     this.lastPlayerChunk = playerChunk;
+    this.updateChunkVisibility();
     console.log(`✅ ${chunksToLoad.length} nouveaux chunks optimisés chargés. Total: ${this.loadedChunks.size} chunks`);
   }
   
@@ -252,10 +273,13 @@ export class OptimizedBlockManager {
     }
     
     const startTime = performance.now();
+    const seed = this.worldSeed;
     
     try {
       const fetchStart = performance.now();
-      const response = await fetch(`http://localhost:3002/api/blocks/chunk/${chunkX}/${chunkZ}`);
+      const response = await fetch(`http://localhost:3002/api/blocks/chunk/${chunkX}/${chunkZ}?seed=${seed}`, {
+        headers: { Accept: CHUNK_BINARY_CONTENT_TYPE }
+      });
       const fetchTime = performance.now() - fetchStart;
       
       if (!response.ok) {
@@ -263,28 +287,39 @@ export class OptimizedBlockManager {
       }
       
       const parseStart = performance.now();
-      const chunk: Chunk = await response.json();
+      // Format binaire (palette + RLE) par défaut, JSON si le serveur ne le propose pas
+      const contentType = response.headers.get('content-type') || '';
+      const chunk: Chunk = contentType.includes(CHUNK_BINARY_CONTENT_TYPE)
+        ? decodeChunk(new Uint8Array(await response.arrayBuffer()))
+        : await response.json();
       const parseTime = performance.now() - parseStart;
       
-      const facesStart = performance.now();
-      const faces = this.processChunkFaces(chunk);
-      const facesTime = performance.now() - facesStart;
+      // Changement de monde pendant le chargement : chunk d'un autre monde
+      if (seed !== this.worldSeed) {
+        return;
+      }
       
       const chunkFaces: ChunkFaces = {
         x: chunkX,
         z: chunkZ,
-        faces,
+        faceCount: 0,
         lastUpdated: new Date().toISOString(),
-        blocks: chunk.blocks // Stocker les blocs pour la physique
+        blocks: chunk.blocks, // Stocker les blocs pour la physique
+        blockTypes: this.indexChunkBlocks(chunk)
       };
       
-
-      
       this.loadedChunks.set(key, chunkFaces);
+      this.chunkChangedCallback?.(chunkX, chunkZ);
+      const litChunks = this.lightEngine.addChunk(chunkX, chunkZ, chunkFaces.blockTypes!);
+      
+      const meshStart = performance.now();
+      await this.meshChunk(chunkFaces);
+      const meshTime = performance.now() - meshStart;
       
-      const renderStart = performance.now();
-      this.renderChunkFaces(chunkFaces);
-      const renderTime = performance.now() - renderStart;
+      // Les voisins déjà chargés peuvent maintenant masquer leurs faces de bordure,
+      // et ceux que la lumière du chunk a atteints doivent être rééclairés
+      litChunks.delete(key);
+      this.scheduleNeighbourRemesh(chunkX, chunkZ, litChunks);
       
       const totalTime = performance.now() - startTime;
       
@@ -299,57 +334,138 @@ export class OptimizedBlockManager {
     }
   }
   
-  // Traiter les faces d'un chunk (face culling côté frontend optimisé)
-  private processChunkFaces(chunk: Chunk): BlockFace[] {
-    const startTime = performance.now();
-    const faces: BlockFace[] = [];
-    
-    // Créer une Map pour un accès O(1) aux blocs
-    const blockMap = new Map<string, Block>();
-    for (const block of chunk.blocks) {
-      const key = `${block.x},${block.y},${block.z}`;
-      blockMap.set(key, block);
-    }
-    
-    const mapTime = performance.now() - startTime;
-    // Parcourir seulement les blocs solides
-    const solidBlocks = chunk.blocks.filter(block => block.type !== 'air');
+  // Mailler un chunk dans un worker puis remplacer son groupe dans la scène
+  private async meshChunk(chunkFaces: ChunkFaces): Promise<void> {
+    const key = this.getChunkKey(chunkFaces.x, chunkFaces.z);
+    const version = (this.meshVersions.get(key) ?? 0) + 1;
+    this.meshVersions.set(key, version);
     
-    const faceStart = performance.now();
+    const mesh = await this.meshWorkers.mesh(this.buildMeshInput(chunkFaces));
     
-    // Vérifier chaque face du bloc
-    const facesToCheck = [
-      { face: 'top' as const, dx: 0, dy: 1, dz: 0 },
-      { face: 'bottom' as const, dx: 0, dy: -1, dz: 0 },
-      { face: 'north' as const, dx: 0, dy: 0, dz: -1 },
-      { face: 'south' as const, dx: 0, dy: 0, dz: 1 },
-      { face: 'east' as const, dx: 1, dy: 0, dz: 0 },
-      { face: 'west' as const, dx: -1, dy: 0, dz: 0 }
-    ];
+    // Chunk déchargé ou remaillé entre-temps : résultat obsolète
+    if (this.loadedChunks.get(key) !== chunkFaces || this.meshVersions.get(key) !== version) {
+      return;
+    }
     
-    for (const block of solidBlocks) {
-      for (const { face, dx, dy, dz } of facesToCheck) {
-        const neighborX = block.x + dx;
-        const neighborY = block.y + dy;
-        const neighborZ = block.z + dz;
-        
-        // Vérifier si la face est visible (accès O(1))
-        const neighborKey = `${neighborX},${neighborY},${neighborZ}`;
-        const neighborBlock = blockMap.get(neighborKey);
-        
-        // La face est visible si le voisin est AIR ou n'existe pas
-        if (!neighborBlock || neighborBlock.type === 'air') {
-          // Cette face est visible
-          const faceData = this.generateBlockFace(block, face);
-          faces.push(faceData);
+    chunkFaces.faceCount = mesh.quadCount;
+    this.removeChunkGroup(key);
+    this.renderChunkMesh(key, mesh);
+  }
+  
+  // Volume de voxels du chunk avec une bordure d'un bloc prise dans les chunks voisins
+  private buildMeshInput(chunkFaces: ChunkFaces): ChunkMeshInput {
+    const size = this.chunkSize;
+    const blockTypes = chunkFaces.blockTypes ?? [];
+    const height = Math.ceil(blockTypes.length / (size * size));
+    const voxels = new Uint8Array((size + 2) * (size + 2) * height);
+    const light = new Uint8Array(voxels.length);
+    const originX = chunkFaces.x * size;
+    const originZ = chunkFaces.z * size;
+    
+    const west = this.loadedChunks.get(this.getChunkKey(chunkFaces.x - 1, chunkFaces.z))?.blockTypes;
+    const east = this.loadedChunks.get(this.getChunkKey(chunkFaces.x + 1, chunkFaces.z))?.blockTypes;
+    const north = this.loadedChunks.get(this.getChunkKey(chunkFaces.x, chunkFaces.z - 1))?.blockTypes;
+    const south = this.loadedChunks.get(this.getChunkKey(chunkFaces.x, chunkFaces.z + 1))?.blockTypes;
+    
+    for (let y = 0; y < height; y++) {
+      for (let pz = 0; pz < size + 2; pz++) {
+        for (let px = 0; px < size + 2; px++) {
+          let localX = px - 1;
+          let localZ = pz - 1;
+          let source: string[] | undefined = blockTypes;
+          
+          if (localX < 0 || localX >= size) {
+            if (localZ < 0 || localZ >= size) continue; // Coins : inutiles pour les faces
+            source = localX < 0 ? west : east;
+            localX = localX < 0 ? size - 1 : 0;
+          } else if (localZ < 0 || localZ >= size) {
+            source = localZ < 0 ? north : south;
+            localZ = localZ < 0 ? size - 1 : 0;
+          }
+          
+          light[getPaddedVoxelIndex(size, px, y, pz)] = this.lightEngine.getLight(originX + px - 1, y, originZ + pz - 1);
+          const type = source?.[(y * size + localZ) * size + localX];
+          if (type && type !== 'air') {
+            voxels[getPaddedVoxelIndex(size, px, y, pz)] = this.getPaletteIndex(type);
+          }
         }
       }
     }
     
-    const faceTime = performance.now() - faceStart;
-    const totalTime = performance.now() - startTime;
+    return {
+      chunkX: chunkFaces.x,
+      chunkZ: chunkFaces.z,
+      size,
+      height,
+      faceTiles: Uint16Array.from(this.paletteFaceTiles),
+      blockFlags: Uint8Array.from(this.paletteFlags),
+      voxels,
+      light
+    };
+  }
+  
+  private getPaletteIndex(type: string): number {
+    let index = this.blockPaletteIndex.get(type);
+    if (index === undefined) {
+      index = this.blockPalette.length;
+      this.blockPalette.push(type);
+      this.blockPaletteIndex.set(type, index);
+      this.paletteFaceTiles.push(...this.textureAtlas.getFaceTiles(type));
+      this.paletteFlags.push(this.getBlockFlags(type));
+    }
+    return index;
+  }
+  
+  private getBlockFlags(type: string): number {
+    let flags = TRANSPARENT_BLOCK_TYPES.includes(type) ? 0 : BLOCK_FLAG_OPAQUE;
+    if (isLiquidBlockType(type)) flags |= BLOCK_FLAG_LIQUID;
+    if (SELF_VISIBLE_BLOCK_TYPES.includes(type)) flags |= BLOCK_FLAG_SELF_VISIBLE;
+    return flags;
+  }
+  
+  // Regrouper les remaillages des voisins d'un chunk qui vient d'être chargé
+  private scheduleNeighbourRemesh(chunkX: number, chunkZ: number, litChunks: Set<string> = new Set()): void {
+    const keys = [...litChunks];
+    for (const [dx, dz] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      keys.push(this.getChunkKey(chunkX + dx, chunkZ + dz));
+    }
+    for (const key of keys) {
+      if (this.loadedChunks.has(key)) {
+        this.pendingRemesh.add(key);
+      }
+    }
     
-    return faces;
+    if (this.pendingRemesh.size > 0 && !this.remeshTimer) {
+      this.remeshTimer = setTimeout(() => {
+        this.remeshTimer = null;
+        const keys = Array.from(this.pendingRemesh);
+        this.pendingRemesh.clear();
+        for (const key of keys) {
+          const chunkFaces = this.loadedChunks.get(key);
+          if (chunkFaces) {
+            this.meshChunk(chunkFaces).catch(error => {
+              console.error(`❌ Erreur lors du remaillage du chunk (${key}):`, error);
+            });
+          }
+        }
+      }, 50);
+    }
+  }
+  
+  // Indexer les blocs d'un chunk par position locale
+  private indexChunkBlocks(chunk: Chunk): string[] {
+    const blockTypes: string[] = [];
+    for (const block of chunk.blocks) {
+      if (block.y < 0) continue;
+      blockTypes[this.getLocalBlockIndex(block.x, block.y, block.z)] = block.type;
+    }
+    return blockTypes;
+  }
+  
+  private getLocalBlockIndex(x: number, y: number, z: number): number {
+    const localX = ((x % this.chunkSize) + this.chunkSize) % this.chunkSize;
+    const localZ = ((z % this.chunkSize) + this.chunkSize) % this.chunkSize;
+    return (y * this.chunkSize + localZ) * this.chunkSize + localX;
   }
   
   // Obtenir un bloc dans un chunk
@@ -359,134 +475,122 @@ export class OptimizedBlockManager {
     ) || null;
   }
   
-  // Générer la géométrie d'une face de bloc (optimisé)
-  private generateBlockFace(block: Block, face: 'top' | 'bottom' | 'north' | 'south' | 'east' | 'west'): BlockFace {
-    const x = block.x;
-    const y = block.y;
-    const z = block.z;
-    
-    // Calculer les vertices directement (éviter les objets intermédiaires)
-    let vertices: number[];
-    let normals: number[];
-    
-    switch (face) {
-      case 'top':
-        vertices = [x, y + 1, z, x, y + 1, z + 1, x + 1, y + 1, z + 1, x + 1, y + 1, z];
-        normals = [0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0];
-        break;
-      case 'bottom':
-        vertices = [x, y, z, x, y, z + 1, x + 1, y, z + 1, x + 1, y, z];
-        normals = [0, -1, 0, 0, -1, 0, 0, -1, 0, 0, -1, 0];
-        break;
-      case 'north':
-        vertices = [x, y, z, x, y + 1, z, x + 1, y + 1, z, x + 1, y, z];
-        normals = [0, 0, -1, 0, 0, -1, 0, 0, -1, 0, 0, -1];
-        break;
-      case 'south':
-        vertices = [x + 1, y, z + 1, x + 1, y + 1, z + 1, x, y + 1, z + 1, x, y, z + 1];
-        normals = [0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1];
-        break;
-      case 'east':
-        vertices = [x + 1, y, z, x + 1, y + 1, z, x + 1, y + 1, z + 1, x + 1, y, z + 1];
-        normals = [1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0];
-        break;
-      case 'west':
-        vertices = [x, y, z + 1, x, y + 1, z + 1, x, y + 1, z, x, y, z];
-        normals = [-1, 0, 0, -1, 0, 0, -1, 0, 0, -1, 0, 0];
-        break;
-    }
-    
-    // UVs constants pour toutes les faces
-    const uvs = [0, 0, 1, 0, 1, 1, 0, 1];
-    
-    return {
-      x: x,
-      y: y,
-      z: z,
-      type: block.type,
-      face: face,
-      vertices: vertices,
-      normals: normals,
-      uvs: uvs
-    };
-  }
-  
-  private renderChunkFaces(chunkFaces: ChunkFaces): void {
-    const key = this.getChunkKey(chunkFaces.x, chunkFaces.z);
-    
+  private renderChunkMesh(key: string, mesh: ChunkMeshData): void {
     // Créer un groupe pour ce chunk
     const chunkGroup = new THREE.Group();
     chunkGroup.name = `chunk-${key}`;
     
-    // Grouper les faces par type de bloc pour optimiser le rendu
-    const facesByType = new Map<string, BlockFace[]>();
-    
-    for (const face of chunkFaces.faces) {
-      if (!facesByType.has(face.type)) {
-        facesByType.set(face.type, []);
-      }
-      facesByType.get(face.type)!.push(face);
-    }
-    
-    // Debug: compter les faces par type
-    const faceCounts = Array.from(facesByType.entries()).map(([type, faces]) => ({
-      type,
-      count: faces.length,
-      faces: faces.map(f => f.face)
-    }));
-    
-    // Créer un mesh par type de bloc avec toutes ses faces
-    for (const [blockType, faces] of facesByType) {
-      const material = this.blockMaterials.get(blockType);
-      if (!material) {
-        console.warn(`Matériau manquant pour le type de bloc: ${blockType}`);
-        continue;
-      }
-      
-      
+    // Un mesh par passe (opaque, transparente), avec les buffers produits par le worker
+    for (const group of mesh.groups) {
+      const isTransparent = group.pass === 'transparent';
       const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(group.positions, 3));
+      geometry.setAttribute('normal', new THREE.BufferAttribute(group.normals, 3));
+      geometry.setAttribute('uv', new THREE.BufferAttribute(group.uvs, 2));
+      geometry.setAttribute('tile', new THREE.BufferAttribute(group.tiles, 1));
+      geometry.setAttribute('color', new THREE.BufferAttribute(group.colors, 3));
+      geometry.setIndex(new THREE.BufferAttribute(group.indices, 1));
       
-      const vertices: number[] = [];
-      const normals: number[] = [];
-      const uvs: number[] = [];
-      const indices: number[] = [];
-      
-      let vertexIndex = 0;
+      const blockMesh = new THREE.Mesh(geometry, isTransparent ? this.transparentMaterial : this.opaqueMaterial);
+      blockMesh.castShadow = !isTransparent;
+      blockMesh.receiveShadow = true;
       
-      for (const face of faces) {
-        // Ajouter les vertices
-        vertices.push(...face.vertices);
-        
-        // Ajouter les normales
-        normals.push(...face.normals);
-        
-        // Ajouter les UVs
-        uvs.push(...face.uvs);
-        
-        // Ajouter les indices pour former des triangles
-        indices.push(
-          vertexIndex, vertexIndex + 1, vertexIndex + 2,
-          vertexIndex, vertexIndex + 2, vertexIndex + 3
-        );
-        
-        vertexIndex += 4;
+      if (isTransparent) {
+        this.transparentMeshes.set(key, blockMesh);
+        if (Number.isFinite(this.lastSortPosition.x)) {
+          this.sortTransparentMesh(blockMesh, this.lastSortPosition);
+        }
       }
       
-      geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
-      geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
-      geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-      geometry.setIndex(indices);
-      
-      const mesh = new THREE.Mesh(geometry, material);
-      mesh.castShadow = true;
-      mesh.receiveShadow = true;
-      
-      chunkGroup.add(mesh);
+      chunkGroup.add(blockMesh);
     }
     
+    chunkGroup.visible = this.isWithinViewDistance(key);
     this.scene.add(chunkGroup);
     this.chunkGroups.set(key, chunkGroup);
+  }
+  
+  // Météo : sol glissant et distance d'affichage réduite
+  public applyWeather(effects: WeatherEffects): void {
+    this.physicsManager.setGrip(effects.grip);
+    
+    const radius = Math.max(2, Math.round(this.baseChunkRadius * effects.viewDistance));
+    if (radius === this.chunkRadius) {
+      return;
+    }
+    const widened = radius > this.chunkRadius;
+    this.chunkRadius = radius;
+    this.updateChunkVisibility();
     
+    // Charger les chunks redevenus visibles quand le temps s'éclaircit
+    if (widened && this.lastPlayerChunk) {
+      this.loadChunksAroundPlayer(this.lastPlayerChunk.x, this.lastPlayerChunk.z);
+    }
+  }
+  
+  // Adhérence au sol courante, pour la prédiction du joueur
+  public getGroundGrip(): number {
+    return this.physicsManager.getGrip();
+  }
+  
+  // Les chunks au-delà de la distance d'affichage restent chargés mais ne sont plus dessinés
+  private updateChunkVisibility(): void {
+    for (const [key, chunkGroup] of this.chunkGroups) {
+      chunkGroup.visible = this.isWithinViewDistance(key);
+    }
+  }
+  
+  private isWithinViewDistance(key: string): boolean {
+    const chunk = this.loadedChunks.get(key);
+    if (!chunk || !this.lastPlayerChunk) {
+      return true;
+    }
+    return Math.max(
+      Math.abs(chunk.x - this.lastPlayerChunk.x),
+      Math.abs(chunk.z - this.lastPlayerChunk.z)
+    ) <= this.chunkRadius;
+  }
+  
+  // Animer l'eau et retrier les faces transparentes quand la caméra s'est déplacée
+  public updateTransparentPass(cameraPosition: THREE.Vector3, time: number): void {
+    this.textureAtlas.setTime(time);
+    
+    if (this.lastSortPosition.distanceToSquared(cameraPosition) < 0.25) {
+      return;
+    }
+    this.lastSortPosition.copy(cameraPosition);
+    
+    for (const mesh of this.transparentMeshes.values()) {
+      this.sortTransparentMesh(mesh, cameraPosition);
+    }
+  }
+  
+  // Réécrire l'index pour dessiner les quads du plus lointain au plus proche
+  // (Three.js ne trie que les objets entre eux, pas les faces d'un même mesh)
+  private sortTransparentMesh(mesh: THREE.Mesh, cameraPosition: THREE.Vector3): void {
+    const positions = mesh.geometry.getAttribute('position').array as Float32Array;
+    const index = mesh.geometry.getIndex()!;
+    const quadCount = positions.length / 12;
+    const distances = new Float32Array(quadCount);
+    
+    for (let quad = 0; quad < quadCount; quad++) {
+      // Centre du quad : milieu de la diagonale entre les sommets 0 et 2
+      const offset = quad * 12;
+      const dx = (positions[offset] + positions[offset + 6]) / 2 - cameraPosition.x;
+      const dy = (positions[offset + 1] + positions[offset + 7]) / 2 - cameraPosition.y;
+      const dz = (positions[offset + 2] + positions[offset + 8]) / 2 - cameraPosition.z;
+      distances[quad] = dx * dx + dy * dy + dz * dz;
+    }
+    
+    const order = Array.from({ length: quadCount }, (_, quad) => quad);
+    order.sort((a, b) => distances[b] - distances[a]);
+    
+    const indices = index.array;
+    order.forEach((quad, i) => {
+      const base = quad * 4;
+      indices.set([base, base + 1, base + 2, base, base + 2, base + 3], i * 6);
+    });
+    index.needsUpdate = true;
   }
   
   public updatePlayerPosition(worldX: number, worldZ: number): void {
@@ -516,10 +620,38 @@ export class OptimizedBlockManager {
     }, 100);
   }
 
+  // Prévenir (la minimap) à chaque chunk chargé ou modifié
+  public onChunkChanged(callback: (chunkX: number, chunkZ: number) => void): void {
+    this.chunkChangedCallback = callback;
+  }
+  
+  // Bloc le plus haut de chaque colonne d'un chunk chargé
+  public getChunkSurface(chunkX: number, chunkZ: number): ChunkSurface | null {
+    const blockTypes = this.loadedChunks.get(this.getChunkKey(chunkX, chunkZ))?.blockTypes;
+    if (!blockTypes) return null;
+    
+    const size = this.chunkSize;
+    const height = Math.ceil(blockTypes.length / (size * size));
+    const types: (string | null)[] = new Array(size * size).fill(null);
+    const heights: number[] = new Array(size * size).fill(0);
+    
+    for (let column = 0; column < size * size; column++) {
+      for (let y = height - 1; y >= 0; y--) {
+        const type = blockTypes[y * size * size + column];
+        if (type && type !== 'air') {
+          types[column] = type;
+          heights[column] = y;
+          break;
+        }
+      }
+    }
+    return { chunkX, chunkZ, size, types, heights };
+  }
+
   public getBlockCount(): number {
     let count = 0;
     for (const chunkFaces of this.loadedChunks.values()) {
-      count += chunkFaces.faces.length;
+      count += chunkFaces.faceCount;
     }
     return count;
   }
@@ -527,21 +659,36 @@ export class OptimizedBlockManager {
   public getWorldBounds(): { minX: number, maxX: number, minY: number, maxY: number, minZ: number, maxZ: number } | null {
     if (this.loadedChunks.size === 0) return null;
     
-    const allFaces: BlockFace[] = [];
+    let bounds: { minX: number, maxX: number, minY: number, maxY: number, minZ: number, maxZ: number } | null = null;
     for (const chunkFaces of this.loadedChunks.values()) {
-      allFaces.push(...chunkFaces.faces);
+      for (const block of chunkFaces.blocks ?? []) {
+        if (block.type === 'air') continue;
+        if (!bounds) {
+          bounds = { minX: block.x, maxX: block.x, minY: block.y, maxY: block.y, minZ: block.z, maxZ: block.z };
+          continue;
+        }
+        bounds.minX = Math.min(bounds.minX, block.x);
+        bounds.maxX = Math.max(bounds.maxX, block.x);
+        bounds.minY = Math.min(bounds.minY, block.y);
+        bounds.maxY = Math.max(bounds.maxY, block.y);
+        bounds.minZ = Math.min(bounds.minZ, block.z);
+        bounds.maxZ = Math.max(bounds.maxZ, block.z);
+      }
     }
     
-    if (allFaces.length === 0) return null;
-    
-    return {
-      minX: Math.min(...allFaces.map(f => f.x)),
-      maxX: Math.max(...allFaces.map(f => f.x)),
-      minY: Math.min(...allFaces.map(f => f.y)),
-      maxY: Math.max(...allFaces.map(f => f.y)),
-      minZ: Math.min(...allFaces.map(f => f.z)),
-      maxZ: Math.max(...allFaces.map(f => f.z))
-    };
+    return bounds;
+  }
+
+  // Room sur un autre monde (seed) : recharger tous les chunks autour du joueur
+  public setWorldSeed(seed: number): void {
+    if (seed === this.worldSeed) return;
+    
+    this.worldSeed = seed;
+    const center = this.lastPlayerChunk;
+    this.unloadAllChunks();
+    if (center) {
+      this.loadChunksAroundPosition(center.x * this.chunkSize, center.z * this.chunkSize);
+    }
   }
 
   public async regenerateWorld(): Promise<void> {
@@ -554,7 +701,7 @@ export class OptimizedBlockManager {
         mapStatus.style.color = '#FFA500';
       }
       
-      const response = await fetch('http://localhost:3002/api/blocks/regenerate', {
+      const response = await fetch(`http://localhost:3002/api/blocks/regenerate?seed=${this.worldSeed}`, {
         method: 'POST'
       });
       
@@ -566,8 +713,7 @@ export class OptimizedBlockManager {
       console.log('✅ Map régénérée:', result);
       
       // Vider les chunks chargés
-      this.loadedChunks.clear();
-      this.chunkGroups.clear();
+      this.unloadAllChunks();
       
       // Recharger les chunks autour du spawn
       const spawnPos = await this.getSpawnPosition();
@@ -594,63 +740,29 @@ export class OptimizedBlockManager {
 
   private createTestWorld(): void {
     
-    // Créer quelques faces de test avec spawn urbain
-    const testFaces: BlockFace[] = [
-      // Plateforme de spawn urbaine
-      {
-        x: 0, y: 10, z: 0, type: 'stone', face: 'top',
-        vertices: [0, 11, 0, 1, 11, 0, 1, 11, 1, 0, 11, 1],
-        normals: [0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0],
-        uvs: [0, 0, 1, 0, 1, 1, 0, 1]
-      },
-      {
-        x: 1, y: 10, z: 0, type: 'stone', face: 'top',
-        vertices: [1, 11, 0, 2, 11, 0, 2, 11, 1, 1, 11, 1],
-        normals: [0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0],
-        uvs: [0, 0, 1, 0, 1, 1, 0, 1]
-      },
-      {
-        x: 0, y: 10, z: 1, type: 'stone', face: 'top',
-        vertices: [0, 11, 1, 1, 11, 1, 1, 11, 2, 0, 11, 2],
-        normals: [0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0],
-        uvs: [0, 0, 1, 0, 1, 1, 0, 1]
-      },
-      {
-        x: 1, y: 10, z: 1, type: 'stone', face: 'top',
-        vertices: [1, 11, 1, 2, 11, 1, 2, 11, 2, 1, 11, 2],
-        normals: [0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0],
-        uvs: [0, 0, 1, 0, 1, 1, 0, 1]
-      },
-      // Terrain de référence en bas
-      {
-        x: 0, y: 0, z: 0, type: 'grass', face: 'top',
-        vertices: [0, 1, 0, 1, 1, 0, 1, 1, 1, 0, 1, 1],
-        normals: [0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0],
-        uvs: [0, 0, 1, 0, 1, 1, 0, 1]
-      }
+    // Plateforme de spawn urbaine et terrain de référence en bas
+    const testBlocks: Block[] = [
+      { x: 0, y: 10, z: 0, type: 'stone' },
+      { x: 1, y: 10, z: 0, type: 'stone' },
+      { x: 0, y: 10, z: 1, type: 'stone' },
+      { x: 1, y: 10, z: 1, type: 'stone' },
+      { x: 0, y: 0, z: 0, type: 'grass' }
     ];
     
     const testChunk: ChunkFaces = {
       x: 0,
       z: 0,
-      faces: testFaces,
+      faceCount: 0,
       lastUpdated: new Date().toISOString(),
-      blocks: [
-        // Blocs de sol à Y=10 pour la physique
-        { x: 0, y: 10, z: 0, type: 'stone' },
-        { x: 1, y: 10, z: 0, type: 'stone' },
-        { x: 0, y: 10, z: 1, type: 'stone' },
-        { x: 1, y: 10, z: 1, type: 'stone' },
-        { x: -1, y: 10, z: 0, type: 'stone' },
-        { x: 0, y: 10, z: -1, type: 'stone' },
-        { x: -1, y: 10, z: -1, type: 'stone' },
-        { x: 1, y: 10, z: -1, type: 'stone' },
-        { x: -1, y: 10, z: 1, type: 'stone' }
-      ]
+      blocks: testBlocks,
+      blockTypes: this.indexChunkBlocks({ x: 0, z: 0, blocks: testBlocks, lastUpdated: new Date().toISOString() })
     };
     
     this.loadedChunks.set('0,0', testChunk);
-    this.renderChunkFaces(testChunk);
+    this.lightEngine.addChunk(0, 0, testChunk.blockTypes!);
+    this.meshChunk(testChunk).catch(error => {
+      console.error('❌ Erreur lors du maillage du monde de test:', error);
+    });
     
     
     // Vérifier que le chunk est bien dans loadedChunks
@@ -709,6 +821,7 @@ export class OptimizedBlockManager {
         this.lastPlayerChunk.z !== playerChunkZ) {
       
       this.lastPlayerChunk = { x: playerChunkX, z: playerChunkZ };
+      this.updateChunkVisibility();
       
       // Charger les chunks autour du joueur EN PREMIER
       this.loadChunksAroundPlayer(playerChunkX, playerChunkZ);
@@ -784,6 +897,27 @@ export class OptimizedBlockManager {
   
   // Décharger un chunk
   private unloadChunk(key: string): void {
+    const chunkFaces = this.loadedChunks.get(key);
+    if (chunkFaces) {
+      this.lightEngine.removeChunk(chunkFaces.x, chunkFaces.z);
+    }
+    this.removeChunkGroup(key);
+    this.loadedChunks.delete(key);
+    this.meshVersions.delete(key);
+    this.pendingRemesh.delete(key);
+  }
+  
+  // Tout décharger (scène, lumière, maillages en attente) pour repartir de zéro
+  private unloadAllChunks(): void {
+    for (const key of Array.from(this.loadedChunks.keys())) {
+      this.unloadChunk(key);
+    }
+    this.failedChunks.clear();
+    // Sinon loadChunksAroundPosition croit les chunks du joueur déjà chargés
+    this.lastPlayerChunk = null;
+  }
+  
+  private removeChunkGroup(key: string): void {
     const chunkGroup = this.chunkGroups.get(key);
     if (chunkGroup) {
       this.scene.remove(chunkGroup);
@@ -797,8 +931,105 @@ export class OptimizedBlockManager {
       
       this.chunkGroups.delete(key);
     }
+    this.transparentMeshes.delete(key);
+  }
+  
+  // Appliquer une modification reçue du serveur et remailler uniquement les chunks concernés
+  public applyBlockUpdate(x: number, y: number, z: number, type: string): void {
+    const key = this.getChunkKey(Math.floor(x / this.chunkSize), Math.floor(z / this.chunkSize));
+    const chunkFaces = this.loadedChunks.get(key);
+    if (!chunkFaces?.blocks) {
+      return; // Chunk non chargé : il contiendra la modification à son chargement
+    }
     
-    this.loadedChunks.delete(key);
+    const block = chunkFaces.blocks.find(b => b.x === x && b.y === y && b.z === z);
+    if (block) {
+      block.type = type;
+    } else {
+      chunkFaces.blocks.push({ x, y, z, type });
+    }
+    if (chunkFaces.blockTypes) {
+      chunkFaces.blockTypes[this.getLocalBlockIndex(x, y, z)] = type;
+    }
+    
+    chunkFaces.lastUpdated = new Date().toISOString();
+    this.chunkChangedCallback?.(chunkFaces.x, chunkFaces.z);
+    
+    // Un bloc en bordure change aussi les faces visibles du chunk voisin,
+    // et la lumière modifiée peut s'étendre aux chunks alentour
+    const chunksToMesh = [chunkFaces];
+    for (const litKey of this.lightEngine.updateBlock(x, y, z)) {
+      const litChunk = this.loadedChunks.get(litKey);
+      if (litChunk && !chunksToMesh.includes(litChunk)) chunksToMesh.push(litChunk);
+    }
+    const localX = ((x % this.chunkSize) + this.chunkSize) % this.chunkSize;
+    const localZ = ((z % this.chunkSize) + this.chunkSize) % this.chunkSize;
+    const neighbourOffsets: [number, number][] = [];
+    if (localX === 0) neighbourOffsets.push([-1, 0]);
+    if (localX === this.chunkSize - 1) neighbourOffsets.push([1, 0]);
+    if (localZ === 0) neighbourOffsets.push([0, -1]);
+    if (localZ === this.chunkSize - 1) neighbourOffsets.push([0, 1]);
+    for (const [dx, dz] of neighbourOffsets) {
+      const neighbour = this.loadedChunks.get(this.getChunkKey(chunkFaces.x + dx, chunkFaces.z + dz));
+      if (neighbour && !chunksToMesh.includes(neighbour)) chunksToMesh.push(neighbour);
+    }
+    
+    for (const chunk of chunksToMesh) {
+      this.meshChunk(chunk).catch(error => {
+        console.error(`❌ Erreur lors du remaillage du chunk (${chunk.x}, ${chunk.z}):`, error);
+      });
+    }
+  }
+  
+  // Lancer de rayon voxel (DDA) : premier bloc solide sur le trajet
+  public raycastBlock(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number): BlockHit | null {
+    const dir = direction.clone().normalize();
+    let x = Math.floor(origin.x);
+    let y = Math.floor(origin.y);
+    let z = Math.floor(origin.z);
+    
+    const stepX = Math.sign(dir.x);
+    const stepY = Math.sign(dir.y);
+    const stepZ = Math.sign(dir.z);
+    const tDeltaX = stepX !== 0 ? Math.abs(1 / dir.x) : Infinity;
+    const tDeltaY = stepY !== 0 ? Math.abs(1 / dir.y) : Infinity;
+    const tDeltaZ = stepZ !== 0 ? Math.abs(1 / dir.z) : Infinity;
+    
+    // Distance jusqu'à la première frontière de bloc sur chaque axe
+    let tMaxX = stepX > 0 ? (x + 1 - origin.x) * tDeltaX : (origin.x - x) * tDeltaX;
+    let tMaxY = stepY > 0 ? (y + 1 - origin.y) * tDeltaY : (origin.y - y) * tDeltaY;
+    let tMaxZ = stepZ > 0 ? (z + 1 - origin.z) * tDeltaZ : (origin.z - z) * tDeltaZ;
+    if (stepX === 0) tMaxX = Infinity;
+    if (stepY === 0) tMaxY = Infinity;
+    if (stepZ === 0) tMaxZ = Infinity;
+    
+    const normal = { x: 0, y: 0, z: 0 };
+    let t = 0;
+    
+    while (t <= maxDistance) {
+      if (isSolidBlockType(this.getBlockAt(x, y, z))) {
+        return { x, y, z, normal: { ...normal } };
+      }
+      
+      if (tMaxX < tMaxY && tMaxX < tMaxZ) {
+        x += stepX;
+        t = tMaxX;
+        tMaxX += tDeltaX;
+        normal.x = -stepX; normal.y = 0; normal.z = 0;
+      } else if (tMaxY < tMaxZ) {
+        y += stepY;
+        t = tMaxY;
+        tMaxY += tDeltaY;
+        normal.x = 0; normal.y = -stepY; normal.z = 0;
+      } else {
+        z += stepZ;
+        t = tMaxZ;
+        tMaxZ += tDeltaZ;
+        normal.x = 0; normal.y = 0; normal.z = -stepZ;
+      }
+    }
+    
+    return null;
   }
   
   // Obtenir la hauteur du sol à une position
@@ -838,7 +1069,7 @@ export class OptimizedBlockManager {
   }
 
     // Obtenir le type de bloc à une position (pour la physique) - OPTIMISÉ
-    private getBlockAt(x: number, y: number, z: number): string | null {
+    public getBlockAt(x: number, y: number, z: number): string | null {
         const chunkX = Math.floor(x / this.chunkSize);
         const chunkZ = Math.floor(z / this.chunkSize);
         const chunkKey = this.getChunkKey(chunkX, chunkZ);
@@ -853,13 +1084,10 @@ export class OptimizedBlockManager {
         const blockY = Math.floor(y);
         const blockZ = Math.floor(z);
         
-        // Chercher dans les faces uniquement (pas de blocks stockés)
-        if (chunk.faces && chunk.faces.length > 0) {
-            for (const face of chunk.faces) {
-                if (face.x === blockX && face.y === blockY && face.z === blockZ) {
-                    return face.type;
-                }
-            }
+        // Accès direct via l'index des blocs du chunk
+        if (chunk.blockTypes) {
+            if (blockY < 0) return 'air';
+            return chunk.blockTypes[this.getLocalBlockIndex(blockX, blockY, blockZ)] ?? 'air';
         }
         
         // Si pas de bloc trouvé, c'est de l'air
@@ -906,10 +1134,17 @@ export class OptimizedBlockManager {
   }
 
   public dispose(): void {
-    // Disposer de tous les matériaux
-    for (const material of this.blockMaterials.values()) {
-      material.dispose();
+    // Arrêter les workers de maillage
+    if (this.remeshTimer) {
+      clearTimeout(this.remeshTimer);
+      this.remeshTimer = null;
     }
+    this.meshWorkers.dispose();
+    
+    // Disposer de tous les matériaux
+    this.opaqueMaterial.dispose();
+    this.transparentMaterial.dispose();
+    this.transparentMeshes.clear();
     
     // Disposer de tous les groupes de chunks
     for (const chunkGroup of this.chunkGroups.values()) {
@@ -4,6 +4,20 @@ export class OtherPlayersManager {
     constructor(scene) {
         this.scene = scene;
         this.players = new Map();
+        
+        // Interpolation des snapshots : les joueurs distants sont affichés avec un léger retard
+        this.interpolationDelay = 100; // ms, ajusté selon la gigue mesurée
+        this.minInterpolationDelay = 50;
+        this.maxInterpolationDelay = 400;
+        this.maxExtrapolation = 250; // ms d'extrapolation maximum si un paquet est en retard
+        this.bufferDuration = 1000; // ms de snapshots conservés par joueur
+        
+        // Estimation de l'horloge serveur et de la gigue réseau
+        this.clockOffset = null; // heure locale - heure serveur
+        this.lastSnapshotArrival = null;
+        this.lastSnapshotServerTime = null;
+        this.snapshotInterval = 50;
+        this.jitter = 0;
     }
 
     addPlayer(playerData) {
@@ -56,7 +70,8 @@ export class OtherPlayersManager {
             outline: outlineMesh,
             nameSprite: nameSprite,
             healthBar: healthBar,
-            data: playerData
+            data: playerData,
+            snapshots: [] // { time, position, rotation } triés par heure serveur
         });
         
         // Ajouter à la scène
@@ -143,14 +158,56 @@ export class OtherPlayersManager {
         }
     }
 
-    updatePlayer(playerId, position, rotation, isMoving, speed) {
+    // Appelé une fois par snapshot reçu pour suivre l'horloge serveur et la gigue
+    onSnapshotReceived(serverTime) {
+        const now = Date.now();
+        
+        // Le décalage minimum observé correspond aux paquets les plus rapides
+        const offset = now - serverTime;
+        if (this.clockOffset === null || offset < this.clockOffset) {
+            this.clockOffset = offset;
+        } else {
+            this.clockOffset += (offset - this.clockOffset) * 0.01; // Suivre la dérive lentement
+        }
+        
+        if (this.lastSnapshotArrival !== null && serverTime > this.lastSnapshotServerTime) {
+            const arrivalDelta = now - this.lastSnapshotArrival;
+            const serverDelta = serverTime - this.lastSnapshotServerTime;
+            
+            this.snapshotInterval += (serverDelta - this.snapshotInterval) * 0.1;
+            this.jitter += (Math.abs(arrivalDelta - serverDelta) - this.jitter) * 0.1;
+            
+            // Assez de retard pour toujours avoir deux snapshots autour du temps de rendu
+            const targetDelay = THREE.MathUtils.clamp(
+                this.snapshotInterval * 2 + this.jitter * 2,
+                this.minInterpolationDelay,
+                this.maxInterpolationDelay
+            );
+            this.interpolationDelay += (targetDelay - this.interpolationDelay) * 0.05;
+        }
+        
+        this.lastSnapshotArrival = now;
+        this.lastSnapshotServerTime = serverTime;
+    }
+
+    updatePlayer(playerId, position, rotation, isMoving, speed, serverTime = Date.now()) {
         const player = this.players.get(playerId);
         if (player) {
-            // Mettre à jour la position avec interpolation pour un mouvement fluide
-            player.group.position.lerp(new THREE.Vector3(position.x, position.y, position.z), 0.1);
+            // Ajouter le snapshot au buffer (ignorer les paquets arrivés dans le désordre)
+            const snapshots = player.snapshots;
+            const last = snapshots[snapshots.length - 1];
+            if (!last || serverTime > last.time) {
+                snapshots.push({
+                    time: serverTime,
+                    position: new THREE.Vector3(position.x, position.y, position.z),
+                    rotation: new THREE.Euler(rotation.x, rotation.y, rotation.z)
+                });
+            }
             
-            // Mettre à jour la rotation
-            player.group.rotation.set(rotation.x, rotation.y, rotation.z);
+            // Limiter la taille du buffer
+            while (snapshots.length > 2 && serverTime - snapshots[0].time > this.bufferDuration) {
+                snapshots.shift();
+            }
             
             // Changer l'opacité si le joueur bouge (effet de "pulsation")
             if (isMoving) {
@@ -168,6 +225,83 @@ export class OtherPlayersManager {
             player.data.speed = speed;
         }
     }
+    
+    // Afficher chaque joueur distant à (heure serveur - délai d'interpolation)
+    update() {
+        if (this.clockOffset === null) return;
+        
+        const renderTime = Date.now() - this.clockOffset - this.interpolationDelay;
+        
+        this.players.forEach(player => {
+            const snapshots = player.snapshots;
+            if (!snapshots || snapshots.length === 0) return;
+            
+            // Retirer les snapshots déjà dépassés (garder celui juste avant le temps de rendu)
+            while (snapshots.length > 2 && snapshots[1].time <= renderTime) {
+                snapshots.shift();
+            }
+            
+            const first = snapshots[0];
+            const last = snapshots[snapshots.length - 1];
+            
+            if (snapshots.length === 1 || renderTime <= first.time) {
+                this.applySnapshot(player, first.position, first.rotation.y);
+                return;
+            }
+            
+            if (renderTime <= last.time) {
+                // Interpoler entre les deux snapshots qui encadrent le temps de rendu
+                let from = first;
+                let to = snapshots[1];
+                for (let i = 1; i < snapshots.length; i++) {
+                    if (snapshots[i].time >= renderTime) {
+                        from = snapshots[i - 1];
+                        to = snapshots[i];
+                        break;
+                    }
+                }
+                const alpha = (renderTime - from.time) / (to.time - from.time);
+                this.applySnapshot(
+                    player,
+                    from.position.clone().lerp(to.position, alpha),
+                    this.lerpAngle(from.rotation.y, to.rotation.y, alpha)
+                );
+                return;
+            }
+            
+            // Paquet en retard : extrapoler brièvement à partir des deux derniers snapshots
+            const previous = snapshots[snapshots.length - 2];
+            const extrapolation = Math.min(renderTime - last.time, this.maxExtrapolation);
+            const alpha = extrapolation / (last.time - previous.time);
+            const velocity = last.position.clone().sub(previous.position);
+            this.applySnapshot(
+                player,
+                last.position.clone().addScaledVector(velocity, alpha),
+                last.rotation.y
+            );
+        });
+    }
+    
+    applySnapshot(player, position, yaw) {
+        player.group.position.copy(position);
+        player.group.rotation.set(0, yaw, 0);
+    }
+    
+    // Interpolation d'angle par le chemin le plus court
+    lerpAngle(from, to, alpha) {
+        let delta = (to - from) % (Math.PI * 2);
+        if (delta > Math.PI) delta -= Math.PI * 2;
+        if (delta < -Math.PI) delta += Math.PI * 2;
+        return from + delta * alpha;
+    }
+
+    // Masquer l'avatar d'un joueur pendant qu'il conduit
+    setPlayerVisible(playerId, visible) {
+        const player = this.players.get(playerId);
+        if (player) {
+            player.group.visible = visible;
+        }
+    }
 
     getAllPlayers() {
         return Array.from(this.players.values()).map(p => p.data);
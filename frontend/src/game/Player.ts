@@ -1,4 +1,22 @@
 import * as THREE from 'three';
+import { MOVEMENT_CONSTANTS, isLiquidBlockType, isSolidBlockType, stepMovement } from '@shared/movement';
+
+// Une frame d'entrée, numérotée pour la réconciliation avec le serveur
+export interface InputFrame {
+    seq: number;
+    dt: number;
+    forward: boolean;
+    backward: boolean;
+    left: boolean;
+    right: boolean;
+    jump: boolean;
+    run: boolean;
+    sprint: boolean;
+    yaw: number;
+    // État obtenu après simulation de cette frame
+    velocity?: THREE.Vector3;
+    grounded?: boolean;
+}
 
 export class Player {
     // Propriétés de base
@@ -28,6 +46,7 @@ export class Player {
     isGrounded: boolean;
     isWalking: boolean;
     isMoving: boolean;
+    isSwimming: boolean;
     speed: number;
     
     // Mode godmode
@@ -75,6 +94,15 @@ export class Player {
     
     // Mesh du joueur
     playerMesh: THREE.Mesh;
+    
+    // Prédiction client et réconciliation serveur
+    inputSequence: number = 0;
+    pendingInputs: InputFrame[] = []; // Entrées pas encore confirmées par le serveur
+    unsentInputs: InputFrame[] = []; // Entrées pas encore envoyées
+    maxPendingInputs: number = 600; // ~10 secondes à 60 FPS
+    correctionOffset: THREE.Vector3 = new THREE.Vector3(); // Erreur de prédiction lissée visuellement
+    correctionSmoothing: number = 10; // Vitesse de résorption de l'erreur (par seconde)
+    snapDistance: number = 2; // Au-delà, on téléporte au lieu de lisser
 
     constructor() {
         this.group = new THREE.Group();
@@ -96,30 +124,31 @@ export class Player {
         this.cameraQuaternion = new THREE.Quaternion();
         
         // Paramètres de mouvement style Call of Duty - SAUT RAPIDE ET NORMAL
-        this.walkSpeed = 12; // Plus rapide
-        this.runSpeed = 18; // Plus rapide
-        this.jumpForce = 15; // Force normale mais rapide
+        this.walkSpeed = MOVEMENT_CONSTANTS.walkSpeed;
+        this.runSpeed = MOVEMENT_CONSTANTS.runSpeed;
+        this.jumpForce = MOVEMENT_CONSTANTS.jumpSpeed;
         this.isGrounded = false;
         this.isWalking = false;
         this.isMoving = false;
+        this.isSwimming = false;
         this.speed = 0;
         
         // Mode godmode
         this.isGodmode = false;
-        this.godmodeSpeed = 30.0; // Plus rapide en godmode
+        this.godmodeSpeed = MOVEMENT_CONSTANTS.godmodeSpeed;
         
         // Système de collision AABB (comme Minecraft)
         this.collisionBox = {
-            width: 0.6,   // Largeur du joueur
-            height: 1.8, // Hauteur du joueur
-            depth: 0.6   // Profondeur du joueur
+            width: MOVEMENT_CONSTANTS.playerWidth,   // Largeur du joueur
+            height: MOVEMENT_CONSTANTS.playerHeight, // Hauteur du joueur
+            depth: MOVEMENT_CONSTANTS.playerWidth    // Profondeur du joueur
         };
         
         // Mouvement simple (pas de friction complexe)
-        this.moveSpeed = 12.0; // Vitesse encore plus rapide
-        this.sprintSpeed = 18.0; // Vitesse de sprint (50% plus rapide)
-        this.jumpSpeed = 15.0; // Force de saut pour sauter au-dessus d'un bloc
-        this.gravity = -120.0; // Gravité ultra forte pour un mouvement instantané
+        this.moveSpeed = MOVEMENT_CONSTANTS.walkSpeed;
+        this.sprintSpeed = MOVEMENT_CONSTANTS.runSpeed; // Vitesse de sprint (50% plus rapide)
+        this.jumpSpeed = MOVEMENT_CONSTANTS.jumpSpeed; // Force de saut pour sauter au-dessus d'un bloc
+        this.gravity = MOVEMENT_CONSTANTS.gravity; // Gravité ultra forte pour un mouvement instantané
         
         // Système de sprint et stamina
         this.stamina = 100; // Stamina actuelle
@@ -175,12 +204,15 @@ export class Player {
         }
         
         // Nouveau système de mouvement simple (comme Minecraft)
-        this.handleInput(deltaTime);
-        this.updateSimplePhysics(deltaTime);
+        // Chaque frame d'entrée est simulée localement (prédiction) puis envoyée au serveur
+        const frame = this.handleInput(deltaTime);
+        this.simulateInput(frame);
+        this.recordInput(frame);
+        this.updateCorrection(deltaTime);
         this.updateCamera();
     }
     
-    handleInput(deltaTime) {
+    handleInput(deltaTime): InputFrame {
         // Rotation de la caméra (Call of Duty style)
         const mouseDelta = this.inputManager.getMouseDelta();
         
@@ -194,6 +226,7 @@ export class Player {
         this.pitch = Math.max(this.minPitch, Math.min(this.maxPitch, this.pitch));
         
         // Appliquer directement les rotations (ordre YXZ pour Call of Duty)
+        this.rotation.set(this.pitch, this.yaw, 0, 'YXZ');
         if (this.camera) {
             this.camera.rotation.set(this.pitch, this.yaw, 0, 'YXZ');
         }
@@ -201,52 +234,136 @@ export class Player {
         // Mouvement simple (comme Minecraft)
         const movementInput = this.inputManager.getMovementInput();
         
-        // Calculer la direction du mouvement
-        const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.camera!.quaternion);
-        const right = new THREE.Vector3(1, 0, 0).applyQuaternion(this.camera!.quaternion);
+        // Gestion du sprint
+        this.handleSprint(deltaTime);
         
-        const moveDirection = new THREE.Vector3();
-        if (movementInput.forward) moveDirection.add(forward);
-        if (movementInput.backward) moveDirection.sub(forward);
-        if (movementInput.left) moveDirection.sub(right);
-        if (movementInput.right) moveDirection.add(right);
+        return {
+            seq: ++this.inputSequence,
+            dt: deltaTime,
+            forward: !!movementInput.forward,
+            backward: !!movementInput.backward,
+            left: !!movementInput.left,
+            right: !!movementInput.right,
+            jump: !!movementInput.jump,
+            run: !!movementInput.run,
+            sprint: this.isSprinting,
+            yaw: this.yaw
+        };
+    }
+    
+    // Simulation déterministe d'une frame d'entrée (utilisée aussi pour rejouer les entrées)
+    // Même code que la validation serveur : voir backend/src/shared/movement.ts
+    simulateInput(frame: InputFrame) {
+        const state = {
+            position: this.position,
+            velocity: this.velocity,
+            grounded: this.isGrounded
+        };
         
-        moveDirection.normalize();
+        const result = stepMovement(state, frame, frame.dt, this.isSolidAt, {
+            godmode: this.isGodmode,
+            descend: frame.run, // Shift pour descendre en godmode
+            isLiquid: this.isLiquidAt,
+            grip: this.blockManager?.getGroundGrip?.() ?? 1 // Sol mouillé par la pluie
+        });
         
-        // Gestion du sprint
-        this.handleSprint(deltaTime);
+        // Mettre à jour l'état de mouvement
+        this.isGrounded = state.grounded;
+        this.isSwimming = result.swimming;
+        this.speed = Math.sqrt(this.velocity.x * this.velocity.x + this.velocity.z * this.velocity.z);
+        this.isMoving = this.speed > 0;
+        this.isWalking = this.isMoving;
         
-        // Appliquer le mouvement horizontal (simple, pas de friction)
-        if (moveDirection.lengthSq() > 0) {
-            const currentSpeed = this.isSprinting ? this.sprintSpeed : this.moveSpeed;
-            this.velocity.x = moveDirection.x * currentSpeed;
-            this.velocity.z = moveDirection.z * currentSpeed;
-        } else {
-            this.velocity.x = 0;
-            this.velocity.z = 0;
+        // Mettre à jour la position du groupe
+        this.group.position.copy(this.position);
+    }
+    
+    // Un bloc bloque-t-il le joueur ? (sol plat à y = 0 sans monde chargé)
+    private isSolidAt = (x: number, y: number, z: number): boolean => {
+        if (!this.blockManager) {
+            return y < 0;
         }
+        return isSolidBlockType(this.blockManager.getBlockAt(x, y, z));
+    };
+    
+    private isLiquidAt = (x: number, y: number, z: number): boolean => {
+        return !!this.blockManager && isLiquidBlockType(this.blockManager.getBlockAt(x, y, z));
+    };
+    
+    private recordInput(frame: InputFrame) {
+        frame.velocity = this.velocity.clone();
+        frame.grounded = this.isGrounded;
         
-        // Appliquer le saut simple
-        if (movementInput.jump && this.isGrounded) {
-            this.velocity.y = this.jumpSpeed;
-            this.isGrounded = false;
+        this.pendingInputs.push(frame);
+        this.unsentInputs.push(frame);
+        
+        // Éviter une croissance infinie si le serveur ne répond pas
+        if (this.pendingInputs.length > this.maxPendingInputs) {
+            this.pendingInputs.shift();
+        }
+        if (this.unsentInputs.length > this.maxPendingInputs) {
+            this.unsentInputs.shift();
+        }
+    }
+    
+    // Récupérer les entrées à envoyer au serveur
+    consumeUnsentInputs(): InputFrame[] {
+        const inputs = this.unsentInputs;
+        this.unsentInputs = [];
+        return inputs;
+    }
+    
+    // Appliquer un état serveur faisant autorité puis rejouer les entrées non confirmées
+    reconcile(ackSeq: number, serverPosition: { x: number, y: number, z: number }) {
+        let lastAcked: InputFrame | null = null;
+        while (this.pendingInputs.length > 0 && this.pendingInputs[0].seq <= ackSeq) {
+            lastAcked = this.pendingInputs.shift()!;
         }
         
-        // Mouvement vertical en godmode
-        if (this.isGodmode) {
-            if (movementInput.jump) { // Espace pour monter
-                this.velocity.y = this.godmodeSpeed;
-            } else if (movementInput.run) { // Shift pour descendre
-                this.velocity.y = -this.godmodeSpeed;
-            } else {
-                this.velocity.y = 0; // Pas de gravité en godmode
-            }
+        if (this.isDead) return;
+        
+        const predictedPosition = this.position.clone();
+        
+        this.position.set(serverPosition.x, serverPosition.y, serverPosition.z);
+        if (lastAcked) {
+            this.velocity.copy(lastAcked.velocity!);
+            this.isGrounded = !!lastAcked.grounded;
         }
         
-        // Mettre à jour l'état de mouvement
-        this.isMoving = moveDirection.lengthSq() > 0;
-        this.isWalking = this.isMoving;
-        this.speed = Math.sqrt(this.velocity.x * this.velocity.x + this.velocity.z * this.velocity.z);
+        for (const frame of this.pendingInputs) {
+            this.simulateInput(frame);
+            frame.velocity = this.velocity.clone();
+            frame.grounded = this.isGrounded;
+        }
+        
+        // Lisser l'erreur de prédiction au lieu de téléporter le joueur
+        const error = predictedPosition.sub(this.position);
+        if (error.length() > this.snapDistance) {
+            this.correctionOffset.set(0, 0, 0);
+        } else {
+            this.correctionOffset.add(error);
+        }
+        this.group.position.copy(this.position).add(this.correctionOffset);
+    }
+    
+    // Téléporter le joueur (spawn serveur) et oublier l'historique de prédiction
+    teleport(position: { x: number, y: number, z: number }) {
+        this.position.set(position.x, position.y, position.z);
+        this.velocity.set(0, 0, 0);
+        this.isGrounded = false;
+        this.pendingInputs = [];
+        this.unsentInputs = [];
+        this.correctionOffset.set(0, 0, 0);
+        this.group.position.copy(this.position);
+    }
+    
+    private updateCorrection(deltaTime: number) {
+        const decay = Math.max(0, 1 - this.correctionSmoothing * deltaTime);
+        this.correctionOffset.multiplyScalar(decay);
+        if (this.correctionOffset.lengthSq() < 0.0001) {
+            this.correctionOffset.set(0, 0, 0);
+        }
+        this.group.position.copy(this.position).add(this.correctionOffset);
     }
     
     handleSprint(deltaTime) {
@@ -275,137 +392,10 @@ export class Player {
         }
     }
     
-    // Nouveau système de physique simple (comme Minecraft)
-    updateSimplePhysics(deltaTime) {
-        if (this.isGodmode) {
-            // En godmode, pas de gravité
-            this.position.addScaledVector(this.velocity, deltaTime);
-        } else {
-            // Vérifier si on est au sol au début
-            this.checkGrounded();
-            
-            // Appliquer la gravité
-            this.velocity.y += this.gravity * deltaTime;
-            
-            // Mouvement par axe (comme Minecraft)
-            this.moveAxis('x', deltaTime);
-            this.moveAxis('y', deltaTime);
-            this.moveAxis('z', deltaTime);
-        }
-        
-        // Mettre à jour la position du groupe
-        this.group.position.copy(this.position);
-    }
-    
-    // Mouvement par axe avec collision AABB (comme Minecraft)
-    moveAxis(axis: 'x' | 'y' | 'z', deltaTime: number) {
-        const oldPos = this.position[axis];
-        this.position[axis] += this.velocity[axis] * deltaTime;
-        
-        // Vérifier les collisions pour cet axe spécifiquement
-        if (this.checkCollisionAxis(axis)) {
-            // Collision détectée, annuler le mouvement
-            this.position[axis] = oldPos;
-            this.velocity[axis] = 0;
-            
-            // Si c'est l'axe Y et qu'on tombe, on est au sol
-            if (axis === 'y' && this.velocity.y < 0) {
-                this.isGrounded = true;
-                // Repositionner proprement au-dessus du bloc
-                this.position.y = Math.floor(this.position.y) + 1;
-            }
-        }
-    }
-    
-    // Vérification de collision AABB optimisée (comme Minecraft)
-    checkCollision(): boolean {
-        if (!this.blockManager) return false;
-        
-        // Calculer les coins de la boîte de collision
-        const minX = this.position.x - this.collisionBox.width / 2;
-        const maxX = this.position.x + this.collisionBox.width / 2;
-        const minY = this.position.y;
-        const maxY = this.position.y + this.collisionBox.height;
-        const minZ = this.position.z - this.collisionBox.depth / 2;
-        const maxZ = this.position.z + this.collisionBox.depth / 2;
-        
-        // Vérifier seulement les blocs dans la zone de collision (optimisé)
-        const startX = Math.floor(minX);
-        const endX = Math.floor(maxX);
-        const startY = Math.floor(minY);
-        const endY = Math.floor(maxY);
-        const startZ = Math.floor(minZ);
-        const endZ = Math.floor(maxZ);
-        
-        // Vérifier les blocs dans la zone de collision
-        for (let x = startX; x <= endX; x++) {
-            for (let y = startY; y <= endY; y++) {
-                for (let z = startZ; z <= endZ; z++) {
-                    const blockType = this.blockManager.getBlockAt(x, y, z);
-                    if (blockType && blockType !== 'air') {
-                        return true; // Collision détectée
-                    }
-                }
-            }
-        }
-        
-        return false; // Pas de collision
-    }
-    
-    // Vérification de collision par axe spécifique (pour éviter les blocages de saut)
-    checkCollisionAxis(axis: 'x' | 'y' | 'z'): boolean {
-        if (!this.blockManager) return false;
-        
-        // Pour l'axe Y (vertical), logique spéciale pour le saut
-        if (axis === 'y') {
-            if (this.velocity.y > 0) {
-                // En montant (saut), vérifier seulement les blocs au niveau des pieds
-                const feetY = this.position.y - 0.1;
-                const blockAtFeet = this.blockManager.getBlockAt(this.position.x, feetY, this.position.z);
-                return blockAtFeet && blockAtFeet !== 'air';
-            } else {
-                // En descendant, vérifier seulement les pieds
-                const feetY = this.position.y - 0.1;
-                const blockAtFeet = this.blockManager.getBlockAt(this.position.x, feetY, this.position.z);
-                return blockAtFeet && blockAtFeet !== 'air';
-            }
-        }
-        
-        // Pour les axes X et Z, désactiver la collision pour éviter le glissement
-        if (axis === 'x' || axis === 'z') {
-            return false; // Pas de collision horizontale
-        }
-    }
-    
-    // Vérifier si le joueur est au sol
-    checkGrounded() {
-        if (!this.blockManager) {
-            // Fallback : considérer qu'on est au sol si Y <= 0
-            this.isGrounded = this.position.y <= 0;
-            return;
-        }
-        
-        // Vérifier s'il y a un bloc sous les pieds
-        const feetY = this.position.y - 0.5; // Plus bas pour détecter le sol
-        const blockUnderFeet = this.blockManager.getBlockAt(
-            this.position.x, 
-            feetY, 
-            this.position.z
-        );
-        
-        // Si il y a un bloc sous les pieds et qu'on ne tombe pas, on est au sol
-        if (blockUnderFeet && blockUnderFeet !== 'air' && this.velocity.y <= 0) {
-            this.isGrounded = true;
-        } else {
-            this.isGrounded = false;
-        }
-    }
-    
-    
     updateCamera() {
-        // Positionner la caméra
+        // Positionner la caméra (avec la correction de prédiction lissée)
         if (this.camera) {
-            this.camera.position.copy(this.position);
+            this.camera.position.copy(this.position).add(this.correctionOffset);
             this.camera.position.y += 1.6; // Hauteur des yeux
         }
         
@@ -25,8 +25,18 @@ export interface MapElement {
   };
 }
 
+// Émission des lampadaires et des fenêtres éclairées, de jour et de nuit
+const STREETLIGHT_EMISSIVE = { day: 0.05, night: 1.2 };
+const WINDOW_EMISSIVE = { day: 0, night: 0.8 };
+// Part des fenêtres allumées la nuit
+const LIT_WINDOW_RATIO = 0.6;
+
 export class RoadManager {
   private modelManager: ModelManager;
+  // Matériaux allumés la nuit par le cycle jour/nuit
+  private streetlightMaterials: THREE.MeshLambertMaterial[] = [];
+  private litWindowMaterials: THREE.MeshLambertMaterial[] = [];
+  private nightLightsOn = false;
 
   constructor(modelManager: ModelManager) {
     this.modelManager = modelManager;
@@ -419,8 +429,9 @@ export class RoadManager {
     const lampMaterial = new THREE.MeshLambertMaterial({
       color: '#FFFFCC',
       emissive: '#FFFFAA',
-      emissiveIntensity: 0.3 // Réduit
+      emissiveIntensity: this.nightLightsOn ? STREETLIGHT_EMISSIVE.night : STREETLIGHT_EMISSIVE.day
     });
+    this.streetlightMaterials.push(lampMaterial);
     
     const lamp = new THREE.Mesh(lampGeometry, lampMaterial);
     lamp.position.set(armLength, element.scale.y * 0.6, 0);
@@ -462,6 +473,34 @@ export class RoadManager {
     return streetlightGroup;
   }
 
+  // Vitre de façade, éclairée de l'intérieur la nuit pour une partie des fenêtres
+  private createWindowMaterial(): THREE.MeshLambertMaterial {
+    const windowMaterial = new THREE.MeshLambertMaterial({
+      color: '#87CEEB',
+      transparent: true,
+      opacity: 0.7,
+      emissive: '#FFD27F',
+      emissiveIntensity: WINDOW_EMISSIVE.day
+    });
+    
+    if (Math.random() < LIT_WINDOW_RATIO) {
+      windowMaterial.emissiveIntensity = this.nightLightsOn ? WINDOW_EMISSIVE.night : WINDOW_EMISSIVE.day;
+      this.litWindowMaterials.push(windowMaterial);
+    }
+    return windowMaterial;
+  }
+  
+  // Allumer ou éteindre les lampadaires et les fenêtres (cycle jour/nuit)
+  setNightLighting(on: boolean): void {
+    this.nightLightsOn = on;
+    for (const material of this.streetlightMaterials) {
+      material.emissiveIntensity = on ? STREETLIGHT_EMISSIVE.night : STREETLIGHT_EMISSIVE.day;
+    }
+    for (const material of this.litWindowMaterials) {
+      material.emissiveIntensity = on ? WINDOW_EMISSIVE.night : WINDOW_EMISSIVE.day;
+    }
+  }
+
   createBuilding(element: MapElement): THREE.Group {
     const buildingGroup = new THREE.Group();
     
@@ -499,11 +538,7 @@ export class RoadManager {
         // Fenêtres sur la face avant (Z+)
         for (let i = 0; i < 3; i++) {
           const windowGeometry = new THREE.PlaneGeometry(windowSize, windowSize * 0.8);
-          const windowMaterial = new THREE.MeshLambertMaterial({
-            color: '#87CEEB',
-            transparent: true,
-            opacity: 0.7
-          });
+          const windowMaterial = this.createWindowMaterial();
           
           const window = new THREE.Mesh(windowGeometry, windowMaterial);
           window.position.set(
@@ -517,11 +552,7 @@ export class RoadManager {
         // Fenêtres sur la face arrière (Z-)
         for (let i = 0; i < 3; i++) {
           const windowGeometry = new THREE.PlaneGeometry(windowSize, windowSize * 0.8);
-          const windowMaterial = new THREE.MeshLambertMaterial({
-            color: '#87CEEB',
-            transparent: true,
-            opacity: 0.7
-          });
+          const windowMaterial = this.createWindowMaterial();
           
           const window = new THREE.Mesh(windowGeometry, windowMaterial);
           window.position.set(
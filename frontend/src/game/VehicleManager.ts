@@ -0,0 +1,652 @@
+import * as THREE from 'three';
+import { collidesAt, isSolidBlockType, Vec3 } from '@shared/movement';
+import {
+  DRIVER_SEAT,
+  getVehicleForward,
+  stepVehicle,
+  VEHICLE_CONSTANTS,
+  VehicleInput,
+  VehicleModel,
+  VehicleState,
+  VehicleStepResult
+} from '@shared/vehicle';
+import { OptimizedBlockManager } from './OptimizedBlockManager';
+
+const ENTER_DISTANCE = 3.5;
+const CAR_COLORS = [0xc0392b, 0x2980b9, 0xf1c40f, 0x27ae60, 0xecf0f1, 0x2c3e50, 0xe67e22, 0x8e44ad];
+
+// Caméra de poursuite, derrière et au-dessus de la voiture
+const CHASE_DISTANCE = 7;
+const CHASE_HEIGHT = 3;
+const CHASE_LOOK_HEIGHT = 1.2;
+const CHASE_SMOOTHING = 6;
+
+// Voitures conduites par les autres joueurs : lissage et extrapolation bornée
+const REMOTE_SMOOTHING = 10;
+const REMOTE_SNAP_DISTANCE = 10;
+const MAX_REMOTE_EXTRAPOLATION = 0.25; // secondes
+
+const WHEEL_RADIUS = 0.35;
+const WRECK_COLOR = 0x2b2b2b;
+
+// Silhouette de chaque modèle : habitacle (longueur, hauteur, décalage vers l'arrière)
+const MODEL_CABINS: Record<VehicleModel, { length: number; height: number; offset: number }> = {
+  sedan: { length: 2, height: 0.55, offset: 0.3 },
+  coupe: { length: 1.5, height: 0.45, offset: 0.4 },
+  pickup: { length: 1.3, height: 0.6, offset: -0.5 }
+};
+
+// Une voiture abandonnée s'arrête frein à main serré
+const PARKED_INPUT: VehicleInput = { accelerate: false, brake: false, left: false, right: false, handbrake: true };
+
+export interface VehicleExit {
+  vehicleId: string;
+  position: Vec3;
+}
+
+// Véhicule tel que décrit par le serveur
+export interface VehicleData {
+  id: string;
+  model: VehicleModel;
+  position: Vec3;
+  rotation: Vec3; // y = cap
+  velocity: Vec3;
+  steering: number;
+  health: number;
+  maxHealth: number;
+  seats: (string | null)[];
+  ownerId: string | null;
+}
+
+// Voiture de la circulation, état compact diffusé par le serveur
+export interface TrafficCarSnapshot {
+  id: string;
+  m: VehicleModel;
+  p: [number, number, number];
+  h: number; // Cap
+  s: number; // Vitesse (m/s)
+}
+
+export interface RemoteVehicleState {
+  vehicleId: string;
+  driverId: string;
+  position: Vec3;
+  heading: number;
+  velocity: Vec3;
+  steering: number;
+}
+
+interface RemoteDriving {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  heading: number;
+  steering: number;
+  receivedAt: number; // performance.now() à la réception
+}
+
+interface Vehicle {
+  id: string;
+  model: VehicleModel;
+  state: VehicleState;
+  group: THREE.Group;
+  body: THREE.Mesh;
+  frontWheels: THREE.Group[]; // Pivots orientés par le braquage
+  wheels: THREE.Mesh[];
+  wheelSpin: number;
+  seats: (string | null)[]; // Place 0 : conducteur
+  health: number;
+  maxHealth: number;
+  ownerId: string | null;
+  remote: RemoteDriving | null;
+}
+
+// Voitures de la room, tenues à jour par le serveur : conduite locale avec la
+// physique partagée, voitures des autres joueurs lissées à partir de leur état
+export class VehicleManager {
+  private scene: THREE.Scene;
+  private blockManager: OptimizedBlockManager | null;
+  private vehicles: Map<string, Vehicle> = new Map();
+  private traffic: Map<string, Vehicle> = new Map(); // Voitures conduites par le serveur
+  private occupied: Vehicle | null = null; // Véhicule où le joueur local est assis
+  private seat: number | null = null;
+  private lastResult: VehicleStepResult = { impactSpeed: 0, drifting: false };
+
+  private chaseInitialized = false;
+  private chasePosition = new THREE.Vector3();
+  private chaseTarget = new THREE.Vector3();
+  private chaseDirection = new THREE.Vector3();
+
+  // Géométries et matériaux partagés par toutes les voitures
+  private bodyGeometry = new THREE.BoxGeometry(VEHICLE_CONSTANTS.width, 0.7, VEHICLE_CONSTANTS.length);
+  private cabinGeometries: Map<VehicleModel, THREE.BoxGeometry> = new Map();
+  private wheelGeometry = new THREE.CylinderGeometry(WHEEL_RADIUS, WHEEL_RADIUS, 0.3, 12).rotateZ(Math.PI / 2);
+  private lightGeometry = new THREE.BoxGeometry(0.4, 0.15, 0.05);
+  private cabinMaterial = new THREE.MeshLambertMaterial({ color: 0x1e2a36 });
+  private wheelMaterial = new THREE.MeshLambertMaterial({ color: 0x111111 });
+  private headlightMaterial = new THREE.MeshBasicMaterial({ color: 0xfff6d5 });
+  private taillightMaterial = new THREE.MeshBasicMaterial({ color: 0xaa1111 });
+  private bodyMaterials: Map<number, THREE.MeshLambertMaterial> = new Map();
+
+  constructor(scene: THREE.Scene, blockManager: OptimizedBlockManager | null) {
+    this.scene = scene;
+    this.blockManager = blockManager;
+  }
+
+  public isInVehicle(): boolean {
+    return this.occupied !== null;
+  }
+
+  public isDriving(): boolean {
+    return this.occupied !== null && this.seat === DRIVER_SEAT;
+  }
+
+  public getOccupiedVehicleId(): string | null {
+    return this.occupied?.id ?? null;
+  }
+
+  public getOccupiedState(): VehicleState | null {
+    return this.occupied?.state ?? null;
+  }
+
+  public getDrivenVehicleId(): string | null {
+    return this.isDriving() ? this.occupied!.id : null;
+  }
+
+  public getDrivenState(): VehicleState | null {
+    return this.isDriving() ? this.occupied!.state : null;
+  }
+
+  public getVehicleOwner(vehicleId: string): string | null {
+    return this.vehicles.get(vehicleId)?.ownerId ?? null;
+  }
+
+  // Voitures de la room en état de rouler, pour la carte plein écran
+  public getVehicleMarkers(): { id: string; x: number; z: number; ownerId: string | null }[] {
+    return Array.from(this.vehicles.values())
+      .filter((vehicle) => vehicle.health > 0)
+      .map((vehicle) => ({
+        id: vehicle.id,
+        x: vehicle.state.position.x,
+        z: vehicle.state.position.z,
+        ownerId: vehicle.ownerId
+      }));
+  }
+
+  public getLastStepResult(): VehicleStepResult {
+    return this.lastResult;
+  }
+
+  // Voiture en état de rouler la plus proche ayant une place libre ; le serveur
+  // choisit la place et vérifie la distance
+  public findNearest(position: Vec3): string | null {
+    let nearest: Vehicle | null = null;
+    let nearestDistance = ENTER_DISTANCE;
+
+    for (const vehicle of this.vehicles.values()) {
+      if (vehicle.health <= 0 || !vehicle.seats.includes(null)) continue;
+
+      const { position: carPosition } = vehicle.state;
+      if (Math.abs(position.y - carPosition.y) > VEHICLE_CONSTANTS.height + 1) continue;
+
+      const distance = Math.hypot(position.x - carPosition.x, position.z - carPosition.z);
+      if (distance < nearestDistance) {
+        nearest = vehicle;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest?.id ?? null;
+  }
+
+  // Place libre suivante du véhicule occupé, dans l'ordre des sièges
+  public getNextFreeSeat(): number | null {
+    const vehicle = this.occupied;
+    if (!vehicle || this.seat === null) return null;
+
+    for (let i = 1; i < vehicle.seats.length; i++) {
+      const seat = (this.seat + i) % vehicle.seats.length;
+      if (vehicle.seats[seat] === null) return seat;
+    }
+    return null;
+  }
+
+  // Un joueur s'est assis (le joueur local si localPlayer est vrai)
+  public setOccupant(vehicleId: string, playerId: string, seat: number, localPlayer: boolean): void {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle) return;
+
+    const previousSeat = vehicle.seats.indexOf(playerId);
+    if (previousSeat !== -1) {
+      vehicle.seats[previousSeat] = null;
+    }
+    vehicle.seats[seat] = playerId;
+
+    if (localPlayer) {
+      if (this.occupied !== vehicle) {
+        this.chaseInitialized = false;
+      }
+      this.occupied = vehicle;
+      this.seat = seat;
+      // Le joueur prend le volant : la prédiction locale remplace l'état relayé
+      if (seat === DRIVER_SEAT) {
+        vehicle.remote = null;
+      }
+    }
+    if (previousSeat === DRIVER_SEAT && seat !== DRIVER_SEAT) {
+      this.releaseDriver(vehicle);
+    }
+  }
+
+  // Un joueur a quitté sa place
+  public clearOccupant(vehicleId: string, playerId: string): void {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle) return;
+
+    const seat = vehicle.seats.indexOf(playerId);
+    if (seat === -1) return;
+
+    vehicle.seats[seat] = null;
+    if (seat === DRIVER_SEAT) {
+      this.releaseDriver(vehicle);
+    }
+  }
+
+  public setHealth(vehicleId: string, health: number): void {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle) return;
+
+    vehicle.health = health;
+    vehicle.body.material = this.getBodyMaterial(vehicle);
+  }
+
+  public setOwner(vehicleId: string, ownerId: string | null): void {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (vehicle) {
+      vehicle.ownerId = ownerId;
+    }
+  }
+
+  // Descendre côté conducteur, sinon de l'autre côté, derrière, devant ou sur le toit
+  public exit(): VehicleExit | null {
+    const vehicle = this.occupied;
+    if (!vehicle) return null;
+    this.occupied = null;
+    this.seat = null;
+
+    const { position, heading } = vehicle.state;
+    const forward = getVehicleForward(heading);
+    const side = VEHICLE_CONSTANTS.width / 2 + 0.7;
+    const end = VEHICLE_CONSTANTS.length / 2 + 0.7;
+    const candidates: Vec3[] = [
+      { x: position.x + forward.z * side, y: position.y, z: position.z - forward.x * side },
+      { x: position.x - forward.z * side, y: position.y, z: position.z + forward.x * side },
+      { x: position.x - forward.x * end, y: position.y, z: position.z - forward.z * end },
+      { x: position.x + forward.x * end, y: position.y, z: position.z + forward.z * end }
+    ];
+    const exitPosition =
+      candidates.find((candidate) => !collidesAt(candidate, this.isSolidAt)) ??
+      { x: position.x, y: position.y + VEHICLE_CONSTANTS.height, z: position.z };
+
+    return { vehicleId: vehicle.id, position: exitPosition };
+  }
+
+  // Simuler la voiture conduite avec les commandes du joueur
+  public updateDriving(input: VehicleInput, deltaTime: number, grip: number): VehicleStepResult | null {
+    const state = this.getDrivenState();
+    if (!state) return null;
+    this.lastResult = stepVehicle(state, input, deltaTime, this.isSolidAt, { grip });
+    return this.lastResult;
+  }
+
+  // Position refusée par le serveur : repartir de son état
+  public applyCorrection(vehicleId: string, position: Vec3, heading: number): void {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle || !this.isDriving() || vehicle !== this.occupied) return;
+
+    vehicle.state.position.x = position.x;
+    vehicle.state.position.y = position.y;
+    vehicle.state.position.z = position.z;
+    vehicle.state.heading = heading;
+    vehicle.state.velocity.x = 0;
+    vehicle.state.velocity.y = 0;
+    vehicle.state.velocity.z = 0;
+  }
+
+  // État relayé par le serveur pour une voiture conduite par un autre joueur
+  public applyRemoteState(data: RemoteVehicleState): void {
+    const vehicle = this.vehicles.get(data.vehicleId);
+    if (!vehicle || (this.isDriving() && vehicle === this.occupied)) return;
+
+    vehicle.seats[DRIVER_SEAT] = data.driverId;
+    vehicle.remote = {
+      position: new THREE.Vector3(data.position.x, data.position.y, data.position.z),
+      velocity: new THREE.Vector3(data.velocity.x, data.velocity.y, data.velocity.z),
+      heading: data.heading,
+      steering: data.steering,
+      receivedAt: performance.now()
+    };
+  }
+
+  // Liste complète envoyée à l'arrivée dans une room
+  public setVehicles(vehicles: VehicleData[]): void {
+    this.reset();
+    vehicles.forEach((data) => this.addVehicle(data));
+  }
+
+  public addVehicle(data: VehicleData): void {
+    if (this.vehicles.has(data.id)) {
+      this.removeVehicle(data.id);
+    }
+    this.createVehicle(data, this.vehicles);
+  }
+
+  // Circulation de la room : ajouter les nouvelles voitures, retirer les absentes
+  public applyTraffic(cars: TrafficCarSnapshot[]): void {
+    const receivedAt = performance.now();
+    const present = new Set<string>();
+
+    for (const car of cars) {
+      present.add(car.id);
+      const forward = getVehicleForward(car.h);
+
+      let vehicle = this.traffic.get(car.id);
+      if (!vehicle) {
+        vehicle = this.createVehicle(
+          {
+            id: car.id,
+            model: car.m,
+            position: { x: car.p[0], y: car.p[1], z: car.p[2] },
+            rotation: { x: 0, y: car.h, z: 0 },
+            velocity: { x: 0, y: 0, z: 0 },
+            steering: 0,
+            health: 1,
+            maxHealth: 1,
+            seats: [],
+            ownerId: null
+          },
+          this.traffic
+        );
+      }
+      vehicle.remote = {
+        position: new THREE.Vector3(car.p[0], car.p[1], car.p[2]),
+        velocity: new THREE.Vector3(forward.x * car.s, 0, forward.z * car.s),
+        heading: car.h,
+        steering: 0,
+        receivedAt
+      };
+    }
+
+    for (const [id, vehicle] of this.traffic) {
+      if (!present.has(id)) {
+        this.scene.remove(vehicle.group);
+        this.traffic.delete(id);
+      }
+    }
+  }
+
+  public removeVehicle(vehicleId: string): void {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle) return;
+
+    this.scene.remove(vehicle.group);
+    this.vehicles.delete(vehicleId);
+    if (vehicle === this.occupied) {
+      this.occupied = null;
+      this.seat = null;
+    }
+  }
+
+  // Changement de room : les voitures de l'ancienne room disparaissent
+  public reset(): void {
+    for (const vehicle of [...this.vehicles.values(), ...this.traffic.values()]) {
+      this.scene.remove(vehicle.group);
+    }
+    this.vehicles.clear();
+    this.traffic.clear();
+    this.occupied = null;
+    this.seat = null;
+  }
+
+  // Faire avancer les voitures conduites à distance ou encore en mouvement
+  public update(deltaTime: number): void {
+    const now = performance.now();
+
+    for (const vehicle of this.vehicles.values()) {
+      const driving = this.isDriving() && vehicle === this.occupied;
+      if (vehicle.remote) {
+        this.updateRemote(vehicle, deltaTime, now);
+      } else if (!driving && this.isRolling(vehicle)) {
+        stepVehicle(vehicle.state, PARKED_INPUT, deltaTime, this.isSolidAt);
+      }
+
+      this.updateMesh(vehicle, deltaTime);
+    }
+
+    for (const vehicle of this.traffic.values()) {
+      if (vehicle.remote) {
+        this.updateRemote(vehicle, deltaTime, now);
+      }
+      this.updateMesh(vehicle, deltaTime);
+    }
+  }
+
+  // Caméra de poursuite lissée, rapprochée si un mur la sépare de la voiture
+  public updateChaseCamera(camera: THREE.Camera, deltaTime: number): void {
+    const vehicle = this.occupied;
+    if (!vehicle) return;
+
+    const { position, heading } = vehicle.state;
+    const forward = getVehicleForward(heading);
+    const target = this.chaseTarget.set(position.x, position.y + CHASE_LOOK_HEIGHT, position.z);
+    const desired = this.chasePosition.set(
+      position.x - forward.x * CHASE_DISTANCE,
+      position.y + CHASE_HEIGHT,
+      position.z - forward.z * CHASE_DISTANCE
+    );
+
+    if (this.blockManager) {
+      const direction = this.chaseDirection.copy(desired).sub(target);
+      const distance = direction.length();
+      const hit = this.blockManager.raycastBlock(target, direction, distance);
+      if (hit) {
+        const hitDistance = target.distanceTo(new THREE.Vector3(hit.x + 0.5, hit.y + 0.5, hit.z + 0.5));
+        desired.copy(target).addScaledVector(direction.normalize(), Math.max(1, hitDistance - 0.8));
+      }
+    }
+
+    if (this.chaseInitialized) {
+      camera.position.lerp(desired, 1 - Math.exp(-CHASE_SMOOTHING * deltaTime));
+    } else {
+      camera.position.copy(desired);
+      this.chaseInitialized = true;
+    }
+    camera.lookAt(target);
+  }
+
+  public dispose(): void {
+    this.reset();
+
+    this.bodyGeometry.dispose();
+    this.cabinGeometries.forEach((geometry) => geometry.dispose());
+    this.cabinGeometries.clear();
+    this.wheelGeometry.dispose();
+    this.lightGeometry.dispose();
+    this.cabinMaterial.dispose();
+    this.wheelMaterial.dispose();
+    this.headlightMaterial.dispose();
+    this.taillightMaterial.dispose();
+    this.bodyMaterials.forEach((material) => material.dispose());
+    this.bodyMaterials.clear();
+  }
+
+  // Les chunks non chargés bloquent la voiture au lieu de la laisser tomber dans le vide
+  private isSolidAt = (x: number, y: number, z: number): boolean => {
+    if (!this.blockManager) {
+      return y < 0;
+    }
+    const block = this.blockManager.getBlockAt(x, y, z);
+    return block === null || isSolidBlockType(block);
+  };
+
+  // Le conducteur distant a quitté le volant : la voiture finit sa course sur place
+  private releaseDriver(vehicle: Vehicle): void {
+    if (vehicle.remote) {
+      vehicle.state.velocity.x = vehicle.remote.velocity.x;
+      vehicle.state.velocity.z = vehicle.remote.velocity.z;
+    }
+    vehicle.remote = null;
+  }
+
+  private createVehicle(data: VehicleData, registry: Map<string, Vehicle>): Vehicle {
+    const group = new THREE.Group();
+
+    const body = new THREE.Mesh(this.bodyGeometry);
+    body.position.y = 0.65;
+    body.castShadow = true;
+    body.receiveShadow = true;
+    group.add(body);
+
+    // L'habitacle (l'avant pointe vers -Z) donne sa silhouette au modèle
+    const cabinShape = MODEL_CABINS[data.model] ?? MODEL_CABINS.sedan;
+    const cabin = new THREE.Mesh(this.getCabinGeometry(data.model), this.cabinMaterial);
+    cabin.position.set(0, 1 + cabinShape.height / 2, cabinShape.offset);
+    cabin.castShadow = true;
+    group.add(cabin);
+
+    const halfLength = VEHICLE_CONSTANTS.length / 2;
+    for (const x of [-0.6, 0.6]) {
+      const headlight = new THREE.Mesh(this.lightGeometry, this.headlightMaterial);
+      headlight.position.set(x, 0.75, -halfLength - 0.01);
+      const taillight = new THREE.Mesh(this.lightGeometry, this.taillightMaterial);
+      taillight.position.set(x, 0.75, halfLength + 0.01);
+      group.add(headlight, taillight);
+    }
+
+    const frontWheels: THREE.Group[] = [];
+    const wheels: THREE.Mesh[] = [];
+    const wheelX = VEHICLE_CONSTANTS.width / 2 - 0.1;
+    const wheelZ = VEHICLE_CONSTANTS.wheelBase / 2;
+    for (const z of [-wheelZ, wheelZ]) {
+      for (const x of [-wheelX, wheelX]) {
+        const pivot = new THREE.Group();
+        pivot.position.set(x, WHEEL_RADIUS, z);
+        const wheel = new THREE.Mesh(this.wheelGeometry, this.wheelMaterial);
+        wheel.castShadow = true;
+        pivot.add(wheel);
+        group.add(pivot);
+
+        wheels.push(wheel);
+        if (z < 0) frontWheels.push(pivot);
+      }
+    }
+
+    const { position, velocity } = data;
+    const vehicle: Vehicle = {
+      id: data.id,
+      model: data.model,
+      state: {
+        position: { x: position.x, y: position.y, z: position.z },
+        velocity: { x: velocity.x, y: velocity.y, z: velocity.z },
+        heading: data.rotation.y,
+        steering: data.steering,
+        grounded: false
+      },
+      group,
+      body,
+      frontWheels,
+      wheels,
+      wheelSpin: 0,
+      seats: [...data.seats],
+      health: data.health,
+      maxHealth: data.maxHealth,
+      ownerId: data.ownerId,
+      remote: null
+    };
+    body.material = this.getBodyMaterial(vehicle);
+    this.updateMesh(vehicle, 0);
+
+    registry.set(data.id, vehicle);
+    this.scene.add(group);
+    return vehicle;
+  }
+
+  private getCabinGeometry(model: VehicleModel): THREE.BoxGeometry {
+    let geometry = this.cabinGeometries.get(model);
+    if (!geometry) {
+      const { length, height } = MODEL_CABINS[model] ?? MODEL_CABINS.sedan;
+      geometry = new THREE.BoxGeometry(VEHICLE_CONSTANTS.width - 0.2, height, length);
+      this.cabinGeometries.set(model, geometry);
+    }
+    return geometry;
+  }
+
+  // Couleur tirée de l'id, carrosserie calcinée une fois le véhicule détruit
+  private getBodyMaterial(vehicle: Vehicle): THREE.MeshLambertMaterial {
+    let color = WRECK_COLOR;
+    if (vehicle.health > 0) {
+      let hash = 0;
+      for (let i = 0; i < vehicle.id.length; i++) {
+        hash = (hash * 31 + vehicle.id.charCodeAt(i)) | 0;
+      }
+      color = CAR_COLORS[Math.abs(hash) % CAR_COLORS.length];
+    }
+
+    let material = this.bodyMaterials.get(color);
+    if (!material) {
+      material = new THREE.MeshLambertMaterial({ color });
+      this.bodyMaterials.set(color, material);
+    }
+    return material;
+  }
+
+  private isRolling(vehicle: Vehicle): boolean {
+    const { velocity, grounded } = vehicle.state;
+    return !grounded || Math.abs(velocity.x) + Math.abs(velocity.z) > 0.01;
+  }
+
+  // Extrapoler le dernier état reçu puis s'en rapprocher en douceur
+  private updateRemote(vehicle: Vehicle, deltaTime: number, now: number): void {
+    const remote = vehicle.remote!;
+    const state = vehicle.state;
+    const elapsed = Math.min((now - remote.receivedAt) / 1000, MAX_REMOTE_EXTRAPOLATION);
+    const targetX = remote.position.x + remote.velocity.x * elapsed;
+    const targetY = remote.position.y;
+    const targetZ = remote.position.z + remote.velocity.z * elapsed;
+
+    const distance = Math.hypot(targetX - state.position.x, targetZ - state.position.z);
+    const alpha = distance > REMOTE_SNAP_DISTANCE ? 1 : 1 - Math.exp(-REMOTE_SMOOTHING * deltaTime);
+
+    state.position.x += (targetX - state.position.x) * alpha;
+    state.position.y += (targetY - state.position.y) * alpha;
+    state.position.z += (targetZ - state.position.z) * alpha;
+    state.heading += this.angleDifference(state.heading, remote.heading) * alpha;
+    state.velocity.x = remote.velocity.x;
+    state.velocity.y = remote.velocity.y;
+    state.velocity.z = remote.velocity.z;
+    state.steering = remote.steering;
+  }
+
+  private angleDifference(from: number, to: number): number {
+    let difference = (to - from) % (Math.PI * 2);
+    if (difference > Math.PI) difference -= Math.PI * 2;
+    if (difference < -Math.PI) difference += Math.PI * 2;
+    return difference;
+  }
+
+  private updateMesh(vehicle: Vehicle, deltaTime: number): void {
+    const { position, velocity, heading, steering } = vehicle.state;
+    vehicle.group.position.set(position.x, position.y, position.z);
+    vehicle.group.rotation.y = heading;
+
+    // Les roues tournent selon la vitesse le long de la voiture
+    const forward = getVehicleForward(heading);
+    const forwardSpeed = velocity.x * forward.x + velocity.z * forward.z;
+    vehicle.wheelSpin -= (forwardSpeed * deltaTime) / WHEEL_RADIUS;
+    for (const wheel of vehicle.wheels) {
+      wheel.rotation.x = vehicle.wheelSpin;
+    }
+    for (const pivot of vehicle.frontWheels) {
+      pivot.rotation.y = steering;
+    }
+  }
+}
@@ -0,0 +1,274 @@
+// Éclairage voxel : lumière du soleil et des blocs propagée par remplissage (flood fill),
+// niveaux de 0 à 15 stockés sur 4 bits chacun (soleil en poids fort).
+// Sans dépendance à Three.js, indexé comme les types de blocs des chunks.
+import { TRANSPARENT_BLOCK_TYPES } from './BlockTextureAtlas';
+
+export const MAX_LIGHT_LEVEL = 15;
+
+// Lumière émise par type de bloc
+export const LIGHT_EMITTING_BLOCKS: Record<string, number> = {
+  lamp: 15
+};
+
+// Atténuation supplémentaire par bloc traversé (le verre laisse tout passer)
+const LIGHT_FILTERING_BLOCKS: Record<string, number> = {
+  water: 2,
+  ice: 1,
+  leaves: 1
+};
+
+type LightChannel = 'sun' | 'block';
+
+interface LitChunk {
+  blockTypes: string[];
+  light: Uint8Array;
+  height: number;
+}
+
+const DIRECTIONS = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+export function getLightEmission(type: string | undefined): number {
+  return type ? LIGHT_EMITTING_BLOCKS[type] ?? 0 : 0;
+}
+
+export class VoxelLightEngine {
+  private chunks: Map<string, LitChunk> = new Map();
+  private changedChunks: Set<string> = new Set();
+  // Dernier chunk consulté : la propagation reste le plus souvent dans le même chunk
+  private cachedChunkX: number = NaN;
+  private cachedChunkZ: number = NaN;
+  private cachedChunk: LitChunk | undefined;
+
+  constructor(private chunkSize: number) {}
+
+  // Éclairer un chunk qui vient d'être chargé ; renvoie les chunks dont la lumière a changé
+  public addChunk(chunkX: number, chunkZ: number, blockTypes: string[]): Set<string> {
+    const size = this.chunkSize;
+    const height = Math.ceil(blockTypes.length / (size * size));
+    const chunk: LitChunk = { blockTypes, light: new Uint8Array(size * size * height), height };
+    this.chunks.set(this.getChunkKey(chunkX, chunkZ), chunk);
+    this.cachedChunkX = NaN;
+
+    const sunQueue: number[] = [];
+    const blockQueue: number[] = [];
+    const originX = chunkX * size;
+    const originZ = chunkZ * size;
+
+    for (let localZ = 0; localZ < size; localZ++) {
+      for (let localX = 0; localX < size; localX++) {
+        const x = originX + localX;
+        const z = originZ + localZ;
+
+        // Colonnes de soleil : pleine lumière jusqu'au premier bloc qui l'arrête ou la filtre,
+        // la propagation éclaire ensuite le reste
+        for (let y = height - 1; y >= 0; y--) {
+          if (!this.isSkyClear(blockTypes[this.getLocalIndex(localX, y, localZ)])) break;
+          this.setChannel(chunk, localX, y, localZ, 'sun', MAX_LIGHT_LEVEL);
+          sunQueue.push(x, y, z);
+        }
+
+        for (let y = 0; y < height; y++) {
+          const emission = getLightEmission(blockTypes[this.getLocalIndex(localX, y, localZ)]);
+          if (emission > 0) {
+            this.setChannel(chunk, localX, y, localZ, 'block', emission);
+            blockQueue.push(x, y, z);
+          }
+        }
+      }
+    }
+
+    // La lumière des chunks voisins déjà éclairés entre par les bordures
+    for (let i = 0; i < size; i++) {
+      const borders = [
+        [originX - 1, originZ + i],
+        [originX + size, originZ + i],
+        [originX + i, originZ - 1],
+        [originX + i, originZ + size]
+      ];
+      for (const [x, z] of borders) {
+        for (let y = 0; y < height; y++) {
+          if (this.getChannel(x, y, z, 'sun') > 1) sunQueue.push(x, y, z);
+          if (this.getChannel(x, y, z, 'block') > 1) blockQueue.push(x, y, z);
+        }
+      }
+    }
+
+    this.propagate(sunQueue, 'sun');
+    this.propagate(blockQueue, 'block');
+    return this.takeChangedChunks();
+  }
+
+  public removeChunk(chunkX: number, chunkZ: number): void {
+    this.chunks.delete(this.getChunkKey(chunkX, chunkZ));
+    this.cachedChunkX = NaN;
+  }
+
+  // Mettre à jour la lumière après la modification d'un bloc (type déjà écrit dans le chunk)
+  public updateBlock(x: number, y: number, z: number): Set<string> {
+    const chunk = this.getChunkAt(x, z);
+    if (!chunk || y < 0 || y >= chunk.height) {
+      return new Set();
+    }
+
+    for (const channel of ['sun', 'block'] as LightChannel[]) {
+      // Retirer la lumière qui passait par ce bloc, puis laisser les voisins la rétablir
+      const level = this.getChannel(x, y, z, channel);
+      const queue: number[] = [];
+      if (level > 0) {
+        this.setWorldChannel(x, y, z, channel, 0);
+        this.unpropagate([x, y, z, level], channel, queue);
+      }
+
+      const emission = channel === 'block' ? getLightEmission(this.getType(x, y, z)) : 0;
+      if (emission > 0) {
+        this.setWorldChannel(x, y, z, channel, emission);
+        queue.push(x, y, z);
+      }
+      if (channel === 'sun' && y === chunk.height - 1 && this.isSkyClear(this.getType(x, y, z))) {
+        this.setWorldChannel(x, y, z, channel, MAX_LIGHT_LEVEL);
+        queue.push(x, y, z);
+      }
+      for (const [dx, dy, dz] of DIRECTIONS) {
+        if (this.getChannel(x + dx, y + dy, z + dz, channel) > 0) {
+          queue.push(x + dx, y + dy, z + dz);
+        }
+      }
+      this.propagate(queue, channel);
+    }
+    return this.takeChangedChunks();
+  }
+
+  // Lumière combinée d'un voxel ; plein soleil hors des chunks éclairés
+  public getLight(x: number, y: number, z: number): number {
+    const chunk = this.getChunkAt(x, z);
+    if (!chunk || y >= chunk.height) return MAX_LIGHT_LEVEL << 4;
+    if (y < 0) return 0;
+    return chunk.light[this.getLocalIndex(this.toLocal(x), y, this.toLocal(z))];
+  }
+
+  // Parcours en largeur : chaque voxel éclaire ses voisins avec un niveau de moins
+  private propagate(queue: number[], channel: LightChannel): void {
+    for (let head = 0; head < queue.length; head += 3) {
+      const x = queue[head];
+      const y = queue[head + 1];
+      const z = queue[head + 2];
+      const level = this.getChannel(x, y, z, channel);
+
+      for (const [dx, dy, dz] of DIRECTIONS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        const nz = z + dz;
+        const chunk = this.getChunkAt(nx, nz);
+        if (!chunk || ny < 0 || ny >= chunk.height) continue;
+
+        const type = chunk.blockTypes[this.getLocalIndex(this.toLocal(nx), ny, this.toLocal(nz))];
+        if (!this.isLightTransparent(type)) continue;
+
+        const next = this.getPropagatedLevel(level, dy, type, channel);
+        if (next > this.getChannel(nx, ny, nz, channel)) {
+          this.setWorldChannel(nx, ny, nz, channel, next);
+          queue.push(nx, ny, nz);
+        }
+      }
+    }
+  }
+
+  // Éteindre la lumière issue d'une source retirée ; les voisins plus clairs
+  // (autres sources) sont ajoutés à `relight` pour être repropagés
+  private unpropagate(queue: number[], channel: LightChannel, relight: number[]): void {
+    for (let head = 0; head < queue.length; head += 4) {
+      const x = queue[head];
+      const y = queue[head + 1];
+      const z = queue[head + 2];
+      const level = queue[head + 3];
+
+      for (const [dx, dy, dz] of DIRECTIONS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        const nz = z + dz;
+        const neighbourLevel = this.getChannel(nx, ny, nz, channel);
+        if (neighbourLevel === 0 || !this.getChunkAt(nx, nz)) continue;
+
+        const fedBySource = neighbourLevel < level
+          || (channel === 'sun' && dy === -1 && level === MAX_LIGHT_LEVEL && neighbourLevel === MAX_LIGHT_LEVEL);
+        const isSource = channel === 'block' && getLightEmission(this.getType(nx, ny, nz)) > 0;
+        if (fedBySource && !isSource) {
+          this.setWorldChannel(nx, ny, nz, channel, 0);
+          queue.push(nx, ny, nz, neighbourLevel);
+        } else {
+          relight.push(nx, ny, nz);
+        }
+      }
+    }
+  }
+
+  // Le soleil descend sans perte à travers les blocs qui ne le filtrent pas
+  private getPropagatedLevel(level: number, dy: number, type: string | undefined, channel: LightChannel): number {
+    const filter = type ? LIGHT_FILTERING_BLOCKS[type] ?? 0 : 0;
+    if (channel === 'sun' && dy === -1 && level === MAX_LIGHT_LEVEL && filter === 0) {
+      return MAX_LIGHT_LEVEL;
+    }
+    return Math.max(0, level - 1 - filter);
+  }
+
+  private isLightTransparent(type: string | undefined): boolean {
+    return !type || type === 'air' || TRANSPARENT_BLOCK_TYPES.includes(type);
+  }
+
+  private isSkyClear(type: string | undefined): boolean {
+    return this.isLightTransparent(type) && !(type && LIGHT_FILTERING_BLOCKS[type]);
+  }
+
+  private getType(x: number, y: number, z: number): string | undefined {
+    return this.getChunkAt(x, z)?.blockTypes[this.getLocalIndex(this.toLocal(x), y, this.toLocal(z))];
+  }
+
+  private getChannel(x: number, y: number, z: number, channel: LightChannel): number {
+    const chunk = this.getChunkAt(x, z);
+    if (!chunk || y < 0 || y >= chunk.height) return 0;
+    const value = chunk.light[this.getLocalIndex(this.toLocal(x), y, this.toLocal(z))];
+    return channel === 'sun' ? value >> 4 : value & 0x0f;
+  }
+
+  private setWorldChannel(x: number, y: number, z: number, channel: LightChannel, level: number): void {
+    const chunk = this.getChunkAt(x, z);
+    if (!chunk) return;
+    this.setChannel(chunk, this.toLocal(x), y, this.toLocal(z), channel, level);
+    this.changedChunks.add(this.getChunkKey(Math.floor(x / this.chunkSize), Math.floor(z / this.chunkSize)));
+  }
+
+  private setChannel(chunk: LitChunk, localX: number, y: number, localZ: number, channel: LightChannel, level: number): void {
+    const index = this.getLocalIndex(localX, y, localZ);
+    const value = chunk.light[index];
+    chunk.light[index] = channel === 'sun' ? (level << 4) | (value & 0x0f) : (value & 0xf0) | level;
+  }
+
+  private takeChangedChunks(): Set<string> {
+    const changed = this.changedChunks;
+    this.changedChunks = new Set();
+    return changed;
+  }
+
+  private getChunkAt(x: number, z: number): LitChunk | undefined {
+    const chunkX = Math.floor(x / this.chunkSize);
+    const chunkZ = Math.floor(z / this.chunkSize);
+    if (chunkX !== this.cachedChunkX || chunkZ !== this.cachedChunkZ) {
+      this.cachedChunkX = chunkX;
+      this.cachedChunkZ = chunkZ;
+      this.cachedChunk = this.chunks.get(this.getChunkKey(chunkX, chunkZ));
+    }
+    return this.cachedChunk;
+  }
+
+  private getChunkKey(chunkX: number, chunkZ: number): string {
+    return `${chunkX},${chunkZ}`;
+  }
+
+  private toLocal(coordinate: number): number {
+    return ((coordinate % this.chunkSize) + this.chunkSize) % this.chunkSize;
+  }
+
+  private getLocalIndex(localX: number, y: number, localZ: number): number {
+    return (y * this.chunkSize + localZ) * this.chunkSize + localX;
+  }
+}
@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+import {
+  getWeatherEffects,
+  WEATHER_EFFECTS,
+  WeatherEffects,
+  WeatherState,
+  WeatherType
+} from '@shared/weather';
+
+// Zone de pluie autour de la caméra : les gouttes y tournent en boucle
+const RAIN_DROP_COUNT = 8000;
+const RAIN_AREA = 64; // Côté de la zone (blocs)
+const RAIN_HEIGHT = 40;
+const RAIN_SPEED = 28; // Vitesse de chute (blocs/s)
+const RAIN_DROP_SIZE = 0.35;
+
+// Les gouttes sont animées entièrement dans le vertex shader : aucune mise à jour
+// de buffer côté CPU, seule la position de la caméra et le temps changent
+const RAIN_VERTEX_SHADER = `
+  uniform float time;
+  uniform float intensity;
+  uniform vec3 center;
+  attribute float seed;
+  varying float vAlpha;
+
+  void main() {
+    // Les gouttes au-delà de l'intensité courante ne tombent pas
+    if (seed > intensity) {
+      gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+      gl_PointSize = 0.0;
+      return;
+    }
+
+    // Position fixe dans le monde, repliée dans la zone centrée sur la caméra
+    vec3 origin = center - vec3(${RAIN_AREA / 2}.0, ${RAIN_HEIGHT / 2}.0, ${RAIN_AREA / 2}.0);
+    float fall = time * ${RAIN_SPEED}.0 * (0.8 + 0.4 * seed);
+    vec3 p = vec3(
+      origin.x + mod(position.x - origin.x, ${RAIN_AREA}.0),
+      origin.y + mod(position.y - fall - origin.y, ${RAIN_HEIGHT}.0),
+      origin.z + mod(position.z - origin.z, ${RAIN_AREA}.0)
+    );
+
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = ${RAIN_DROP_SIZE} * 300.0 / -mvPosition.z;
+    vAlpha = 0.35 + 0.3 * seed;
+  }
+`;
+
+// Trait vertical fin dans chaque point
+const RAIN_FRAGMENT_SHADER = `
+  uniform vec3 color;
+  varying float vAlpha;
+
+  void main() {
+    vec2 uv = gl_PointCoord - 0.5;
+    float streak = 1.0 - smoothstep(0.03, 0.09, abs(uv.x));
+    if (streak < 0.01) discard;
+    gl_FragColor = vec4(color, vAlpha * streak * (1.0 - abs(uv.y) * 1.6));
+  }
+`;
+
+// Météo envoyée par le serveur : pluie en particules GPU et effets interpolés
+// pendant les transitions (lumière, brouillard, adhérence, distance d'affichage)
+export class WeatherSystem {
+  private scene: THREE.Scene;
+  private rain: THREE.Points;
+  private rainMaterial: THREE.ShaderMaterial;
+
+  // En attendant la première synchronisation : beau temps
+  private state: WeatherState = {
+    type: 'clear',
+    previousType: 'clear',
+    changedAt: 0,
+    transitionDuration: 0,
+    nextChangeAt: null,
+    serverTime: Date.now()
+  };
+  private clockOffset: number = 0; // Heure serveur - heure locale (ms)
+  private effects: WeatherEffects = { ...WEATHER_EFFECTS.clear };
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+
+    const positions = new Float32Array(RAIN_DROP_COUNT * 3);
+    const seeds = new Float32Array(RAIN_DROP_COUNT);
+    for (let i = 0; i < RAIN_DROP_COUNT; i++) {
+      positions[i * 3] = Math.random() * RAIN_AREA;
+      positions[i * 3 + 1] = Math.random() * RAIN_HEIGHT;
+      positions[i * 3 + 2] = Math.random() * RAIN_AREA;
+      seeds[i] = Math.random();
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('seed', new THREE.BufferAttribute(seeds, 1));
+
+    this.rainMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        time: { value: 0 },
+        intensity: { value: 0 },
+        center: { value: new THREE.Vector3() },
+        color: { value: new THREE.Color(0xaec2d6) }
+      },
+      vertexShader: RAIN_VERTEX_SHADER,
+      fragmentShader: RAIN_FRAGMENT_SHADER,
+      transparent: true,
+      depthWrite: false
+    });
+
+    this.rain = new THREE.Points(geometry, this.rainMaterial);
+    this.rain.frustumCulled = false; // Positions calculées dans le shader
+    this.rain.visible = false;
+    this.scene.add(this.rain);
+  }
+
+  public setWeather(state: WeatherState): void {
+    this.state = state;
+    this.clockOffset = state.serverTime - Date.now();
+  }
+
+  public getWeatherType(): WeatherType {
+    return this.state.type;
+  }
+
+  public getEffects(): WeatherEffects {
+    return this.effects;
+  }
+
+  // Avancer la transition et la pluie autour de `focus` ; renvoie les effets courants
+  public update(focus: THREE.Vector3, time: number): WeatherEffects {
+    this.effects = getWeatherEffects(this.state, Date.now() + this.clockOffset);
+
+    const uniforms = this.rainMaterial.uniforms;
+    uniforms.time.value = time;
+    uniforms.intensity.value = this.effects.rain;
+    uniforms.center.value.copy(focus);
+    this.rain.visible = this.effects.rain > 0.01;
+
+    return this.effects;
+  }
+
+  public dispose(): void {
+    this.scene.remove(this.rain);
+    this.rain.geometry.dispose();
+    this.rainMaterial.dispose();
+  }
+}
@@ -37,6 +37,11 @@ export class World {
     console.log("🌍 Monde initialisé - version modulaire");
   }
 
+  // Lampadaires et fenêtres éclairés la nuit (voir DayNightCycle.onNightLightsChange)
+  setNightLighting(on: boolean) {
+    this.roadManager.setNightLighting(on);
+  }
+
   setMapDataCallback(callback: (data: MapData) => void) {
     this.mapDataCallback = callback;
   }
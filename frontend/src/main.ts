@@ -4,9 +4,42 @@ import { InputManager } from "./core/InputManager";
 import { Player } from "./game/Player";
 import { NetworkService } from "./core/NetworkService";
 import { OtherPlayersManager } from "./game/OtherPlayersManager";
-import { Minimap } from "./game/Minimap";
+import { Minimap, PointOfInterest } from "./game/Minimap";
 import { LoginManager } from "./core/LoginManager";
+import { SessionManager } from "./core/SessionManager";
 import { ChatManager } from "./core/ChatManager";
+import { VehicleManager } from "./game/VehicleManager";
+import { GpsNavigator } from "./game/GpsNavigator";
+
+// Distance maximale pour viser un bloc (le serveur tolère un peu plus)
+const BLOCK_REACH = 5;
+// Blocs disponibles avec les touches 1 à 9 puis 0
+const PLACEABLE_BLOCKS = [
+  "stone",
+  "dirt",
+  "grass",
+  "wood",
+  "sand",
+  "glass",
+  "building_wall",
+  "road",
+  "leaves",
+  "lamp",
+];
+// Messages affichés quand le serveur refuse une action sur un véhicule
+const VEHICLE_REJECTIONS: Record<string, string> = {
+  notFound: "Ce véhicule n'existe plus",
+  tooFar: "Trop loin du véhicule",
+  invalidSeat: "Cette place n'existe pas",
+  seatTaken: "Plus de place libre",
+  locked: "Seul le propriétaire peut conduire ce véhicule",
+  wrecked: "Ce véhicule est détruit",
+  alreadyInVehicle: "Vous êtes déjà dans un véhicule",
+  notInVehicle: "Vous n'êtes pas dans ce véhicule",
+  notDriver: "Vous ne conduisez pas ce véhicule",
+  alreadyOwned: "Ce véhicule appartient déjà à quelqu'un",
+  ownedLimit: "Vous possédez déjà trop de véhicules",
+};
 
 class Main {
   private game: Game;
@@ -15,10 +48,13 @@ class Main {
   private networkService: NetworkService;
   private otherPlayersManager: OtherPlayersManager | null;
   private minimap: Minimap | null;
+  private vehicleManager: VehicleManager | null = null;
+  private gps = new GpsNavigator();
   private loginManager: LoginManager | null;
   private lastNetworkUpdate = 0;
   private networkTickRate = 1000 / 20; // 20 ticks par seconde (50ms)
   private chatManager: ChatManager | null = null;
+  private selectedBlockType = PLACEABLE_BLOCKS[0];
 
   constructor() {
     this.game = new Game();
@@ -48,12 +84,18 @@ class Main {
     // Initialiser le gestionnaire des autres joueurs
     this.otherPlayersManager = new OtherPlayersManager(this.game.scene!);
 
+    // Voitures de la room, envoyées par le serveur
+    this.vehicleManager = new VehicleManager(
+      this.game.scene!,
+      this.game.blockManager
+    );
+
     // Initialiser le chat
     this.chatManager = new ChatManager();
 
     // Initialiser la minimap
     try {
-      this.minimap = new Minimap();
+      this.minimap = new Minimap(this.game.blockManager);
     } catch (error) {
       console.error("Erreur lors de l'initialisation de la minimap:", error);
       this.minimap = null;
@@ -74,11 +116,59 @@ class Main {
     //   this.world.showRoadPositions();
     // });
 
-    // Configurer le mode godmode
+    // Configurer le mode godmode, hors ligne seulement : le serveur refuse le vol
     this.inputManager.setGodmodeCallback(() => {
+      if (this.networkService.isOnline() && !this.player.isGodmode) {
+        this.chatManager?.addServerNotification(
+          "🚫 Godmode indisponible sur le serveur"
+        );
+        return;
+      }
       this.player.toggleGodmode();
     });
 
+    // Casser et poser des blocs
+    this.inputManager.setBlockActionCallback((action) => {
+      this.handleBlockAction(action);
+    });
+
+    // Monter dans la voiture la plus proche ou en descendre
+    this.inputManager.setVehicleCallback(() => {
+      this.toggleVehicle();
+    });
+
+    this.inputManager.setSeatCallback(() => {
+      this.changeSeat();
+    });
+
+    this.inputManager.setClaimCallback(() => {
+      this.claimVehicle();
+    });
+
+    // Carte plein écran (M) : un clic y choisit la destination du GPS
+    this.inputManager.setMapCallback(() => {
+      this.toggleMap();
+    });
+    this.minimap?.onWaypointSelected((waypoint) => {
+      if (waypoint) {
+        this.gps.setWaypoint(waypoint, this.player.position);
+      } else {
+        this.gps.clearWaypoint();
+      }
+    });
+    this.gps.onWaypointUnreachable(() => {
+      this.chatManager?.addServerNotification("🧭 Aucun itinéraire vers cette destination");
+    });
+
+    this.inputManager.setBlockSelectCallback((index) => {
+      if (PLACEABLE_BLOCKS[index]) {
+        this.selectedBlockType = PLACEABLE_BLOCKS[index];
+        this.chatManager?.addServerNotification(
+          `🧱 Bloc sélectionné: ${this.selectedBlockType}`
+        );
+      }
+    });
+
     this.player.onRevive = () => {
       this.hideDeathScreen();
     };
@@ -123,21 +213,135 @@ class Main {
     this.gameLoop();
   }
 
-  checkForValidSession() {
-    // SOLUTION RADICALE : Supprimer complètement la logique de session pour forcer un nouveau spawn
-    localStorage.removeItem("gta-session");
-    localStorage.removeItem("gta-player-name");
-    console.log("🗑️ Toutes les sessions supprimées pour forcer un nouveau spawn");
-    
-    // Ne pas faire de reconnexion automatique
-    return;
+  async checkForValidSession() {
+    const sessionManager = SessionManager.getInstance();
+
+    // Reprendre la session existante si le token peut encore être rafraîchi
+    if (sessionManager.hasValidSession()) {
+      this.showReconnectionMessage(sessionManager.getPlayerName() || "");
+      if (await this.networkService.connect()) {
+        this.networkService.joinGame();
+        return;
+      }
+    }
+
+    this.showLogin();
+  }
+
+  showLogin() {
+    if (this.loginManager) return;
+
+    // Créer l'interface de connexion
+    this.loginManager = new LoginManager(async (playerName, password, mode) => {
+      const sessionManager = SessionManager.getInstance();
+      if (mode === "register") {
+        await sessionManager.register(playerName, password);
+      } else {
+        await sessionManager.login(playerName, password);
+      }
+
+      this.loginManager = null;
+      await this.networkService.connect();
+      this.networkService.joinGame();
+    });
+  }
+
+  // Descendre, ou demander une place dans la voiture la plus proche : on monte
+  // quand le serveur confirme (vehicleEntered)
+  toggleVehicle() {
+    if (!this.vehicleManager || this.player.isDead) return;
+
+    if (this.vehicleManager.isInVehicle()) {
+      const exit = this.vehicleManager.exit();
+      if (exit) {
+        this.leaveVehicle(exit.position);
+        this.networkService.sendExitVehicle(exit.vehicleId, exit.position);
+      }
+      return;
+    }
+
+    const vehicleId = this.vehicleManager.findNearest(this.player.position);
+    if (vehicleId) {
+      this.networkService.sendEnterVehicle(vehicleId);
+    }
+  }
+
+  // Passer à la place libre suivante du véhicule
+  changeSeat() {
+    const vehicleId = this.vehicleManager?.getOccupiedVehicleId();
+    const seat = this.vehicleManager?.getNextFreeSeat();
+    if (vehicleId && seat !== null && seat !== undefined) {
+      this.networkService.sendChangeSeat(vehicleId, seat);
+    }
+  }
+
+  // Garder le véhicule conduit : il sera sauvegardé et nous suivra de room en room
+  claimVehicle() {
+    const vehicleId = this.vehicleManager?.getDrivenVehicleId();
+    if (!vehicleId) return;
 
-    // Créer l'interface de connexion normale
-    this.loginManager = new LoginManager((playerName) => {
-      this.networkService.joinGame(playerName);
+    if (this.vehicleManager?.getVehicleOwner(vehicleId) === this.player.id) {
+      this.chatManager?.addServerNotification("🔑 Ce véhicule est déjà à vous");
+      return;
+    }
+    this.networkService.sendClaimVehicle(vehicleId);
+  }
+
+  // Reprendre le contrôle du joueur à pied
+  leaveVehicle(position: { x: number; y: number; z: number }) {
+    this.player.teleport(position);
+    this.player.group.visible = true;
+  }
+
+  // Ouvrir ou fermer la carte plein écran (touche M)
+  toggleMap() {
+    if (!this.minimap) return;
+
+    // Carte ouverte : le jeu ne reçoit plus les entrées, le curseur est libéré
+    this.inputManager.setPaused(this.minimap.toggleFullscreen());
+  }
+
+  // Voitures libres et voitures du joueur, marquées sur la carte plein écran
+  getPointsOfInterest(): PointOfInterest[] {
+    return (this.vehicleManager?.getVehicleMarkers() ?? []).map((vehicle) => {
+      const owned = vehicle.ownerId !== null && vehicle.ownerId === this.player.id;
+      return {
+        x: vehicle.x,
+        z: vehicle.z,
+        kind: owned ? "ownedVehicle" : "vehicle",
+        label: owned ? "Votre véhicule" : "Véhicule",
+      };
     });
   }
 
+  // Viser le bloc au centre de l'écran ; le serveur valide puis diffuse la modification
+  handleBlockAction(action: "break" | "place") {
+    const blockManager = this.game.blockManager;
+    const camera = this.game.camera;
+    if (!blockManager || !camera || this.player.isDead) return;
+    if (this.vehicleManager?.isInVehicle()) return;
+
+    const direction = new THREE.Vector3();
+    camera.getWorldDirection(direction);
+    const hit = blockManager.raycastBlock(
+      camera.position,
+      direction,
+      BLOCK_REACH
+    );
+    if (!hit) return;
+
+    if (action === "break") {
+      this.networkService.breakBlock(hit.x, hit.y, hit.z);
+    } else {
+      this.networkService.placeBlock(
+        hit.x + hit.normal.x,
+        hit.y + hit.normal.y,
+        hit.z + hit.normal.z,
+        this.selectedBlockType
+      );
+    }
+  }
+
   showReconnectionMessage(playerName: string) {
     const messageDiv = document.createElement("div");
     messageDiv.style.cssText = `
@@ -280,11 +484,8 @@ class Main {
           this.player.id = playerData.id;
         }
 
-        this.player.group.position.set(
-          playerData.position.x,
-          playerData.position.y,
-          playerData.position.z
-        );
+        // Position de spawn donnée par le serveur (repart d'un historique vide)
+        this.player.teleport(playerData.position);
         this.player.group.rotation.set(
           playerData.rotation.x,
           playerData.rotation.y,
@@ -301,9 +502,6 @@ class Main {
           );
         }
       }
-
-      // Sauvegarder les données de session
-      this.networkService["sessionManager"].saveSession(playerData);
     });
 
     // Joueur déconnecté
@@ -315,28 +513,224 @@ class Main {
       }
     });
 
-    // Mouvement d'un joueur
-    this.networkService.onPlayerMoved((data) => {
-      this.otherPlayersManager?.updatePlayer(
+    // Snapshot des joueurs envoyé à chaque tick serveur
+    this.networkService.onWorldSnapshot((snapshot) => {
+      this.otherPlayersManager?.onSnapshotReceived(snapshot.serverTime);
+
+      snapshot.players.forEach((entry) => {
+        if (entry.id === this.player.id) {
+          // État faisant autorité pour notre joueur : réconcilier la prédiction
+          // (en voiture, c'est le véhicule qui porte la position)
+          if (entry.q > 0 && !this.vehicleManager?.isInVehicle()) {
+            this.player.reconcile(entry.q, {
+              x: entry.p[0],
+              y: entry.p[1],
+              z: entry.p[2],
+            });
+          }
+          return;
+        }
+
+        // Le joueur est dans une voiture : masquer son avatar
+        this.otherPlayersManager?.setPlayerVisible(entry.id, !entry.v);
+
+        const position = { x: entry.p[0], y: entry.p[1], z: entry.p[2] };
+        const rotation = { x: entry.r[0], y: entry.r[1], z: entry.r[2] };
+        this.otherPlayersManager?.updatePlayer(
+          entry.id,
+          position,
+          rotation,
+          entry.m === 1,
+          entry.s,
+          snapshot.serverTime
+        );
+
+        // Mettre à jour la minimap pour les autres joueurs
+        const player = this.otherPlayersManager
+          ?.getAllPlayers()
+          .find((p) => p.id === entry.id);
+        if (player && this.minimap) {
+          this.minimap.updateOtherPlayer(entry.id, position, player.name);
+        }
+      });
+    });
+
+    // Correction de position envoyée par le serveur (mouvement refusé)
+    this.networkService.onPositionCorrection((data) => {
+      this.player.reconcile(data.seq ?? 0, data.position);
+    });
+
+    // Véhicules de la room, tenus à jour par le serveur
+    this.networkService.onVehicles((vehicles) => {
+      this.vehicleManager?.setVehicles(vehicles);
+    });
+
+    this.networkService.onVehicleSpawned((vehicle) => {
+      this.vehicleManager?.addVehicle(vehicle);
+    });
+
+    this.networkService.onVehicleDespawned((data) => {
+      this.vehicleManager?.removeVehicle(data.vehicleId);
+    });
+
+    // Place accordée par le serveur ; pour nous, la conduite (ou le trajet) commence
+    this.networkService.onVehicleEntered((data) => {
+      const isLocal = data.playerId === this.player.id;
+      this.vehicleManager?.setOccupant(
+        data.vehicleId,
+        data.playerId,
+        data.seat,
+        isLocal
+      );
+      if (isLocal) {
+        this.player.group.visible = false;
+      }
+    });
+
+    this.networkService.onVehicleSeatChanged((data) => {
+      this.vehicleManager?.setOccupant(
+        data.vehicleId,
         data.playerId,
-        data.position,
-        data.rotation,
-        data.isMoving,
-        data.speed
+        data.to,
+        data.playerId === this.player.id
       );
-      // Mettre à jour la minimap pour les autres joueurs
-      const player = this.otherPlayersManager
-        ?.getAllPlayers()
-        .find((p) => p.id === data.playerId);
-      if (player && this.minimap) {
-        this.minimap.updateOtherPlayer(
-          data.playerId,
-          data.position,
-          player.name
+    });
+
+    // Carte reçue à l'arrivée ou après une régénération : redessiner la minimap
+    // et charger le monde (seed) de la room
+    this.networkService.onMapData((mapData) => {
+      this.minimap?.setMapData(mapData);
+      if (typeof mapData?.seed === "number") {
+        this.game.blockManager?.setWorldSeed(mapData.seed);
+      }
+    });
+
+    // Circulation des voitures conduites par le serveur
+    this.networkService.onTraffic((snapshot) => {
+      this.vehicleManager?.applyTraffic(snapshot.cars);
+    });
+
+    // Voitures conduites par les autres joueurs
+    this.networkService.onVehicleMoved((data) => {
+      this.vehicleManager?.applyRemoteState(data);
+    });
+
+    this.networkService.onVehicleExited((data) => {
+      const vehicleManager = this.vehicleManager;
+      if (!vehicleManager) return;
+      vehicleManager.clearOccupant(data.vehicleId, data.playerId);
+
+      // Le serveur nous a fait descendre (véhicule détruit) : rester sur place,
+      // là où il nous place aussi
+      if (
+        data.playerId === this.player.id &&
+        vehicleManager.getOccupiedVehicleId() === data.vehicleId
+      ) {
+        const position = vehicleManager.getOccupiedState()?.position;
+        vehicleManager.exit();
+        this.leaveVehicle(position ?? this.player.position);
+      }
+    });
+
+    this.networkService.onVehicleDamaged((data) => {
+      this.vehicleManager?.setHealth(data.vehicleId, data.health);
+      if (
+        data.health <= 0 &&
+        this.vehicleManager?.getOccupiedVehicleId() === data.vehicleId
+      ) {
+        this.chatManager?.addServerNotification(
+          "💥 Votre véhicule est détruit"
         );
       }
     });
 
+    this.networkService.onVehicleClaimed((data) => {
+      this.vehicleManager?.setOwner(data.vehicleId, data.ownerId);
+      if (data.ownerId === this.player.id) {
+        this.chatManager?.addServerNotification("🔑 Ce véhicule est à vous");
+      }
+    });
+
+    // Position de notre voiture refusée par le serveur
+    this.networkService.onVehicleCorrection((data) => {
+      this.vehicleManager?.applyCorrection(
+        data.vehicleId,
+        data.position,
+        data.heading
+      );
+    });
+
+    // Demande refusée ; si nous conduisions ce véhicule, revenir à pied
+    this.networkService.onVehicleRejected((data) => {
+      const vehicleManager = this.vehicleManager;
+      this.chatManager?.addServerNotification(
+        `🚗 ${VEHICLE_REJECTIONS[data.reason] ?? "Action refusée"}`
+      );
+      if (
+        !vehicleManager ||
+        vehicleManager.getDrivenVehicleId() !== data.vehicleId
+      ) {
+        return;
+      }
+
+      const position = vehicleManager.getDrivenState()?.position;
+      vehicleManager.exit();
+      this.leaveVehicle(position ?? this.player.position);
+    });
+
+    // Changement de room : les joueurs de l'ancienne room ne sont plus visibles
+    this.networkService.onRoomJoined((room) => {
+      // Le serveur nous a fait descendre ; la liste des véhicules suit
+      if (this.vehicleManager?.isInVehicle()) {
+        this.leaveVehicle(this.player.position);
+      }
+      // Le serveur valide désormais chaque déplacement : quitter le godmode
+      if (this.player.isGodmode) {
+        this.player.toggleGodmode();
+      }
+      this.vehicleManager?.reset();
+      this.otherPlayersManager?.clearAllPlayers();
+      this.minimap?.clearOtherPlayers();
+      this.chatManager?.addServerNotification(
+        `Room ${room.name} (${room.playerCount}/${room.maxPlayers} joueurs)`
+      );
+    });
+
+    this.networkService.onJoinError((error) => {
+      this.chatManager?.addServerNotification(`❌ ${error.message}`);
+    });
+
+    // Modification du monde validée par le serveur
+    this.networkService.onBlockUpdate((data) => {
+      this.game.blockManager?.applyBlockUpdate(
+        data.x,
+        data.y,
+        data.z,
+        data.type
+      );
+    });
+
+    // Heure du monde fixée par le serveur
+    this.networkService.onWorldClock((clock) => {
+      this.game.dayNightCycle?.setClock(clock);
+    });
+
+    // Météo de la room, tirée au sort par le serveur
+    this.networkService.onWeather((weather) => {
+      this.game.weatherSystem?.setWeather(weather);
+    });
+
+    this.networkService.onBlockEditRejected((data) => {
+      if (data.reason === "protected") {
+        this.chatManager?.addServerNotification("🛡️ Ce bloc est protégé");
+      }
+    });
+
+    // Session expirée ou refusée : revenir à l'écran de connexion
+    this.networkService.onAuthError(() => {
+      this.showLogin();
+    });
+
     // Joueurs existants
     this.networkService.onExistingPlayers((players) => {
       console.log("Joueurs existants:", players);
@@ -407,8 +801,32 @@ class Main {
 
     const deltaTime = this.game.clock.getDelta();
 
-    // Mettre à jour le joueur pour les contrôles et la caméra
-    this.player.update(deltaTime);
+    if (this.vehicleManager?.isDriving()) {
+      this.updateDriving(deltaTime);
+    } else if (this.vehicleManager?.isInVehicle()) {
+      this.followVehicle();
+    } else {
+      // Mettre à jour le joueur pour les contrôles et la caméra
+      this.player.update(deltaTime);
+    }
+    this.vehicleManager?.update(deltaTime);
+    this.vehicleManager?.updateChaseCamera(this.game.camera, deltaTime);
+
+    // Interpoler les autres joueurs à partir des snapshots reçus
+    this.otherPlayersManager?.update();
+
+    // Guidage GPS vers la destination choisie sur la carte
+    if (this.gps.update(this.player.position)) {
+      this.chatManager?.addServerNotification("🏁 Vous êtes arrivé à destination");
+    }
+    this.minimap?.setNavigation(
+      this.gps.getWaypoint(),
+      this.gps.getRoute(),
+      this.gps.getGuidance()
+    );
+    if (this.minimap?.isFullscreenOpen()) {
+      this.minimap.setPointsOfInterest(this.getPointsOfInterest());
+    }
 
     // Mettre à jour la minimap avec la position du Player
     if (this.minimap) {
@@ -418,23 +836,31 @@ class Main {
       );
     }
 
-    // DÉSACTIVER l'envoi de position du Player classique
-    // const now = Date.now();
-    // if (now - this.lastNetworkUpdate >= this.networkTickRate) {
-    //   if (
-    //     this.player.isMoving ||
-    //     this.player.isWalking ||
-    //     this.player.isSprinting
-    //   ) {
-    //     this.networkService.sendPlayerMove(
-    //       this.player.position,
-    //       this.player.rotation,
-    //       this.player.isMoving,
-    //       this.player.speed
-    //     );
-    //     this.lastNetworkUpdate = now;
-    //   }
-    // }
+    // Envoyer les entrées prédites (ou l'état de la voiture) au rythme du réseau
+    const now = Date.now();
+    if (now - this.lastNetworkUpdate >= this.networkTickRate) {
+      const vehicleId = this.vehicleManager?.getDrivenVehicleId();
+      const vehicleState = this.vehicleManager?.getDrivenState();
+      const inputs = this.player.consumeUnsentInputs();
+      if (vehicleId && vehicleState) {
+        this.networkService.sendVehicleMove(
+          vehicleId,
+          vehicleState.position,
+          vehicleState.heading,
+          vehicleState.velocity,
+          vehicleState.steering
+        );
+      } else if (this.player.id && !this.vehicleManager?.isInVehicle()) {
+        this.networkService.sendPlayerInputs(
+          inputs,
+          this.player.position,
+          this.player.rotation,
+          this.player.isMoving,
+          this.player.speed
+        );
+      }
+      this.lastNetworkUpdate = now;
+    }
 
     // Mettre à jour l'UI
     this.updateUI();
@@ -447,6 +873,34 @@ class Main {
     requestAnimationFrame(() => this.gameLoop());
   }
 
+  // Conduire avec la physique partagée ; le joueur suit sa voiture
+  updateDriving(deltaTime: number) {
+    const vehicleState = this.vehicleManager?.getDrivenState();
+    if (!this.vehicleManager || !vehicleState) return;
+
+    const grip = this.game.blockManager?.getGroundGrip() ?? 1;
+    this.vehicleManager.updateDriving(
+      this.inputManager.getVehicleInput(),
+      deltaTime,
+      grip
+    );
+
+    this.followVehicle();
+  }
+
+  // Le joueur suit sa voiture, conducteur ou passager
+  followVehicle() {
+    const vehicleState = this.vehicleManager?.getOccupiedState();
+    if (!vehicleState) return;
+
+    const { position } = vehicleState;
+    this.player.position.set(position.x, position.y, position.z);
+    this.player.group.position.copy(this.player.position);
+
+    // Charger le monde autour de la voiture, qui va plus vite qu'à pied
+    this.game.blockManager?.updatePlayerPosition(position.x, position.z);
+  }
+
   updateUI() {
     // Mettre à jour les FPS
     const fps = Math.round(1 / this.game.clock.getDelta());
@@ -1,6 +1,13 @@
 import { defineConfig } from 'vite'
+import { fileURLToPath } from 'node:url'
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      // Code de simulation partagé avec le backend (mouvement, collisions)
+      '@shared': fileURLToPath(new URL('../backend/src/shared', import.meta.url))
+    }
+  },
   server: {
     port: 3000,
     open: true,
@@ -10,6 +17,9 @@ export default defineConfig({
       '.ngrok.io',
       '.ngrok-free.app'
     ],
+    fs: {
+      allow: ['..'] // Autoriser l'accès au code partagé du backend
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:3002',